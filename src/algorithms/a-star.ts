@@ -7,50 +7,19 @@
  * and the path being constructed.
  */
 
-/**
- * Node Interface
- * 
- * Represents a vertex in the graph with position, cost, and status information
- * for visualization purposes.
- */
-export interface Node {
-  id: string;                                    // Unique node identifier
-  x: number;                                     // X coordinate for visualization
-  y: number;                                     // Y coordinate for visualization
-  status: 'unvisited' | 'visited' | 'current' | 'path' | 'start' | 'end' | 'open' | 'closed';  // Visual status
-  g: number;                                     // Cost from start to this node
-  h: number;                                     // Heuristic cost from this node to goal
-  f: number;                                     // Total cost (g + h)
-  parent?: string;                               // Parent node for path reconstruction
-}
-
-/**
- * Edge Interface
- * 
- * Represents a connection between two nodes with weight and status
- * for visualization.
- */
-export interface Edge {
-  from: string;                                  // Source node ID
-  to: string;                                    // Target node ID
-  weight: number;                                // Edge weight
-  status: 'normal' | 'visited' | 'path' | 'current';  // Visual status
-}
+import { createStats, snapshot, trackMemory } from './operation-stats';
+import { FrontierEntry, GraphFrame, TraceNode, TraceEdge, PseudocodeLine } from './trace';
 
-/**
- * Graph State Interface
- * 
- * Defines the structure for each visualization state in the A* animation.
- * Each state represents a snapshot of the pathfinding process at a specific point.
- */
-export interface GraphState {
-  nodes: Node[];         // Current state of all nodes
-  edges: Edge[];         // Current state of all edges
-  openSet: string[];     // Nodes to be evaluated (priority queue)
-  closedSet: string[];   // Already evaluated nodes
-  current: string | null; // Currently processing node ID
-  path: string[];        // Current best path found
-}
+export const A_STAR_PSEUDOCODE: PseudocodeLine[] = [
+  { id: 'start', text: 'procedure aStar(graph, start, goal)' },
+  { id: 'init', text: '  g[start] ← 0; f[start] ← h(start); open ← {start}' },
+  { id: 'loop', text: '  while open is not empty' },
+  { id: 'select', text: '    u ← node in open with the lowest f; move u to closed' },
+  { id: 'path', text: '    if u = goal: return path via parents' },
+  { id: 'neighbours', text: '    for each neighbour v of u not in closed' },
+  { id: 'update', text: '      if v not in open or g[u] + w(u, v) < g[v]: parent[v] ← u; g[v] ← g[u] + w(u, v); f[v] ← g[v] + h(v)' },
+  { id: 'no-path', text: '  return "no path"' },
+];
 
 /**
  * A* Algorithm
@@ -63,20 +32,24 @@ export interface GraphState {
  * @param edges - Array of graph edges
  * @param startNode - Starting node for the pathfinding
  * @param endNode - Target node for the pathfinding
+ * @param directed - Whether edges can only be followed from "from" to "to"
  * @returns Array of visualization states showing each step of the algorithm
  */
 export function aStar(
-  nodes: Node[],
-  edges: Edge[],
+  nodes: TraceNode[],
+  edges: TraceEdge[],
   startNode: string,
-  endNode: string
-): GraphState[] {
-  const states: GraphState[] = [];
+  endNode: string,
+  directed: boolean = false
+): GraphFrame[] {
+  const states: GraphFrame[] = [];
   const openSet: string[] = [startNode];
   const closedSet: Set<string> = new Set();
   const gScore: Map<string, number> = new Map();
   const fScore: Map<string, number> = new Map();
   const parent: Map<string, string> = new Map();
+  const stats = createStats();
+  trackMemory(stats, openSet.length);
 
   // Initialize scores
   nodes.forEach(node => {
@@ -87,6 +60,24 @@ export function aStar(
   gScore.set(startNode, 0);
   fScore.set(startNode, heuristic(nodes, startNode, endNode));
 
+  // Open set by f score; the stable sort keeps ties in the order the
+  // selection loop below picks them
+  const frontier = (mark?: FrontierEntry): FrontierEntry[] => {
+    const entries: FrontierEntry[] = openSet
+      .map(node => ({ node, priority: fScore.get(node)! }))
+      .sort((a, b) => a.priority - b.priority);
+    if (!mark) return entries;
+    return mark.change === 'popped' ? [mark, ...entries] : entries.map(entry => entry.node === mark.node ? mark : entry);
+  };
+
+  // Frontier and scores, for the watch panel
+  const scores = () => ({
+    open: [...openSet],
+    g: Object.fromEntries(gScore),
+    f: Object.fromEntries(fScore),
+    parent: Object.fromEntries(parent)
+  });
+
   // Initialize first state - shows the starting configuration
   const initialNodes = nodes.map(node => ({
     ...node,
@@ -98,12 +89,18 @@ export function aStar(
   }));
 
   states.push({
+    kind: 'graph',
     nodes: initialNodes,
     edges: edges.map(edge => ({ ...edge, status: 'normal' })),
     openSet: [...openSet],
     closedSet: [],
+    frontier: frontier(),
     current: null,
-    path: []
+    path: [],
+    line: 'start',
+    narration: `Open set holds ${startNode} with g = 0 and f = h = ${fScore.get(startNode)!.toFixed(1)}`,
+    watch: scores(),
+    stats: snapshot(stats)
   });
 
   // Main A* loop
@@ -115,6 +112,7 @@ export function aStar(
     for (let i = 1; i < openSet.length; i++) {
       const fCurrent = fScore.get(current) || Infinity;
       const fCandidate = fScore.get(openSet[i]) || Infinity;
+      stats.comparisons++;
       if (fCandidate < fCurrent) {
         current = openSet[i];
         currentIndex = i;
@@ -124,6 +122,7 @@ export function aStar(
     // Remove current from open set and add to closed set
     openSet.splice(currentIndex, 1);
     closedSet.add(current);
+    stats.nodesVisited++;
 
     // State: Show the current node being processed
     const updatedNodes = states[states.length - 1].nodes.map(node => ({
@@ -135,16 +134,23 @@ export function aStar(
                openSet.includes(node.id) ? 'open' : 'unvisited') as 'unvisited' | 'visited' | 'current' | 'path' | 'start' | 'end' | 'open' | 'closed',
       g: gScore.get(node.id) || 0,
       h: heuristic(nodes, node.id, endNode),
-      f: fScore.get(node.id) || 0
+      f: fScore.get(node.id) || 0,
+      parent: parent.get(node.id)
     }));
 
     states.push({
+      kind: 'graph',
       nodes: updatedNodes,
       edges: states[states.length - 1].edges,
       openSet: [...openSet],
       closedSet: Array.from(closedSet),
+      frontier: frontier({ node: current, priority: fScore.get(current)!, change: 'popped' }),
       current,
-      path: []
+      path: [],
+      line: 'select',
+      narration: `${current} has the lowest f (${fScore.get(current)!.toFixed(1)}); move it to the closed set`,
+      watch: { u: current, ...scores() },
+      stats: snapshot(stats)
     });
 
     // Check if we reached the goal
@@ -163,12 +169,18 @@ export function aStar(
       }));
 
       states.push({
+        kind: 'graph',
         nodes: finalNodes,
         edges: finalEdges,
         openSet: [...openSet],
         closedSet: Array.from(closedSet),
+        frontier: frontier(),
         current,
-        path
+        path,
+        line: 'path',
+        narration: `Reached the goal ${endNode} with cost ${gScore.get(endNode)!.toFixed(1)}; path ${path.join(' → ')}`,
+        watch: { u: current, ...scores(), path },
+        stats: snapshot(stats)
       });
       
       break;
@@ -176,7 +188,7 @@ export function aStar(
 
     // Get neighbors of current node
     const neighbors = edges
-      .filter(edge => edge.from === current || edge.to === current)
+      .filter(edge => edge.from === current || (!directed && edge.to === current))
       .map(edge => edge.from === current ? edge.to : edge.from);
 
     // Process each neighbor
@@ -185,17 +197,22 @@ export function aStar(
 
       const edge = edges.find(e => 
         (e.from === current && e.to === neighbor) || 
-        (e.to === current && e.from === neighbor)
+        (!directed && e.to === current && e.from === neighbor)
       );
       
       if (!edge) continue;
 
-      const tentativeGScore = (gScore.get(current) || 0) + edge.weight;
+      const tentativeGScore = (gScore.get(current) || 0) + (edge.weight ?? 1);
+      stats.edgesRelaxed++;
 
-      if (!openSet.includes(neighbor)) {
+      const previousF = fScore.get(neighbor)!;
+      const pushed = !openSet.includes(neighbor);
+      if (pushed) {
         openSet.push(neighbor);
-      } else if (tentativeGScore >= (gScore.get(neighbor) || Infinity)) {
-        continue;
+        trackMemory(stats, openSet.length + closedSet.size);
+      } else {
+        stats.comparisons++;
+        if (tentativeGScore >= (gScore.get(neighbor) || Infinity)) continue;
       }
 
       // This path is better than any previous one
@@ -215,20 +232,43 @@ export function aStar(
         status: (node.id === neighbor ? 'open' : node.status) as 'unvisited' | 'visited' | 'current' | 'path' | 'start' | 'end' | 'open' | 'closed',
         g: gScore.get(node.id) || 0,
         h: heuristic(nodes, node.id, endNode),
-        f: fScore.get(node.id) || 0
+        f: fScore.get(node.id) || 0,
+        parent: parent.get(node.id)
       }));
 
       states.push({
+        kind: 'graph',
         nodes: neighborUpdatedNodes,
         edges: updatedEdges,
         openSet: [...openSet],
         closedSet: Array.from(closedSet),
+        frontier: frontier(pushed
+          ? { node: neighbor, priority: fScore.get(neighbor)!, change: 'pushed' }
+          : { node: neighbor, priority: fScore.get(neighbor)!, change: 'decreased', previous: previousF }),
         current,
-        path: []
+        path: [],
+        line: 'update',
+        narration: `Reach ${neighbor} via ${current} with g = ${tentativeGScore.toFixed(1)}, f = ${fScore.get(neighbor)!.toFixed(1)}`,
+        watch: { u: current, v: neighbor, 'h(v)': heuristic(nodes, neighbor, endNode), ...scores() },
+        stats: snapshot(stats)
       });
     }
   }
 
+  // The open set ran out before the goal was closed
+  if (!closedSet.has(endNode)) {
+    states.push({
+      ...states[states.length - 1],
+      openSet: [],
+      frontier: frontier(),
+      current: null,
+      path: [],
+      line: 'no-path',
+      narration: `The open set is empty and ${endNode} was never reached, so there is no path from ${startNode}`,
+      watch: scores()
+    });
+  }
+
   return states;
 }
 
@@ -243,7 +283,7 @@ export function aStar(
  * @param to - Target node ID
  * @returns Heuristic cost estimate
  */
-function heuristic(nodes: Node[], from: string, to: string): number {
+function heuristic(nodes: TraceNode[], from: string, to: string): number {
   const fromNode = nodes.find(n => n.id === from);
   const toNode = nodes.find(n => n.id === to);
   
@@ -0,0 +1,259 @@
+/**
+ * Bellman-Ford Algorithm Implementation
+ *
+ * Generates visualization states for the Bellman-Ford shortest path algorithm.
+ * Each round relaxes every edge once, so negative weights are handled; a final
+ * pass over the edges detects a negative cycle reachable from the start, which
+ * is highlighted in the last state instead of a path.
+ */
+
+import { createStats, snapshot, trackMemory } from './operation-stats';
+import { GraphFrame, TraceNode, TraceEdge, PseudocodeLine, NodeStatus, EdgeStatus } from './trace';
+
+export const BELLMAN_FORD_PSEUDOCODE: PseudocodeLine[] = [
+  { id: 'start', text: 'procedure bellmanFord(graph, start, goal)' },
+  { id: 'init', text: '  dist[start] ← 0; dist[v] ← ∞ for every other v' },
+  { id: 'round', text: '  repeat |V| - 1 times' },
+  { id: 'edge', text: '    for each edge (u, v) with weight w' },
+  { id: 'relax', text: '      if dist[u] + w < dist[v]: dist[v] ← dist[u] + w; parent[v] ← u' },
+  { id: 'early', text: '    if no distance changed this round: stop early' },
+  { id: 'check', text: '  for each edge (u, v): if dist[u] + w < dist[v]' },
+  { id: 'cycle', text: '    report the negative cycle through v' },
+  { id: 'path', text: '  return path via parents' },
+];
+
+// One direction of travel along an edge
+interface Arc {
+  from: string;
+  to: string;
+  weight: number;
+}
+
+const formatDistance = (distance: number) => (distance === Infinity ? '∞' : String(distance));
+
+/**
+ * Bellman-Ford Algorithm
+ *
+ * @param nodes - Array of graph nodes
+ * @param edges - Array of graph edges; weights may be negative
+ * @param startNode - Node the distances are measured from
+ * @param endNode - Goal node whose shortest path is highlighted at the end
+ * @param directed - Whether edges can only be followed from "from" to "to"
+ * @returns Array of visualization states showing each step of the algorithm
+ */
+export function bellmanFord(
+  nodes: TraceNode[],
+  edges: TraceEdge[],
+  startNode: string,
+  endNode?: string,
+  directed: boolean = false
+): GraphFrame[] {
+  const states: GraphFrame[] = [];
+  const distances = new Map<string, number>();
+  const parent = new Map<string, string>();
+  const stats = createStats();
+
+  // An undirected edge can be relaxed in either direction
+  const arcs: Arc[] = edges.flatMap(edge => {
+    const weight = edge.weight ?? 1;
+    const forward = { from: edge.from, to: edge.to, weight };
+    return directed ? [forward] : [forward, { from: edge.to, to: edge.from, weight }];
+  });
+
+  nodes.forEach(node => {
+    distances.set(node.id, node.id === startNode ? 0 : Infinity);
+  });
+  trackMemory(stats, distances.size);
+
+  const matches = (edge: TraceEdge, from: string, to: string) =>
+    (edge.from === from && edge.to === to) || (!directed && edge.from === to && edge.to === from);
+
+  // Nodes coloured by whether they have been reached; the edges of the
+  // current shortest path tree in green
+  const frame = (
+    fields: Partial<GraphFrame>,
+    round: number,
+    arc?: Arc
+  ): GraphFrame => ({
+    kind: 'graph',
+    nodes: nodes.map(node => ({
+      ...node,
+      status: (node.id === arc?.from ? 'current' :
+              node.id === startNode ? 'start' :
+              distances.get(node.id) !== Infinity ? 'visited' : 'unvisited') as NodeStatus,
+      distance: distances.get(node.id),
+      parent: parent.get(node.id)
+    })),
+    edges: edges.map(edge => ({
+      ...edge,
+      status: (arc && matches(edge, arc.from, arc.to) ? 'current' :
+              parent.get(edge.to) === edge.from || (!directed && parent.get(edge.from) === edge.to) ? 'visited' :
+              'normal') as EdgeStatus
+    })),
+    distances: Object.fromEntries(distances),
+    current: arc?.from ?? null,
+    watch: {
+      round,
+      ...(arc ? { u: arc.from, v: arc.to, w: arc.weight } : {}),
+      dist: Object.fromEntries(distances),
+      parent: Object.fromEntries(parent)
+    },
+    stats: snapshot(stats),
+    ...fields
+  });
+
+  states.push(frame({
+    line: 'init',
+    narration: `${startNode} starts at distance 0, every other node at ∞; relax all ${arcs.length} edges up to ${Math.max(0, nodes.length - 1)} times`
+  }, 0));
+
+  // Relaxes every edge once; returns whether any distance changed
+  const relaxAll = (round: number): boolean => {
+    let changed = false;
+
+    for (const arc of arcs) {
+      const from = distances.get(arc.from)!;
+      const previous = distances.get(arc.to)!;
+      stats.comparisons++;
+      // Edges out of unreached nodes cannot improve anything
+      if (from === Infinity) continue;
+
+      const candidate = from + arc.weight;
+      stats.edgesRelaxed++;
+
+      if (candidate < previous) {
+        distances.set(arc.to, candidate);
+        parent.set(arc.to, arc.from);
+        trackMemory(stats, distances.size + parent.size);
+        changed = true;
+        states.push(frame({
+          line: 'relax',
+          narration: `${arc.from} → ${arc.to}: ${from} + ${arc.weight} = ${candidate} < ${formatDistance(previous)}, so update ${arc.to}`
+        }, round, arc));
+      } else {
+        states.push(frame({
+          line: 'edge',
+          narration: `${arc.from} → ${arc.to}: ${from} + ${arc.weight} = ${candidate} ≥ ${formatDistance(previous)}, no change`
+        }, round, arc));
+      }
+    }
+
+    return changed;
+  };
+
+  let rounds = 0;
+  let settled = false;
+  for (let round = 1; round < nodes.length; round++) {
+    rounds = round;
+    states.push(frame({
+      line: 'round',
+      narration: `Round ${round} of ${nodes.length - 1}: relax every edge`
+    }, round));
+
+    if (!relaxAll(round)) {
+      settled = true;
+      states.push(frame({
+        line: 'early',
+        narration: `No distance changed in round ${round}, so the distances are final`
+      }, round));
+      break;
+    }
+  }
+
+  // After |V| - 1 rounds any edge that still relaxes lies on, or leads from,
+  // a negative cycle
+  if (!settled) {
+    states.push(frame({
+      line: 'check',
+      narration: 'Check every edge once more: any further improvement means a negative cycle'
+    }, rounds));
+
+    for (const arc of arcs) {
+      const from = distances.get(arc.from)!;
+      stats.comparisons++;
+      if (from === Infinity || from + arc.weight >= distances.get(arc.to)!) continue;
+
+      parent.set(arc.to, arc.from);
+      const cycle = findCycle(parent, arc.to, nodes.length);
+      const cycleArcs = cycle.map((id, i) => [id, cycle[(i + 1) % cycle.length]]);
+      const total = cycleArcs.reduce((sum, [a, b]) => sum + arcs.find(candidate => candidate.from === a && candidate.to === b)!.weight, 0);
+      const last = frame({
+        line: 'cycle',
+        narration: `${arc.from} → ${arc.to} still relaxes (${from} + ${arc.weight} < ${distances.get(arc.to)}): ` +
+          `the cycle ${[...cycle, cycle[0]].join(' → ')} has total weight ${total}, so no shortest paths exist`,
+        negativeCycle: cycle
+      }, rounds, arc);
+
+      states.push({
+        ...last,
+        nodes: last.nodes.map(node => ({ ...node, status: cycle.includes(node.id) ? 'cycle' : node.status })),
+        edges: last.edges.map(edge => ({
+          ...edge,
+          status: cycleArcs.some(([a, b]) => matches(edge, a, b)) ? 'cycle' : edge.status
+        })),
+        current: null
+      });
+      return states;
+    }
+
+    states.push(frame({
+      line: 'check',
+      narration: 'No edge relaxes any further, so there is no negative cycle'
+    }, rounds));
+  }
+
+  if (!endNode) return states;
+
+  const distance = distances.get(endNode);
+  if (distance === undefined || distance === Infinity) {
+    states.push(frame({
+      line: 'path',
+      narration: `${endNode} cannot be reached from ${startNode}`,
+      path: []
+    }, rounds));
+    return states;
+  }
+
+  const path = [endNode];
+  while (path[0] !== startNode) path.unshift(parent.get(path[0])!);
+  const last = frame({
+    line: 'path',
+    narration: `Shortest distance to ${endNode} is ${distance}; path ${path.join(' → ')}`,
+    path
+  }, rounds);
+
+  states.push({
+    ...last,
+    nodes: last.nodes.map(node => ({ ...node, status: path.includes(node.id) ? 'path' : node.status })),
+    edges: last.edges.map(edge => ({
+      ...edge,
+      status: path.some((id, i) => i > 0 && matches(edge, path[i - 1], id)) ? 'path' : edge.status
+    })),
+    watch: { ...last.watch, path }
+  });
+
+  return states;
+}
+
+/**
+ * Find Cycle
+ *
+ * Walks parent pointers back from a node that relaxed after |V| - 1 rounds.
+ * After |V| steps the walk is certainly inside the cycle; following it round
+ * once more collects the cycle, returned in the direction of its edges.
+ *
+ * @param parent - Map of each node to its predecessor
+ * @param from - Node whose distance still improved
+ * @param size - Number of nodes in the graph
+ * @returns The node IDs around the cycle
+ */
+function findCycle(parent: Map<string, string>, from: string, size: number): string[] {
+  let node = from;
+  for (let i = 0; i < size; i++) node = parent.get(node)!;
+
+  const cycle = [node];
+  for (let next = parent.get(node)!; next !== node; next = parent.get(next)!) {
+    cycle.unshift(next);
+  }
+  return cycle;
+}
@@ -6,45 +6,19 @@
  * the queue of nodes to visit, and the path taken through the graph.
  */
 
-/**
- * Node Interface
- * 
- * Represents a vertex in the graph with position and status information
- * for visualization purposes.
- */
-export interface Node {
-  id: string;                                    // Unique node identifier
-  x: number;                                     // X coordinate for visualization
-  y: number;                                     // Y coordinate for visualization
-  status: 'unvisited' | 'visited' | 'current' | 'path' | 'start' | 'end';  // Visual status
-}
-
-/**
- * Edge Interface
- * 
- * Represents a connection between two nodes with optional weight
- * and status for visualization.
- */
-export interface Edge {
-  from: string;                                  // Source node ID
-  to: string;                                    // Target node ID
-  weight?: number;                               // Edge weight (for weighted graphs)
-  status: 'normal' | 'visited' | 'path' | 'current';  // Visual status
-}
-
-/**
- * Graph State Interface
- * 
- * Defines the structure for each visualization state in the BFS animation.
- * Each state represents a snapshot of the graph traversal at a specific point.
- */
-export interface GraphState {
-  nodes: Node[];         // Current state of all nodes
-  edges: Edge[];         // Current state of all edges
-  queue: string[];       // Current queue of nodes to visit
-  visited: string[];     // Array of visited node IDs
-  current: string | null; // Currently processing node ID
-}
+import { createStats, snapshot, trackMemory } from './operation-stats';
+import { GraphFrame, TraceNode, TraceEdge, PseudocodeLine } from './trace';
+
+export const BFS_PSEUDOCODE: PseudocodeLine[] = [
+  { id: 'start', text: 'procedure bfs(graph, start, goal)' },
+  { id: 'init', text: '  queue ← [start]' },
+  { id: 'loop', text: '  while queue is not empty' },
+  { id: 'visit', text: '    u ← dequeue(queue); mark u visited' },
+  { id: 'path', text: '    if u = goal: return path via parents' },
+  { id: 'neighbours', text: '    for each neighbour v of u' },
+  { id: 'enqueue', text: '      if v not seen: parent[v] ← u; enqueue(queue, v)' },
+  { id: 'no-path', text: '  return "no path"' },
+];
 
 /**
  * Breadth-First Search Algorithm
@@ -58,18 +32,22 @@ export interface GraphState {
  * @param edges - Array of graph edges
  * @param startNode - Starting node for the traversal
  * @param endNode - Optional target node for pathfinding
+ * @param directed - Whether edges can only be followed from "from" to "to"
  * @returns Array of visualization states showing each step of the algorithm
  */
 export function breadthFirstSearch(
-  nodes: Node[],
-  edges: Edge[],
+  nodes: TraceNode[],
+  edges: TraceEdge[],
   startNode: string,
-  endNode?: string
-): GraphState[] {
-  const states: GraphState[] = [];
+  endNode?: string,
+  directed: boolean = false
+): GraphFrame[] {
+  const states: GraphFrame[] = [];
   const queue: string[] = [startNode];           // Queue of nodes to visit
   const visited: Set<string> = new Set();       // Set of visited nodes
   const parent: Map<string, string> = new Map(); // For reconstructing paths
+  const stats = createStats();
+  trackMemory(stats, queue.length);
 
   // Initialize first state - shows the starting configuration
   const initialNodes = nodes.map(node => ({
@@ -78,11 +56,16 @@ export function breadthFirstSearch(
   }));
 
   states.push({
+    kind: 'graph',
     nodes: initialNodes,
     edges: edges.map(edge => ({ ...edge, status: 'normal' })),
     queue: [...queue],
     visited: [],
-    current: null
+    current: null,
+    line: 'start',
+    narration: `Start at ${startNode} with it alone in the queue`,
+    watch: { queue: [...queue] },
+    stats: snapshot(stats)
   });
 
   // Main BFS loop - process nodes in breadth-first order
@@ -93,6 +76,7 @@ export function breadthFirstSearch(
     if (visited.has(current)) continue;
     
     visited.add(current);
+    stats.nodesVisited++;
 
     // State: Show the current node being processed
     // This creates the visual effect of highlighting the current node
@@ -103,23 +87,30 @@ export function breadthFirstSearch(
     }));
 
     states.push({
+      kind: 'graph',
       nodes: updatedNodes,
       edges: states[states.length - 1].edges,
       queue: [...queue],
       visited: Array.from(visited),
-      current
+      current,
+      line: 'visit',
+      narration: `Dequeue ${current} and visit it; queue: ${queue.length > 0 ? queue.join(', ') : 'empty'}`,
+      watch: { u: current, queue: [...queue], parent: Object.fromEntries(parent) },
+      stats: snapshot(stats)
     });
 
     // Find all neighbors of the current node
     const neighbors = edges
-      .filter(edge => edge.from === current || edge.to === current)
+      .filter(edge => edge.from === current || (!directed && edge.to === current))
       .map(edge => edge.from === current ? edge.to : edge.from);
 
     // Process each neighbor
     for (const neighbor of neighbors) {
+      stats.edgesRelaxed++;
       if (!visited.has(neighbor) && !queue.includes(neighbor)) {
         queue.push(neighbor); // Add unvisited neighbor to queue
         parent.set(neighbor, current); // Track parent for path reconstruction
+        trackMemory(stats, queue.length + visited.size);
 
         // State: Show the edge being explored
         // This creates the visual effect of highlighting the current edge
@@ -130,11 +121,16 @@ export function breadthFirstSearch(
         }));
 
         states.push({
+          kind: 'graph',
           nodes: updatedNodes,
           edges: updatedEdges,
           queue: [...queue],
           visited: Array.from(visited),
-          current
+          current,
+          line: 'enqueue',
+          narration: `${neighbor} has not been seen, so enqueue it with parent ${current}`,
+          watch: { u: current, v: neighbor, queue: [...queue], parent: Object.fromEntries(parent) },
+          stats: snapshot(stats)
         });
       }
     }
@@ -159,17 +155,33 @@ export function breadthFirstSearch(
       }));
 
       states.push({
+        kind: 'graph',
         nodes: finalNodes,
         edges: finalEdges,
         queue: [...queue],
         visited: Array.from(visited),
-        current
+        current,
+        line: 'path',
+        narration: `Reached ${endNode}; following parents back gives ${path.join(' → ')}`,
+        watch: { u: current, queue: [...queue], parent: Object.fromEntries(parent), path },
+        stats: snapshot(stats)
       });
       
       break; // Exit early since we found the target
     }
   }
 
+  // The queue ran out before reaching the goal
+  if (endNode && !visited.has(endNode)) {
+    states.push({
+      ...states[states.length - 1],
+      current: null,
+      line: 'no-path',
+      narration: `The queue is empty and ${endNode} was never reached, so there is no path from ${startNode}`,
+      watch: { queue: [], parent: Object.fromEntries(parent) }
+    });
+  }
+
   return states;
 }
 
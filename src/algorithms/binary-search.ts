@@ -6,22 +6,19 @@
  * that describes what the user should see at that moment in the animation.
  */
 
-/**
- * Bar State Interface
- * 
- * Defines the structure for each visualization state in the binary search animation.
- * Each state represents a snapshot of the array at a specific point in the algorithm.
- */
-export interface BarState {
-  values: number[];      // Current array values
-  comparing: number[];   // Indices of elements currently being compared
-  searching: number[];   // Indices of elements in the current search range
-  found: number[];       // Index of the found element (if found)
-  target: number;        // The value being searched for
-  left: number;          // Left boundary of current search range
-  right: number;         // Right boundary of current search range
-  mid: number;           // Middle index of current search range
-}
+import { createStats, snapshot } from './operation-stats';
+import { ArrayFrame, PseudocodeLine } from './trace';
+
+export const BINARY_SEARCH_PSEUDOCODE: PseudocodeLine[] = [
+  { id: 'start', text: 'procedure binarySearch(a, target)' },
+  { id: 'init', text: '  low ← 0; high ← n - 1' },
+  { id: 'loop', text: '  while low ≤ high' },
+  { id: 'mid', text: '    mid ← ⌊(low + high) / 2⌋' },
+  { id: 'found', text: '    if a[mid] = target: return mid' },
+  { id: 'go-left', text: '    else if a[mid] > target: high ← mid - 1' },
+  { id: 'go-right', text: '    else: low ← mid + 1' },
+  { id: 'not-found', text: '  return -1' },
+];
 
 /**
  * Binary Search Algorithm
@@ -40,41 +37,60 @@ export interface BarState {
  * @param target - The value to search for
  * @returns Array of visualization states showing each step of the algorithm
  */
-export function binarySearch(arr: number[], target: number): BarState[] {
-  const states: BarState[] = [];
+export function binarySearch(arr: number[], target: number): ArrayFrame[] {
+  const states: ArrayFrame[] = [];
   const array = [...arr]; // Create a copy to avoid mutating the original
   let left = 0;
   let right = array.length - 1;
+  const stats = createStats();
 
   // Add initial state - shows the sorted array and search range
   states.push({
+    kind: 'array',
     values: [...array],
     comparing: [],
+    swapping: [],
+    sorted: [],
     searching: Array.from({ length: array.length }, (_, i) => i),
     found: [],
     target,
-    left,
-    right,
-    mid: -1
+    low: left,
+    high: right,
+    mid: -1,
+    line: 'init',
+    narration: array.length > 0
+      ? `Search the sorted array for ${target}; low = ${left}, high = ${right}`
+      : 'The array is empty, so there is nothing to search',
+    watch: { target, left, right },
+    stats: snapshot(stats)
   });
 
   // Main binary search loop
   while (left <= right) {
     const mid = Math.floor((left + right) / 2);
+    stats.comparisons++;
+    stats.accesses++;
 
     // State: Show the current search range and middle element
     // This creates the visual effect of highlighting the search range
     const searchingIndices = Array.from({ length: right - left + 1 }, (_, i) => left + i);
     
     states.push({
+      kind: 'array',
       values: [...array],
       comparing: [mid],
+      swapping: [],
+      sorted: [],
       searching: searchingIndices,
       found: [],
       target,
-      left,
-      right,
-      mid
+      low: left,
+      high: right,
+      mid,
+      line: 'mid',
+      narration: `mid = ⌊(${left} + ${right}) / 2⌋ = ${mid}; compare a[${mid}] = ${array[mid]} with ${target}`,
+      watch: { target, left, right, mid, 'a[mid]': array[mid] },
+      stats: snapshot(stats)
     });
 
     // Check if the middle element is the target
@@ -82,19 +98,27 @@ export function binarySearch(arr: number[], target: number): BarState[] {
       // State: Show that the target was found
       // This creates the visual effect of highlighting the found element
       states.push({
+        kind: 'array',
         values: [...array],
         comparing: [],
+        swapping: [],
+        sorted: [],
         searching: [],
         found: [mid],
         target,
-        left,
-        right,
-        mid
+        low: left,
+        high: right,
+        mid,
+        line: 'found',
+        narration: `a[${mid}] = ${target}, found at index ${mid}`,
+        watch: { target, left, right, mid, 'a[mid]': array[mid] },
+        stats: snapshot(stats)
       });
       return states;
     }
 
     // If target is smaller than middle element, search left half
+    stats.comparisons++;
     if (array[mid] > target) {
       right = mid - 1;
       
@@ -103,14 +127,21 @@ export function binarySearch(arr: number[], target: number): BarState[] {
       const newSearchingIndices = Array.from({ length: right - left + 1 }, (_, i) => left + i);
       
       states.push({
+        kind: 'array',
         values: [...array],
         comparing: [],
+        swapping: [],
+        sorted: [],
         searching: newSearchingIndices,
         found: [],
         target,
-        left,
-        right,
-        mid
+        low: left,
+        high: right,
+        mid,
+        line: 'go-left',
+        narration: `${array[mid]} > ${target}, so the target can only be left of mid; high = ${right}`,
+        watch: { target, left, right, mid, 'a[mid]': array[mid] },
+        stats: snapshot(stats)
       });
     } else {
       // If target is larger than middle element, search right half
@@ -121,14 +152,21 @@ export function binarySearch(arr: number[], target: number): BarState[] {
       const newSearchingIndices = Array.from({ length: right - left + 1 }, (_, i) => left + i);
       
       states.push({
+        kind: 'array',
         values: [...array],
         comparing: [],
+        swapping: [],
+        sorted: [],
         searching: newSearchingIndices,
         found: [],
         target,
-        left,
-        right,
-        mid
+        low: left,
+        high: right,
+        mid,
+        line: 'go-right',
+        narration: `${array[mid]} < ${target}, so the target can only be right of mid; low = ${left}`,
+        watch: { target, left, right, mid, 'a[mid]': array[mid] },
+        stats: snapshot(stats)
       });
     }
   }
@@ -136,14 +174,21 @@ export function binarySearch(arr: number[], target: number): BarState[] {
   // State: Show that the target was not found
   // This creates the visual effect of showing the search completed unsuccessfully
   states.push({
+    kind: 'array',
     values: [...array],
     comparing: [],
+    swapping: [],
+    sorted: [],
     searching: [],
     found: [],
     target,
-    left: -1,
-    right: -1,
-    mid: -1
+    low: -1,
+    high: -1,
+    mid: -1,
+    line: 'not-found',
+    narration: `The range is empty, so ${target} is not in the array`,
+    watch: { target, left, right },
+    stats: snapshot(stats)
   });
 
   return states;
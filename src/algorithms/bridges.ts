@@ -0,0 +1,210 @@
+/**
+ * Bridges and Articulation Points Implementation
+ *
+ * Generates visualization states for the low-link search for bridges and
+ * articulation points of an undirected graph. A recursive DFS gives every
+ * node a discovery number d and a low-link number low, the smallest
+ * discovery number its subtree reaches through one back edge; both are
+ * drawn under the node. A tree edge (u, v) is a bridge when low[v] > d[u],
+ * and u is an articulation point when low[v] ≥ d[u] for some child v
+ * (for the root of a search: when it has two or more children).
+ */
+
+import { createStats, snapshot, trackMemory } from './operation-stats';
+import { createCallStack, enterCall, exitCall, snapshotCalls } from './call-stack';
+import { GraphFrame, TraceNode, TraceEdge, PseudocodeLine, NodeStatus, EdgeStatus } from './trace';
+
+export const BRIDGES_PSEUDOCODE: PseudocodeLine[] = [
+  { id: 'start', text: 'procedure bridges(graph)' },
+  { id: 'loop', text: '  for each undiscovered node s: visit(s, none)' },
+  { id: 'visit', text: 'procedure visit(u, parentEdge): d[u] ← low[u] ← next number' },
+  { id: 'edge', text: '  for each edge e = (u, v) other than parentEdge' },
+  { id: 'back', text: '    if v is discovered: low[u] ← min(low[u], d[v])' },
+  { id: 'recurse', text: '    else: visit(v, e); low[u] ← min(low[u], low[v])' },
+  { id: 'bridge', text: '      if low[v] > d[u]: e is a bridge' },
+  { id: 'articulation', text: '      if low[v] ≥ d[u] and u is not the root: u is an articulation point' },
+  { id: 'root', text: '  if u is the root and has two or more children: u is an articulation point' },
+  { id: 'done', text: 'return the bridges and articulation points' },
+];
+
+const label = (edge: TraceEdge) => `${edge.from}–${edge.to}`;
+
+/**
+ * Bridges and Articulation Points
+ *
+ * Edge directions are ignored: bridges and articulation points are defined
+ * on undirected graphs. The edge back to a node's parent is skipped by
+ * identity rather than by endpoint, so of two parallel edges neither is a bridge.
+ *
+ * @param nodes - Array of graph nodes
+ * @param edges - Array of graph edges
+ * @param directed - Whether the editor graph is directed (only mentioned in the narration)
+ * @returns Array of visualization states showing each step of the algorithm
+ */
+export function bridgesAndArticulationPoints(
+  nodes: TraceNode[],
+  edges: TraceEdge[],
+  directed: boolean = false
+): GraphFrame[] {
+  const states: GraphFrame[] = [];
+  const discovery = new Map<string, number>();
+  const low = new Map<string, number>();
+  const finished = new Set<string>();
+  const explored = new Set<TraceEdge>();
+  const bridges = new Set<TraceEdge>();
+  const articulation = new Set<string>();
+  const path: string[] = [];           // Nodes whose visit is still running, outermost first
+  const calls = createCallStack();
+  const stats = createStats();
+
+  const frame = (
+    fields: Partial<GraphFrame>,
+    current: string | null,
+    edge?: TraceEdge
+  ): GraphFrame => ({
+    kind: 'graph',
+    nodes: nodes.map(node => ({
+      ...node,
+      status: (node.id === current ? 'current' :
+              articulation.has(node.id) ? 'articulation' :
+              finished.has(node.id) ? 'visited' :
+              discovery.has(node.id) ? 'open' : 'unvisited') as NodeStatus,
+      ...(discovery.has(node.id) ? { annotations: { d: discovery.get(node.id)!, low: low.get(node.id)! } } : {})
+    })),
+    edges: edges.map(e => ({
+      ...e,
+      status: (e === edge ? 'current' :
+              bridges.has(e) ? 'bridge' :
+              explored.has(e) ? 'visited' : 'normal') as EdgeStatus
+    })),
+    stack: [...path],
+    visited: Array.from(discovery.keys()),
+    current,
+    callStack: snapshotCalls(calls),
+    watch: {
+      ...(current !== null ? { u: current } : {}),
+      ...(edge ? { v: edge.from === current ? edge.to : edge.from } : {}),
+      d: Object.fromEntries(discovery),
+      low: Object.fromEntries(low),
+      bridges: Array.from(bridges).map(label),
+      articulation: Array.from(articulation)
+    },
+    stats: snapshot(stats),
+    ...fields
+  });
+
+  const visit = (u: string, parentEdge: TraceEdge | null) => {
+    enterCall(calls, { name: 'visit', node: u });
+    discovery.set(u, discovery.size);
+    low.set(u, discovery.get(u)!);
+    path.push(u);
+    stats.nodesVisited++;
+    trackMemory(stats, discovery.size * 2 + path.length);
+
+    states.push(frame({
+      line: 'visit',
+      narration: `visit(${u}): d[${u}] = low[${u}] = ${discovery.get(u)}`
+    }, u));
+
+    let children = 0;
+    for (const edge of edges) {
+      if ((edge.from !== u && edge.to !== u) || edge === parentEdge) continue;
+      const v = edge.from === u ? edge.to : edge.from;
+      stats.edgesRelaxed++;
+      stats.comparisons++;
+
+      if (discovery.has(v)) {
+        // Each back edge is seen from both ends; only the descendant's end can lower a low-link
+        if (explored.has(edge)) {
+          states.push(frame({
+            line: 'edge',
+            narration: `${u}–${v}: ${v} was discovered later and this back edge was already counted from its end`
+          }, u, edge));
+          continue;
+        }
+        explored.add(edge);
+        const before = low.get(u)!;
+        low.set(u, Math.min(before, discovery.get(v)!));
+        stats.writes++;
+        states.push(frame({
+          line: 'back',
+          narration: `${u}–${v}: ${v} is already discovered, so this is a back edge; low[${u}] = min(${before}, d[${v}] = ${discovery.get(v)}) = ${low.get(u)}`
+        }, u, edge));
+        continue;
+      }
+
+      explored.add(edge);
+      children++;
+      states.push(frame({
+        line: 'recurse',
+        narration: `${u}–${v}: ${v} is undiscovered, so call visit(${v})`
+      }, u, edge));
+      visit(v, edge);
+
+      const before = low.get(u)!;
+      low.set(u, Math.min(before, low.get(v)!));
+      stats.writes++;
+      stats.comparisons += 2;
+      states.push(frame({
+        line: 'recurse',
+        narration: `Back in ${u}: low[${u}] = min(${before}, low[${v}] = ${low.get(v)}) = ${low.get(u)}`
+      }, u, edge));
+
+      if (low.get(v)! > discovery.get(u)!) {
+        bridges.add(edge);
+        states.push(frame({
+          line: 'bridge',
+          narration: `low[${v}] = ${low.get(v)} > d[${u}] = ${discovery.get(u)}: nothing below ${v} reaches back past ${u}, so ${label(edge)} is a bridge`
+        }, u));
+      }
+      if (parentEdge !== null && low.get(v)! >= discovery.get(u)! && !articulation.has(u)) {
+        articulation.add(u);
+        states.push(frame({
+          line: 'articulation',
+          narration: `low[${v}] = ${low.get(v)} ≥ d[${u}] = ${discovery.get(u)}: removing ${u} would cut ${v}'s subtree off, so ${u} is an articulation point`
+        }, u));
+      }
+    }
+
+    if (parentEdge === null) {
+      stats.comparisons++;
+      if (children >= 2) articulation.add(u);
+      states.push(frame({
+        line: 'root',
+        narration: children >= 2
+          ? `${u} is the root of its search and has ${children} children, which only meet through ${u}: it is an articulation point`
+          : `${u} is the root of its search and has ${children === 1 ? 'one child' : 'no children'}, so it is not an articulation point`
+      }, u));
+    }
+
+    path.pop();
+    finished.add(u);
+    exitCall(calls);
+  };
+
+  states.push(frame({
+    line: 'start',
+    narration: `Every node starts undiscovered${directed ? ' (edge directions are ignored)' : ''}`
+  }, null));
+
+  for (const node of nodes) {
+    stats.comparisons++;
+    if (discovery.has(node.id)) continue;
+
+    states.push(frame({
+      line: 'loop',
+      narration: `${node.id} is undiscovered: start a search from it`
+    }, null));
+    visit(node.id, null);
+  }
+
+  const found = Array.from(bridges).map(label);
+  const points = nodes.map(node => node.id).filter(id => articulation.has(id));
+  states.push(frame({
+    line: 'done',
+    narration: `${found.length > 0 ? `Bridges: ${found.join(', ')}` : 'No bridges'}; ` +
+      `${points.length > 0 ? `articulation points: ${points.join(', ')}` : 'no articulation points'}`
+  }, null));
+
+  return states;
+}
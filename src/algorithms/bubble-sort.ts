@@ -6,18 +6,17 @@
  * that describes what the user should see at that moment in the animation.
  */
 
-/**
- * Bar State Interface
- * 
- * Defines the structure for each visualization state in the bubble sort animation.
- * Each state represents a snapshot of the array at a specific point in the algorithm.
- */
-export interface BarState {
-  values: number[];      // Current array values
-  comparing: number[];   // Indices of elements currently being compared
-  swapping: number[];    // Indices of elements currently being swapped
-  sorted: number[];      // Indices of elements that are already sorted
-}
+import { createStats, snapshot, trackMemory } from './operation-stats';
+import { ArrayFrame, PseudocodeLine } from './trace';
+
+export const BUBBLE_SORT_PSEUDOCODE: PseudocodeLine[] = [
+  { id: 'start', text: 'procedure bubbleSort(a)' },
+  { id: 'pass', text: '  for i from 0 to n - 2' },
+  { id: 'inner', text: '    for j from 0 to n - i - 2' },
+  { id: 'compare', text: '      if a[j] > a[j + 1]' },
+  { id: 'swap', text: '        swap a[j] and a[j + 1]' },
+  { id: 'placed', text: '    // a[n - i - 1] is now in its final place' },
+];
 
 /**
  * Bubble Sort Algorithm
@@ -32,30 +31,44 @@ export interface BarState {
  * @param arr - The input array to sort
  * @returns Array of visualization states showing each step of the algorithm
  */
-export function bubbleSort(arr: number[]): BarState[] {
-  const states: BarState[] = [];
+export function bubbleSort(arr: number[]): ArrayFrame[] {
+  const states: ArrayFrame[] = [];
   const n = arr.length;
   const array = [...arr]; // Create a copy to avoid mutating the original
+  const stats = createStats();
 
   // Add initial state - shows the unsorted array
   states.push({
+    kind: 'array',
     values: [...array],
     comparing: [],
     swapping: [],
-    sorted: []
+    sorted: [],
+    line: 'start',
+    narration: `Start with ${n} unsorted values`,
+    watch: { n },
+    stats: snapshot(stats)
   });
 
   // Outer loop - controls the number of passes through the array
   for (let i = 0; i < n - 1; i++) {
     // Inner loop - compares adjacent elements
     for (let j = 0; j < n - i - 1; j++) {
+      stats.comparisons++;
+      stats.accesses += 2;
       // State: Show which elements are being compared
       // This creates the visual effect of highlighting the current comparison
       states.push({
+        kind: 'array',
         values: [...array],
         comparing: [j, j + 1], // Highlight the two elements being compared
         swapping: [],
-        sorted: Array.from({ length: i }, (_, index) => n - 1 - index) // Show already sorted elements
+        sorted: Array.from({ length: i }, (_, index) => n - 1 - index), // Show already sorted elements
+        line: 'compare',
+        narration: `Compare a[${j}] = ${array[j]} and a[${j + 1}] = ${array[j + 1]}; ` +
+          (array[j] > array[j + 1] ? `${array[j]} > ${array[j + 1]} so swap` : `${array[j]} ≤ ${array[j + 1]} so leave them`),
+        watch: { n, i, j },
+        stats: snapshot(stats)
       });
 
       // If current element is greater than next element, swap them
@@ -63,22 +76,36 @@ export function bubbleSort(arr: number[]): BarState[] {
         // State: Show the swapping animation
         // This creates the visual effect of elements being swapped
         states.push({
+          kind: 'array',
           values: [...array],
           comparing: [],
           swapping: [j, j + 1], // Highlight the elements being swapped
-          sorted: Array.from({ length: i }, (_, index) => n - 1 - index)
+          sorted: Array.from({ length: i }, (_, index) => n - 1 - index),
+          line: 'swap',
+          narration: `Swap ${array[j]} and ${array[j + 1]}`,
+          watch: { n, i, j },
+          stats: snapshot(stats)
         });
 
         // Perform the actual swap
         [array[j], array[j + 1]] = [array[j + 1], array[j]];
+        stats.swaps++;
+        stats.writes += 2;
+        stats.accesses += 2;
+        trackMemory(stats, 1); // Temporary for the swap
 
         // State: Show the result after the swap
         // This shows the array with the swapped elements in their new positions
         states.push({
+          kind: 'array',
           values: [...array],
           comparing: [],
           swapping: [],
-          sorted: Array.from({ length: i }, (_, index) => n - 1 - index)
+          sorted: Array.from({ length: i }, (_, index) => n - 1 - index),
+          line: 'swap',
+          narration: `${array[j + 1]} moved right to a[${j + 1}]`,
+          watch: { n, i, j },
+          stats: snapshot(stats)
         });
       }
     }
@@ -87,10 +114,15 @@ export function bubbleSort(arr: number[]): BarState[] {
     // State: Mark the last element as sorted
     // This shows that the largest element is now in its final position
     states.push({
+      kind: 'array',
       values: [...array],
       comparing: [],
       swapping: [],
-      sorted: Array.from({ length: i + 1 }, (_, index) => n - 1 - index) // Include the newly sorted element
+      sorted: Array.from({ length: i + 1 }, (_, index) => n - 1 - index), // Include the newly sorted element
+      line: 'placed',
+      narration: `Pass ${i + 1} done; ${array[n - 1 - i]} is in its final place at a[${n - 1 - i}]`,
+      watch: { n, i },
+      stats: snapshot(stats)
     });
   }
 
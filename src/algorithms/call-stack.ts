@@ -0,0 +1,54 @@
+/**
+ * Call Stack
+ *
+ * Recursion tracking shared by the recursive trace generators (merge sort,
+ * quick sort, DFS). A generator enters a call when its recursive helper
+ * starts and exits it when the helper returns, and stores a snapshot of the
+ * stack in every state. The Visualiser rebuilds the recursion tree from
+ * those snapshots.
+ */
+
+/**
+ * Call Frame Interface
+ *
+ * One active call. Ids are unique within a trace, so the same call can be
+ * recognised across frames; the caller is the frame below it on the stack.
+ */
+export interface CallFrame {
+  id: number;          // Unique per call within the trace
+  name: string;        // Function being called, e.g. 'mergeSort'
+  depth: number;       // 0 for the outermost call
+  lo?: number;         // Array algorithms: first index of the subarray
+  hi?: number;         // Array algorithms: last index of the subarray (inclusive)
+  node?: string;       // Graph algorithms: node the call is exploring
+}
+
+export interface CallStack {
+  frames: CallFrame[];
+  nextId: number;
+}
+
+export function createCallStack(): CallStack {
+  return { frames: [], nextId: 0 };
+}
+
+/**
+ * Push a call; its id and depth are assigned here
+ */
+export function enterCall(stack: CallStack, call: Omit<CallFrame, 'id' | 'depth'>): void {
+  stack.frames.push({ ...call, id: stack.nextId++, depth: stack.frames.length });
+}
+
+/**
+ * Pop the innermost call
+ */
+export function exitCall(stack: CallStack): void {
+  stack.frames.pop();
+}
+
+/**
+ * Snapshot for a state - the stack itself keeps changing
+ */
+export function snapshotCalls(stack: CallStack): CallFrame[] {
+  return stack.frames.map(frame => ({ ...frame }));
+}
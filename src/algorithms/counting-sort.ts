@@ -0,0 +1,119 @@
+/**
+ * Counting Sort Algorithm Implementation
+ *
+ * Generates visualization states for counting sort. Values are counted into
+ * a count array (offset by the minimum so negatives work), the counts are
+ * turned into end positions, and each value is placed into an output array
+ * from right to left to keep the sort stable. The count and output arrays
+ * are shown as auxiliary rows beneath the bars.
+ */
+
+import { createStats, snapshot, trackMemory } from './operation-stats';
+import { ArrayFrame, ArrayMove, AuxiliaryArray, PseudocodeLine, WatchVariables } from './trace';
+
+export const COUNTING_SORT_PSEUDOCODE: PseudocodeLine[] = [
+  { id: 'start', text: 'procedure countingSort(a)' },
+  { id: 'count', text: '  for each x in a: count[x - min] ← count[x - min] + 1' },
+  { id: 'prefix', text: '  for v from 1 to k - 1: count[v] ← count[v] + count[v - 1]' },
+  { id: 'place', text: '  for i from n - 1 down to 0: count[a[i] - min] -= 1; out[count[a[i] - min]] ← a[i]' },
+  { id: 'copy', text: '  copy out back into a' },
+];
+
+/**
+ * Counting Sort Algorithm
+ *
+ * @param arr - The input array to sort
+ * @returns Array of visualization states showing each step of the algorithm
+ */
+export function countingSort(arr: number[]): ArrayFrame[] {
+  const states: ArrayFrame[] = [];
+  const n = arr.length;
+  const array = [...arr];
+  const stats = createStats();
+
+  const min = n > 0 ? Math.min(...array) : 0;
+  const max = n > 0 ? Math.max(...array) : 0;
+  const count: number[] = new Array(n > 0 ? max - min + 1 : 0).fill(0);
+  const output: (number | null)[] = new Array(n).fill(null);
+  const countLabels = count.map((_, index) => String(index + min));
+  trackMemory(stats, count.length + n);
+
+  const pushState = (
+    line: string,
+    narration: string,
+    watch: WatchVariables,
+    comparing: number[],
+    countHighlight: number[],
+    outputHighlight: number[],
+    key?: number,
+    sorted: number[] = [],
+    moves: ArrayMove[] = []
+  ) => {
+    const auxiliary: AuxiliaryArray[] = [
+      { name: 'Count', values: [...count], labels: countLabels, highlight: countHighlight },
+      { name: 'Output', values: [...output], highlight: outputHighlight }
+    ];
+    states.push({
+      kind: 'array',
+      values: [...array],
+      comparing,
+      swapping: [],
+      sorted,
+      key,
+      auxiliary,
+      moves,
+      line,
+      narration,
+      watch,
+      stats: snapshot(stats)
+    });
+  };
+
+  // Add initial state
+  pushState('start', n > 0
+    ? `Values range from ${min} to ${max}, so count them in ${count.length} slots`
+    : 'Nothing to sort', { n, min, max }, [], [], []);
+
+  // Count how often each value occurs
+  for (let i = 0; i < n; i++) {
+    const slot = array[i] - min;
+    count[slot]++;
+    stats.accesses += 2;
+    stats.writes++;
+    pushState('count', `Count ${array[i]}: count[${array[i]}] is now ${count[slot]}`, { i, 'a[i]': array[i] }, [i], [slot], []);
+  }
+
+  // Turn counts into the position just past each value's last slot
+  for (let v = 1; v < count.length; v++) {
+    count[v] += count[v - 1];
+    stats.accesses += 2;
+    stats.writes++;
+    pushState('prefix', `Add the running total: ${countLabels[v]} ends before position ${count[v]}`, { v }, [], [v - 1, v], []);
+  }
+
+  // Place values from the right so equal values keep their order
+  for (let i = n - 1; i >= 0; i--) {
+    const slot = array[i] - min;
+    count[slot]--;
+    const position = count[slot];
+    output[position] = array[i];
+    stats.accesses += 3;
+    stats.writes += 2;
+    pushState('place', `Place ${array[i]} at output position ${position}`, { i, 'a[i]': array[i], position }, [], [slot], [position], i, [], [{ from: { row: 'main', index: i }, to: { row: 1, index: position } }]);
+  }
+
+  // Copy the output back into the array
+  for (let i = 0; i < n; i++) {
+    array[i] = output[i] as number;
+    stats.accesses++;
+    stats.writes++;
+    pushState('copy', `Copy ${array[i]} back to a[${i}]`, { i }, [], [], [i], undefined, Array.from({ length: i + 1 }, (_, index) => index), [
+      { from: { row: 1, index: i }, to: { row: 'main', index: i } }
+    ]);
+  }
+
+  // Final state: all elements sorted
+  pushState('copy', 'Every value is back in the array in sorted order', {}, [], [], [], undefined, Array.from({ length: n }, (_, index) => index));
+
+  return states;
+}
@@ -1,35 +1,32 @@
-export interface Node {
-  id: string;
-  x: number;
-  y: number;
-  status: 'unvisited' | 'visited' | 'current' | 'path' | 'start' | 'end';
-}
-
-export interface Edge {
-  from: string;
-  to: string;
-  weight?: number;
-  status: 'normal' | 'visited' | 'path' | 'current';
-}
-
-export interface GraphState {
-  nodes: Node[];
-  edges: Edge[];
-  stack: string[];
-  visited: string[];
-  current: string | null;
-}
+import { createStats, snapshot, trackMemory } from './operation-stats';
+import { createCallStack, enterCall, exitCall, snapshotCalls } from './call-stack';
+import { GraphFrame, TraceNode, TraceEdge, PseudocodeLine } from './trace';
+
+export const DFS_PSEUDOCODE: PseudocodeLine[] = [
+  { id: 'start', text: 'procedure dfs(graph, start, goal)' },
+  { id: 'init', text: '  stack ← [start]' },
+  { id: 'loop', text: '  while stack is not empty' },
+  { id: 'visit', text: '    u ← pop(stack); if visited, skip; mark u visited' },
+  { id: 'path', text: '    if u = goal: return path via parents' },
+  { id: 'neighbours', text: '    for each neighbour v of u, last first' },
+  { id: 'push', text: '      if v not seen: parent[v] ← u; push(stack, v)' },
+  { id: 'no-path', text: '  return "no path"' },
+];
 
 export function depthFirstSearch(
-  nodes: Node[],
-  edges: Edge[],
+  nodes: TraceNode[],
+  edges: TraceEdge[],
   startNode: string,
-  endNode?: string
-): GraphState[] {
-  const states: GraphState[] = [];
+  endNode?: string,
+  directed: boolean = false
+): GraphFrame[] {
+  const states: GraphFrame[] = [];
   const visited: Set<string> = new Set();
   const stack: string[] = [startNode];
   const parent: Map<string, string> = new Map();
+  const stats = createStats();
+  const calls = createCallStack();
+  trackMemory(stats, stack.length);
 
   // Initialize first state
   const initialNodes = nodes.map(node => ({
@@ -38,11 +35,17 @@ export function depthFirstSearch(
   }));
 
   states.push({
+    kind: 'graph',
     nodes: initialNodes,
     edges: edges.map(edge => ({ ...edge, status: 'normal' })),
     stack: [...stack],
     visited: [],
-    current: null
+    current: null,
+    callStack: snapshotCalls(calls),
+    line: 'start',
+    narration: `Start at ${startNode} with it alone on the stack`,
+    watch: { stack: [...stack] },
+    stats: snapshot(stats)
   });
 
   while (stack.length > 0) {
@@ -51,6 +54,14 @@ export function depthFirstSearch(
     if (visited.has(current)) continue;
     
     visited.add(current);
+    stats.nodesVisited++;
+
+    // The equivalent recursive DFS returns to the node that discovered this one, then calls dfs(current)
+    const caller = parent.get(current);
+    while (calls.frames.length > 0 && calls.frames[calls.frames.length - 1].node !== caller) {
+      exitCall(calls);
+    }
+    enterCall(calls, { name: 'dfs', node: current });
 
     // Update current node status
     const updatedNodes = states[states.length - 1].nodes.map(node => ({
@@ -60,11 +71,17 @@ export function depthFirstSearch(
     }));
 
     states.push({
+      kind: 'graph',
       nodes: updatedNodes,
       edges: states[states.length - 1].edges,
       stack: [...stack],
       visited: Array.from(visited),
-      current
+      current,
+      callStack: snapshotCalls(calls),
+      line: 'visit',
+      narration: `Pop ${current} and visit it; stack: ${stack.length > 0 ? stack.join(', ') : 'empty'}`,
+      watch: { u: current, stack: [...stack], parent: Object.fromEntries(parent) },
+      stats: snapshot(stats)
     });
 
     // If we found the end node, reconstruct path
@@ -83,19 +100,26 @@ export function depthFirstSearch(
       }));
 
       states.push({
+        kind: 'graph',
         nodes: finalNodes,
         edges: finalEdges,
         stack: [...stack],
         visited: Array.from(visited),
-        current
+        current,
+        callStack: snapshotCalls(calls),
+        line: 'path',
+        narration: `Reached ${endNode}; following parents back gives ${path.join(' → ')}`,
+        watch: { u: current, stack: [...stack], parent: Object.fromEntries(parent), path },
+        stats: snapshot(stats)
       });
       
       break;
     }
 
     // Find neighbors and add to stack (in reverse order for correct DFS)
-    const neighbors = edges
-      .filter(edge => edge.from === current || edge.to === current)
+    const incident = edges.filter(edge => edge.from === current || (!directed && edge.to === current));
+    stats.edgesRelaxed += incident.length;
+    const neighbors = incident
       .map(edge => edge.from === current ? edge.to : edge.from)
       .filter(neighbor => !visited.has(neighbor))
       .reverse(); // Reverse to maintain correct DFS order
@@ -104,6 +128,7 @@ export function depthFirstSearch(
       if (!visited.has(neighbor) && !stack.includes(neighbor)) {
         stack.push(neighbor);
         parent.set(neighbor, current);
+        trackMemory(stats, stack.length + visited.size);
 
         // Update edge status
         const updatedEdges = states[states.length - 1].edges.map(edge => ({
@@ -113,16 +138,33 @@ export function depthFirstSearch(
         }));
 
         states.push({
+          kind: 'graph',
           nodes: updatedNodes,
           edges: updatedEdges,
           stack: [...stack],
           visited: Array.from(visited),
-          current
+          current,
+          callStack: snapshotCalls(calls),
+          line: 'push',
+          narration: `${neighbor} has not been seen, so push it with parent ${current}`,
+          watch: { u: current, v: neighbor, stack: [...stack], parent: Object.fromEntries(parent) },
+          stats: snapshot(stats)
         });
       }
     }
   }
 
+  // The stack ran out before reaching the goal
+  if (endNode && !visited.has(endNode)) {
+    states.push({
+      ...states[states.length - 1],
+      current: null,
+      line: 'no-path',
+      narration: `The stack is empty and ${endNode} was never reached, so there is no path from ${startNode}`,
+      watch: { stack: [], parent: Object.fromEntries(parent) }
+    });
+  }
+
   return states;
 }
 
@@ -1,41 +1,46 @@
-export interface Node {
-  id: string;
-  x: number;
-  y: number;
-  status: 'unvisited' | 'visited' | 'current' | 'path' | 'start' | 'end';
-  distance?: number;
-}
-
-export interface Edge {
-  from: string;
-  to: string;
-  weight: number;
-  status: 'normal' | 'visited' | 'path' | 'current';
-}
-
-export interface GraphState {
-  nodes: Node[];
-  edges: Edge[];
-  distances: Map<string, number>;
-  visited: string[];
-  current: string | null;
-}
+import { createStats, snapshot, trackMemory } from './operation-stats';
+import { FrontierEntry, GraphFrame, TraceNode, TraceEdge, PseudocodeLine } from './trace';
+
+export const DIJKSTRA_PSEUDOCODE: PseudocodeLine[] = [
+  { id: 'start', text: 'procedure dijkstra(graph, start, goal)' },
+  { id: 'init', text: '  dist[start] ← 0; dist[v] ← ∞ for every other v' },
+  { id: 'loop', text: '  while some unvisited node has finite distance' },
+  { id: 'select', text: '    u ← unvisited node with the smallest dist; mark u visited' },
+  { id: 'path', text: '    if u = goal: return path via parents' },
+  { id: 'neighbours', text: '    for each unvisited neighbour v of u' },
+  { id: 'relax', text: '      if dist[u] + w(u, v) < dist[v]: dist[v] ← dist[u] + w(u, v); parent[v] ← u' },
+  { id: 'no-path', text: '  return "no path"' },
+];
 
 export function dijkstra(
-  nodes: Node[],
-  edges: Edge[],
+  nodes: TraceNode[],
+  edges: TraceEdge[],
   startNode: string,
-  endNode?: string
-): GraphState[] {
-  const states: GraphState[] = [];
+  endNode?: string,
+  directed: boolean = false
+): GraphFrame[] {
+  const states: GraphFrame[] = [];
   const distances = new Map<string, number>();
   const visited = new Set<string>();
   const parent = new Map<string, string>();
+  const stats = createStats();
 
   // Initialize distances
   nodes.forEach(node => {
     distances.set(node.id, node.id === startNode ? 0 : Infinity);
   });
+  trackMemory(stats, distances.size);
+
+  // Unvisited nodes with a finite distance, closest first; the stable sort
+  // keeps ties in the order the selection loop below picks them
+  const frontier = (mark?: FrontierEntry): FrontierEntry[] => {
+    const entries: FrontierEntry[] = Array.from(distances)
+      .filter(([id, distance]) => !visited.has(id) && distance !== Infinity)
+      .map(([node, priority]) => ({ node, priority }))
+      .sort((a, b) => a.priority - b.priority);
+    if (!mark) return entries;
+    return mark.change === 'popped' ? [mark, ...entries] : entries.map(entry => entry.node === mark.node ? mark : entry);
+  };
 
   // Initialize first state
   const initialNodes = nodes.map(node => ({
@@ -45,11 +50,17 @@ export function dijkstra(
   }));
 
   states.push({
+    kind: 'graph',
     nodes: initialNodes,
     edges: edges.map(edge => ({ ...edge, status: 'normal' })),
-    distances: new Map(distances),
+    distances: Object.fromEntries(distances),
+    frontier: frontier(),
     visited: [],
-    current: null
+    current: null,
+    line: 'start',
+    narration: `${startNode} starts at distance 0, every other node at ∞`,
+    watch: { dist: Object.fromEntries(distances) },
+    stats: snapshot(stats)
   });
 
   while (visited.size < nodes.length) {
@@ -58,7 +69,9 @@ export function dijkstra(
     let minDistance = Infinity;
     
     for (const [nodeId, distance] of distances) {
-      if (!visited.has(nodeId) && distance < minDistance) {
+      if (visited.has(nodeId)) continue;
+      stats.comparisons++;
+      if (distance < minDistance) {
         minDistance = distance;
         current = nodeId;
       }
@@ -67,38 +80,50 @@ export function dijkstra(
     if (current === '' || minDistance === Infinity) break;
 
     visited.add(current);
+    stats.nodesVisited++;
 
     // Update current node status
     const updatedNodes = states[states.length - 1].nodes.map(node => ({
       ...node,
       status: (node.id === current ? 'current' : 
               visited.has(node.id) ? 'visited' : node.status) as 'unvisited' | 'visited' | 'current' | 'path' | 'start' | 'end',
-      distance: distances.get(node.id)
+      distance: distances.get(node.id),
+      parent: parent.get(node.id)
     }));
 
     states.push({
+      kind: 'graph',
       nodes: updatedNodes,
       edges: states[states.length - 1].edges,
-      distances: new Map(distances),
+      distances: Object.fromEntries(distances),
+      frontier: frontier({ node: current, priority: minDistance, change: 'popped' }),
       visited: Array.from(visited),
-      current
+      current,
+      line: 'select',
+      narration: `${current} is the closest unvisited node (distance ${minDistance}); visit it`,
+      watch: { u: current, dist: Object.fromEntries(distances), parent: Object.fromEntries(parent) },
+      stats: snapshot(stats)
     });
 
     // Find neighbors and update distances
     const neighbors = edges
-      .filter(edge => edge.from === current || edge.to === current)
+      .filter(edge => edge.from === current || (!directed && edge.to === current))
       .map(edge => ({
         node: edge.from === current ? edge.to : edge.from,
-        weight: edge.weight
+        weight: edge.weight ?? 1
       }));
 
     for (const { node: neighbor, weight } of neighbors) {
       if (!visited.has(neighbor)) {
         const newDistance = distances.get(current)! + weight;
-        
-        if (newDistance < distances.get(neighbor)!) {
+        const previous = distances.get(neighbor)!;
+        stats.edgesRelaxed++;
+        stats.comparisons++;
+
+        if (newDistance < previous) {
           distances.set(neighbor, newDistance);
           parent.set(neighbor, current);
+          trackMemory(stats, distances.size + parent.size);
 
           // Update edge status
           const updatedEdges = states[states.length - 1].edges.map(edge => ({
@@ -108,14 +133,23 @@ export function dijkstra(
           }));
 
           states.push({
+            kind: 'graph',
             nodes: updatedNodes.map(n => ({
               ...n,
-              distance: distances.get(n.id)
+              distance: distances.get(n.id),
+              parent: parent.get(n.id)
             })),
             edges: updatedEdges,
-            distances: new Map(distances),
+            distances: Object.fromEntries(distances),
+            frontier: frontier(previous === Infinity
+              ? { node: neighbor, priority: newDistance, change: 'pushed' }
+              : { node: neighbor, priority: newDistance, change: 'decreased', previous }),
             visited: Array.from(visited),
-            current
+            current,
+            line: 'relax',
+            narration: `${current} → ${neighbor}: ${minDistance} + ${weight} = ${newDistance} < ${previous === Infinity ? '∞' : previous}, so update ${neighbor}`,
+            watch: { u: current, v: neighbor, w: weight, dist: Object.fromEntries(distances), parent: Object.fromEntries(parent) },
+            stats: snapshot(stats)
           });
         }
       }
@@ -129,26 +163,45 @@ export function dijkstra(
       const finalNodes = updatedNodes.map(node => ({
         ...node,
         status: (path.includes(node.id) ? 'path' : node.status) as 'unvisited' | 'visited' | 'current' | 'path' | 'start' | 'end',
-        distance: distances.get(node.id)
+        distance: distances.get(node.id),
+        parent: parent.get(node.id)
       }));
 
-      const finalEdges = states[states.length - 1].edges.map((edge: Edge) => ({
+      const finalEdges = states[states.length - 1].edges.map((edge: TraceEdge) => ({
         ...edge,
         status: (path.includes(edge.from) && path.includes(edge.to) ? 'path' : edge.status) as 'normal' | 'visited' | 'path' | 'current'
       }));
 
       states.push({
+        kind: 'graph',
         nodes: finalNodes,
         edges: finalEdges,
-        distances: new Map(distances),
+        distances: Object.fromEntries(distances),
+        frontier: frontier(),
         visited: Array.from(visited),
-        current
+        current,
+        line: 'path',
+        narration: `Reached ${endNode} at distance ${minDistance}; path ${path.join(' → ')}`,
+        watch: { u: current, dist: Object.fromEntries(distances), parent: Object.fromEntries(parent), path },
+        stats: snapshot(stats)
       });
       
       break;
     }
   }
 
+  // Every node left has distance ∞, so the goal cannot be reached
+  if (endNode && !visited.has(endNode)) {
+    states.push({
+      ...states[states.length - 1],
+      frontier: frontier(),
+      current: null,
+      line: 'no-path',
+      narration: `No unvisited node has a finite distance and ${endNode} is still at ∞, so there is no path from ${startNode}`,
+      watch: { dist: Object.fromEntries(distances), parent: Object.fromEntries(parent) }
+    });
+  }
+
   return states;
 }
 
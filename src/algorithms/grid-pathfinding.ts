@@ -0,0 +1,230 @@
+/**
+ * Grid Pathfinding Implementation
+ *
+ * BFS, DFS, Dijkstra and A* over a grid where every cell is a node. Grids
+ * can have thousands of cells, so unlike the graph algorithms these states
+ * do not copy the whole grid: each frame only lists the cells whose status
+ * changed since the previous frame, and the renderer applies them in order.
+ */
+
+import { GridConfig, gridNeighbours, gridHeuristic } from '../utils/gridEditing';
+import { createStats, snapshot, trackMemory } from './operation-stats';
+import { GridFrame, WatchVariables } from './trace';
+
+/**
+ * Cell Status Values
+ *
+ * Stored in GridFrame.changes; terrain is drawn separately underneath.
+ */
+export const CELL_UNVISITED = 0;
+export const CELL_FRONTIER = 1;   // Queued / in the open set
+export const CELL_VISITED = 2;    // Expanded / in the closed set
+export const CELL_CURRENT = 3;    // Being expanded in this frame
+export const CELL_PATH = 4;       // On the final path
+
+// Longest trace kept, so huge open grids stay responsive
+const MAX_GRID_FRAMES = 5000;
+
+/**
+ * Min Heap
+ *
+ * Priority queue for Dijkstra and A*; a linear scan over thousands of
+ * open cells would make every step quadratic.
+ */
+class MinHeap {
+  private items: { index: number; priority: number; tieBreak: number }[] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(index: number, priority: number, tieBreak: number): void {
+    this.items.push({ index, priority, tieBreak });
+    let i = this.items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.less(i, parent)) break;
+      [this.items[i], this.items[parent]] = [this.items[parent], this.items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): { index: number; priority: number } | undefined {
+    const top = this.items[0];
+    const last = this.items.pop();
+    if (this.items.length > 0 && last) {
+      this.items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < this.items.length && this.less(left, smallest)) smallest = left;
+        if (right < this.items.length && this.less(right, smallest)) smallest = right;
+        if (smallest === i) break;
+        [this.items[i], this.items[smallest]] = [this.items[smallest], this.items[i]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+
+  private less(a: number, b: number): boolean {
+    const x = this.items[a];
+    const y = this.items[b];
+    return x.priority < y.priority || (x.priority === y.priority && x.tieBreak < y.tieBreak);
+  }
+}
+
+/**
+ * Grid Search
+ *
+ * Runs one of the supported algorithms over the grid and records a frame
+ * every time a cell is expanded. The last frame shows the path, or says
+ * there is none when the frontier runs out first.
+ *
+ * @param algorithmId - 'breadth-first-search', 'depth-first-search', 'dijkstra' or 'a-star'
+ * @param grid - The grid to search
+ * @returns Array of delta frames, starting with an empty frame
+ */
+export function gridSearch(algorithmId: string, grid: GridConfig): GridFrame[] {
+  const cellCount = grid.rows * grid.cols;
+  const status = new Uint8Array(cellCount);
+  const parent = new Int32Array(cellCount).fill(-1);
+  const cost = new Float64Array(cellCount).fill(Infinity);
+  const frames: GridFrame[] = [];
+  let visitedCount = 0;
+  let previous: number | null = null;
+  const stats = createStats();
+
+  // Frames point at the pseudocode of the matching graph algorithm
+  const cellName = (index: number) => `(${Math.floor(index / grid.cols)}, ${index % grid.cols})`;
+  const roundCost = (value: number) => Math.round(value * 100) / 100;
+
+  const pushFrame = (changes: number[], current: number | null, frontierSize: number, line: string, narration: string) => {
+    trackMemory(stats, frontierSize);
+    const watch: WatchVariables = current === null
+      ? { frontier: frontierSize, expanded: visitedCount }
+      : { u: cellName(current), 'cost[u]': roundCost(cost[current]), frontier: frontierSize, expanded: visitedCount };
+    frames.push({ kind: 'grid', grid, changes, current, frontierSize, visitedCount, pathCost: null, pathLength: null, line, narration, watch, stats: snapshot(stats) });
+  };
+  const expandLine = algorithmId === 'dijkstra' || algorithmId === 'a-star' ? 'select' : 'visit';
+
+  // Initial frame - nothing explored yet
+  pushFrame([], null, 1, 'init', `Start from cell ${cellName(grid.start)}`);
+  cost[grid.start] = 0;
+
+  // Frontier operations differ per algorithm; everything else is shared
+  const queue: number[] = [grid.start];   // BFS queue / DFS stack
+  let queueHead = 0;
+  const heap = new MinHeap();
+  const useHeap = algorithmId === 'dijkstra' || algorithmId === 'a-star';
+  const estimate = (index: number) => (algorithmId === 'a-star' ? gridHeuristic(grid, index, grid.goal) : 0);
+  if (useHeap) heap.push(grid.start, estimate(grid.start), 0);
+  status[grid.start] = CELL_FRONTIER;
+
+  const frontierSize = () => (useHeap ? heap.size : algorithmId === 'depth-first-search' ? queue.length : queue.length - queueHead);
+
+  const takeNext = (): number | undefined => {
+    if (useHeap) {
+      // Skip entries made stale by a later, cheaper path
+      let entry = heap.pop();
+      while (entry && status[entry.index] === CELL_VISITED) entry = heap.pop();
+      return entry?.index;
+    }
+    if (algorithmId === 'depth-first-search') {
+      let next = queue.pop();
+      while (next !== undefined && status[next] === CELL_VISITED) next = queue.pop();
+      return next;
+    }
+    return queueHead < queue.length ? queue[queueHead++] : undefined;
+  };
+
+  let found = false;
+  let exhausted = false;
+
+  while (frames.length < MAX_GRID_FRAMES) {
+    const current = takeNext();
+    if (current === undefined) {
+      exhausted = true;
+      break;
+    }
+
+    const changes: number[] = [];
+    if (previous !== null) changes.push(previous, CELL_VISITED);
+    status[current] = CELL_VISITED;
+    visitedCount++;
+    stats.nodesVisited++;
+    changes.push(current, CELL_CURRENT);
+    previous = current;
+
+    if (current === grid.goal) {
+      found = true;
+      pushFrame(changes, current, frontierSize(), expandLine, `Reached the goal ${cellName(current)}`);
+      break;
+    }
+
+    for (const { index: neighbour, cost: stepCost } of gridNeighbours(grid, current)) {
+      if (status[neighbour] === CELL_VISITED) continue;
+      stats.edgesRelaxed++;
+
+      if (useHeap) {
+        const tentative = cost[current] + stepCost;
+        stats.comparisons++;
+        if (tentative >= cost[neighbour]) continue;
+        cost[neighbour] = tentative;
+        parent[neighbour] = current;
+        // Prefer deeper cells on ties so A* heads towards the goal
+        heap.push(neighbour, tentative + estimate(neighbour), -tentative);
+      } else if (algorithmId === 'depth-first-search') {
+        // A later push wins, as in recursive DFS
+        parent[neighbour] = current;
+        cost[neighbour] = cost[current] + stepCost;
+        queue.push(neighbour);
+      } else {
+        if (status[neighbour] === CELL_FRONTIER) continue;
+        parent[neighbour] = current;
+        cost[neighbour] = cost[current] + stepCost;
+        queue.push(neighbour);
+      }
+
+      if (status[neighbour] !== CELL_FRONTIER) {
+        status[neighbour] = CELL_FRONTIER;
+        changes.push(neighbour, CELL_FRONTIER);
+      }
+    }
+
+    pushFrame(changes, current, frontierSize(), expandLine,
+      `Expand ${cellName(current)}${useHeap ? ` at cost ${roundCost(cost[current])}` : ''}; ${frontierSize()} cells wait in the frontier`);
+  }
+
+  // Final frame - highlight the path when the goal was reached
+  if (found) {
+    const path: number[] = [];
+    for (let cell = grid.goal; cell !== -1; cell = parent[cell]) {
+      path.push(cell);
+    }
+    const changes: number[] = [];
+    path.forEach(cell => changes.push(cell, CELL_PATH));
+    frames.push({
+      kind: 'grid',
+      grid,
+      changes,
+      current: null,
+      frontierSize: frontierSize(),
+      visitedCount,
+      pathCost: roundCost(cost[grid.goal]),
+      pathLength: path.length,
+      line: 'path',
+      narration: `Follow parents back from the goal: ${path.length} cells, cost ${roundCost(cost[grid.goal])}`,
+      watch: { 'path length': path.length, cost: roundCost(cost[grid.goal]) },
+      stats: snapshot(stats)
+    });
+  } else if (exhausted) {
+    // Final frame - the frontier ran out before reaching the goal
+    const changes = previous !== null ? [previous, CELL_VISITED] : [];
+    pushFrame(changes, null, 0, 'no-path', `The frontier is empty and the goal ${cellName(grid.goal)} was never reached, so there is no path`);
+  }
+
+  return frames;
+}
@@ -0,0 +1,491 @@
+/**
+ * Hash Table Implementation
+ *
+ * Generates visualization states for a sequence of insert, delete and
+ * search operations on an initially empty hash table. Collisions are
+ * resolved by separate chaining or by open addressing (linear probing,
+ * quadratic probing or double hashing), where a delete leaves a tombstone
+ * so later probe sequences are not cut short. Before an insert would push
+ * the load factor past the limit, the capacity doubles and every entry is
+ * rehashed into the new table, one frame per entry.
+ */
+
+import { createStats, snapshot, trackMemory } from './operation-stats';
+import { HashFrame, HashNode, HashResize, HashSlot, PseudocodeLine } from './trace';
+import { HashFunction, HashOperation, HashTableConfig, isOpenAddressing } from '../utils/hashEditing';
+
+export const HASH_TABLE_PSEUDOCODE: PseudocodeLine[] = [
+  { id: 'find', text: 'procedure find(key)' },
+  { id: 'hash', text: '  i ← hash(key) mod capacity' },
+  { id: 'compare', text: '  for each entry of bucket i, or each slot i + f(0), i + f(1), ...: if it holds key, return it' },
+  { id: 'tombstone', text: '    if the slot is a tombstone: keep probing (insert remembers the first one)' },
+  { id: 'miss', text: '  return not found (end of the chain, or an empty slot)' },
+  { id: 'insert', text: 'procedure insert(key, value)' },
+  { id: 'grow', text: '  if (entries + tombstones + 1) / capacity > max load: resize(2 × capacity)' },
+  { id: 'update', text: '  if find(key) returns an entry: replace its value' },
+  { id: 'store', text: "  else: append to bucket i's chain, or fill the first tombstone or empty slot probed" },
+  { id: 'delete', text: 'procedure delete(key)' },
+  { id: 'remove', text: '  if find(key) returns an entry: unlink it, or turn its slot into a tombstone' },
+  { id: 'search', text: 'procedure search(key)' },
+  { id: 'result', text: '  return the value of the entry find(key) returns, or not found' },
+  { id: 'resize', text: 'procedure resize(capacity)' },
+  { id: 'rehash', text: '  for each entry of the old table: place it in the new, empty table' },
+];
+
+/**
+ * Hash a key with the chosen function, before reducing it modulo the capacity
+ */
+export function hashKey(hashFunction: HashFunction, key: string): number {
+  let hash = hashFunction === 'djb2' ? 5381 : 0;
+  for (let i = 0; i < key.length; i++) {
+    const code = key.charCodeAt(i);
+    hash = hashFunction === 'polynomial' ? ((hash << 5) - hash + code) & 0xffffffff :
+           hashFunction === 'djb2' ? ((hash << 5) + hash + code) >>> 0 :
+           hash + code;
+  }
+  return Math.abs(hash);
+}
+
+// Chain entries as the linked list stored in frames
+const toChain = (entries: HashSlot[]): HashNode | null =>
+  entries.reduceRight<HashNode | null>((next, { key, value }) => (next ? { key, value, next } : { key, value }), null);
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Hash Table Operations
+ *
+ * @param config - Collision strategy, hash function, initial capacity, load limit and the operations to run
+ * @returns Array of visualization states showing each step of every operation
+ */
+export function hashTableOperations(config: HashTableConfig): HashFrame[] {
+  const { strategy, hashFunction, maxLoadFactor } = config;
+  const open = isOpenAddressing(strategy);
+  const unit = open ? 'slots' : 'buckets';
+  const states: HashFrame[] = [];
+  const stats = createStats();
+
+  let capacity = config.capacity;
+  let chains: HashSlot[][] = Array.from({ length: capacity }, () => []);
+  let slots: (HashSlot | null)[] = new Array(capacity).fill(null);
+  let count = 0;
+  let tombstones = 0;
+  trackMemory(stats, capacity);
+
+  // The operation being animated and its probe sequence so far
+  let operation: HashOperation | null = null;
+  let home = -1;
+  let step = 0;
+  let path: number[] = [];
+  let resize: HashResize | undefined;
+
+  const load = () => (count + tombstones) / capacity;
+
+  // Step of double hashing, from a second hash that is never 0
+  const stepOf = (key: string, size: number) =>
+    strategy === 'double' ? 1 + (hashKey('additive', key) % (size - 1)) : 0;
+  const offsetText = (i: number) =>
+    strategy === 'linear' ? `${i}` : strategy === 'quadratic' ? `${i}²` : `${i} × ${step}`;
+
+  /**
+   * Slots probed for a key in a table of the given size, cut off once every
+   * slot the sequence can reach has been seen (quadratic probing and double
+   * hashing may cycle through only some of the slots)
+   */
+  const probes = (key: string, size: number): number[] => {
+    const start = hashKey(hashFunction, key) % size;
+    const keyStep = stepOf(key, size);
+    const sequence = Array.from({ length: size }, (_, i) =>
+      (start + (strategy === 'linear' ? i : strategy === 'quadratic' ? i * i : i * keyStep)) % size);
+    const reachable = new Set(sequence).size;
+    const seen = new Set<number>();
+    const result: number[] = [];
+    for (const index of sequence) {
+      if (seen.size === reachable) break;
+      seen.add(index);
+      result.push(index);
+    }
+    return result;
+  };
+
+  // Whether every entry, placed in order, finds a free slot in a table of the given size
+  const fits = (entries: HashSlot[], size: number) => {
+    const taken = new Set<number>();
+    return entries.every(entry => {
+      const free = probes(entry.key, size).find(index => !taken.has(index));
+      if (free !== undefined) taken.add(free);
+      return free !== undefined;
+    });
+  };
+
+  const frame = (fields: Partial<HashFrame>): HashFrame => ({
+    kind: 'hash',
+    buckets: open ? [] : chains.map(toChain),
+    ...(open ? { slots: slots.map(slot => slot && { ...slot }) } : {}),
+    strategy,
+    ...(operation ? { operation: operation.type } : {}),
+    searchKey: operation?.key ?? '',
+    currentBucket: -1,
+    currentNode: -1,
+    found: false,
+    searchPath: [...path],
+    hashValue: home,
+    count,
+    loadFactor: round(load()),
+    ...(resize ? { resize } : {}),
+    watch: {
+      ...(operation ? { operation: operation.type, key: operation.key } : {}),
+      ...(operation?.value !== undefined ? { value: operation.value } : {}),
+      ...(home >= 0 ? { i: home } : {}),
+      ...(strategy === 'double' && home >= 0 ? { s: step } : {}),
+      probes: [...path],
+      entries: count,
+      ...(open ? { tombstones } : {}),
+      capacity,
+      load: round(load())
+    },
+    stats: snapshot(stats),
+    ...fields
+  });
+
+  /**
+   * Hash the key and follow its chain or probe sequence. Returns where the
+   * key is stored (-1 if absent) and, under open addressing, the first
+   * tombstone or empty slot passed on the way (-1 if none).
+   */
+  const find = (key: string): { index: number; position: number; free: number } => {
+    const hash = hashKey(hashFunction, key);
+    home = hash % capacity;
+    step = stepOf(key, capacity);
+    path = [];
+
+    states.push(frame({
+      line: 'hash',
+      narration: `hash("${key}") = ${hash}, and ${hash} mod ${capacity} = ${home}` +
+        (strategy === 'double' ? `; the second hash gives step s = 1 + (sum of characters mod ${capacity - 1}) = ${step}` : '')
+    }));
+
+    if (!open) {
+      const chain = chains[home];
+      path = [home];
+      stats.accesses++;
+      for (let position = 0; position < chain.length; position++) {
+        const match = chain[position].key === key;
+        stats.nodesVisited++;
+        stats.comparisons++;
+        stats.accesses++;
+        states.push(frame({
+          line: 'compare',
+          currentBucket: home,
+          currentNode: position,
+          found: match,
+          narration: match
+            ? `Entry ${position} of bucket ${home} holds "${key}"`
+            : `Entry ${position} of bucket ${home} holds "${chain[position].key}", not "${key}"` +
+              (position + 1 < chain.length ? ': follow the chain' : '')
+        }));
+        if (match) return { index: home, position, free: -1 };
+      }
+      states.push(frame({
+        line: 'miss',
+        currentBucket: home,
+        narration: chain.length === 0
+          ? `Bucket ${home} is empty, so "${key}" is not in the table`
+          : `Reached the end of bucket ${home}'s chain, so "${key}" is not in the table`
+      }));
+      return { index: -1, position: -1, free: -1 };
+    }
+
+    const sequence = probes(key, capacity);
+    let free = -1;
+    for (const [i, index] of sequence.entries()) {
+      const slot = slots[index];
+      const next = i + 1 < sequence.length
+        ? `so probe slot ${sequence[i + 1]} (${home} + ${offsetText(i + 1)} mod ${capacity})`
+        : 'but the probe sequence reaches no further slots';
+      path.push(index);
+      stats.nodesVisited++;
+      stats.accesses++;
+
+      if (slot === null) {
+        states.push(frame({
+          line: 'miss',
+          currentBucket: index,
+          narration: `Slot ${index} is empty, so "${key}" is not in the table`
+        }));
+        return { index: -1, position: -1, free: free === -1 ? index : free };
+      }
+
+      if (slot.deleted) {
+        const first = free === -1;
+        if (first) free = index;
+        states.push(frame({
+          line: 'tombstone',
+          currentBucket: index,
+          narration: `Slot ${index} is a tombstone (was "${slot.key}"): "${key}" may lie further on, ${next}` +
+            (first && operation?.type === 'insert' ? '; the insert can reuse this slot' : '')
+        }));
+        continue;
+      }
+
+      const match = slot.key === key;
+      stats.comparisons++;
+      states.push(frame({
+        line: 'compare',
+        currentBucket: index,
+        found: match,
+        narration: match
+          ? `Slot ${index} holds "${key}"`
+          : `Slot ${index} holds "${slot.key}": a collision, ${next}`
+      }));
+      if (match) return { index, position: -1, free };
+    }
+
+    states.push(frame({
+      line: 'miss',
+      narration: sequence.length < capacity
+        ? `The probe sequence reaches only ${sequence.length} of the ${capacity} slots, and none holds "${key}" or is empty`
+        : `Every slot was probed without finding "${key}" or an empty slot`
+    }));
+    return { index: -1, position: -1, free };
+  };
+
+  /**
+   * Move every entry into a new table of the given capacity
+   */
+  const rehash = (newCapacity: number) => {
+    const oldChains = chains.map(chain => [...chain]);
+    const oldSlots = [...slots];
+    const oldCapacity = capacity;
+    const dropped = tombstones;
+
+    // Probe sequences that only reach some slots can leave a key without a
+    // free slot, in which case the table doubles again
+    const live = oldSlots.filter((slot): slot is HashSlot => slot !== null && !slot.deleted);
+    let size = newCapacity;
+    while (open && !fits(live, size)) size *= 2;
+    const old = (current: number): HashResize => ({
+      buckets: open ? [] : oldChains.map(toChain),
+      ...(open ? { slots: oldSlots.map(slot => slot && { ...slot }) } : {}),
+      current
+    });
+
+    capacity = size;
+    chains = Array.from({ length: capacity }, () => []);
+    slots = new Array(capacity).fill(null);
+    count = 0;
+    tombstones = 0;
+    trackMemory(stats, oldCapacity + size);
+    resize = old(-1);
+    home = -1;
+    path = [];
+
+    states.push(frame({
+      line: 'resize',
+      narration: `Allocate a new table of ${capacity} ${unit}` +
+        (size > newCapacity ? ` (with ${newCapacity}, some key's probe sequence would reach no free slot)` : '') +
+        '. Every entry must be rehashed, since its position depends on the capacity' +
+        (dropped > 0 ? `; the ${dropped} ${dropped === 1 ? 'tombstone is' : 'tombstones are'} dropped` : '')
+    }));
+
+    const place = (entry: HashSlot, from: number) => {
+      const hash = hashKey(hashFunction, entry.key);
+      home = hash % capacity;
+      step = stepOf(entry.key, capacity);
+      path = [];
+
+      let target = home;
+      let position = -1;
+      if (!open) {
+        chains[home].push(entry);
+        position = chains[home].length - 1;
+        path = [home];
+        stats.accesses++;
+      } else {
+        // fits() guarantees the sequence reaches a free slot
+        for (const index of probes(entry.key, capacity)) {
+          target = index;
+          path.push(target);
+          stats.nodesVisited++;
+          stats.accesses++;
+          if (slots[target] === null) break;
+        }
+        slots[target] = entry;
+      }
+      count++;
+      stats.writes++;
+      resize = old(from);
+
+      states.push(frame({
+        line: 'rehash',
+        searchKey: entry.key,
+        currentBucket: target,
+        currentNode: position,
+        found: true,
+        narration: `Move "${entry.key}" from old ${open ? 'slot' : 'bucket'} ${from}: ${hash} mod ${capacity} = ${home}` +
+          (target !== home ? `; slots ${path.slice(0, -1).join(', ')} are taken, so it goes to slot ${target}` : '')
+      }));
+    };
+
+    for (let index = 0; index < oldCapacity; index++) {
+      if (open) {
+        const slot = oldSlots[index];
+        oldSlots[index] = null;
+        if (slot && !slot.deleted) place(slot, index);
+      } else {
+        while (oldChains[index].length > 0) place(oldChains[index].shift()!, index);
+      }
+    }
+
+    resize = undefined;
+    home = -1;
+    path = [];
+    states.push(frame({
+      line: 'rehash',
+      narration: `Resize complete: ${count} ${count === 1 ? 'entry' : 'entries'} in ${capacity} ${unit}, load factor ${round(load())}`
+    }));
+  };
+
+  const insert = (key: string, value: number) => {
+    const after = (count + tombstones + 1) / capacity;
+    if (after > maxLoadFactor) {
+      states.push(frame({
+        line: 'grow',
+        narration: `(${count}${open ? ` + ${tombstones}` : ''} + 1) / ${capacity} = ${round(after)} would exceed the maximum load factor ${maxLoadFactor}: ` +
+          `resize to ${capacity * 2} ${unit} first`
+      }));
+      rehash(capacity * 2);
+    }
+
+    const { index, position, free } = find(key);
+
+    if (index !== -1) {
+      const entry = open ? slots[index]! : chains[index][position];
+      const previous = entry.value;
+      entry.value = value;
+      stats.writes++;
+      stats.accesses++;
+      states.push(frame({
+        line: 'update',
+        currentBucket: index,
+        currentNode: position,
+        found: true,
+        narration: `"${key}" is already stored: replace its value ${previous} with ${value}`
+      }));
+      return;
+    }
+
+    if (!open) {
+      const chain = chains[home];
+      const others = chain.map(entry => `"${entry.key}"`);
+      chain.push({ key, value });
+      count++;
+      stats.writes++;
+      stats.accesses++;
+      trackMemory(stats, capacity + count);
+      states.push(frame({
+        line: 'store',
+        currentBucket: home,
+        currentNode: chain.length - 1,
+        found: true,
+        narration: others.length === 0
+          ? `Store "${key}" = ${value} as the only entry of bucket ${home}`
+          : `Append "${key}" = ${value} to bucket ${home}'s chain: a collision with ${others.join(', ')}`
+      }));
+      return;
+    }
+
+    if (free === -1) {
+      states.push(frame({
+        line: 'grow',
+        narration: `The probe sequence of "${key}" reaches no free slot, so resize to ${capacity * 2} slots and try again`
+      }));
+      rehash(capacity * 2);
+      insert(key, value);
+      return;
+    }
+
+    const reused = slots[free] !== null;
+    const collisions = path.indexOf(free);
+    slots[free] = { key, value };
+    count++;
+    if (reused) tombstones--;
+    stats.writes++;
+    stats.accesses++;
+    states.push(frame({
+      line: 'store',
+      currentBucket: free,
+      found: true,
+      narration: `Store "${key}" = ${value} in slot ${free}` +
+        (reused ? ', reusing the tombstone' : '') +
+        (collisions > 0 ? ` after ${collisions} ${collisions === 1 ? 'collision' : 'collisions'}` : '')
+    }));
+  };
+
+  const remove = (key: string) => {
+    const { index, position } = find(key);
+
+    if (index === -1) {
+      states.push(frame({
+        line: 'remove',
+        narration: `"${key}" is not in the table, so there is nothing to delete`
+      }));
+      return;
+    }
+
+    count--;
+    stats.writes++;
+    stats.accesses++;
+    if (!open) {
+      chains[index].splice(position, 1);
+      states.push(frame({
+        line: 'remove',
+        currentBucket: index,
+        narration: `Unlink "${key}" from bucket ${index}'s chain`
+      }));
+      return;
+    }
+
+    slots[index] = { ...slots[index]!, deleted: true };
+    tombstones++;
+    states.push(frame({
+      line: 'remove',
+      currentBucket: index,
+      narration: `Turn slot ${index} into a tombstone: emptying it would cut short the probe sequences of keys stored past it`
+    }));
+  };
+
+  const search = (key: string) => {
+    const { index, position } = find(key);
+    const entry = index === -1 ? null : open ? slots[index]! : chains[index][position];
+
+    states.push(frame({
+      line: 'result',
+      currentBucket: index,
+      currentNode: position,
+      found: entry !== null,
+      narration: entry ? `search("${key}") returns ${entry.value}` : `search("${key}") returns not found`
+    }));
+  };
+
+  for (const next of config.operations) {
+    operation = next;
+    home = -1;
+    path = [];
+
+    states.push(frame({
+      line: next.type,
+      narration: next.type === 'insert' ? `insert("${next.key}", ${next.value})` : `${next.type}("${next.key}")`
+    }));
+
+    if (next.type === 'insert') insert(next.key, next.value ?? 0);
+    else if (next.type === 'delete') remove(next.key);
+    else search(next.key);
+  }
+
+  if (states.length === 0) {
+    states.push(frame({ narration: `An empty table of ${capacity} ${unit}; there are no operations to run` }));
+  }
+
+  return states;
+}
@@ -0,0 +1,115 @@
+/**
+ * Heap Sort Algorithm Implementation
+ *
+ * Generates visualization states for heap sort. The array is first turned
+ * into a max-heap, then the root is repeatedly swapped to the end and the
+ * heap shrinks by one. Every state records heapSize so the Visualiser can
+ * draw the heap as a tree next to the bars.
+ */
+
+import { createStats, snapshot, trackMemory } from './operation-stats';
+import { ArrayFrame, PseudocodeLine, WatchVariables } from './trace';
+
+export const HEAP_SORT_PSEUDOCODE: PseudocodeLine[] = [
+  { id: 'start', text: 'procedure heapSort(a)' },
+  { id: 'build', text: '  for i from ⌊n / 2⌋ - 1 down to 0: siftDown(a, i, n)' },
+  { id: 'extract', text: '  for end from n - 1 down to 1: swap a[0] and a[end]; siftDown(a, 0, end)' },
+  { id: 'sift', text: 'procedure siftDown(a, i, size)' },
+  { id: 'compare', text: '  largest ← whichever of a[i] and its children (below size) is largest' },
+  { id: 'sift-swap', text: '  if largest ≠ i: swap a[i] and a[largest]; i ← largest; repeat' },
+];
+
+/**
+ * Heap Sort Algorithm
+ *
+ * @param arr - The input array to sort
+ * @returns Array of visualization states showing each step of the algorithm
+ */
+export function heapSort(arr: number[]): ArrayFrame[] {
+  const states: ArrayFrame[] = [];
+  const n = arr.length;
+  const array = [...arr];
+  const stats = createStats();
+  let heapSize = n;
+
+  // Everything after the heap is in its final position
+  const pushState = (comparing: number[], swapping: number[], line: string, narration: string, watch: WatchVariables = {}) => {
+    states.push({
+      kind: 'array',
+      values: [...array],
+      comparing,
+      swapping,
+      sorted: Array.from({ length: n - heapSize }, (_, index) => heapSize + index),
+      heapSize,
+      line,
+      narration,
+      watch: { size: heapSize, ...watch },
+      stats: snapshot(stats)
+    });
+  };
+
+  const swap = (a: number, b: number, line: string, before: string, after: () => string, watch: WatchVariables) => {
+    pushState([], [a, b], line, before, watch);
+    [array[a], array[b]] = [array[b], array[a]];
+    stats.swaps++;
+    stats.writes += 2;
+    stats.accesses += 2;
+    trackMemory(stats, 1); // Temporary for the swap
+    pushState([], [], line, after(), watch);
+  };
+
+  // Move the value at index down until both children are smaller
+  const siftDown = (index: number) => {
+    let parent = index;
+    while (true) {
+      let largest = parent;
+      const children = [2 * parent + 1, 2 * parent + 2];
+
+      for (const child of children) {
+        if (child >= heapSize) continue;
+        stats.comparisons++;
+        stats.accesses += 2;
+        const larger = array[child] > array[largest];
+        pushState([largest, child], [], 'compare',
+          `Compare child a[${child}] = ${array[child]} with a[${largest}] = ${array[largest]}` +
+          (larger ? `; ${array[child]} is larger` : ''),
+          { i: parent, largest, child });
+        if (larger) {
+          largest = child;
+        }
+      }
+
+      if (largest === parent) return;
+      swap(parent, largest, 'sift-swap',
+        `${array[parent]} is smaller than its child ${array[largest]}, so swap them`,
+        () => `Keep sifting ${array[largest]} down from a[${largest}]`,
+        { i: parent, largest });
+      parent = largest;
+    }
+  };
+
+  // Add initial state
+  pushState([], [], 'start', `Arrange ${n} values into a max-heap, then take the largest out one at a time`);
+
+  // Build the max-heap from the last parent upwards
+  for (let i = Math.floor(n / 2) - 1; i >= 0; i--) {
+    siftDown(i);
+  }
+
+  // Move the maximum behind the heap and restore the heap
+  for (let end = n - 1; end > 0; end--) {
+    swap(0, end, 'extract',
+      `The root ${array[0]} is the largest in the heap; swap it with a[${end}] = ${array[end]}`,
+      () => `Move ${array[end]} out of the heap`,
+      { end });
+    heapSize = end;
+    pushState([], [], 'extract', `${array[end]} is in its final place; sift the new root ${array[0]} down`, { end });
+    siftDown(0);
+  }
+
+  // The last element left in the heap is the minimum
+  heapSize = 0;
+  pushState([], [], 'extract', 'Only the smallest value is left, so everything is sorted');
+
+  return states;
+}
@@ -1,79 +1,129 @@
-export interface BarState {
-  values: number[];
-  comparing: number[];
-  swapping: number[];
-  sorted: number[];
-  key: number;
-}
+import { createStats, snapshot, trackMemory } from './operation-stats';
+import { ArrayFrame, PseudocodeLine } from './trace';
 
-export function insertionSort(arr: number[]): BarState[] {
-  const states: BarState[] = [];
+export const INSERTION_SORT_PSEUDOCODE: PseudocodeLine[] = [
+  { id: 'start', text: 'procedure insertionSort(a)' },
+  { id: 'outer', text: '  for i from 1 to n - 1' },
+  { id: 'key', text: '    key ← a[i]; j ← i - 1' },
+  { id: 'compare', text: '    while j ≥ 0 and a[j] > key' },
+  { id: 'shift', text: '      a[j + 1] ← a[j]; j ← j - 1' },
+  { id: 'insert', text: '    a[j + 1] ← key' },
+];
+
+export function insertionSort(arr: number[]): ArrayFrame[] {
+  const states: ArrayFrame[] = [];
   const n = arr.length;
   const array = [...arr];
+  const stats = createStats();
 
   // Add initial state
   states.push({
+    kind: 'array',
     values: [...array],
     comparing: [],
     swapping: [],
     sorted: [0], // First element is considered sorted
-    key: -1
+    key: -1,
+    line: 'start',
+    narration: 'A single element is already sorted; insert the others one by one',
+    watch: { n },
+    stats: snapshot(stats)
   });
 
   for (let i = 1; i < n; i++) {
     const key = array[i];
     let j = i - 1;
+    stats.accesses++;
+    trackMemory(stats, 1); // The key being inserted
 
     // Add state showing key element
     states.push({
+      kind: 'array',
       values: [...array],
       comparing: [],
       swapping: [],
       sorted: Array.from({ length: i }, (_, index) => index),
-      key: i
+      key: i,
+      line: 'key',
+      narration: `Take key = ${key} from a[${i}]`,
+      watch: { i, key, j },
+      stats: snapshot(stats)
     });
 
-    while (j >= 0 && array[j] > key) {
+    // Count each comparison with the key, including the one that ends the loop
+    const compareWithKey = () => {
+      stats.comparisons++;
+      stats.accesses++;
+      return array[j] > key;
+    };
+
+    while (j >= 0 && compareWithKey()) {
       // Add comparing state
       states.push({
+        kind: 'array',
         values: [...array],
         comparing: [j, j + 1],
         swapping: [],
         sorted: Array.from({ length: i }, (_, index) => index),
-        key: i
+        key: i,
+        line: 'compare',
+        narration: `a[${j}] = ${array[j]} > key = ${key}, so it moves right`,
+        watch: { i, key, j },
+        stats: snapshot(stats)
       });
 
       // Add shifting state
       states.push({
+        kind: 'array',
         values: [...array],
         comparing: [],
         swapping: [j, j + 1],
         sorted: Array.from({ length: i }, (_, index) => index),
-        key: i
+        key: i,
+        line: 'shift',
+        narration: `Shift ${array[j]} from a[${j}] to a[${j + 1}]`,
+        watch: { i, key, j },
+        stats: snapshot(stats)
       });
 
       array[j + 1] = array[j];
+      stats.writes++;
+      stats.accesses++;
       j--;
 
       // Add state after shift
       states.push({
+        kind: 'array',
         values: [...array],
         comparing: [],
         swapping: [],
         sorted: Array.from({ length: i }, (_, index) => index),
-        key: i
+        key: i,
+        line: 'shift',
+        narration: `a[${j + 2}] now holds ${array[j + 2]}; compare the next element to the left`,
+        watch: { i, key, j },
+        stats: snapshot(stats)
       });
     }
 
     array[j + 1] = key;
+    stats.writes++;
+    stats.accesses++;
 
     // Add final state for this iteration
     states.push({
+      kind: 'array',
       values: [...array],
       comparing: [],
       swapping: [],
       sorted: Array.from({ length: i + 1 }, (_, index) => index),
-      key: -1
+      key: -1,
+      line: 'insert',
+      narration: j >= 0
+        ? `a[${j}] = ${array[j]} ≤ ${key}, so insert the key at a[${j + 1}]`
+        : `${key} is smaller than everything before it, so insert it at a[0]`,
+      watch: { i, key, j },
+      stats: snapshot(stats)
     });
   }
 
@@ -0,0 +1,170 @@
+/**
+ * Kahn's Algorithm Implementation
+ *
+ * Generates visualization states for Kahn's topological sort. Every node is
+ * labelled with its remaining in-degree; nodes whose in-degree reaches zero
+ * wait in a queue and are output in turn. If the queue empties before every
+ * node is output, the remaining nodes contain a cycle, which is highlighted.
+ */
+
+import { createStats, snapshot, trackMemory } from './operation-stats';
+import { GraphFrame, TraceNode, TraceEdge, PseudocodeLine, NodeStatus, EdgeStatus } from './trace';
+
+export const KAHN_PSEUDOCODE: PseudocodeLine[] = [
+  { id: 'start', text: 'procedure kahn(graph)' },
+  { id: 'init', text: '  in[v] ← number of edges into v, for every v' },
+  { id: 'queue', text: '  queue ← every v with in[v] = 0' },
+  { id: 'loop', text: '  while queue is not empty' },
+  { id: 'pop', text: '    u ← dequeue(queue); append u to order' },
+  { id: 'edge', text: '    for each edge (u, v): in[v] ← in[v] - 1' },
+  { id: 'enqueue', text: '      if in[v] = 0: enqueue(queue, v)' },
+  { id: 'cycle', text: '  if order has fewer than |V| nodes: report a cycle' },
+  { id: 'done', text: '  return order' },
+];
+
+/**
+ * Kahn's Algorithm
+ *
+ * Topological orders only exist for directed graphs; edges of an undirected
+ * graph are taken to point from "from" to "to".
+ *
+ * @param nodes - Array of graph nodes
+ * @param edges - Array of graph edges
+ * @param directed - Whether the editor graph is directed (only mentioned in the narration)
+ * @returns Array of visualization states showing each step of the algorithm
+ */
+export function kahn(
+  nodes: TraceNode[],
+  edges: TraceEdge[],
+  directed: boolean = true
+): GraphFrame[] {
+  const states: GraphFrame[] = [];
+  const inDegree = new Map<string, number>(nodes.map(node => [node.id, 0]));
+  const queue: string[] = [];
+  const order: string[] = [];
+  const stats = createStats();
+
+  edges.forEach(edge => {
+    inDegree.set(edge.to, inDegree.get(edge.to)! + 1);
+    stats.writes++;
+  });
+  trackMemory(stats, inDegree.size);
+
+  const frame = (
+    fields: Partial<GraphFrame>,
+    current: string | null,
+    edge?: TraceEdge
+  ): GraphFrame => ({
+    kind: 'graph',
+    nodes: nodes.map(node => ({
+      ...node,
+      status: (node.id === current ? 'current' :
+              order.includes(node.id) ? 'visited' :
+              queue.includes(node.id) ? 'open' : 'unvisited') as NodeStatus,
+      inDegree: inDegree.get(node.id)
+    })),
+    edges: edges.map(e => ({
+      ...e,
+      status: (e === edge ? 'current' : order.includes(e.from) ? 'visited' : 'normal') as EdgeStatus
+    })),
+    queue: [...queue],
+    order: [...order],
+    visited: [...order],
+    current,
+    watch: {
+      ...(current !== null ? { u: current } : {}),
+      ...(edge ? { v: edge.to } : {}),
+      queue: [...queue],
+      order: [...order],
+      in: Object.fromEntries(inDegree)
+    },
+    stats: snapshot(stats),
+    ...fields
+  });
+
+  states.push(frame({
+    line: 'init',
+    narration: `Count the edges into every node${directed ? '' : ' (the graph is undirected, so each edge is taken to point from its first node to its second)'}`
+  }, null));
+
+  for (const node of nodes) {
+    stats.comparisons++;
+    if (inDegree.get(node.id) === 0) queue.push(node.id);
+  }
+  trackMemory(stats, inDegree.size + queue.length);
+
+  states.push(frame({
+    line: 'queue',
+    narration: queue.length > 0
+      ? `${queue.join(', ')} ${queue.length === 1 ? 'has' : 'have'} no incoming edges, so they can go first: queue ${queue.join(', ')}`
+      : 'Every node has an incoming edge, so no node can go first'
+  }, null));
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    order.push(current);
+    stats.nodesVisited++;
+
+    states.push(frame({
+      line: 'pop',
+      narration: `Dequeue ${current} and append it to the order: ${order.join(', ')}`
+    }, current));
+
+    for (const edge of edges) {
+      if (edge.from !== current) continue;
+      const remaining = inDegree.get(edge.to)! - 1;
+      inDegree.set(edge.to, remaining);
+      stats.edgesRelaxed++;
+      stats.comparisons++;
+
+      if (remaining === 0) {
+        queue.push(edge.to);
+        trackMemory(stats, inDegree.size + queue.length);
+      }
+
+      states.push(frame({
+        line: remaining === 0 ? 'enqueue' : 'edge',
+        narration: `${current} → ${edge.to}: in-degree of ${edge.to} drops to ${remaining}` +
+          (remaining === 0 ? `, so enqueue ${edge.to}` : '')
+      }, current, edge));
+    }
+  }
+
+  if (order.length === nodes.length) {
+    states.push(frame({
+      line: 'done',
+      narration: `Every node was output: topological order ${order.join(', ')}`
+    }, null));
+    return states;
+  }
+
+  // Every node left over still has an incoming edge from another leftover
+  // node, so walking those edges backwards must eventually repeat a node
+  const remaining = new Set(nodes.map(node => node.id).filter(id => !order.includes(id)));
+  const walk: string[] = [];
+  let node = remaining.values().next().value!;
+  while (!walk.includes(node)) {
+    walk.push(node);
+    node = edges.find(edge => edge.to === node && remaining.has(edge.from))!.from;
+  }
+  const cycle = walk.slice(walk.indexOf(node)).reverse();
+  const cycleArcs = cycle.map((id, i) => [id, cycle[(i + 1) % cycle.length]]);
+
+  const last = frame({
+    line: 'cycle',
+    narration: `The queue is empty but ${remaining.size} nodes were never output: ` +
+      `${[...cycle, cycle[0]].join(' → ')} is a cycle, so no topological order exists`
+  }, null);
+
+  states.push({
+    ...last,
+    nodes: last.nodes.map(n => ({ ...n, status: cycle.includes(n.id) ? 'cycle' : n.status })),
+    edges: last.edges.map(e => ({
+      ...e,
+      status: cycleArcs.some(([a, b]) => e.from === a && e.to === b) ? 'cycle' : e.status
+    })),
+    watch: { ...last.watch, cycle }
+  });
+
+  return states;
+}
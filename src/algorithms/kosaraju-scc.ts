@@ -0,0 +1,222 @@
+/**
+ * Kosaraju's SCC Algorithm Implementation
+ *
+ * Generates visualization states for Kosaraju's strongly connected
+ * components algorithm. A first DFS numbers the nodes in the order they
+ * finish (drawn under each node). The edges are then reversed, and a second
+ * DFS is started from each unassigned node in decreasing finish order; the
+ * nodes it reaches form one component, which is coloured as it is found.
+ */
+
+import { createStats, snapshot, trackMemory } from './operation-stats';
+import { createCallStack, enterCall, exitCall, snapshotCalls } from './call-stack';
+import { GraphFrame, TraceNode, TraceEdge, PseudocodeLine, NodeStatus, EdgeStatus } from './trace';
+
+export const KOSARAJU_PSEUDOCODE: PseudocodeLine[] = [
+  { id: 'start', text: 'procedure kosaraju(graph)' },
+  { id: 'loop', text: '  for each unmarked node s: visit(s)' },
+  { id: 'transpose', text: '  reverse every edge' },
+  { id: 'pick', text: '  for each node u, latest finish first: if u is unassigned, assign(u, new component)' },
+  { id: 'done', text: '  return the components' },
+  { id: 'visit', text: 'procedure visit(u): mark u; for each edge (u, v): if v is unmarked, visit(v)' },
+  { id: 'finish', text: '  push u onto the finish stack' },
+  { id: 'assign', text: 'procedure assign(u, c): component[u] ← c' },
+  { id: 'edge', text: '  for each reversed edge (u, v): if v is unassigned, assign(v, c)' },
+];
+
+/**
+ * Kosaraju's SCC Algorithm
+ *
+ * On an undirected graph every edge is followed both ways, so reversing the
+ * edges changes nothing and the components found are the connected components.
+ *
+ * @param nodes - Array of graph nodes
+ * @param edges - Array of graph edges
+ * @param directed - Whether edges can only be followed from "from" to "to"
+ * @returns Array of visualization states showing each step of the algorithm
+ */
+export function kosaraju(
+  nodes: TraceNode[],
+  edges: TraceEdge[],
+  directed: boolean = true
+): GraphFrame[] {
+  const states: GraphFrame[] = [];
+  const marked = new Set<string>();
+  const finished: string[] = [];      // The finish stack, first finished at the bottom
+  const group = new Map<string, number>();
+  const components: string[][] = [];
+  const explored = new Set<TraceEdge>();
+  const calls = createCallStack();
+  const stats = createStats();
+  let reversed = false;
+
+  // Edges followed from u: outgoing ones in the first pass, incoming ones
+  // (outgoing in the reversed graph) in the second
+  const outgoing = (u: string) => edges.filter(edge =>
+    !directed ? edge.from === u || edge.to === u :
+    reversed ? edge.to === u : edge.from === u);
+  const other = (edge: TraceEdge, u: string) => (edge.from === u ? edge.to : edge.from);
+
+  const frame = (
+    fields: Partial<GraphFrame>,
+    current: string | null,
+    edge?: TraceEdge
+  ): GraphFrame => ({
+    kind: 'graph',
+    nodes: nodes.map(node => {
+      const finish = finished.indexOf(node.id);
+      return {
+        ...node,
+        status: (node.id === current ? 'current' :
+                reversed ? 'unvisited' :
+                finish >= 0 ? 'visited' :
+                marked.has(node.id) ? 'open' : 'unvisited') as NodeStatus,
+        ...(finish >= 0 ? { annotations: { f: finish + 1 } } : {}),
+        ...(group.has(node.id) ? { group: group.get(node.id) } : {})
+      };
+    }),
+    // After the transpose the edges are drawn reversed
+    edges: edges.map(e => ({
+      ...e,
+      ...(reversed && directed ? { from: e.to, to: e.from } : {}),
+      status: (e === edge ? 'current' : explored.has(e) ? 'visited' : 'normal') as EdgeStatus
+    })),
+    stack: [...finished],
+    visited: Array.from(marked),
+    components: components.map(component => [...component]),
+    current,
+    callStack: snapshotCalls(calls),
+    watch: {
+      ...(current !== null ? { u: current } : {}),
+      ...(edge && current !== null ? { v: other(edge, current) } : {}),
+      finished: [...finished],
+      components: components.map(component => component.join(''))
+    },
+    stats: snapshot(stats),
+    ...fields
+  });
+
+  const visit = (u: string) => {
+    enterCall(calls, { name: 'visit', node: u });
+    marked.add(u);
+    stats.nodesVisited++;
+    trackMemory(stats, marked.size + finished.length);
+
+    states.push(frame({
+      line: 'visit',
+      narration: `visit(${u}): mark ${u}`
+    }, u));
+
+    for (const edge of outgoing(u)) {
+      const v = other(edge, u);
+      explored.add(edge);
+      stats.edgesRelaxed++;
+      stats.comparisons++;
+
+      if (marked.has(v)) {
+        states.push(frame({
+          line: 'visit',
+          narration: `${u} → ${v}: ${v} is already marked`
+        }, u, edge));
+        continue;
+      }
+      states.push(frame({
+        line: 'visit',
+        narration: `${u} → ${v}: ${v} is unmarked, so visit it`
+      }, u, edge));
+      visit(v);
+    }
+
+    finished.push(u);
+    stats.writes++;
+    states.push(frame({
+      line: 'finish',
+      narration: `${u} is finished ${finished.length === 1 ? 'first' : `number ${finished.length}`}: push it onto the finish stack`
+    }, u));
+    exitCall(calls);
+  };
+
+  const assign = (u: string, component: string[]) => {
+    enterCall(calls, { name: 'assign', node: u });
+    group.set(u, components.length);
+    component.push(u);
+    stats.nodesVisited++;
+    stats.writes++;
+
+    states.push(frame({
+      line: 'assign',
+      narration: `assign(${u}): ${u} joins component ${components.length + 1}`,
+      components: [...components, component].map(c => [...c])
+    }, u));
+
+    for (const edge of outgoing(u)) {
+      const v = other(edge, u);
+      explored.add(edge);
+      stats.edgesRelaxed++;
+      stats.comparisons++;
+
+      const assigned = group.has(v);
+      states.push(frame({
+        line: 'edge',
+        narration: assigned
+          ? `${u} → ${v} (reversed): ${v} is already in component ${group.get(v)! + 1}`
+          : `${u} → ${v} (reversed): ${v} is unassigned, so it joins the component`,
+        components: [...components, component].map(c => [...c])
+      }, u, edge));
+      if (!assigned) assign(v, component);
+    }
+    exitCall(calls);
+  };
+
+  states.push(frame({
+    line: 'start',
+    narration: `First pass: a DFS numbers the nodes in the order they finish${directed ? '' : ' (the graph is undirected, so every edge is followed both ways)'}`
+  }, null));
+
+  for (const node of nodes) {
+    stats.comparisons++;
+    if (marked.has(node.id)) continue;
+
+    states.push(frame({
+      line: 'loop',
+      narration: `${node.id} is unmarked: start a search from it`
+    }, null));
+    visit(node.id);
+  }
+
+  reversed = true;
+  explored.clear();
+  states.push(frame({
+    line: 'transpose',
+    narration: directed
+      ? `Second pass: reverse every edge, then search from the nodes in decreasing finish order ${[...finished].reverse().join(', ')}`
+      : `Second pass: reversing an undirected graph changes nothing; search from the nodes in decreasing finish order ${[...finished].reverse().join(', ')}`
+  }, null));
+
+  for (const u of [...finished].reverse()) {
+    stats.comparisons++;
+    if (group.has(u)) continue;
+
+    states.push(frame({
+      line: 'pick',
+      narration: `${u} has the latest finish of the unassigned nodes: it starts component ${components.length + 1}`
+    }, null));
+    const component: string[] = [];
+    assign(u, component);
+    components.push(component);
+    trackMemory(stats, marked.size + finished.length + group.size);
+
+    states.push(frame({
+      line: 'pick',
+      narration: `Component ${components.length} is {${component.join(', ')}}: every unassigned node the reversed search reached from ${u}`
+    }, null));
+  }
+
+  states.push(frame({
+    line: 'done',
+    narration: `${components.length} strongly connected ${components.length === 1 ? 'component' : 'components'}: ` +
+      components.map(component => `{${component.join(', ')}}`).join(', ')
+  }, null));
+
+  return states;
+}
@@ -0,0 +1,173 @@
+/**
+ * Kruskal's Algorithm Implementation
+ *
+ * Generates visualization states for Kruskal's minimum spanning tree
+ * algorithm. Edges are taken in order of weight; a union-find forest decides
+ * whether each one joins two trees (accepted) or would close a cycle
+ * (rejected). Every state carries the forest's parent pointers and ranks.
+ */
+
+import { createStats, snapshot, trackMemory } from './operation-stats';
+import { GraphFrame, TraceNode, TraceEdge, PseudocodeLine, NodeStatus, EdgeStatus } from './trace';
+
+export const KRUSKAL_PSEUDOCODE: PseudocodeLine[] = [
+  { id: 'start', text: 'procedure kruskal(graph)' },
+  { id: 'sort', text: '  sort the edges by weight; make every node its own set' },
+  { id: 'loop', text: '  for each edge (u, v) in order, until |V| - 1 edges are accepted' },
+  { id: 'find', text: '    ru ← find(u); rv ← find(v)' },
+  { id: 'reject', text: '    if ru = rv: reject (u, v) - it would close a cycle' },
+  { id: 'union', text: '    else: accept (u, v); union(ru, rv) by rank' },
+  { id: 'done', text: '  return the accepted edges' },
+];
+
+const label = (edge: TraceEdge) => `${edge.from}–${edge.to}`;
+
+/**
+ * Kruskal's Algorithm
+ *
+ * Edge directions are ignored: spanning trees are defined on undirected
+ * graphs. On a disconnected graph the result is a minimum spanning forest.
+ *
+ * @param nodes - Array of graph nodes
+ * @param edges - Array of weighted graph edges
+ * @param directed - Whether the editor graph is directed (only mentioned in the narration)
+ * @returns Array of visualization states showing each step of the algorithm
+ */
+export function kruskal(
+  nodes: TraceNode[],
+  edges: TraceEdge[],
+  directed: boolean = false
+): GraphFrame[] {
+  const states: GraphFrame[] = [];
+  const parent = new Map<string, string>();
+  const rank = new Map<string, number>();
+  const accepted = new Set<number>();
+  const rejected = new Set<number>();
+  const stats = createStats();
+  let treeWeight = 0;
+
+  nodes.forEach(node => {
+    parent.set(node.id, node.id);
+    rank.set(node.id, 0);
+  });
+
+  // Stable sort keeps equal weights in edge order
+  const order = edges.map((_, index) => index).sort((a, b) => {
+    stats.comparisons++;
+    return (edges[a].weight ?? 1) - (edges[b].weight ?? 1);
+  });
+  trackMemory(stats, order.length + parent.size * 2);
+
+  // Find with path compression; records every node re-pointed at the root
+  const find = (id: string, changed: string[]): string => {
+    let root = id;
+    while (parent.get(root) !== root) {
+      stats.accesses++;
+      root = parent.get(root)!;
+    }
+    for (let node = id; parent.get(node) !== root && node !== root;) {
+      const next = parent.get(node)!;
+      parent.set(node, root);
+      stats.writes++;
+      changed.push(node);
+      node = next;
+    }
+    return root;
+  };
+
+  const frame = (
+    fields: Partial<GraphFrame>,
+    changed: string[] = [],
+    current?: number
+  ): GraphFrame => {
+    const touched = new Set(Array.from(accepted).flatMap(index => [edges[index].from, edges[index].to]));
+    const ends = current !== undefined ? [edges[current].from, edges[current].to] : [];
+    return {
+      kind: 'graph',
+      nodes: nodes.map(node => ({
+        ...node,
+        status: (ends.includes(node.id) ? 'current' : touched.has(node.id) ? 'visited' : 'unvisited') as NodeStatus
+      })),
+      edges: edges.map((edge, index) => ({
+        ...edge,
+        status: (accepted.has(index) ? 'tree' :
+                rejected.has(index) ? 'rejected' :
+                index === current ? 'current' : 'normal') as EdgeStatus
+      })),
+      current: ends[0] ?? null,
+      unionFind: { parent: Object.fromEntries(parent), rank: Object.fromEntries(rank), changed },
+      treeWeight,
+      stats: snapshot(stats),
+      ...fields
+    };
+  };
+
+  const sorted = order.map(index => `${label(edges[index])} ${edges[index].weight ?? 1}`);
+  states.push(frame({
+    line: 'sort',
+    narration: `Sort the ${edges.length} edges by weight${order.length > 0 ? `: ${sorted.join(', ')}` : ''}; ` +
+      `every node starts as its own set${directed ? ' (edge directions are ignored)' : ''}`,
+    watch: { order: sorted, accepted: 0, weight: 0 }
+  }));
+
+  for (const index of order) {
+    if (accepted.size === nodes.length - 1) break;
+
+    const edge = edges[index];
+    const weight = edge.weight ?? 1;
+    const compressed: string[] = [];
+    const rootFrom = find(edge.from, compressed);
+    const rootTo = find(edge.to, compressed);
+    stats.comparisons++;
+    stats.edgesRelaxed++;
+
+    const watch = { edge: label(edge), w: weight, 'find(u)': rootFrom, 'find(v)': rootTo };
+    states.push(frame({
+      line: 'find',
+      narration: `${label(edge)} (${weight}): find(${edge.from}) = ${rootFrom}, find(${edge.to}) = ${rootTo}` +
+        (compressed.length > 0 ? `; path compression points ${compressed.join(', ')} at the root` : ''),
+      watch: { ...watch, accepted: accepted.size, weight: treeWeight }
+    }, compressed, index));
+
+    if (rootFrom === rootTo) {
+      rejected.add(index);
+      states.push(frame({
+        line: 'reject',
+        narration: `${edge.from} and ${edge.to} are already in the same tree (root ${rootFrom}), so ${label(edge)} would close a cycle: reject it`,
+        watch: { ...watch, accepted: accepted.size, weight: treeWeight }
+      }, [], index));
+      continue;
+    }
+
+    // Union by rank: the shallower tree hangs under the deeper one
+    const [child, root] = rank.get(rootFrom)! < rank.get(rootTo)! ? [rootFrom, rootTo] : [rootTo, rootFrom];
+    parent.set(child, root);
+    stats.writes++;
+    const changed = [child];
+    if (rank.get(child) === rank.get(root)) {
+      rank.set(root, rank.get(root)! + 1);
+      changed.push(root);
+    }
+    accepted.add(index);
+    treeWeight += weight;
+
+    states.push(frame({
+      line: 'union',
+      narration: `${edge.from} and ${edge.to} are in different trees: accept ${label(edge)} and make root ${root} the parent of root ${child}` +
+        (changed.length > 1 ? ` (${root}'s rank grows to ${rank.get(root)})` : ''),
+      watch: { ...watch, accepted: accepted.size, weight: treeWeight }
+    }, changed, index));
+  }
+
+  const tree = Array.from(accepted).map(index => label(edges[index]));
+  const trees = nodes.length - accepted.size;
+  states.push(frame({
+    line: 'done',
+    narration: trees > 1
+      ? `The graph is disconnected: ${tree.length} edges form a minimum spanning forest of ${trees} trees with total weight ${treeWeight}`
+      : `Minimum spanning tree found: ${tree.length} edges with total weight ${treeWeight}`,
+    watch: { tree, accepted: accepted.size, weight: treeWeight }
+  }));
+
+  return states;
+}
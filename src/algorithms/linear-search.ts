@@ -1,62 +1,88 @@
-export interface BarState {
-  values: number[];
-  comparing: number[];
-  swapping: number[];
-  sorted: number[];
-  searching: number[];
-  found: number[];
-  target: number;
-}
+import { createStats, snapshot } from './operation-stats';
+import { ArrayFrame, PseudocodeLine } from './trace';
 
-export function linearSearch(arr: number[], target: number): BarState[] {
-  const states: BarState[] = [];
+export const LINEAR_SEARCH_PSEUDOCODE: PseudocodeLine[] = [
+  { id: 'start', text: 'procedure linearSearch(a, target)' },
+  { id: 'loop', text: '  for i from 0 to n - 1' },
+  { id: 'compare', text: '    if a[i] = target' },
+  { id: 'found', text: '      return i' },
+  { id: 'next', text: '    // otherwise try the next element' },
+  { id: 'not-found', text: '  return -1' },
+];
+
+export function linearSearch(arr: number[], target: number): ArrayFrame[] {
+  const states: ArrayFrame[] = [];
   const array = [...arr];
+  const stats = createStats();
 
   // Add initial state
   states.push({
+    kind: 'array',
     values: [...array],
     comparing: [],
     swapping: [],
     sorted: [],
     searching: [],
     found: [],
-    target
+    target,
+    line: 'start',
+    narration: array.length > 0 ? `Check each element in turn for ${target}` : 'The array is empty, so there is nothing to search',
+    watch: { target, n: array.length },
+    stats: snapshot(stats)
   });
 
   for (let i = 0; i < array.length; i++) {
+    stats.comparisons++;
+    stats.accesses++;
+
     // Add state showing current element being searched
     states.push({
+      kind: 'array',
       values: [...array],
       comparing: [i],
       swapping: [],
       sorted: [],
       searching: [i],
       found: [],
-      target
+      target,
+      line: 'compare',
+      narration: `Compare a[${i}] = ${array[i]} with ${target}`,
+      watch: { target, i, 'a[i]': array[i] },
+      stats: snapshot(stats)
     });
 
     if (array[i] === target) {
       // Add state showing found element
       states.push({
+        kind: 'array',
         values: [...array],
         comparing: [],
         swapping: [],
         sorted: [],
         searching: [],
         found: [i],
-        target
+        target,
+        line: 'found',
+        narration: `a[${i}] = ${target}, found at index ${i}`,
+        watch: { target, i, 'a[i]': array[i] },
+        stats: snapshot(stats)
       });
       break;
     } else {
       // Add state showing element not found, moving to next
       states.push({
+        kind: 'array',
         values: [...array],
         comparing: [],
         swapping: [],
         sorted: [],
         searching: [],
         found: [],
-        target
+        target,
+        line: 'next',
+        narration: `${array[i]} ≠ ${target}, move on to the next element`,
+        watch: { target, i, 'a[i]': array[i] },
+        stats: snapshot(stats)
       });
     }
   }
@@ -64,13 +90,18 @@ export function linearSearch(arr: number[], target: number): BarState[] {
   // If target not found, add final state
   if (!array.includes(target)) {
     states.push({
+      kind: 'array',
       values: [...array],
       comparing: [],
       swapping: [],
       sorted: [],
       searching: [],
       found: [],
-      target
+      target,
+      line: 'not-found',
+      narration: `Reached the end without finding ${target}`,
+      watch: { target, n: array.length },
+      stats: snapshot(stats)
     });
   }
 
@@ -1,125 +1,142 @@
-export interface BarState {
-  values: number[];
-  comparing: number[];
-  swapping: number[];
-  sorted: number[];
-  left: number[];
-  right: number[];
-  merging: boolean;
-}
-
-export function mergeSort(arr: number[]): BarState[] {
-  const states: BarState[] = [];
+import { createStats, snapshot, trackMemory } from './operation-stats';
+import { createCallStack, enterCall, exitCall, snapshotCalls } from './call-stack';
+import { ArrayFrame, ArrayMove, PseudocodeLine } from './trace';
+
+export const MERGE_SORT_PSEUDOCODE: PseudocodeLine[] = [
+  { id: 'start', text: 'procedure mergeSort(a, lo, hi)' },
+  { id: 'base', text: '  if lo = hi: return' },
+  { id: 'split', text: '  mid ← ⌊(lo + hi) / 2⌋; mergeSort(a, lo, mid); mergeSort(a, mid + 1, hi)' },
+  { id: 'merge', text: '  merge a[lo..mid] and a[mid + 1..hi]:' },
+  { id: 'compare', text: '    while both halves have values: compare their next values' },
+  { id: 'take', text: '      copy the smaller one (the left one on ties) to the buffer' },
+  { id: 'rest', text: '    copy what is left of either half to the buffer' },
+  { id: 'copy-back', text: '    copy the buffer back into a[lo..hi]' },
+];
+
+export function mergeSort(arr: number[]): ArrayFrame[] {
+  const states: ArrayFrame[] = [];
   const array = [...arr];
   const n = array.length;
+  const stats = createStats();
+  const calls = createCallStack();
 
   // Add initial state
   states.push({
+    kind: 'array',
     values: [...array],
     comparing: [],
     swapping: [],
     sorted: [],
     left: [],
     right: [],
-    merging: false
+    merging: false,
+    callStack: snapshotCalls(calls),
+    line: 'start',
+    narration: `Sort ${n} values by splitting them in half, sorting each half and merging`,
+    watch: { n },
+    stats: snapshot(stats)
   });
 
-  // Helper function to merge two sorted subarrays
+  // Helper function to merge two sorted subarrays through a buffer
   function merge(left: number[], right: number[], startIndex: number): number[] {
     const result: number[] = [];
-    let i = 0, j = 0;
-    let leftStart = startIndex;
-    let rightStart = startIndex + left.length;
+    let i = 0, j = 0, k = 0;
+    const leftStart = startIndex;
+    const rightStart = startIndex + left.length;
+    const end = rightStart + right.length - 1;
+    const leftIndices = Array.from({ length: left.length }, (_, idx) => leftStart + idx);
+    const rightIndices = Array.from({ length: right.length }, (_, idx) => rightStart + idx);
+    const buffer: (number | null)[] = new Array(left.length + right.length).fill(null);
+
+    // Add a merge state; the buffer is shown beneath the bars as auxiliary row 0.
+    // i and j watch the next value of each half, k the buffer slot in use
+    const pushState = (comparing: number[], sorted: number[], line: string, narration: string, moves: ArrayMove[] = []) => {
+      const bufferSlots = moves
+        .flatMap(move => [move.from, move.to])
+        .filter(slot => slot.row === 0)
+        .map(slot => slot.index);
+      states.push({
+        kind: 'array',
+        values: [...array],
+        comparing,
+        swapping: [],
+        sorted,
+        left: leftIndices,
+        right: rightIndices,
+        merging: true,
+        auxiliary: [{ name: 'Buffer', values: [...buffer], highlight: bufferSlots }],
+        moves,
+        callStack: snapshotCalls(calls),
+        line,
+        narration,
+        watch: { lo: leftStart, mid: rightStart - 1, hi: end, i: leftStart + i, j: rightStart + j, k },
+        stats: snapshot(stats)
+      });
+    };
+
+    // Copy the next value from the array into the buffer
+    const place = (from: number, value: number, line: string) => {
+      buffer[k] = value;
+      result.push(value);
+      pushState([], Array.from({ length: startIndex }, (_, idx) => idx), line, `Copy ${value} from a[${from}] to buffer slot ${k}`, [
+        { from: { row: 'main', index: from }, to: { row: 0, index: k } }
+      ]);
+      k++;
+    };
 
     // Add state showing the two subarrays to be merged
-    const currentArray = [...array];
-    states.push({
-      values: currentArray,
-      comparing: [],
-      swapping: [],
-      sorted: [],
-      left: Array.from({ length: left.length }, (_, idx) => leftStart + idx),
-      right: Array.from({ length: right.length }, (_, idx) => rightStart + idx),
-      merging: true
-    });
+    pushState([], [], 'merge', `Merge the sorted halves a[${leftStart}..${rightStart - 1}] and a[${rightStart}..${end}]`);
 
     while (i < left.length && j < right.length) {
-      // Add comparing state
-      states.push({
-        values: currentArray,
-        comparing: [leftStart + i, rightStart + j],
-        swapping: [],
-        sorted: Array.from({ length: startIndex }, (_, idx) => idx),
-        left: Array.from({ length: left.length }, (_, idx) => leftStart + idx),
-        right: Array.from({ length: right.length }, (_, idx) => rightStart + idx),
-        merging: true
-      });
+      stats.comparisons++;
+      stats.accesses += 2;
 
+      // Add comparing state
+      pushState(
+        [leftStart + i, rightStart + j],
+        Array.from({ length: startIndex }, (_, idx) => idx),
+        'compare',
+        `Compare ${left[i]} and ${right[j]}; ${left[i] <= right[j] ? left[i] : right[j]} goes first`
+      );
+
+      stats.writes++;
+      stats.accesses++;
       if (left[i] <= right[j]) {
-        result.push(left[i]);
+        place(leftStart + i, left[i], 'take');
         i++;
       } else {
-        result.push(right[j]);
+        place(rightStart + j, right[j], 'take');
         j++;
       }
-
-      // Update the array with merged result so far
-      for (let k = 0; k < result.length; k++) {
-        currentArray[startIndex + k] = result[k];
-      }
-
-      // Add state after merge step
-      states.push({
-        values: [...currentArray],
-        comparing: [],
-        swapping: [],
-        sorted: Array.from({ length: startIndex + result.length }, (_, idx) => idx),
-        left: Array.from({ length: left.length }, (_, idx) => leftStart + idx),
-        right: Array.from({ length: right.length }, (_, idx) => rightStart + idx),
-        merging: true
-      });
     }
 
     // Add remaining elements from left subarray
     while (i < left.length) {
-      result.push(left[i]);
+      stats.writes++;
+      stats.accesses += 2;
+      place(leftStart + i, left[i], 'rest');
       i++;
-      
-      // Update array
-      for (let k = 0; k < result.length; k++) {
-        currentArray[startIndex + k] = result[k];
-      }
-
-      states.push({
-        values: [...currentArray],
-        comparing: [],
-        swapping: [],
-        sorted: Array.from({ length: startIndex + result.length }, (_, idx) => idx),
-        left: Array.from({ length: left.length }, (_, idx) => leftStart + idx),
-        right: Array.from({ length: right.length }, (_, idx) => rightStart + idx),
-        merging: true
-      });
     }
 
     // Add remaining elements from right subarray
     while (j < right.length) {
-      result.push(right[j]);
+      stats.writes++;
+      stats.accesses += 2;
+      place(rightStart + j, right[j], 'rest');
       j++;
-      
-      // Update array
-      for (let k = 0; k < result.length; k++) {
-        currentArray[startIndex + k] = result[k];
-      }
+    }
 
-      states.push({
-        values: [...currentArray],
-        comparing: [],
-        swapping: [],
-        sorted: Array.from({ length: startIndex + result.length }, (_, idx) => idx),
-        left: Array.from({ length: left.length }, (_, idx) => leftStart + idx),
-        right: Array.from({ length: right.length }, (_, idx) => rightStart + idx),
-        merging: true
-      });
+    // Both halves and the merge buffer are alive at this point
+    trackMemory(stats, left.length + right.length + result.length);
+
+    // Copy the buffer back over the merged range
+    for (k = 0; k < result.length; k++) {
+      array[startIndex + k] = result[k];
+      stats.writes++;
+      stats.accesses++;
+      pushState([], Array.from({ length: startIndex + k + 1 }, (_, idx) => idx), 'copy-back', `Copy ${result[k]} back to a[${startIndex + k}]`, [
+        { from: { row: 0, index: k }, to: { row: 'main', index: startIndex + k } }
+      ]);
     }
 
     return result;
@@ -127,7 +144,30 @@ export function mergeSort(arr: number[]): BarState[] {
 
   // Recursive merge sort function
   function mergeSortHelper(start: number, end: number): number[] {
-    if (end - start <= 1) {
+    if (end - start === 0) return [];
+    enterCall(calls, { name: 'mergeSort', lo: start, hi: end - 1 });
+
+    if (end - start === 1) {
+      stats.accesses++;
+
+      // A single element is a leaf of the recursion
+      states.push({
+        kind: 'array',
+        values: [...array],
+        comparing: [],
+        swapping: [],
+        sorted: [],
+        left: [start],
+        right: [],
+        merging: false,
+        callStack: snapshotCalls(calls),
+        line: 'base',
+        narration: `a[${start}] = ${array[start]} is a single value, so it is already sorted`,
+        watch: { lo: start, hi: start },
+        stats: snapshot(stats)
+      });
+
+      exitCall(calls);
       return array.slice(start, end);
     }
 
@@ -135,38 +175,46 @@ export function mergeSort(arr: number[]): BarState[] {
     
     // Add state showing division
     states.push({
+      kind: 'array',
       values: [...array],
       comparing: [],
       swapping: [],
       sorted: [],
       left: Array.from({ length: mid - start }, (_, idx) => start + idx),
       right: Array.from({ length: end - mid }, (_, idx) => mid + idx),
-      merging: false
+      merging: false,
+      callStack: snapshotCalls(calls),
+      line: 'split',
+      narration: `Split a[${start}..${end - 1}] at mid = ${mid - 1}: sort a[${start}..${mid - 1}], then a[${mid}..${end - 1}]`,
+      watch: { lo: start, mid: mid - 1, hi: end - 1 },
+      stats: snapshot(stats)
     });
 
     // Recursively sort left and right halves
     const left = mergeSortHelper(start, mid);
     const right = mergeSortHelper(mid, end);
 
-    // Merge the sorted halves
+    // Merge the sorted halves (merge writes them back into the array)
     const merged = merge(left, right, start);
-    
-    // Update the original array with merged result
-    for (let i = 0; i < merged.length; i++) {
-      array[start + i] = merged[i];
-    }
 
     // Add final state for this merge
     states.push({
+      kind: 'array',
       values: [...array],
       comparing: [],
       swapping: [],
       sorted: Array.from({ length: end }, (_, idx) => idx),
       left: [],
       right: [],
-      merging: false
+      merging: false,
+      callStack: snapshotCalls(calls),
+      line: 'copy-back',
+      narration: `a[${start}..${end - 1}] is now sorted`,
+      watch: { lo: start, hi: end - 1 },
+      stats: snapshot(stats)
     });
 
+    exitCall(calls);
     return merged;
   }
 
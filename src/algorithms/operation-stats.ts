@@ -0,0 +1,48 @@
+/**
+ * Operation Stats
+ *
+ * Counters shared by every trace generator. Each generator keeps one
+ * mutable OperationStats while it runs and stores a snapshot in every
+ * state, so a frame shows the work done up to and including that step.
+ */
+
+/**
+ * Operation Stats Interface
+ *
+ * All counts are cumulative; auxMemory is the peak so far.
+ */
+export interface OperationStats {
+  comparisons: number;     // Element or key comparisons
+  swaps: number;           // Two elements exchanged
+  writes: number;          // Single writes to the array / table (a swap counts as two)
+  accesses: number;        // Array / table reads and writes
+  auxMemory: number;       // Peak auxiliary storage in elements (buffers, queues, stacks, maps)
+  nodesVisited: number;    // Nodes or cells expanded
+  edgesRelaxed: number;    // Edges examined from an expanded node
+}
+
+export function createStats(): OperationStats {
+  return {
+    comparisons: 0,
+    swaps: 0,
+    writes: 0,
+    accesses: 0,
+    auxMemory: 0,
+    nodesVisited: 0,
+    edgesRelaxed: 0
+  };
+}
+
+/**
+ * Record the auxiliary storage currently in use, keeping the peak
+ */
+export function trackMemory(stats: OperationStats, inUse: number): void {
+  stats.auxMemory = Math.max(stats.auxMemory, inUse);
+}
+
+/**
+ * Snapshot for a state - the counter object itself keeps changing
+ */
+export function snapshot(stats: OperationStats): OperationStats {
+  return { ...stats };
+}
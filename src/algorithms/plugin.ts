@@ -0,0 +1,90 @@
+/**
+ * Algorithm Plugin
+ *
+ * Everything the app needs to know about one algorithm, declared in one
+ * place: its metadata, the input it runs on, the generator that turns that
+ * input into a trace, the renderer for the trace, editor templates and
+ * grading tests. Each algorithm has a plugin in plugins/ and registry.ts
+ * lists them; the visualiser, editor, grader, store and comparison pages
+ * are all driven from that list instead of their own id checks.
+ */
+
+import type { Algorithm } from '../data/algorithms';
+import type { EditableGraph } from '../utils/graphEditing';
+import type { HashTableConfig } from '../utils/hashEditing';
+import type { TestSuite } from '../utils/testSuites';
+import { PseudocodeLine, Trace, TraceKind } from './trace';
+
+/**
+ * Input Kind Type
+ *
+ * - 'array'  - an array of numbers (sorting)
+ * - 'search' - an array of numbers and a target
+ * - 'hash'   - hash table operations from the hash table editor
+ * - 'graph'  - the graph from the graph editor, with start and goal
+ */
+export type InputKind = 'array' | 'search' | 'hash' | 'graph';
+
+/**
+ * Renderer Type
+ *
+ * The frame kind the algorithm's generator produces. Grid traces are not
+ * listed here because grid mode is an option of graph algorithms.
+ */
+export type RendererType = Exclude<TraceKind, 'grid'>;
+
+export type Language = 'javascript' | 'python' | 'java';
+
+// Languages the code editor offers
+export const LANGUAGES: Language[] = ['javascript', 'python', 'java'];
+
+/**
+ * Algorithm Input Interface
+ *
+ * The shared input every generator receives; each one reads the parts
+ * that match its input kind.
+ */
+export interface AlgorithmInput {
+  values: number[];          // Array for array and search inputs
+  target: number | null;     // Search target (null picks the middle element)
+  graph: EditableGraph;      // Graph, start, goal and direction for graph inputs
+  hashTable: HashTableConfig; // Collision strategy, capacity and operations for hash inputs
+}
+
+/**
+ * Entry Point Interface
+ *
+ * Describes how a user's implementation is invoked so its array
+ * operations can be traced and visualised.
+ */
+export interface EntryPoint {
+  name: string;                 // Function name the user is expected to define
+  kind: 'sort' | 'search';      // Determines argument list and output check
+  requiresSorted?: boolean;     // Search input must be sorted first (binary search)
+}
+
+/**
+ * Code Templates Interface
+ */
+export interface CodeTemplates {
+  starter: Partial<Record<Language, string>>;   // Skeleton with TODO comments
+  model: Partial<Record<Language, string>>;     // Reference implementation
+}
+
+/**
+ * Algorithm Plugin Interface
+ */
+export interface AlgorithmPlugin extends Algorithm {
+  input: InputKind;
+  renderer: RendererType;
+  supportsGrid?: boolean;                          // Can also run in grid pathfinding mode
+  defaultInput?: number[];                         // Array shown when no input is chosen
+  generate: (input: AlgorithmInput) => Trace;
+  entryPoint?: EntryPoint;                         // Set if user code can be visualised
+  templates?: CodeTemplates;
+  tests?: () => TestSuite;
+  pseudocode?: PseudocodeLine[];                   // Lines the trace's frames point at
+}
+
+// Array the visualiser starts from for array-based algorithms
+export const DEFAULT_VALUES = [64, 34, 25, 12, 22, 11, 90, 45, 78, 33];
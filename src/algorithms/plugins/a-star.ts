@@ -0,0 +1,105 @@
+/**
+ * A* Plugin
+ */
+
+import { AlgorithmPlugin } from '../plugin';
+import { aStar, A_STAR_PSEUDOCODE } from '../a-star';
+import { toAlgorithmInput } from '../../utils/graphEditing';
+import { aStarSuite } from '../../utils/testSuites';
+
+export const aStarPlugin: AlgorithmPlugin = {
+  id: 'a-star',
+  name: 'A*',
+  category: 'Path Finding',
+  image: '/a-star.jpg',
+  hasCode: true,
+  hasQuiz: true,
+  description: 'A pathfinding algorithm that uses a heuristic function to estimate the cost to reach the goal, making it more efficient than Dijkstra\'s algorithm.',
+  complexity: {
+    time: 'O(V log V)',
+    space: 'O(V)'
+  },
+
+  input: 'graph',
+  renderer: 'graph',
+  supportsGrid: true,
+  generate: ({ graph }) => {
+    const { nodes, edges } = toAlgorithmInput(graph);
+    return aStar(nodes, edges, graph.start, graph.end, graph.directed);
+  },
+  tests: aStarSuite,
+  pseudocode: A_STAR_PSEUDOCODE,
+
+  templates: {
+    starter: {
+      javascript: `// graph is a weighted adjacency list, positions maps each node to { x, y }
+// Return { distance, path } - use distance Infinity and path [] if unreachable
+function aStar(graph, positions, start, goal) {
+    // TODO: Implement A* search
+    // Hint: Expand the open node with the lowest g + h, where h is the
+    // straight-line distance to the goal
+    
+}`
+    },
+
+    model: {
+      javascript: `// graph is a weighted adjacency list, positions maps each node to { x, y }
+// Returns { distance, path } - distance is Infinity and path is [] if unreachable
+function aStar(graph, positions, start, goal) {
+    const heuristic = (node) => Math.hypot(
+        positions[node].x - positions[goal].x,
+        positions[node].y - positions[goal].y
+    );
+    
+    const gScore = { [start]: 0 };
+    const fScore = { [start]: heuristic(start) };
+    const parent = {};
+    const open = new Set([start]);
+    const closed = new Set();
+    
+    while (open.size > 0) {
+        // Take the open node with the lowest f = g + h
+        let current = null;
+        for (const node of open) {
+            if (current === null || fScore[node] < fScore[current]) {
+                current = node;
+            }
+        }
+        
+        if (current === goal) {
+            const path = [goal];
+            while (path[0] !== start) {
+                path.unshift(parent[path[0]]);
+            }
+            return { distance: gScore[goal], path };
+        }
+        
+        open.delete(current);
+        closed.add(current);
+        
+        for (const { node, weight } of graph[current]) {
+            if (closed.has(node)) continue;
+            const tentative = gScore[current] + weight;
+            if (!(node in gScore) || tentative < gScore[node]) {
+                gScore[node] = tentative;
+                fScore[node] = tentative + heuristic(node);
+                parent[node] = current;
+                open.add(node);
+            }
+        }
+    }
+    
+    return { distance: Infinity, path: [] };
+}
+
+// Example usage
+const graph = {
+    A: [{ node: 'B', weight: 2 }],
+    B: [{ node: 'A', weight: 2 }, { node: 'C', weight: 2 }],
+    C: [{ node: 'B', weight: 2 }]
+};
+const positions = { A: { x: 0, y: 0 }, B: { x: 1, y: 0 }, C: { x: 2, y: 0 } };
+console.log(aStar(graph, positions, 'A', 'C')); // Output: { distance: 4, path: ['A', 'B', 'C'] }`
+    }
+  }
+};
@@ -0,0 +1,98 @@
+/**
+ * Bellman-Ford Plugin
+ */
+
+import { AlgorithmPlugin } from '../plugin';
+import { bellmanFord, BELLMAN_FORD_PSEUDOCODE } from '../bellman-ford';
+import { toAlgorithmInput } from '../../utils/graphEditing';
+import { bellmanFordSuite } from '../../utils/testSuites';
+
+export const bellmanFordPlugin: AlgorithmPlugin = {
+  id: 'bellman-ford',
+  name: 'Bellman-Ford',
+  category: 'Path Finding',
+  image: '/bellman-ford.jpg',
+  hasCode: true,
+  hasQuiz: true,
+  description: 'Finds shortest paths by relaxing every edge |V| - 1 times. Slower than Dijkstra, but it handles negative edge weights and detects negative cycles.',
+  complexity: {
+    time: 'O(V · E)',
+    space: 'O(V)'
+  },
+
+  input: 'graph',
+  renderer: 'graph',
+  generate: ({ graph }) => {
+    const { nodes, edges } = toAlgorithmInput(graph);
+    return bellmanFord(nodes, edges, graph.start, graph.end, graph.directed);
+  },
+  tests: bellmanFordSuite,
+  pseudocode: BELLMAN_FORD_PSEUDOCODE,
+
+  templates: {
+    starter: {
+      javascript: `// nodes is a list of node ids, edges a list of directed edges,
+// e.g. [{ from: 'A', to: 'B', weight: -2 }, ...] (an undirected edge appears once each way)
+// Return { distance, path } - use distance Infinity and path [] if unreachable,
+// or null if a negative cycle can be reached from start
+function bellmanFord(nodes, edges, start, target) {
+    // TODO: Implement the Bellman-Ford algorithm
+    // Hint: Relax every edge |V| - 1 times, then check whether any edge still relaxes
+    
+}`
+    },
+
+    model: {
+      javascript: `// nodes is a list of node ids, edges a list of directed edges,
+// e.g. [{ from: 'A', to: 'B', weight: -2 }, ...] (an undirected edge appears once each way)
+// Returns { distance, path } - distance is Infinity and path is [] if unreachable,
+// or null if a negative cycle can be reached from start
+function bellmanFord(nodes, edges, start, target) {
+    const distances = {};
+    const parent = {};
+    
+    for (const node of nodes) {
+        distances[node] = Infinity;
+    }
+    distances[start] = 0;
+    
+    for (let round = 1; round < nodes.length; round++) {
+        let changed = false;
+        for (const { from, to, weight } of edges) {
+            if (distances[from] + weight < distances[to]) {
+                distances[to] = distances[from] + weight;
+                parent[to] = from;
+                changed = true;
+            }
+        }
+        // Nothing changed, so nothing will change in later rounds either
+        if (!changed) break;
+    }
+    
+    // Any edge that still relaxes is on or reachable from a negative cycle
+    for (const { from, to, weight } of edges) {
+        if (distances[from] + weight < distances[to]) return null;
+    }
+    
+    if (distances[target] === Infinity) {
+        return { distance: Infinity, path: [] };
+    }
+    
+    const path = [target];
+    while (path[0] !== start) {
+        path.unshift(parent[path[0]]);
+    }
+    return { distance: distances[target], path };
+}
+
+// Example usage
+const nodes = ['A', 'B', 'C'];
+const edges = [
+    { from: 'A', to: 'B', weight: 4 },
+    { from: 'A', to: 'C', weight: 1 },
+    { from: 'B', to: 'C', weight: -5 }
+];
+console.log(bellmanFord(nodes, edges, 'A', 'C')); // Output: { distance: -1, path: ['A', 'B', 'C'] }`
+    }
+  }
+};
@@ -0,0 +1,134 @@
+/**
+ * Binary Search Plugin
+ */
+
+import { AlgorithmPlugin, DEFAULT_VALUES } from '../plugin';
+import { binarySearch, BINARY_SEARCH_PSEUDOCODE } from '../binary-search';
+import { binarySearchSuite } from '../../utils/testSuites';
+
+export const binarySearchPlugin: AlgorithmPlugin = {
+  id: 'binary-search',
+  name: 'Binary Search',
+  category: 'Searching',
+  image: '/binary-search.jpg',
+  hasCode: true,
+  hasQuiz: true,
+  description: 'A search algorithm that finds the position of a target value within a sorted array by repeatedly dividing the search interval in half.',
+  complexity: {
+    time: 'O(log n)',
+    space: 'O(1)'
+  },
+
+  input: 'search',
+  renderer: 'array',
+  defaultInput: [...DEFAULT_VALUES].sort((a, b) => a - b),
+  generate: ({ values, target }) => {
+    // Binary search requires a sorted array
+    const sorted = [...values].sort((a, b) => a - b);
+    return binarySearch(sorted, target ?? sorted[Math.floor(sorted.length / 2)] ?? 0);
+  },
+  entryPoint: { name: 'binarySearch', kind: 'search', requiresSorted: true },
+  tests: binarySearchSuite,
+  pseudocode: BINARY_SEARCH_PSEUDOCODE,
+
+  templates: {
+    starter: {
+      javascript: `function binarySearch(arr, target) {
+    // TODO: Implement binary search algorithm
+    // Hint: Use left and right pointers, calculate middle
+    
+}`,
+
+      python: `def binary_search(arr, target):
+    # TODO: Implement binary search algorithm
+    # Hint: Use left and right pointers, calculate middle
+    
+    pass`,
+
+      java: `public class BinarySearch {
+    public static int binarySearch(int[] arr, int target) {
+        // TODO: Implement binary search algorithm
+        // Hint: Use left and right pointers, calculate middle
+        
+        return -1;
+    }
+    
+    public static void main(String[] args) {
+        int[] array = {1, 3, 5, 7, 9, 11, 13, 15};
+        System.out.println(binarySearch(array, 7)); // Should return 3
+    }
+}`
+    },
+
+    model: {
+      javascript: `function binarySearch(arr, target) {
+    let left = 0;
+    let right = arr.length - 1;
+    
+    while (left <= right) {
+        const mid = Math.floor((left + right) / 2);
+        
+        if (arr[mid] === target) {
+            return mid;
+        } else if (arr[mid] < target) {
+            left = mid + 1;
+        } else {
+            right = mid - 1;
+        }
+    }
+    
+    return -1; // Target not found
+}
+
+// Example usage
+const array = [1, 3, 5, 7, 9, 11, 13, 15];
+console.log(binarySearch(array, 7)); // Output: 3`,
+
+      python: `def binary_search(arr, target):
+    left = 0
+    right = len(arr) - 1
+    
+    while left <= right:
+        mid = (left + right) // 2
+        
+        if arr[mid] == target:
+            return mid
+        elif arr[mid] < target:
+            left = mid + 1
+        else:
+            right = mid - 1
+    
+    return -1  # Target not found
+
+# Example usage
+array = [1, 3, 5, 7, 9, 11, 13, 15]
+print(binary_search(array, 7))  # Output: 3`,
+
+      java: `public class BinarySearch {
+    public static int binarySearch(int[] arr, int target) {
+        int left = 0;
+        int right = arr.length - 1;
+        
+        while (left <= right) {
+            int mid = (left + right) / 2;
+            
+            if (arr[mid] == target) {
+                return mid;
+            } else if (arr[mid] < target) {
+                left = mid + 1;
+            } else {
+                right = mid - 1;
+            }
+        }
+        
+        return -1; // Target not found
+    }
+    
+    public static void main(String[] args) {
+        int[] array = {1, 3, 5, 7, 9, 11, 13, 15};
+        System.out.println(binarySearch(array, 7)); // Output: 3
+    }
+}`
+    }
+  }
+};
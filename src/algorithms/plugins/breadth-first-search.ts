@@ -0,0 +1,78 @@
+/**
+ * Breadth First Search Plugin
+ */
+
+import { AlgorithmPlugin } from '../plugin';
+import { breadthFirstSearch, BFS_PSEUDOCODE } from '../bfs';
+import { toAlgorithmInput } from '../../utils/graphEditing';
+import { breadthFirstSearchSuite } from '../../utils/testSuites';
+
+export const breadthFirstSearchPlugin: AlgorithmPlugin = {
+  id: 'breadth-first-search',
+  name: 'Breadth First Search',
+  category: 'Graph Traversal',
+  image: '/bfs.jpg',
+  hasCode: true,
+  hasQuiz: true,
+  description: 'An algorithm for traversing or searching tree or graph data structures, exploring all vertices at the present depth before moving on to vertices at the next depth level.',
+  complexity: {
+    time: 'O(V + E)',
+    space: 'O(V)'
+  },
+
+  input: 'graph',
+  renderer: 'graph',
+  supportsGrid: true,
+  generate: ({ graph }) => {
+    const { nodes, edges } = toAlgorithmInput(graph);
+    return breadthFirstSearch(nodes, edges, graph.start, graph.end, graph.directed);
+  },
+  tests: breadthFirstSearchSuite,
+  pseudocode: BFS_PSEUDOCODE,
+
+  templates: {
+    starter: {
+      javascript: `// graph is an adjacency list, e.g. { A: ['B', 'C'], B: ['A'], C: ['A'] }
+// Return the shortest path (fewest edges) from start to target, or [] if unreachable
+function breadthFirstSearch(graph, start, target) {
+    // TODO: Implement breadth-first search
+    // Hint: Use a queue and remember each node's parent to rebuild the path
+    
+}`
+    },
+
+    model: {
+      javascript: `// graph is an adjacency list, e.g. { A: ['B', 'C'], B: ['A'], C: ['A'] }
+// Returns the shortest path (fewest edges) from start to target, or [] if unreachable
+function breadthFirstSearch(graph, start, target) {
+    const queue = [start];
+    const parent = { [start]: null };
+    
+    while (queue.length > 0) {
+        const current = queue.shift();
+        
+        if (current === target) {
+            const path = [];
+            for (let node = target; node !== null; node = parent[node]) {
+                path.unshift(node);
+            }
+            return path;
+        }
+        
+        for (const neighbor of graph[current]) {
+            if (!(neighbor in parent)) {
+                parent[neighbor] = current;
+                queue.push(neighbor);
+            }
+        }
+    }
+    
+    return [];
+}
+
+// Example usage
+const graph = { A: ['B', 'C'], B: ['A', 'D'], C: ['A', 'D'], D: ['B', 'C'] };
+console.log(breadthFirstSearch(graph, 'A', 'D')); // Output: ['A', 'B', 'D']`
+    }
+  }
+};
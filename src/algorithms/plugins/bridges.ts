@@ -0,0 +1,103 @@
+/**
+ * Bridges and Articulation Points Plugin
+ */
+
+import { AlgorithmPlugin } from '../plugin';
+import { bridgesAndArticulationPoints, BRIDGES_PSEUDOCODE } from '../bridges';
+import { toAlgorithmInput } from '../../utils/graphEditing';
+import { bridgesSuite } from '../../utils/testSuites';
+
+export const bridgesPlugin: AlgorithmPlugin = {
+  id: 'bridges',
+  name: 'Bridges and Articulation Points',
+  category: 'Connectivity',
+  image: '/bridges.jpg',
+  hasCode: true,
+  hasQuiz: false,
+  description: 'Finds the edges and nodes of an undirected graph whose removal disconnects it, comparing discovery and low-link numbers from a single depth-first search.',
+  complexity: {
+    time: 'O(V + E)',
+    space: 'O(V)'
+  },
+
+  input: 'graph',
+  renderer: 'graph',
+  generate: ({ graph }) => {
+    const { nodes, edges } = toAlgorithmInput(graph);
+    return bridgesAndArticulationPoints(nodes, edges, graph.directed);
+  },
+  tests: () => bridgesSuite(),
+  pseudocode: BRIDGES_PSEUDOCODE,
+
+  templates: {
+    starter: {
+      javascript: `// nodes is a list of node ids, edges a list of undirected edges, e.g. [{ from: 'A', to: 'B' }, ...]
+// Return { bridges, articulationPoints }: the edges and the nodes whose removal disconnects the graph
+function findBridges(nodes, edges) {
+    // TODO: Implement the low-link search
+    // Hint: A tree edge (u, v) is a bridge when nothing below v reaches back to u or above
+    
+}`
+    },
+
+    model: {
+      javascript: `// nodes is a list of node ids, edges a list of undirected edges, e.g. [{ from: 'A', to: 'B' }, ...]
+// Returns { bridges, articulationPoints }: the edges and the nodes whose removal disconnects the graph
+function findBridges(nodes, edges) {
+    const discovery = {};
+    const low = {};
+    const bridges = [];
+    const articulationPoints = new Set();
+    let counter = 0;
+    
+    function visit(u, parentEdge) {
+        discovery[u] = low[u] = counter++;
+        let children = 0;
+        
+        for (const edge of edges) {
+            if (edge === parentEdge || (edge.from !== u && edge.to !== u)) continue;
+            const v = edge.from === u ? edge.to : edge.from;
+            
+            if (discovery[v] !== undefined) {
+                low[u] = Math.min(low[u], discovery[v]);
+                continue;
+            }
+            
+            children++;
+            visit(v, edge);
+            low[u] = Math.min(low[u], low[v]);
+            
+            if (low[v] > discovery[u]) {
+                bridges.push(edge);
+            }
+            if (parentEdge !== null && low[v] >= discovery[u]) {
+                articulationPoints.add(u);
+            }
+        }
+        
+        // The root of a search is only a cut point if it has several subtrees
+        if (parentEdge === null && children >= 2) {
+            articulationPoints.add(u);
+        }
+    }
+    
+    for (const node of nodes) {
+        if (discovery[node] === undefined) {
+            visit(node, null);
+        }
+    }
+    return { bridges, articulationPoints: [...articulationPoints] };
+}
+
+// Example usage
+const nodes = ['A', 'B', 'C', 'D'];
+const edges = [
+    { from: 'A', to: 'B' },
+    { from: 'B', to: 'C' },
+    { from: 'C', to: 'A' },
+    { from: 'C', to: 'D' }
+];
+console.log(findBridges(nodes, edges)); // Output: { bridges: [{ from: 'C', to: 'D' }], articulationPoints: ['C'] }`
+    }
+  }
+};
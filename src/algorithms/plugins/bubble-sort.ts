@@ -0,0 +1,117 @@
+/**
+ * Bubble Sort Plugin
+ */
+
+import { AlgorithmPlugin, DEFAULT_VALUES } from '../plugin';
+import { bubbleSort, BUBBLE_SORT_PSEUDOCODE } from '../bubble-sort';
+import { sortingSuite } from '../../utils/testSuites';
+
+export const bubbleSortPlugin: AlgorithmPlugin = {
+  id: 'bubble-sort',
+  name: 'Bubble Sort',
+  category: 'Sorting',
+  image: '/bubble-sort.jpg',
+  hasCode: true,
+  hasQuiz: true,
+  description: 'A simple sorting algorithm that repeatedly steps through the list, compares adjacent elements and swaps them if they are in the wrong order.',
+  complexity: {
+    time: 'O(n²)',
+    space: 'O(1)'
+  },
+
+  input: 'array',
+  renderer: 'array',
+  defaultInput: DEFAULT_VALUES,
+  generate: ({ values }) => bubbleSort(values),
+  entryPoint: { name: 'bubbleSort', kind: 'sort' },
+  tests: () => sortingSuite('bubbleSort', bubbleSort),
+  pseudocode: BUBBLE_SORT_PSEUDOCODE,
+
+  templates: {
+    starter: {
+      javascript: `function bubbleSort(arr) {
+    // TODO: Implement bubble sort algorithm
+    // Hint: Use nested loops to compare adjacent elements
+    
+}`,
+
+      python: `def bubble_sort(arr):
+    # TODO: Implement bubble sort algorithm
+    # Hint: Use nested loops to compare adjacent elements
+    
+    pass`,
+
+      java: `public class BubbleSort {
+    public static void bubbleSort(int[] arr) {
+        // TODO: Implement bubble sort algorithm
+        // Hint: Use nested loops to compare adjacent elements
+        
+    }
+    
+    public static void main(String[] args) {
+        int[] array = {64, 34, 25, 12, 22, 11, 90};
+        bubbleSort(array);
+        for (int num : array) {
+            System.out.print(num + " ");
+        }
+    }
+}`
+    },
+
+    model: {
+      javascript: `function bubbleSort(arr) {
+    const n = arr.length;
+    for (let i = 0; i < n - 1; i++) {
+        for (let j = 0; j < n - i - 1; j++) {
+            if (arr[j] > arr[j + 1]) {
+                // Swap elements
+                [arr[j], arr[j + 1]] = [arr[j + 1], arr[j]];
+            }
+        }
+    }
+    return arr;
+}
+
+// Example usage
+const array = [64, 34, 25, 12, 22, 11, 90];
+console.log(bubbleSort(array));`,
+
+      python: `def bubble_sort(arr):
+    n = len(arr)
+    for i in range(n - 1):
+        for j in range(n - i - 1):
+            if arr[j] > arr[j + 1]:
+                # Swap elements
+                arr[j], arr[j + 1] = arr[j + 1], arr[j]
+    return arr
+
+# Example usage
+array = [64, 34, 25, 12, 22, 11, 90]
+print(bubble_sort(array))`,
+
+      java: `public class BubbleSort {
+    public static void bubbleSort(int[] arr) {
+        int n = arr.length;
+        for (int i = 0; i < n - 1; i++) {
+            for (int j = 0; j < n - i - 1; j++) {
+                if (arr[j] > arr[j + 1]) {
+                    // Swap elements
+                    int temp = arr[j];
+                    arr[j] = arr[j + 1];
+                    arr[j + 1] = temp;
+                }
+            }
+        }
+    }
+    
+    public static void main(String[] args) {
+        int[] array = {64, 34, 25, 12, 22, 11, 90};
+        bubbleSort(array);
+        for (int num : array) {
+            System.out.print(num + " ");
+        }
+    }
+}`
+    }
+  }
+};
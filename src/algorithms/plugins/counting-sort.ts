@@ -0,0 +1,146 @@
+/**
+ * Counting Sort Plugin
+ */
+
+import { AlgorithmPlugin, DEFAULT_VALUES } from '../plugin';
+import { countingSort, COUNTING_SORT_PSEUDOCODE } from '../counting-sort';
+import { sortingSuite } from '../../utils/testSuites';
+
+export const countingSortPlugin: AlgorithmPlugin = {
+  id: 'counting-sort',
+  name: 'Counting Sort',
+  category: 'Sorting',
+  image: '/counting-sort.jpg',
+  hasCode: true,
+  hasQuiz: true,
+  description: 'Counts how often each value occurs, turns the counts into positions, and places every element directly into its slot without comparing elements.',
+  complexity: {
+    time: 'O(n + k)',
+    space: 'O(n + k)'
+  },
+
+  input: 'array',
+  renderer: 'array',
+  defaultInput: DEFAULT_VALUES,
+  generate: ({ values }) => countingSort(values),
+  entryPoint: { name: 'countingSort', kind: 'sort' },
+  tests: () => sortingSuite('countingSort', countingSort),
+  pseudocode: COUNTING_SORT_PSEUDOCODE,
+
+  templates: {
+    starter: {
+      javascript: `function countingSort(arr) {
+    // TODO: Implement counting sort algorithm
+    // Hint: Count each value (offset by the minimum), then use prefix sums to place them
+    
+}`,
+
+      python: `def counting_sort(arr):
+    # TODO: Implement counting sort algorithm
+    # Hint: Count each value (offset by the minimum), then use prefix sums to place them
+    
+    pass`,
+
+      java: `public class CountingSort {
+    public static void countingSort(int[] arr) {
+        // TODO: Implement counting sort algorithm
+        // Hint: Count each value (offset by the minimum), then use prefix sums to place them
+        
+    }
+    
+    public static void main(String[] args) {
+        int[] array = {64, 34, 25, 12, 22, 11, 90};
+        countingSort(array);
+        for (int num : array) {
+            System.out.print(num + " ");
+        }
+    }
+}`
+    },
+
+    model: {
+      javascript: `function countingSort(arr) {
+    if (arr.length === 0) return arr;
+    const min = Math.min(...arr);
+    const max = Math.max(...arr);
+    const count = new Array(max - min + 1).fill(0);
+    
+    for (const value of arr) {
+        count[value - min]++;
+    }
+    for (let v = 1; v < count.length; v++) {
+        count[v] += count[v - 1];
+    }
+    
+    const output = new Array(arr.length);
+    for (let i = arr.length - 1; i >= 0; i--) {
+        output[--count[arr[i] - min]] = arr[i];
+    }
+    for (let i = 0; i < arr.length; i++) {
+        arr[i] = output[i];
+    }
+    return arr;
+}
+
+// Example usage
+const array = [64, 34, 25, 12, 22, 11, 90];
+console.log(countingSort(array));`,
+
+      python: `def counting_sort(arr):
+    if not arr:
+        return arr
+    low = min(arr)
+    count = [0] * (max(arr) - low + 1)
+    
+    for value in arr:
+        count[value - low] += 1
+    for v in range(1, len(count)):
+        count[v] += count[v - 1]
+    
+    output = [0] * len(arr)
+    for value in reversed(arr):
+        count[value - low] -= 1
+        output[count[value - low]] = value
+    
+    arr[:] = output
+    return arr
+
+# Example usage
+array = [64, 34, 25, 12, 22, 11, 90]
+print(counting_sort(array))`,
+
+      java: `public class CountingSort {
+    public static void countingSort(int[] arr) {
+        if (arr.length == 0) return;
+        int min = arr[0], max = arr[0];
+        for (int value : arr) {
+            min = Math.min(min, value);
+            max = Math.max(max, value);
+        }
+        
+        int[] count = new int[max - min + 1];
+        for (int value : arr) {
+            count[value - min]++;
+        }
+        for (int v = 1; v < count.length; v++) {
+            count[v] += count[v - 1];
+        }
+        
+        int[] output = new int[arr.length];
+        for (int i = arr.length - 1; i >= 0; i--) {
+            output[--count[arr[i] - min]] = arr[i];
+        }
+        System.arraycopy(output, 0, arr, 0, arr.length);
+    }
+    
+    public static void main(String[] args) {
+        int[] array = {64, 34, 25, 12, 22, 11, 90};
+        countingSort(array);
+        for (int num : array) {
+            System.out.print(num + " ");
+        }
+    }
+}`
+    }
+  }
+};
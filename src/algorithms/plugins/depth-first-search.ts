@@ -0,0 +1,259 @@
+/**
+ * Depth First Search Plugin
+ */
+
+import { AlgorithmPlugin } from '../plugin';
+import { depthFirstSearch, DFS_PSEUDOCODE } from '../dfs';
+import { toAlgorithmInput } from '../../utils/graphEditing';
+import { depthFirstSearchSuite } from '../../utils/testSuites';
+
+export const depthFirstSearchPlugin: AlgorithmPlugin = {
+  id: 'depth-first-search',
+  name: 'Depth First Search',
+  category: 'Graph Traversal',
+  image: '/dfs.jpg',
+  hasCode: true,
+  hasQuiz: true,
+  description: 'An algorithm for traversing or searching tree or graph data structures, exploring as far as possible along each branch before backtracking.',
+  complexity: {
+    time: 'O(V + E)',
+    space: 'O(V)'
+  },
+
+  input: 'graph',
+  renderer: 'graph',
+  supportsGrid: true,
+  generate: ({ graph }) => {
+    const { nodes, edges } = toAlgorithmInput(graph);
+    return depthFirstSearch(nodes, edges, graph.start, graph.end, graph.directed);
+  },
+  tests: depthFirstSearchSuite,
+  pseudocode: DFS_PSEUDOCODE,
+
+  templates: {
+    starter: {
+      javascript: `class Graph {
+    constructor() {
+        this.adjacencyList = {};
+    }
+    
+    addVertex(vertex) {
+        // TODO: Add vertex to adjacency list
+        // Hint: Create empty array for new vertex
+        
+    }
+    
+    addEdge(vertex1, vertex2) {
+        // TODO: Add edge between vertices
+        // Hint: Add each vertex to the other's adjacency list
+        
+    }
+    
+    depthFirstSearch(start) {
+        // TODO: Implement depth-first search
+        // Hint: Use recursion or stack, track visited nodes
+        
+    }
+}`,
+
+      python: `class Graph:
+    def __init__(self):
+        self.adjacency_list = {}
+    
+    def add_vertex(self, vertex):
+        # TODO: Add vertex to adjacency list
+        # Hint: Create empty list for new vertex
+        
+        pass
+    
+    def add_edge(self, vertex1, vertex2):
+        # TODO: Add edge between vertices
+        # Hint: Add each vertex to the other's adjacency list
+        
+        pass
+    
+    def depth_first_search(self, start):
+        # TODO: Implement depth-first search
+        # Hint: Use recursion, track visited nodes
+        
+        pass`,
+
+      java: `import java.util.*;
+
+class Graph {
+    private Map<String, List<String>> adjacencyList;
+    
+    public Graph() {
+        this.adjacencyList = new HashMap<>();
+    }
+    
+    public void addVertex(String vertex) {
+        // TODO: Add vertex to adjacency list
+        // Hint: Create empty list for new vertex
+        
+    }
+    
+    public void addEdge(String vertex1, String vertex2) {
+        // TODO: Add edge between vertices
+        // Hint: Add each vertex to the other's adjacency list
+        
+    }
+    
+    public List<String> depthFirstSearch(String start) {
+        // TODO: Implement depth-first search
+        // Hint: Use recursion, track visited nodes
+        
+        return new ArrayList<>();
+    }
+}`
+    },
+
+    model: {
+      javascript: `class Graph {
+    constructor() {
+        this.adjacencyList = {};
+    }
+    
+    addVertex(vertex) {
+        if (!this.adjacencyList[vertex]) {
+            this.adjacencyList[vertex] = [];
+        }
+    }
+    
+    addEdge(vertex1, vertex2) {
+        this.adjacencyList[vertex1].push(vertex2);
+        this.adjacencyList[vertex2].push(vertex1);
+    }
+    
+    depthFirstSearch(start) {
+        const result = [];
+        const visited = {};
+        const adjacencyList = this.adjacencyList;
+        
+        function dfs(vertex) {
+            if (!vertex) return null;
+            visited[vertex] = true;
+            result.push(vertex);
+            
+            adjacencyList[vertex].forEach(neighbor => {
+                if (!visited[neighbor]) {
+                    return dfs(neighbor);
+                }
+            });
+        }
+        
+        dfs(start);
+        return result;
+    }
+}
+
+// Example usage
+const g = new Graph();
+g.addVertex("A");
+g.addVertex("B");
+g.addVertex("C");
+g.addVertex("D");
+g.addEdge("A", "B");
+g.addEdge("A", "C");
+g.addEdge("B", "D");
+g.addEdge("C", "D");
+console.log(g.depthFirstSearch("A")); // Output: ["A", "B", "D", "C"]`,
+
+      python: `class Graph:
+    def __init__(self):
+        self.adjacency_list = {}
+    
+    def add_vertex(self, vertex):
+        if vertex not in self.adjacency_list:
+            self.adjacency_list[vertex] = []
+    
+    def add_edge(self, vertex1, vertex2):
+        self.adjacency_list[vertex1].append(vertex2)
+        self.adjacency_list[vertex2].append(vertex1)
+    
+    def depth_first_search(self, start):
+        result = []
+        visited = set()
+        
+        def dfs(vertex):
+            if not vertex:
+                return None
+            visited.add(vertex)
+            result.append(vertex)
+            
+            for neighbor in self.adjacency_list[vertex]:
+                if neighbor not in visited:
+                    dfs(neighbor)
+        
+        dfs(start)
+        return result
+
+# Example usage
+g = Graph()
+g.add_vertex("A")
+g.add_vertex("B")
+g.add_vertex("C")
+g.add_vertex("D")
+g.add_edge("A", "B")
+g.add_edge("A", "C")
+g.add_edge("B", "D")
+g.add_edge("C", "D")
+print(g.depth_first_search("A"))  # Output: ["A", "B", "D", "C"]`,
+
+      java: `import java.util.*;
+
+class Graph {
+    private Map<String, List<String>> adjacencyList;
+    
+    public Graph() {
+        this.adjacencyList = new HashMap<>();
+    }
+    
+    public void addVertex(String vertex) {
+        if (!adjacencyList.containsKey(vertex)) {
+            adjacencyList.put(vertex, new ArrayList<>());
+        }
+    }
+    
+    public void addEdge(String vertex1, String vertex2) {
+        adjacencyList.get(vertex1).add(vertex2);
+        adjacencyList.get(vertex2).add(vertex1);
+    }
+    
+    public List<String> depthFirstSearch(String start) {
+        List<String> result = new ArrayList<>();
+        Set<String> visited = new HashSet<>();
+        
+        dfs(start, visited, result);
+        return result;
+    }
+    
+    private void dfs(String vertex, Set<String> visited, List<String> result) {
+        if (vertex == null) return;
+        
+        visited.add(vertex);
+        result.add(vertex);
+        
+        for (String neighbor : adjacencyList.get(vertex)) {
+            if (!visited.contains(neighbor)) {
+                dfs(neighbor, visited, result);
+            }
+        }
+    }
+    
+    public static void main(String[] args) {
+        Graph g = new Graph();
+        g.addVertex("A");
+        g.addVertex("B");
+        g.addVertex("C");
+        g.addVertex("D");
+        g.addEdge("A", "B");
+        g.addEdge("A", "C");
+        g.addEdge("B", "D");
+        g.addEdge("C", "D");
+        System.out.println(g.depthFirstSearch("A")); // Output: [A, B, D, C]
+    }
+}`
+    }
+  }
+};
@@ -0,0 +1,82 @@
+/**
+ * DFS Topological Sort Plugin
+ */
+
+import { AlgorithmPlugin } from '../plugin';
+import { dfsTopologicalSort, TOPOLOGICAL_DFS_PSEUDOCODE } from '../topological-dfs';
+import { toAlgorithmInput } from '../../utils/graphEditing';
+import { topologicalSortSuite } from '../../utils/testSuites';
+
+export const dfsTopologicalSortPlugin: AlgorithmPlugin = {
+  id: 'dfs-topological-sort',
+  name: 'DFS Topological Sort',
+  category: 'Topological Sort',
+  image: '/dfs-topological-sort.jpg',
+  hasCode: true,
+  hasQuiz: false,
+  description: 'Orders the nodes of a directed acyclic graph by reversing the order in which a depth-first search finishes them. An edge back to a node still being explored reveals a cycle.',
+  complexity: {
+    time: 'O(V + E)',
+    space: 'O(V)'
+  },
+
+  input: 'graph',
+  renderer: 'graph',
+  generate: ({ graph }) => {
+    const { nodes, edges } = toAlgorithmInput(graph);
+    return dfsTopologicalSort(nodes, edges, graph.directed);
+  },
+  tests: () => topologicalSortSuite((nodes, edges) => dfsTopologicalSort(nodes, edges)),
+  pseudocode: TOPOLOGICAL_DFS_PSEUDOCODE,
+
+  templates: {
+    starter: {
+      javascript: `// nodes is a list of node ids, edges a list of directed edges, e.g. [{ from: 'A', to: 'B' }, ...]
+// Return the nodes in topological order, or null if the graph has a cycle
+function topologicalSort(nodes, edges) {
+    // TODO: Implement a depth-first topological sort
+    // Hint: Put each node at the front of the order when its DFS call finishes
+    
+}`
+    },
+
+    model: {
+      javascript: `// nodes is a list of node ids, edges a list of directed edges, e.g. [{ from: 'A', to: 'B' }, ...]
+// Returns the nodes in topological order, or null if the graph has a cycle
+function topologicalSort(nodes, edges) {
+    const colour = {};
+    for (const node of nodes) {
+        colour[node] = 'white';
+    }
+    const order = [];
+    
+    // Returns false if a cycle was found
+    function visit(node) {
+        colour[node] = 'gray';
+        for (const { from, to } of edges) {
+            if (from !== node) continue;
+            if (colour[to] === 'gray') return false; // Back edge
+            if (colour[to] === 'white' && !visit(to)) return false;
+        }
+        colour[node] = 'black';
+        order.unshift(node);
+        return true;
+    }
+    
+    for (const node of nodes) {
+        if (colour[node] === 'white' && !visit(node)) return null;
+    }
+    return order;
+}
+
+// Example usage
+const nodes = ['shirt', 'tie', 'jacket', 'belt'];
+const edges = [
+    { from: 'shirt', to: 'tie' },
+    { from: 'tie', to: 'jacket' },
+    { from: 'belt', to: 'jacket' }
+];
+console.log(topologicalSort(nodes, edges)); // Output: ['belt', 'shirt', 'tie', 'jacket']`
+    }
+  }
+};
@@ -0,0 +1,99 @@
+/**
+ * Dijkstra Plugin
+ */
+
+import { AlgorithmPlugin } from '../plugin';
+import { dijkstra, DIJKSTRA_PSEUDOCODE } from '../dijkstra';
+import { toAlgorithmInput } from '../../utils/graphEditing';
+import { dijkstraSuite } from '../../utils/testSuites';
+
+export const dijkstraPlugin: AlgorithmPlugin = {
+  id: 'dijkstra',
+  name: 'Dijkstra',
+  category: 'Path Finding',
+  image: '/dijkstra.jpg',
+  hasCode: true,
+  hasQuiz: true,
+  description: 'An algorithm for finding the shortest paths between nodes in a graph, which may represent, for example, road networks.',
+  complexity: {
+    time: 'O(V²)',
+    space: 'O(V)'
+  },
+
+  input: 'graph',
+  renderer: 'graph',
+  supportsGrid: true,
+  generate: ({ graph }) => {
+    const { nodes, edges } = toAlgorithmInput(graph);
+    return dijkstra(nodes, edges, graph.start, graph.end, graph.directed);
+  },
+  tests: dijkstraSuite,
+  pseudocode: DIJKSTRA_PSEUDOCODE,
+
+  templates: {
+    starter: {
+      javascript: `// graph is a weighted adjacency list, e.g. { A: [{ node: 'B', weight: 4 }], ... }
+// Return { distance, path } - use distance Infinity and path [] if unreachable
+function dijkstra(graph, start, target) {
+    // TODO: Implement Dijkstra's algorithm
+    // Hint: Repeatedly visit the closest unvisited node and relax its edges
+    
+}`
+    },
+
+    model: {
+      javascript: `// graph is a weighted adjacency list, e.g. { A: [{ node: 'B', weight: 4 }], ... }
+// Returns { distance, path } - distance is Infinity and path is [] if unreachable
+function dijkstra(graph, start, target) {
+    const distances = {};
+    const parent = {};
+    const visited = new Set();
+    
+    for (const node in graph) {
+        distances[node] = Infinity;
+    }
+    distances[start] = 0;
+    
+    while (true) {
+        // Pick the unvisited node with the smallest distance
+        let current = null;
+        for (const node in graph) {
+            if (!visited.has(node) && (current === null || distances[node] < distances[current])) {
+                current = node;
+            }
+        }
+        
+        if (current === null || distances[current] === Infinity) break;
+        if (current === target) break;
+        visited.add(current);
+        
+        for (const { node, weight } of graph[current]) {
+            const candidate = distances[current] + weight;
+            if (candidate < distances[node]) {
+                distances[node] = candidate;
+                parent[node] = current;
+            }
+        }
+    }
+    
+    if (distances[target] === Infinity) {
+        return { distance: Infinity, path: [] };
+    }
+    
+    const path = [target];
+    while (path[0] !== start) {
+        path.unshift(parent[path[0]]);
+    }
+    return { distance: distances[target], path };
+}
+
+// Example usage
+const graph = {
+    A: [{ node: 'B', weight: 4 }, { node: 'C', weight: 1 }],
+    B: [{ node: 'A', weight: 4 }, { node: 'C', weight: 2 }],
+    C: [{ node: 'A', weight: 1 }, { node: 'B', weight: 2 }]
+};
+console.log(dijkstra(graph, 'A', 'B')); // Output: { distance: 3, path: ['A', 'C', 'B'] }`
+    }
+  }
+};
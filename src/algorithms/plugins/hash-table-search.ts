@@ -0,0 +1,307 @@
+/**
+ * Hash Table Search Plugin
+ */
+
+import { AlgorithmPlugin } from '../plugin';
+import { hashTableOperations, HASH_TABLE_PSEUDOCODE } from '../hash-table';
+import { hashTableSearchSuite } from '../../utils/testSuites';
+
+export const hashTableSearchPlugin: AlgorithmPlugin = {
+  id: 'hash-table-search',
+  name: 'Hash Table Search',
+  category: 'Searching',
+  image: '/hash-table-search.jpg',
+  hasCode: true,
+  hasQuiz: true,
+  description: 'A data structure that implements an associative array abstract data type. Collisions are resolved by separate chaining or by open addressing with linear probing, quadratic probing or double hashing, and the table grows when its load factor gets too high.',
+  complexity: {
+    time: 'O(1) average, O(n) worst',
+    space: 'O(n)'
+  },
+
+  input: 'hash',
+  renderer: 'hash',
+  generate: ({ hashTable }) => hashTableOperations(hashTable),
+  tests: hashTableSearchSuite,
+  pseudocode: HASH_TABLE_PSEUDOCODE,
+
+  templates: {
+    starter: {
+      javascript: `class HashNode {
+    constructor(key, value) {
+        this.key = key;
+        this.value = value;
+        this.next = null;
+    }
+}
+
+class HashTable {
+    constructor(size = 10) {
+        this.size = size;
+        this.buckets = new Array(size).fill(null);
+    }
+    
+    hash(key) {
+        // TODO: Implement hash function
+        // Hint: Convert string to hash value using character codes
+        
+    }
+    
+    put(key, value) {
+        // TODO: Implement put method
+        // Hint: Hash the key, handle collisions with linked lists
+        
+    }
+    
+    get(key) {
+        // TODO: Implement get method
+        // Hint: Hash the key, search through linked list if needed
+        
+    }
+}`,
+
+      python: `class HashNode:
+    def __init__(self, key, value):
+        self.key = key
+        self.value = value
+        self.next = None
+
+class HashTable:
+    def __init__(self, size=10):
+        self.size = size
+        self.buckets = [None] * size
+    
+    def hash(self, key):
+        # TODO: Implement hash function
+        # Hint: Convert string to hash value using character codes
+        
+        pass
+    
+    def put(self, key, value):
+        # TODO: Implement put method
+        # Hint: Hash the key, handle collisions with linked lists
+        
+        pass
+    
+    def get(self, key):
+        # TODO: Implement get method
+        # Hint: Hash the key, search through linked list if needed
+        
+        pass`,
+
+      java: `class HashNode {
+    String key;
+    int value;
+    HashNode next;
+    
+    HashNode(String key, int value) {
+        this.key = key;
+        this.value = value;
+        this.next = null;
+    }
+}
+
+class HashTable {
+    private HashNode[] buckets;
+    private int size;
+    
+    public HashTable(int size) {
+        this.size = size;
+        this.buckets = new HashNode[size];
+    }
+    
+    private int hash(String key) {
+        // TODO: Implement hash function
+        // Hint: Convert string to hash value using character codes
+        
+        return 0;
+    }
+    
+    public void put(String key, int value) {
+        // TODO: Implement put method
+        // Hint: Hash the key, handle collisions with linked lists
+        
+    }
+    
+    public Integer get(String key) {
+        // TODO: Implement get method
+        // Hint: Hash the key, search through linked list if needed
+        
+        return null;
+    }
+}`
+    },
+
+    model: {
+      javascript: `class HashNode {
+    constructor(key, value) {
+        this.key = key;
+        this.value = value;
+        this.next = null;
+    }
+}
+
+class HashTable {
+    constructor(size = 10) {
+        this.size = size;
+        this.buckets = new Array(size).fill(null);
+    }
+    
+    hash(key) {
+        let hash = 0;
+        for (let i = 0; i < key.length; i++) {
+            hash = ((hash << 5) - hash + key.charCodeAt(i)) & 0xffffffff;
+        }
+        return Math.abs(hash) % this.size;
+    }
+    
+    put(key, value) {
+        const index = this.hash(key);
+        const newNode = new HashNode(key, value);
+        
+        if (!this.buckets[index]) {
+            this.buckets[index] = newNode;
+        } else {
+            let current = this.buckets[index];
+            while (current.next) {
+                current = current.next;
+            }
+            current.next = newNode;
+        }
+    }
+    
+    get(key) {
+        const index = this.hash(key);
+        let current = this.buckets[index];
+        
+        while (current) {
+            if (current.key === key) {
+                return current.value;
+            }
+            current = current.next;
+        }
+        return null;
+    }
+}
+
+// Example usage
+const ht = new HashTable();
+ht.put("apple", 1);
+ht.put("banana", 2);
+ht.put("cherry", 3);
+console.log(ht.get("cherry")); // Output: 3`,
+
+      python: `class HashNode:
+    def __init__(self, key, value):
+        self.key = key
+        self.value = value
+        self.next = None
+
+class HashTable:
+    def __init__(self, size=10):
+        self.size = size
+        self.buckets = [None] * size
+    
+    def hash(self, key):
+        hash_value = 0
+        for char in key:
+            hash_value = ((hash_value << 5) - hash_value + ord(char)) & 0xffffffff
+        return abs(hash_value) % self.size
+    
+    def put(self, key, value):
+        index = self.hash(key)
+        new_node = HashNode(key, value)
+        
+        if not self.buckets[index]:
+            self.buckets[index] = new_node
+        else:
+            current = self.buckets[index]
+            while current.next:
+                current = current.next
+            current.next = new_node
+    
+    def get(self, key):
+        index = self.hash(key)
+        current = self.buckets[index]
+        
+        while current:
+            if current.key == key:
+                return current.value
+            current = current.next
+        return None
+
+# Example usage
+ht = HashTable()
+ht.put("apple", 1)
+ht.put("banana", 2)
+ht.put("cherry", 3)
+print(ht.get("cherry"))  # Output: 3`,
+
+      java: `class HashNode {
+    String key;
+    int value;
+    HashNode next;
+    
+    HashNode(String key, int value) {
+        this.key = key;
+        this.value = value;
+        this.next = null;
+    }
+}
+
+class HashTable {
+    private HashNode[] buckets;
+    private int size;
+    
+    public HashTable(int size) {
+        this.size = size;
+        this.buckets = new HashNode[size];
+    }
+    
+    private int hash(String key) {
+        int hash = 0;
+        for (int i = 0; i < key.length(); i++) {
+            hash = ((hash << 5) - hash + key.charAt(i)) & 0xffffffff;
+        }
+        return Math.abs(hash) % size;
+    }
+    
+    public void put(String key, int value) {
+        int index = hash(key);
+        HashNode newNode = new HashNode(key, value);
+        
+        if (buckets[index] == null) {
+            buckets[index] = newNode;
+        } else {
+            HashNode current = buckets[index];
+            while (current.next != null) {
+                current = current.next;
+            }
+            current.next = newNode;
+        }
+    }
+    
+    public Integer get(String key) {
+        int index = hash(key);
+        HashNode current = buckets[index];
+        
+        while (current != null) {
+            if (current.key.equals(key)) {
+                return current.value;
+            }
+            current = current.next;
+        }
+        return null;
+    }
+    
+    public static void main(String[] args) {
+        HashTable ht = new HashTable(10);
+        ht.put("apple", 1);
+        ht.put("banana", 2);
+        ht.put("cherry", 3);
+        System.out.println(ht.get("cherry")); // Output: 3
+    }
+}`
+    }
+  }
+};
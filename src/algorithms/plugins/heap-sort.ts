@@ -0,0 +1,176 @@
+/**
+ * Heap Sort Plugin
+ */
+
+import { AlgorithmPlugin, DEFAULT_VALUES } from '../plugin';
+import { heapSort, HEAP_SORT_PSEUDOCODE } from '../heap-sort';
+import { sortingSuite } from '../../utils/testSuites';
+
+export const heapSortPlugin: AlgorithmPlugin = {
+  id: 'heap-sort',
+  name: 'Heap Sort',
+  category: 'Sorting',
+  image: '/heap-sort.jpg',
+  hasCode: true,
+  hasQuiz: true,
+  description: 'Arranges the array into a max-heap, then repeatedly moves the largest element to the end and restores the heap on the remaining elements.',
+  complexity: {
+    time: 'O(n log n)',
+    space: 'O(1)'
+  },
+
+  input: 'array',
+  renderer: 'array',
+  defaultInput: DEFAULT_VALUES,
+  generate: ({ values }) => heapSort(values),
+  entryPoint: { name: 'heapSort', kind: 'sort' },
+  tests: () => sortingSuite('heapSort', heapSort),
+  pseudocode: HEAP_SORT_PSEUDOCODE,
+
+  templates: {
+    starter: {
+      javascript: `function heapSort(arr) {
+    // TODO: Implement heap sort algorithm
+    // Hint: Build a max-heap, then swap the root with the last element and sift down
+    
+}`,
+
+      python: `def heap_sort(arr):
+    # TODO: Implement heap sort algorithm
+    # Hint: Build a max-heap, then swap the root with the last element and sift down
+    
+    pass`,
+
+      java: `public class HeapSort {
+    public static void heapSort(int[] arr) {
+        // TODO: Implement heap sort algorithm
+        // Hint: Build a max-heap, then swap the root with the last element and sift down
+        
+    }
+    
+    public static void main(String[] args) {
+        int[] array = {64, 34, 25, 12, 22, 11, 90};
+        heapSort(array);
+        for (int num : array) {
+            System.out.print(num + " ");
+        }
+    }
+}`
+    },
+
+    model: {
+      javascript: `function heapSort(arr) {
+    const n = arr.length;
+    
+    // Build a max-heap
+    for (let i = Math.floor(n / 2) - 1; i >= 0; i--) {
+        siftDown(arr, i, n);
+    }
+    
+    // Move the largest element to the end and shrink the heap
+    for (let end = n - 1; end > 0; end--) {
+        [arr[0], arr[end]] = [arr[end], arr[0]];
+        siftDown(arr, 0, end);
+    }
+    return arr;
+}
+
+function siftDown(arr, i, heapSize) {
+    while (true) {
+        let largest = i;
+        const left = 2 * i + 1;
+        const right = 2 * i + 2;
+        
+        if (left < heapSize && arr[left] > arr[largest]) largest = left;
+        if (right < heapSize && arr[right] > arr[largest]) largest = right;
+        if (largest === i) return;
+        
+        [arr[i], arr[largest]] = [arr[largest], arr[i]];
+        i = largest;
+    }
+}
+
+// Example usage
+const array = [64, 34, 25, 12, 22, 11, 90];
+console.log(heapSort(array));`,
+
+      python: `def heap_sort(arr):
+    n = len(arr)
+    
+    # Build a max-heap
+    for i in range(n // 2 - 1, -1, -1):
+        sift_down(arr, i, n)
+    
+    # Move the largest element to the end and shrink the heap
+    for end in range(n - 1, 0, -1):
+        arr[0], arr[end] = arr[end], arr[0]
+        sift_down(arr, 0, end)
+    
+    return arr
+
+def sift_down(arr, i, heap_size):
+    while True:
+        largest = i
+        left = 2 * i + 1
+        right = 2 * i + 2
+        
+        if left < heap_size and arr[left] > arr[largest]:
+            largest = left
+        if right < heap_size and arr[right] > arr[largest]:
+            largest = right
+        if largest == i:
+            return
+        
+        arr[i], arr[largest] = arr[largest], arr[i]
+        i = largest
+
+# Example usage
+array = [64, 34, 25, 12, 22, 11, 90]
+print(heap_sort(array))`,
+
+      java: `public class HeapSort {
+    public static void heapSort(int[] arr) {
+        int n = arr.length;
+        
+        // Build a max-heap
+        for (int i = n / 2 - 1; i >= 0; i--) {
+            siftDown(arr, i, n);
+        }
+        
+        // Move the largest element to the end and shrink the heap
+        for (int end = n - 1; end > 0; end--) {
+            int temp = arr[0];
+            arr[0] = arr[end];
+            arr[end] = temp;
+            siftDown(arr, 0, end);
+        }
+    }
+    
+    private static void siftDown(int[] arr, int i, int heapSize) {
+        while (true) {
+            int largest = i;
+            int left = 2 * i + 1;
+            int right = 2 * i + 2;
+            
+            if (left < heapSize && arr[left] > arr[largest]) largest = left;
+            if (right < heapSize && arr[right] > arr[largest]) largest = right;
+            if (largest == i) return;
+            
+            int temp = arr[i];
+            arr[i] = arr[largest];
+            arr[largest] = temp;
+            i = largest;
+        }
+    }
+    
+    public static void main(String[] args) {
+        int[] array = {64, 34, 25, 12, 22, 11, 90};
+        heapSort(array);
+        for (int num : array) {
+            System.out.print(num + " ");
+        }
+    }
+}`
+    }
+  }
+};
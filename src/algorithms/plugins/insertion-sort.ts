@@ -0,0 +1,120 @@
+/**
+ * Insertion Sort Plugin
+ */
+
+import { AlgorithmPlugin, DEFAULT_VALUES } from '../plugin';
+import { insertionSort, INSERTION_SORT_PSEUDOCODE } from '../insertion-sort';
+import { sortingSuite } from '../../utils/testSuites';
+
+export const insertionSortPlugin: AlgorithmPlugin = {
+  id: 'insertion-sort',
+  name: 'Insertion Sort',
+  category: 'Sorting',
+  image: '/insertion-sort.jpg',
+  hasCode: true,
+  hasQuiz: true,
+  description: 'Builds the final sorted array one item at a time by repeatedly inserting a new element into the sorted portion of the array.',
+  complexity: {
+    time: 'O(n²)',
+    space: 'O(1)'
+  },
+
+  input: 'array',
+  renderer: 'array',
+  defaultInput: DEFAULT_VALUES,
+  generate: ({ values }) => insertionSort(values),
+  entryPoint: { name: 'insertionSort', kind: 'sort' },
+  tests: () => sortingSuite('insertionSort', insertionSort),
+  pseudocode: INSERTION_SORT_PSEUDOCODE,
+
+  templates: {
+    starter: {
+      javascript: `function insertionSort(arr) {
+    // TODO: Implement insertion sort algorithm
+    // Hint: Use a key element and shift elements to make space
+    
+}`,
+
+      python: `def insertion_sort(arr):
+    # TODO: Implement insertion sort algorithm
+    // Hint: Use a key element and shift elements to make space
+    
+    pass`,
+
+      java: `public class InsertionSort {
+    public static void insertionSort(int[] arr) {
+        // TODO: Implement insertion sort algorithm
+        // Hint: Use a key element and shift elements to make space
+        
+    }
+    
+    public static void main(String[] args) {
+        int[] array = {64, 34, 25, 12, 22, 11, 90};
+        insertionSort(array);
+        for (int num : array) {
+            System.out.print(num + " ");
+        }
+    }
+}`
+    },
+
+    model: {
+      javascript: `function insertionSort(arr) {
+    for (let i = 1; i < arr.length; i++) {
+        let key = arr[i];
+        let j = i - 1;
+        
+        while (j >= 0 && arr[j] > key) {
+            arr[j + 1] = arr[j];
+            j--;
+        }
+        arr[j + 1] = key;
+    }
+    return arr;
+}
+
+// Example usage
+const array = [64, 34, 25, 12, 22, 11, 90];
+console.log(insertionSort(array));`,
+
+      python: `def insertion_sort(arr):
+    for i in range(1, len(arr)):
+        key = arr[i]
+        j = i - 1
+        
+        while j >= 0 and arr[j] > key:
+            arr[j + 1] = arr[j]
+            j -= 1
+        arr[j + 1] = key
+    
+    return arr
+
+# Example usage
+array = [64, 34, 25, 12, 22, 11, 90]
+print(insertion_sort(array))`,
+
+      java: `public class InsertionSort {
+    public static void insertionSort(int[] arr) {
+        for (int i = 1; i < arr.length; i++) {
+            int key = arr[i];
+            int j = i - 1;
+            
+            while (j >= 0 && arr[j] > key) {
+                arr[j + 1] = arr[j];
+                j--;
+            }
+            arr[j + 1] = key;
+        }
+    }
+    
+    public static void main(String[] args) {
+        int[] array = {64, 34, 25, 12, 22, 11, 90};
+        insertionSort(array);
+        for (int num : array) {
+            System.out.print(num + " ");
+        }
+    }
+}`
+    }
+  }
+};
@@ -0,0 +1,85 @@
+/**
+ * Kahn's Algorithm Plugin
+ */
+
+import { AlgorithmPlugin } from '../plugin';
+import { kahn, KAHN_PSEUDOCODE } from '../kahn';
+import { toAlgorithmInput } from '../../utils/graphEditing';
+import { topologicalSortSuite } from '../../utils/testSuites';
+
+export const kahnPlugin: AlgorithmPlugin = {
+  id: 'kahn',
+  name: "Kahn's Algorithm",
+  category: 'Topological Sort',
+  image: '/kahn.jpg',
+  hasCode: true,
+  hasQuiz: true,
+  description: 'Orders the nodes of a directed acyclic graph so every edge points forwards, by repeatedly removing a node with no incoming edges. Nodes left over reveal a cycle.',
+  complexity: {
+    time: 'O(V + E)',
+    space: 'O(V)'
+  },
+
+  input: 'graph',
+  renderer: 'graph',
+  generate: ({ graph }) => {
+    const { nodes, edges } = toAlgorithmInput(graph);
+    return kahn(nodes, edges, graph.directed);
+  },
+  tests: () => topologicalSortSuite((nodes, edges) => kahn(nodes, edges)),
+  pseudocode: KAHN_PSEUDOCODE,
+
+  templates: {
+    starter: {
+      javascript: `// nodes is a list of node ids, edges a list of directed edges, e.g. [{ from: 'A', to: 'B' }, ...]
+// Return the nodes in topological order, or null if the graph has a cycle
+function topologicalSort(nodes, edges) {
+    // TODO: Implement Kahn's algorithm
+    // Hint: Count incoming edges, then repeatedly output a node whose count is zero
+    
+}`
+    },
+
+    model: {
+      javascript: `// nodes is a list of node ids, edges a list of directed edges, e.g. [{ from: 'A', to: 'B' }, ...]
+// Returns the nodes in topological order, or null if the graph has a cycle
+function topologicalSort(nodes, edges) {
+    const inDegree = {};
+    for (const node of nodes) {
+        inDegree[node] = 0;
+    }
+    for (const { to } of edges) {
+        inDegree[to]++;
+    }
+    
+    const queue = nodes.filter(node => inDegree[node] === 0);
+    const order = [];
+    
+    while (queue.length > 0) {
+        const current = queue.shift();
+        order.push(current);
+        
+        for (const { from, to } of edges) {
+            if (from !== current) continue;
+            inDegree[to]--;
+            if (inDegree[to] === 0) {
+                queue.push(to);
+            }
+        }
+    }
+    
+    // Nodes on a cycle never reach in-degree 0
+    return order.length === nodes.length ? order : null;
+}
+
+// Example usage
+const nodes = ['shirt', 'tie', 'jacket', 'belt'];
+const edges = [
+    { from: 'shirt', to: 'tie' },
+    { from: 'tie', to: 'jacket' },
+    { from: 'belt', to: 'jacket' }
+];
+console.log(topologicalSort(nodes, edges)); // Output: ['shirt', 'belt', 'tie', 'jacket']`
+    }
+  }
+};
@@ -0,0 +1,102 @@
+/**
+ * Kosaraju's SCC Algorithm Plugin
+ */
+
+import { AlgorithmPlugin } from '../plugin';
+import { kosaraju, KOSARAJU_PSEUDOCODE } from '../kosaraju-scc';
+import { toAlgorithmInput } from '../../utils/graphEditing';
+import { stronglyConnectedComponentsSuite } from '../../utils/testSuites';
+
+export const kosarajuPlugin: AlgorithmPlugin = {
+  id: 'kosaraju-scc',
+  name: "Kosaraju's SCC Algorithm",
+  category: 'Connectivity',
+  image: '/kosaraju-scc.jpg',
+  hasCode: true,
+  hasQuiz: false,
+  description: 'Finds the strongly connected components of a directed graph with two depth-first searches: one to order the nodes by finishing time, and one over the reversed edges that collects a component at a time.',
+  complexity: {
+    time: 'O(V + E)',
+    space: 'O(V)'
+  },
+
+  input: 'graph',
+  renderer: 'graph',
+  generate: ({ graph }) => {
+    const { nodes, edges } = toAlgorithmInput(graph);
+    return kosaraju(nodes, edges, graph.directed);
+  },
+  tests: () => stronglyConnectedComponentsSuite((nodes, edges) => kosaraju(nodes, edges)),
+  pseudocode: KOSARAJU_PSEUDOCODE,
+
+  templates: {
+    starter: {
+      javascript: `// nodes is a list of node ids, edges a list of directed edges, e.g. [{ from: 'A', to: 'B' }, ...]
+// Return the strongly connected components as lists of node ids
+function stronglyConnectedComponents(nodes, edges) {
+    // TODO: Implement Kosaraju's algorithm
+    // Hint: Search the reversed graph from the nodes in decreasing finishing time
+    
+}`
+    },
+
+    model: {
+      javascript: `// nodes is a list of node ids, edges a list of directed edges, e.g. [{ from: 'A', to: 'B' }, ...]
+// Returns the strongly connected components as lists of node ids
+function stronglyConnectedComponents(nodes, edges) {
+    // First pass: record the order in which nodes finish
+    const marked = new Set();
+    const finished = [];
+    
+    function visit(u) {
+        marked.add(u);
+        for (const { from, to } of edges) {
+            if (from === u && !marked.has(to)) {
+                visit(to);
+            }
+        }
+        finished.push(u);
+    }
+    
+    for (const node of nodes) {
+        if (!marked.has(node)) {
+            visit(node);
+        }
+    }
+    
+    // Second pass: follow the edges backwards, latest finish first
+    const assigned = new Set();
+    const components = [];
+    
+    function assign(u, component) {
+        assigned.add(u);
+        component.push(u);
+        for (const { from, to } of edges) {
+            if (to === u && !assigned.has(from)) {
+                assign(from, component);
+            }
+        }
+    }
+    
+    for (const node of finished.reverse()) {
+        if (!assigned.has(node)) {
+            const component = [];
+            assign(node, component);
+            components.push(component);
+        }
+    }
+    return components;
+}
+
+// Example usage
+const nodes = ['A', 'B', 'C', 'D'];
+const edges = [
+    { from: 'A', to: 'B' },
+    { from: 'B', to: 'C' },
+    { from: 'C', to: 'A' },
+    { from: 'C', to: 'D' }
+];
+console.log(stronglyConnectedComponents(nodes, edges)); // Output: [['A', 'C', 'B'], ['D']]`
+    }
+  }
+};
@@ -0,0 +1,100 @@
+/**
+ * Kruskal Plugin
+ */
+
+import { AlgorithmPlugin } from '../plugin';
+import { kruskal, KRUSKAL_PSEUDOCODE } from '../kruskal';
+import { toAlgorithmInput } from '../../utils/graphEditing';
+import { kruskalSuite } from '../../utils/testSuites';
+
+export const kruskalPlugin: AlgorithmPlugin = {
+  id: 'kruskal',
+  name: 'Kruskal',
+  category: 'Minimum Spanning Tree',
+  image: '/kruskal.jpg',
+  hasCode: true,
+  hasQuiz: false,
+  description: 'Builds a minimum spanning tree by taking edges from lightest to heaviest, using a union-find forest to skip any edge that would close a cycle.',
+  complexity: {
+    time: 'O(E log E)',
+    space: 'O(V + E)'
+  },
+
+  input: 'graph',
+  renderer: 'graph',
+  generate: ({ graph }) => {
+    const { nodes, edges } = toAlgorithmInput(graph);
+    return kruskal(nodes, edges, graph.directed);
+  },
+  tests: kruskalSuite,
+  pseudocode: KRUSKAL_PSEUDOCODE,
+
+  templates: {
+    starter: {
+      javascript: `// nodes is a list of node ids, edges a list of undirected edges,
+// e.g. [{ from: 'A', to: 'B', weight: 4 }, ...]
+// Return the edges of a minimum spanning tree (a spanning forest if the graph is disconnected)
+function kruskal(nodes, edges) {
+    // TODO: Implement Kruskal's algorithm
+    // Hint: Sort the edges by weight and use union-find to reject edges that close a cycle
+    
+}`
+    },
+
+    model: {
+      javascript: `// nodes is a list of node ids, edges a list of undirected edges,
+// e.g. [{ from: 'A', to: 'B', weight: 4 }, ...]
+// Returns the edges of a minimum spanning tree (a spanning forest if the graph is disconnected)
+function kruskal(nodes, edges) {
+    const parent = {};
+    const rank = {};
+    for (const node of nodes) {
+        parent[node] = node;
+        rank[node] = 0;
+    }
+    
+    // Find the root, pointing every node on the way directly at it
+    function find(node) {
+        if (parent[node] !== node) {
+            parent[node] = find(parent[node]);
+        }
+        return parent[node];
+    }
+    
+    const tree = [];
+    const sorted = [...edges].sort((a, b) => a.weight - b.weight);
+    
+    for (const edge of sorted) {
+        const rootFrom = find(edge.from);
+        const rootTo = find(edge.to);
+        if (rootFrom === rootTo) continue; // Would close a cycle
+        
+        // Union by rank
+        if (rank[rootFrom] < rank[rootTo]) {
+            parent[rootFrom] = rootTo;
+        } else if (rank[rootFrom] > rank[rootTo]) {
+            parent[rootTo] = rootFrom;
+        } else {
+            parent[rootTo] = rootFrom;
+            rank[rootFrom]++;
+        }
+        tree.push(edge);
+        
+        if (tree.length === nodes.length - 1) break;
+    }
+    
+    return tree;
+}
+
+// Example usage
+const nodes = ['A', 'B', 'C', 'D'];
+const edges = [
+    { from: 'A', to: 'B', weight: 1 },
+    { from: 'B', to: 'C', weight: 3 },
+    { from: 'A', to: 'C', weight: 2 },
+    { from: 'C', to: 'D', weight: 4 }
+];
+console.log(kruskal(nodes, edges)); // Output: [{ from: 'A', to: 'B', weight: 1 }, { from: 'A', to: 'C', weight: 2 }, { from: 'C', to: 'D', weight: 4 }]`
+    }
+  }
+};
@@ -0,0 +1,100 @@
+/**
+ * Linear Search Plugin
+ */
+
+import { AlgorithmPlugin, DEFAULT_VALUES } from '../plugin';
+import { linearSearch, LINEAR_SEARCH_PSEUDOCODE } from '../linear-search';
+import { linearSearchSuite } from '../../utils/testSuites';
+
+export const linearSearchPlugin: AlgorithmPlugin = {
+  id: 'linear-search',
+  name: 'Linear Search',
+  category: 'Searching',
+  image: '/linear-search.jpg',
+  hasCode: true,
+  hasQuiz: true,
+  description: 'A method for finding a target value within a list by checking each element in sequence until the target is found.',
+  complexity: {
+    time: 'O(n)',
+    space: 'O(1)'
+  },
+
+  input: 'search',
+  renderer: 'array',
+  defaultInput: DEFAULT_VALUES,
+  generate: ({ values, target }) => linearSearch(values, target ?? values[Math.floor(values.length / 2)] ?? 0),
+  entryPoint: { name: 'linearSearch', kind: 'search' },
+  tests: linearSearchSuite,
+  pseudocode: LINEAR_SEARCH_PSEUDOCODE,
+
+  templates: {
+    starter: {
+      javascript: `function linearSearch(arr, target) {
+    // TODO: Implement linear search algorithm
+    // Hint: Iterate through array and compare each element
+    
+}`,
+
+      python: `def linear_search(arr, target):
+    # TODO: Implement linear search algorithm
+    // Hint: Iterate through array and compare each element
+    
+    pass`,
+
+      java: `public class LinearSearch {
+    public static int linearSearch(int[] arr, int target) {
+        // TODO: Implement linear search algorithm
+        // Hint: Iterate through array and compare each element
+        
+        return -1;
+    }
+    
+    public static void main(String[] args) {
+        int[] array = {64, 34, 25, 12, 22, 11, 90};
+        System.out.println(linearSearch(array, 25)); // Should return 2
+    }
+}`
+    },
+
+    model: {
+      javascript: `function linearSearch(arr, target) {
+    for (let i = 0; i < arr.length; i++) {
+        if (arr[i] === target) {
+            return i;
+        }
+    }
+    return -1; // Target not found
+}
+
+// Example usage
+const array = [64, 34, 25, 12, 22, 11, 90];
+console.log(linearSearch(array, 25)); // Output: 2`,
+
+      python: `def linear_search(arr, target):
+    for i in range(len(arr)):
+        if arr[i] == target:
+            return i
+    return -1  # Target not found
+
+# Example usage
+array = [64, 34, 25, 12, 22, 11, 90]
+print(linear_search(array, 25))  # Output: 2`,
+
+      java: `public class LinearSearch {
+    public static int linearSearch(int[] arr, int target) {
+        for (int i = 0; i < arr.length; i++) {
+            if (arr[i] == target) {
+                return i;
+            }
+        }
+        return -1; // Target not found
+    }
+    
+    public static void main(String[] args) {
+        int[] array = {64, 34, 25, 12, 22, 11, 90};
+        System.out.println(linearSearch(array, 25)); // Output: 2
+    }
+}`
+    }
+  }
+};
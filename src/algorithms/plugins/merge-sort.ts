@@ -0,0 +1,184 @@
+/**
+ * Merge Sort Plugin
+ */
+
+import { AlgorithmPlugin, DEFAULT_VALUES } from '../plugin';
+import { mergeSort, MERGE_SORT_PSEUDOCODE } from '../merge-sort';
+import { sortingSuite } from '../../utils/testSuites';
+
+export const mergeSortPlugin: AlgorithmPlugin = {
+  id: 'merge-sort',
+  name: 'Merge Sort',
+  category: 'Sorting',
+  image: '/merge-sort.jpg',
+  hasCode: true,
+  hasQuiz: true,
+  description: 'A divide-and-conquer algorithm that recursively breaks down a problem into two or more sub-problems until they become simple enough to solve directly.',
+  complexity: {
+    time: 'O(n log n)',
+    space: 'O(n)'
+  },
+
+  input: 'array',
+  renderer: 'array',
+  defaultInput: DEFAULT_VALUES,
+  generate: ({ values }) => mergeSort(values),
+  entryPoint: { name: 'mergeSort', kind: 'sort' },
+  tests: () => sortingSuite('mergeSort', mergeSort),
+  pseudocode: MERGE_SORT_PSEUDOCODE,
+
+  templates: {
+    starter: {
+      javascript: `function mergeSort(arr) {
+    // TODO: Implement merge sort algorithm
+    // Hint: Divide array into halves, sort recursively, then merge
+    
+}
+
+function merge(left, right) {
+    // TODO: Implement merge function to combine sorted arrays
+    
+}`,
+
+      python: `def merge_sort(arr):
+    # TODO: Implement merge sort algorithm
+    # Hint: Divide array into halves, sort recursively, then merge
+    
+    pass
+
+def merge(left, right):
+    # TODO: Implement merge function to combine sorted arrays
+    
+    pass`,
+
+      java: `public class MergeSort {
+    public static void mergeSort(int[] arr) {
+        // TODO: Implement merge sort algorithm
+        // Hint: Divide array into halves, sort recursively, then merge
+        
+    }
+    
+    private static void merge(int[] arr, int[] left, int[] right) {
+        // TODO: Implement merge function to combine sorted arrays
+        
+    }
+    
+    public static void main(String[] args) {
+        int[] array = {64, 34, 25, 12, 22, 11, 90};
+        mergeSort(array);
+        for (int num : array) {
+            System.out.print(num + " ");
+        }
+    }
+}`
+    },
+
+    model: {
+      javascript: `function mergeSort(arr) {
+    if (arr.length <= 1) return arr;
+    
+    const mid = Math.floor(arr.length / 2);
+    const left = mergeSort(arr.slice(0, mid));
+    const right = mergeSort(arr.slice(mid));
+    
+    return merge(left, right);
+}
+
+function merge(left, right) {
+    const result = [];
+    let i = 0, j = 0;
+    
+    while (i < left.length && j < right.length) {
+        if (left[i] <= right[j]) {
+            result.push(left[i]);
+            i++;
+        } else {
+            result.push(right[j]);
+            j++;
+        }
+    }
+    
+    return result.concat(left.slice(i)).concat(right.slice(j));
+}
+
+// Example usage
+const array = [64, 34, 25, 12, 22, 11, 90];
+console.log(mergeSort(array));`,
+
+      python: `def merge_sort(arr):
+    if len(arr) <= 1:
+        return arr
+    
+    mid = len(arr) // 2
+    left = merge_sort(arr[:mid])
+    right = merge_sort(arr[mid:])
+    
+    return merge(left, right)
+
+def merge(left, right):
+    result = []
+    i = j = 0
+    
+    while i < len(left) and j < len(right):
+        if left[i] <= right[j]:
+            result.append(left[i])
+            i += 1
+        else:
+            result.append(right[j])
+            j += 1
+    
+    result.extend(left[i:])
+    result.extend(right[j:])
+    return result
+
+# Example usage
+array = [64, 34, 25, 12, 22, 11, 90]
+print(merge_sort(array))`,
+
+      java: `public class MergeSort {
+    public static void mergeSort(int[] arr) {
+        if (arr.length <= 1) return;
+        
+        int mid = arr.length / 2;
+        int[] left = new int[mid];
+        int[] right = new int[arr.length - mid];
+        
+        System.arraycopy(arr, 0, left, 0, mid);
+        System.arraycopy(arr, mid, right, 0, arr.length - mid);
+        
+        mergeSort(left);
+        mergeSort(right);
+        merge(arr, left, right);
+    }
+    
+    private static void merge(int[] arr, int[] left, int[] right) {
+        int i = 0, j = 0, k = 0;
+        
+        while (i < left.length && j < right.length) {
+            if (left[i] <= right[j]) {
+                arr[k++] = left[i++];
+            } else {
+                arr[k++] = right[j++];
+            }
+        }
+        
+        while (i < left.length) {
+            arr[k++] = left[i++];
+        }
+        
+        while (j < right.length) {
+            arr[k++] = right[j++];
+        }
+    }
+    
+    public static void main(String[] args) {
+        int[] array = {64, 34, 25, 12, 22, 11, 90};
+        mergeSort(array);
+        for (int num : array) {
+            System.out.print(num + " ");
+        }
+    }
+}`
+    }
+  }
+};
@@ -0,0 +1,92 @@
+/**
+ * Prim Plugin
+ */
+
+import { AlgorithmPlugin } from '../plugin';
+import { prim, PRIM_PSEUDOCODE } from '../prim';
+import { toAlgorithmInput } from '../../utils/graphEditing';
+import { primSuite } from '../../utils/testSuites';
+
+export const primPlugin: AlgorithmPlugin = {
+  id: 'prim',
+  name: 'Prim',
+  category: 'Minimum Spanning Tree',
+  image: '/prim.jpg',
+  hasCode: true,
+  hasQuiz: true,
+  description: 'Grows a minimum spanning tree from the start node, always adding the cheapest edge that joins a new node to the tree.',
+  complexity: {
+    time: 'O(V²)',
+    space: 'O(V)'
+  },
+
+  input: 'graph',
+  renderer: 'graph',
+  generate: ({ graph }) => {
+    const { nodes, edges } = toAlgorithmInput(graph);
+    return prim(nodes, edges, graph.start, graph.directed);
+  },
+  tests: primSuite,
+  pseudocode: PRIM_PSEUDOCODE,
+
+  templates: {
+    starter: {
+      javascript: `// graph is a weighted adjacency list, e.g. { A: [{ node: 'B', weight: 4 }], ... }
+// Return the edges of a minimum spanning tree of start's component as { from, to, weight } objects
+function prim(graph, start) {
+    // TODO: Implement Prim's algorithm
+    // Hint: Repeatedly add the node outside the tree with the cheapest edge into it
+    
+}`
+    },
+
+    model: {
+      javascript: `// graph is a weighted adjacency list, e.g. { A: [{ node: 'B', weight: 4 }], ... }
+// Returns the edges of a minimum spanning tree of start's component as { from, to, weight } objects
+function prim(graph, start) {
+    const key = {};
+    const parent = {};
+    const inTree = new Set();
+    
+    for (const node in graph) {
+        key[node] = Infinity;
+    }
+    key[start] = 0;
+    
+    const tree = [];
+    while (true) {
+        // Pick the node outside the tree with the smallest key
+        let current = null;
+        for (const node in graph) {
+            if (!inTree.has(node) && (current === null || key[node] < key[current])) {
+                current = node;
+            }
+        }
+        
+        if (current === null || key[current] === Infinity) break;
+        inTree.add(current);
+        if (current !== start) {
+            tree.push({ from: parent[current], to: current, weight: key[current] });
+        }
+        
+        for (const { node, weight } of graph[current]) {
+            if (!inTree.has(node) && weight < key[node]) {
+                key[node] = weight;
+                parent[node] = current;
+            }
+        }
+    }
+    
+    return tree;
+}
+
+// Example usage
+const graph = {
+    A: [{ node: 'B', weight: 1 }, { node: 'C', weight: 2 }],
+    B: [{ node: 'A', weight: 1 }, { node: 'C', weight: 3 }],
+    C: [{ node: 'A', weight: 2 }, { node: 'B', weight: 3 }]
+};
+console.log(prim(graph, 'A')); // Output: [{ from: 'A', to: 'B', weight: 1 }, { from: 'A', to: 'C', weight: 2 }]`
+    }
+  }
+};
@@ -0,0 +1,153 @@
+/**
+ * Quick Sort Plugin
+ */
+
+import { AlgorithmPlugin, DEFAULT_VALUES } from '../plugin';
+import { quickSort, QUICK_SORT_PSEUDOCODE } from '../quick-sort';
+import { sortingSuite } from '../../utils/testSuites';
+
+export const quickSortPlugin: AlgorithmPlugin = {
+  id: 'quick-sort',
+  name: 'Quick Sort',
+  category: 'Sorting',
+  image: '/quick-sort.jpg',
+  hasCode: true,
+  hasQuiz: true,
+  description: 'A highly efficient, comparison-based sorting algorithm that uses a divide-and-conquer strategy with a pivot element to partition the array.',
+  complexity: {
+    time: 'O(n log n) average, O(n²) worst',
+    space: 'O(log n)'
+  },
+
+  input: 'array',
+  renderer: 'array',
+  defaultInput: DEFAULT_VALUES,
+  generate: ({ values }) => quickSort(values),
+  entryPoint: { name: 'quickSort', kind: 'sort' },
+  tests: () => sortingSuite('quickSort', quickSort),
+  pseudocode: QUICK_SORT_PSEUDOCODE,
+
+  templates: {
+    starter: {
+      javascript: `function quickSort(arr) {
+    // TODO: Implement quick sort algorithm
+    // Hint: Choose a pivot, partition around it, then sort recursively
+    
+}
+
+function partition(arr, low, high) {
+    // TODO: Implement partition function to place pivot in correct position
+    
+}`,
+
+      python: `def quick_sort(arr):
+    # TODO: Implement quick sort algorithm
+    # Hint: Choose a pivot, partition around it, then sort recursively
+    
+    pass
+
+def partition(arr, low, high):
+    # TODO: Implement partition function to place pivot in correct position
+    
+    pass`,
+
+      java: `public class QuickSort {
+    public static void quickSort(int[] arr, int low, int high) {
+        // TODO: Implement quick sort algorithm
+        // Hint: Choose a pivot, partition around it, then sort recursively
+        
+    }
+    
+    private static int partition(int[] arr, int low, int high) {
+        // TODO: Implement partition function to place pivot in correct position
+        
+        return 0;
+    }
+    
+    public static void main(String[] args) {
+        int[] array = {64, 34, 25, 12, 22, 11, 90};
+        quickSort(array, 0, array.length - 1);
+        for (int num : array) {
+            System.out.print(num + " ");
+        }
+    }
+}`
+    },
+
+    model: {
+      javascript: `function quickSort(arr) {
+    if (arr.length <= 1) return arr;
+    
+    const pivot = arr[arr.length - 1];
+    const left = [];
+    const right = [];
+    
+    for (let i = 0; i < arr.length - 1; i++) {
+        if (arr[i] <= pivot) {
+            left.push(arr[i]);
+        } else {
+            right.push(arr[i]);
+        }
+    }
+    
+    return [...quickSort(left), pivot, ...quickSort(right)];
+}
+
+// Example usage
+const array = [64, 34, 25, 12, 22, 11, 90];
+console.log(quickSort(array));`,
+
+      python: `def quick_sort(arr):
+    if len(arr) <= 1:
+        return arr
+    
+    pivot = arr[-1]
+    left = [x for x in arr[:-1] if x <= pivot]
+    right = [x for x in arr[:-1] if x > pivot]
+    
+    return quick_sort(left) + [pivot] + quick_sort(right)
+
+# Example usage
+array = [64, 34, 25, 12, 22, 11, 90]
+print(quick_sort(array))`,
+
+      java: `public class QuickSort {
+    public static void quickSort(int[] arr, int low, int high) {
+        if (low < high) {
+            int pi = partition(arr, low, high);
+            quickSort(arr, low, pi - 1);
+            quickSort(arr, pi + 1, high);
+        }
+    }
+    
+    private static int partition(int[] arr, int low, int high) {
+        int pivot = arr[high];
+        int i = low - 1;
+        
+        for (int j = low; j < high; j++) {
+            if (arr[j] <= pivot) {
+                i++;
+                int temp = arr[i];
+                arr[i] = arr[j];
+                arr[j] = temp;
+            }
+        }
+        
+        int temp = arr[i + 1];
+        arr[i + 1] = arr[high];
+        arr[high] = temp;
+        
+        return i + 1;
+    }
+    
+    public static void main(String[] args) {
+        int[] array = {64, 34, 25, 12, 22, 11, 90};
+        quickSort(array, 0, array.length - 1);
+        for (int num : array) {
+            System.out.print(num + " ");
+        }
+    }
+}`
+    }
+  }
+};
@@ -0,0 +1,153 @@
+/**
+ * Radix Sort Plugin
+ */
+
+import { AlgorithmPlugin, DEFAULT_VALUES } from '../plugin';
+import { radixSort, RADIX_SORT_PSEUDOCODE } from '../radix-sort';
+import { sortingSuite } from '../../utils/testSuites';
+
+export const radixSortPlugin: AlgorithmPlugin = {
+  id: 'radix-sort',
+  name: 'Radix Sort',
+  category: 'Sorting',
+  image: '/radix-sort.jpg',
+  hasCode: true,
+  hasQuiz: true,
+  description: 'Sorts numbers digit by digit, starting from the least significant digit, using a stable counting sort on each digit.',
+  complexity: {
+    time: 'O(d · (n + b))',
+    space: 'O(n + b)'
+  },
+
+  input: 'array',
+  renderer: 'array',
+  defaultInput: DEFAULT_VALUES,
+  generate: ({ values }) => radixSort(values),
+  entryPoint: { name: 'radixSort', kind: 'sort' },
+  tests: () => sortingSuite('radixSort', radixSort),
+  pseudocode: RADIX_SORT_PSEUDOCODE,
+
+  templates: {
+    starter: {
+      javascript: `function radixSort(arr) {
+    // TODO: Implement LSD radix sort algorithm
+    // Hint: Run a stable counting sort on each digit, ones first
+    
+}`,
+
+      python: `def radix_sort(arr):
+    # TODO: Implement LSD radix sort algorithm
+    # Hint: Run a stable counting sort on each digit, ones first
+    
+    pass`,
+
+      java: `public class RadixSort {
+    public static void radixSort(int[] arr) {
+        // TODO: Implement LSD radix sort algorithm
+        // Hint: Run a stable counting sort on each digit, ones first
+        
+    }
+    
+    public static void main(String[] args) {
+        int[] array = {64, 34, 25, 12, 22, 11, 90};
+        radixSort(array);
+        for (int num : array) {
+            System.out.print(num + " ");
+        }
+    }
+}`
+    },
+
+    model: {
+      javascript: `function radixSort(arr) {
+    if (arr.length === 0) return arr;
+    // Shift by the minimum so negative numbers work
+    const min = Math.min(...arr);
+    const max = Math.max(...arr) - min;
+    
+    for (let exp = 1; Math.floor(max / exp) > 0 || exp === 1; exp *= 10) {
+        const count = new Array(10).fill(0);
+        const output = new Array(arr.length);
+        const digit = (value) => Math.floor((value - min) / exp) % 10;
+        
+        for (const value of arr) count[digit(value)]++;
+        for (let d = 1; d < 10; d++) count[d] += count[d - 1];
+        for (let i = arr.length - 1; i >= 0; i--) {
+            output[--count[digit(arr[i])]] = arr[i];
+        }
+        for (let i = 0; i < arr.length; i++) arr[i] = output[i];
+    }
+    return arr;
+}
+
+// Example usage
+const array = [64, 34, 25, 12, 22, 11, 90];
+console.log(radixSort(array));`,
+
+      python: `def radix_sort(arr):
+    if not arr:
+        return arr
+    # Shift by the minimum so negative numbers work
+    low = min(arr)
+    high = max(arr) - low
+    
+    exp = 1
+    while True:
+        count = [0] * 10
+        output = [0] * len(arr)
+        digit = lambda value: (value - low) // exp % 10
+        
+        for value in arr:
+            count[digit(value)] += 1
+        for d in range(1, 10):
+            count[d] += count[d - 1]
+        for value in reversed(arr):
+            count[digit(value)] -= 1
+            output[count[digit(value)]] = value
+        arr[:] = output
+        
+        exp *= 10
+        if high // exp == 0:
+            break
+    
+    return arr
+
+# Example usage
+array = [64, 34, 25, 12, 22, 11, 90]
+print(radix_sort(array))`,
+
+      java: `public class RadixSort {
+    public static void radixSort(int[] arr) {
+        if (arr.length == 0) return;
+        // Shift by the minimum so negative numbers work
+        int min = arr[0], max = arr[0];
+        for (int value : arr) {
+            min = Math.min(min, value);
+            max = Math.max(max, value);
+        }
+        max -= min;
+        
+        for (int exp = 1; max / exp > 0 || exp == 1; exp *= 10) {
+            int[] count = new int[10];
+            int[] output = new int[arr.length];
+            
+            for (int value : arr) count[(value - min) / exp % 10]++;
+            for (int d = 1; d < 10; d++) count[d] += count[d - 1];
+            for (int i = arr.length - 1; i >= 0; i--) {
+                output[--count[(arr[i] - min) / exp % 10]] = arr[i];
+            }
+            System.arraycopy(output, 0, arr, 0, arr.length);
+        }
+    }
+    
+    public static void main(String[] args) {
+        int[] array = {64, 34, 25, 12, 22, 11, 90};
+        radixSort(array);
+        for (int num : array) {
+            System.out.print(num + " ");
+        }
+    }
+}`
+    }
+  }
+};
@@ -0,0 +1,128 @@
+/**
+ * Selection Sort Plugin
+ */
+
+import { AlgorithmPlugin, DEFAULT_VALUES } from '../plugin';
+import { selectionSort, SELECTION_SORT_PSEUDOCODE } from '../selection-sort';
+import { sortingSuite } from '../../utils/testSuites';
+
+export const selectionSortPlugin: AlgorithmPlugin = {
+  id: 'selection-sort',
+  name: 'Selection Sort',
+  category: 'Sorting',
+  image: '/selection-sort.jpg',
+  hasCode: true,
+  hasQuiz: true,
+  description: 'Repeatedly finds the smallest element in the unsorted part of the array and swaps it to the front of that part.',
+  complexity: {
+    time: 'O(n²)',
+    space: 'O(1)'
+  },
+
+  input: 'array',
+  renderer: 'array',
+  defaultInput: DEFAULT_VALUES,
+  generate: ({ values }) => selectionSort(values),
+  entryPoint: { name: 'selectionSort', kind: 'sort' },
+  tests: () => sortingSuite('selectionSort', selectionSort),
+  pseudocode: SELECTION_SORT_PSEUDOCODE,
+
+  templates: {
+    starter: {
+      javascript: `function selectionSort(arr) {
+    // TODO: Implement selection sort algorithm
+    // Hint: Find the minimum of the unsorted part and swap it to the front
+    
+}`,
+
+      python: `def selection_sort(arr):
+    # TODO: Implement selection sort algorithm
+    # Hint: Find the minimum of the unsorted part and swap it to the front
+    
+    pass`,
+
+      java: `public class SelectionSort {
+    public static void selectionSort(int[] arr) {
+        // TODO: Implement selection sort algorithm
+        // Hint: Find the minimum of the unsorted part and swap it to the front
+        
+    }
+    
+    public static void main(String[] args) {
+        int[] array = {64, 34, 25, 12, 22, 11, 90};
+        selectionSort(array);
+        for (int num : array) {
+            System.out.print(num + " ");
+        }
+    }
+}`
+    },
+
+    model: {
+      javascript: `function selectionSort(arr) {
+    for (let i = 0; i < arr.length - 1; i++) {
+        let minIndex = i;
+        
+        for (let j = i + 1; j < arr.length; j++) {
+            if (arr[j] < arr[minIndex]) {
+                minIndex = j;
+            }
+        }
+        
+        if (minIndex !== i) {
+            [arr[i], arr[minIndex]] = [arr[minIndex], arr[i]];
+        }
+    }
+    return arr;
+}
+
+// Example usage
+const array = [64, 34, 25, 12, 22, 11, 90];
+console.log(selectionSort(array));`,
+
+      python: `def selection_sort(arr):
+    n = len(arr)
+    for i in range(n - 1):
+        min_index = i
+        
+        for j in range(i + 1, n):
+            if arr[j] < arr[min_index]:
+                min_index = j
+        
+        if min_index != i:
+            arr[i], arr[min_index] = arr[min_index], arr[i]
+    
+    return arr
+
+# Example usage
+array = [64, 34, 25, 12, 22, 11, 90]
+print(selection_sort(array))`,
+
+      java: `public class SelectionSort {
+    public static void selectionSort(int[] arr) {
+        for (int i = 0; i < arr.length - 1; i++) {
+            int minIndex = i;
+            
+            for (int j = i + 1; j < arr.length; j++) {
+                if (arr[j] < arr[minIndex]) {
+                    minIndex = j;
+                }
+            }
+            
+            int temp = arr[i];
+            arr[i] = arr[minIndex];
+            arr[minIndex] = temp;
+        }
+    }
+    
+    public static void main(String[] args) {
+        int[] array = {64, 34, 25, 12, 22, 11, 90};
+        selectionSort(array);
+        for (int num : array) {
+            System.out.print(num + " ");
+        }
+    }
+}`
+    }
+  }
+};
@@ -0,0 +1,127 @@
+/**
+ * Shell Sort Plugin
+ */
+
+import { AlgorithmPlugin, DEFAULT_VALUES } from '../plugin';
+import { shellSort, SHELL_SORT_PSEUDOCODE } from '../shell-sort';
+import { sortingSuite } from '../../utils/testSuites';
+
+export const shellSortPlugin: AlgorithmPlugin = {
+  id: 'shell-sort',
+  name: 'Shell Sort',
+  category: 'Sorting',
+  image: '/shell-sort.jpg',
+  hasCode: true,
+  hasQuiz: true,
+  description: 'Insertion sorts elements that are a gap apart, shrinking the gap each round until a final pass with gap 1 finishes an almost sorted array.',
+  complexity: {
+    time: 'O(n²) worst, depends on the gap sequence',
+    space: 'O(1)'
+  },
+
+  input: 'array',
+  renderer: 'array',
+  defaultInput: DEFAULT_VALUES,
+  generate: ({ values }) => shellSort(values),
+  entryPoint: { name: 'shellSort', kind: 'sort' },
+  tests: () => sortingSuite('shellSort', shellSort),
+  pseudocode: SHELL_SORT_PSEUDOCODE,
+
+  templates: {
+    starter: {
+      javascript: `function shellSort(arr) {
+    // TODO: Implement shell sort algorithm
+    // Hint: Start with gap = n / 2 and insertion sort elements that are gap apart
+    
+}`,
+
+      python: `def shell_sort(arr):
+    # TODO: Implement shell sort algorithm
+    # Hint: Start with gap = n // 2 and insertion sort elements that are gap apart
+    
+    pass`,
+
+      java: `public class ShellSort {
+    public static void shellSort(int[] arr) {
+        // TODO: Implement shell sort algorithm
+        // Hint: Start with gap = n / 2 and insertion sort elements that are gap apart
+        
+    }
+    
+    public static void main(String[] args) {
+        int[] array = {64, 34, 25, 12, 22, 11, 90};
+        shellSort(array);
+        for (int num : array) {
+            System.out.print(num + " ");
+        }
+    }
+}`
+    },
+
+    model: {
+      javascript: `function shellSort(arr) {
+    for (let gap = Math.floor(arr.length / 2); gap > 0; gap = Math.floor(gap / 2)) {
+        for (let i = gap; i < arr.length; i++) {
+            const key = arr[i];
+            let j = i;
+            
+            while (j >= gap && arr[j - gap] > key) {
+                arr[j] = arr[j - gap];
+                j -= gap;
+            }
+            arr[j] = key;
+        }
+    }
+    return arr;
+}
+
+// Example usage
+const array = [64, 34, 25, 12, 22, 11, 90];
+console.log(shellSort(array));`,
+
+      python: `def shell_sort(arr):
+    gap = len(arr) // 2
+    while gap > 0:
+        for i in range(gap, len(arr)):
+            key = arr[i]
+            j = i
+            
+            while j >= gap and arr[j - gap] > key:
+                arr[j] = arr[j - gap]
+                j -= gap
+            arr[j] = key
+        gap //= 2
+    
+    return arr
+
+# Example usage
+array = [64, 34, 25, 12, 22, 11, 90]
+print(shell_sort(array))`,
+
+      java: `public class ShellSort {
+    public static void shellSort(int[] arr) {
+        for (int gap = arr.length / 2; gap > 0; gap /= 2) {
+            for (int i = gap; i < arr.length; i++) {
+                int key = arr[i];
+                int j = i;
+                
+                while (j >= gap && arr[j - gap] > key) {
+                    arr[j] = arr[j - gap];
+                    j -= gap;
+                }
+                arr[j] = key;
+            }
+        }
+    }
+    
+    public static void main(String[] args) {
+        int[] array = {64, 34, 25, 12, 22, 11, 90};
+        shellSort(array);
+        for (int num : array) {
+            System.out.print(num + " ");
+        }
+    }
+}`
+    }
+  }
+};
@@ -0,0 +1,96 @@
+/**
+ * Tarjan's SCC Algorithm Plugin
+ */
+
+import { AlgorithmPlugin } from '../plugin';
+import { tarjan, TARJAN_PSEUDOCODE } from '../tarjan-scc';
+import { toAlgorithmInput } from '../../utils/graphEditing';
+import { stronglyConnectedComponentsSuite } from '../../utils/testSuites';
+
+export const tarjanPlugin: AlgorithmPlugin = {
+  id: 'tarjan-scc',
+  name: "Tarjan's SCC Algorithm",
+  category: 'Connectivity',
+  image: '/tarjan-scc.jpg',
+  hasCode: true,
+  hasQuiz: false,
+  description: 'Finds the strongly connected components of a directed graph in one depth-first search, using discovery and low-link numbers to spot the root of each component.',
+  complexity: {
+    time: 'O(V + E)',
+    space: 'O(V)'
+  },
+
+  input: 'graph',
+  renderer: 'graph',
+  generate: ({ graph }) => {
+    const { nodes, edges } = toAlgorithmInput(graph);
+    return tarjan(nodes, edges, graph.directed);
+  },
+  tests: () => stronglyConnectedComponentsSuite((nodes, edges) => tarjan(nodes, edges)),
+  pseudocode: TARJAN_PSEUDOCODE,
+
+  templates: {
+    starter: {
+      javascript: `// nodes is a list of node ids, edges a list of directed edges, e.g. [{ from: 'A', to: 'B' }, ...]
+// Return the strongly connected components as lists of node ids
+function stronglyConnectedComponents(nodes, edges) {
+    // TODO: Implement Tarjan's algorithm
+    // Hint: A node whose low-link equals its discovery number is the root of a component
+    
+}`
+    },
+
+    model: {
+      javascript: `// nodes is a list of node ids, edges a list of directed edges, e.g. [{ from: 'A', to: 'B' }, ...]
+// Returns the strongly connected components as lists of node ids
+function stronglyConnectedComponents(nodes, edges) {
+    const discovery = {};
+    const low = {};
+    const stack = [];
+    const onStack = new Set();
+    const components = [];
+    let counter = 0;
+    
+    function strongConnect(u) {
+        discovery[u] = low[u] = counter++;
+        stack.push(u);
+        onStack.add(u);
+        
+        for (const { from, to } of edges) {
+            if (from !== u) continue;
+            if (discovery[to] === undefined) {
+                strongConnect(to);
+                low[u] = Math.min(low[u], low[to]);
+            } else if (onStack.has(to)) {
+                low[u] = Math.min(low[u], discovery[to]);
+            }
+        }
+        
+        // u is the root of a component: pop it and everything above it
+        if (low[u] === discovery[u]) {
+            const component = stack.splice(stack.indexOf(u));
+            component.forEach(node => onStack.delete(node));
+            components.push(component);
+        }
+    }
+    
+    for (const node of nodes) {
+        if (discovery[node] === undefined) {
+            strongConnect(node);
+        }
+    }
+    return components;
+}
+
+// Example usage
+const nodes = ['A', 'B', 'C', 'D'];
+const edges = [
+    { from: 'A', to: 'B' },
+    { from: 'B', to: 'C' },
+    { from: 'C', to: 'A' },
+    { from: 'C', to: 'D' }
+];
+console.log(stronglyConnectedComponents(nodes, edges)); // Output: [['D'], ['A', 'B', 'C']]`
+    }
+  }
+};
@@ -0,0 +1,81 @@
+/**
+ * Tricolor Algorithm Plugin
+ */
+
+import { AlgorithmPlugin } from '../plugin';
+import { tricolorAlgorithm, TRICOLOR_PSEUDOCODE } from '../tricolor-algorithm';
+import { toAlgorithmInput } from '../../utils/graphEditing';
+import { tricolorSuite } from '../../utils/testSuites';
+
+export const tricolorAlgorithmPlugin: AlgorithmPlugin = {
+  id: 'tricolor-algorithm',
+  name: 'Tricolor Algorithm',
+  category: 'Graph Traversal',
+  image: '/tricolor.jpg',
+  hasCode: true,
+  hasQuiz: true,
+  description: 'A graph traversal algorithm that uses three colors to mark the state of vertices during traversal. An edge back to a gray vertex reveals a cycle.',
+  complexity: {
+    time: 'O(V + E)',
+    space: 'O(V)'
+  },
+
+  input: 'graph',
+  renderer: 'graph',
+  generate: ({ graph }) => {
+    const { nodes, edges } = toAlgorithmInput(graph);
+    return tricolorAlgorithm(nodes, edges, graph.start, graph.end, graph.directed);
+  },
+  tests: () => tricolorSuite(),
+  pseudocode: TRICOLOR_PSEUDOCODE,
+
+  templates: {
+    starter: {
+      javascript: `// nodes is a list of node ids, edges a list of directed edges, e.g. [{ from: 'A', to: 'B' }, ...]
+// Return a cycle reachable from start as a list of node ids (e.g. ['B', 'C', 'D']), or null if there is none
+function findCycle(nodes, edges, start) {
+    // TODO: Implement the tricolor search
+    // Hint: An edge to a gray node - one still on the stack - closes a cycle
+    
+}`
+    },
+
+    model: {
+      javascript: `// nodes is a list of node ids, edges a list of directed edges, e.g. [{ from: 'A', to: 'B' }, ...]
+// Returns a cycle reachable from start as a list of node ids (e.g. ['B', 'C', 'D']), or null if there is none
+function findCycle(nodes, edges, start) {
+    const colour = {};
+    nodes.forEach(node => { colour[node] = 'white'; });
+    const stack = [];
+    
+    function visit(u) {
+        colour[u] = 'gray';
+        stack.push(u);
+        
+        for (const edge of edges) {
+            if (edge.from !== u) continue;
+            const v = edge.to;
+            
+            // A gray node is still on the stack, so the edge closes a cycle
+            if (colour[v] === 'gray') {
+                return stack.slice(stack.indexOf(v));
+            }
+            if (colour[v] === 'white') {
+                const cycle = visit(v);
+                if (cycle) return cycle;
+            }
+        }
+        
+        colour[u] = 'black';
+        stack.pop();
+        return null;
+    }
+    
+    return visit(start);
+}
+
+// Example usage
+console.log(findCycle(['A', 'B', 'C'], [{ from: 'A', to: 'B' }, { from: 'B', to: 'C' }, { from: 'C', to: 'B' }], 'A')); // Output: ['B', 'C']`
+    }
+  }
+};
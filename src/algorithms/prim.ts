@@ -0,0 +1,192 @@
+/**
+ * Prim's Algorithm Implementation
+ *
+ * Generates visualization states for Prim's minimum spanning tree algorithm.
+ * The tree grows from the start node; every node outside it is keyed by the
+ * cheapest edge joining it to the tree, and the node with the smallest key
+ * is added next. Edges between two tree nodes that are not tree edges are
+ * marked as rejected, since they would close a cycle.
+ */
+
+import { createStats, snapshot, trackMemory } from './operation-stats';
+import { FrontierEntry, GraphFrame, TraceNode, TraceEdge, PseudocodeLine, NodeStatus, EdgeStatus } from './trace';
+
+export const PRIM_PSEUDOCODE: PseudocodeLine[] = [
+  { id: 'start', text: 'procedure prim(graph, start)' },
+  { id: 'init', text: '  key[start] ← 0; key[v] ← ∞ for every other v' },
+  { id: 'loop', text: '  while some node outside the tree has a finite key' },
+  { id: 'select', text: '    u ← node outside the tree with the smallest key; add u and (parent[u], u) to the tree' },
+  { id: 'neighbours', text: '    for each neighbour v of u outside the tree' },
+  { id: 'update', text: '      if w(u, v) < key[v]: key[v] ← w(u, v); parent[v] ← u' },
+  { id: 'done', text: '  return the tree edges' },
+];
+
+/**
+ * Prim's Algorithm
+ *
+ * Edge directions are ignored: spanning trees are defined on undirected
+ * graphs. On a disconnected graph only the start node's component is spanned.
+ *
+ * @param nodes - Array of graph nodes
+ * @param edges - Array of weighted graph edges
+ * @param startNode - Node the tree grows from
+ * @param directed - Whether the editor graph is directed (only mentioned in the narration)
+ * @returns Array of visualization states showing each step of the algorithm
+ */
+export function prim(
+  nodes: TraceNode[],
+  edges: TraceEdge[],
+  startNode: string,
+  directed: boolean = false
+): GraphFrame[] {
+  const states: GraphFrame[] = [];
+  const keys = new Map<string, number>();
+  const parent = new Map<string, string>();
+  const inTree = new Set<string>();
+  const stats = createStats();
+  let treeWeight = 0;
+
+  nodes.forEach(node => {
+    keys.set(node.id, node.id === startNode ? 0 : Infinity);
+  });
+  trackMemory(stats, keys.size);
+
+  const joins = (edge: TraceEdge, a: string, b: string) =>
+    (edge.from === a && edge.to === b) || (edge.from === b && edge.to === a);
+
+  // Nodes outside the tree with a finite key, cheapest first; the stable
+  // sort keeps ties in the order the selection loop below picks them
+  const frontier = (mark?: FrontierEntry): FrontierEntry[] => {
+    const entries: FrontierEntry[] = Array.from(keys)
+      .filter(([id, key]) => !inTree.has(id) && key !== Infinity)
+      .map(([node, priority]) => ({ node, priority }))
+      .sort((a, b) => a.priority - b.priority);
+    if (!mark) return entries;
+    return mark.change === 'popped' ? [mark, ...entries] : entries.map(entry => entry.node === mark.node ? mark : entry);
+  };
+
+  // Tree edges join a node to its parent inside the tree; the other edges
+  // inside the tree are rejected, and each outside node's cheapest known
+  // edge is drawn as a candidate
+  const frame = (
+    fields: Partial<GraphFrame>,
+    current: string | null,
+    relaxed?: string
+  ): GraphFrame => ({
+    kind: 'graph',
+    nodes: nodes.map(node => ({
+      ...node,
+      status: (node.id === current ? 'current' :
+              inTree.has(node.id) ? 'visited' :
+              node.id === startNode ? 'start' : 'unvisited') as NodeStatus,
+      key: keys.get(node.id),
+      parent: parent.get(node.id)
+    })),
+    edges: edges.map(edge => {
+      const inside = inTree.has(edge.from) && inTree.has(edge.to);
+      const treeEdge = parent.get(edge.to) === edge.from || parent.get(edge.from) === edge.to;
+      return {
+        ...edge,
+        status: (relaxed !== undefined && current !== null && joins(edge, current, relaxed) ? 'current' :
+                inside && treeEdge ? 'tree' :
+                inside ? 'rejected' :
+                treeEdge ? 'visited' : 'normal') as EdgeStatus
+      };
+    }),
+    frontier: frontier(),
+    visited: Array.from(inTree),
+    current,
+    treeWeight,
+    watch: {
+      ...(current !== null ? { u: current } : {}),
+      ...(relaxed !== undefined ? { v: relaxed } : {}),
+      key: Object.fromEntries(keys),
+      parent: Object.fromEntries(parent),
+      weight: treeWeight
+    },
+    stats: snapshot(stats),
+    ...fields
+  });
+
+  states.push(frame({
+    line: 'init',
+    narration: `Grow the tree from ${startNode}: its key is 0, every other key is ∞${directed ? ' (edge directions are ignored)' : ''}`
+  }, null));
+
+  while (inTree.size < nodes.length) {
+    // Find the node outside the tree with the smallest key
+    let current = '';
+    let minKey = Infinity;
+
+    for (const [nodeId, key] of keys) {
+      if (inTree.has(nodeId)) continue;
+      stats.comparisons++;
+      if (key < minKey) {
+        minKey = key;
+        current = nodeId;
+      }
+    }
+
+    if (current === '' || minKey === Infinity) break;
+
+    inTree.add(current);
+    stats.nodesVisited++;
+    const via = parent.get(current);
+    if (via !== undefined) treeWeight += minKey;
+
+    // Edges back into the tree other than the one just added would close a cycle
+    const closing = edges
+      .filter(edge => (edge.from === current && inTree.has(edge.to) && edge.to !== via) ||
+                      (edge.to === current && inTree.has(edge.from) && edge.from !== via))
+      .map(edge => (edge.from === current ? edge.to : edge.from));
+
+    states.push(frame({
+      line: 'select',
+      narration: (via === undefined
+        ? `Add ${current} to the tree`
+        : `${current} has the smallest key (${minKey}); add it and the edge ${via}–${current} to the tree`) +
+        (closing.length > 0 ? `; edges to ${closing.join(', ')} would close a cycle, so they are rejected` : ''),
+      frontier: frontier({ node: current, priority: minKey, change: 'popped' })
+    }, current));
+
+    for (const edge of edges) {
+      if (edge.from !== current && edge.to !== current) continue;
+      const neighbor = edge.from === current ? edge.to : edge.from;
+      if (inTree.has(neighbor)) continue;
+
+      const weight = edge.weight ?? 1;
+      const previous = keys.get(neighbor)!;
+      stats.edgesRelaxed++;
+      stats.comparisons++;
+
+      if (weight < previous) {
+        keys.set(neighbor, weight);
+        parent.set(neighbor, current);
+        trackMemory(stats, keys.size + parent.size);
+
+        states.push(frame({
+          line: 'update',
+          narration: `${current}–${neighbor} (${weight}) is cheaper than ${neighbor}'s key ${previous === Infinity ? '∞' : previous}; ` +
+            `the cheapest way to join ${neighbor} to the tree is now via ${current}`,
+          frontier: frontier(previous === Infinity
+            ? { node: neighbor, priority: weight, change: 'pushed' }
+            : { node: neighbor, priority: weight, change: 'decreased', previous })
+        }, current, neighbor));
+      }
+    }
+  }
+
+  const unreached = nodes.filter(node => !inTree.has(node.id)).map(node => node.id);
+  const treeEdges = Array.from(parent).filter(([child]) => inTree.has(child)).map(([child, p]) => `${p}–${child}`);
+  states.push({
+    ...frame({
+      line: 'done',
+      narration: unreached.length > 0
+        ? `The tree spans ${startNode}'s component with total weight ${treeWeight}; ${unreached.join(', ')} cannot be reached`
+        : `Minimum spanning tree found: ${treeEdges.length} edges with total weight ${treeWeight}`
+    }, null),
+    watch: { tree: treeEdges, weight: treeWeight }
+  });
+
+  return states;
+}
@@ -1,21 +1,27 @@
-export interface BarState {
-  values: number[];
-  comparing: number[];
-  swapping: number[];
-  sorted: number[];
-  pivot: number[];
-  partition: number[];
-  left: number[];
-  right: number[];
-}
-
-export function quickSort(arr: number[]): BarState[] {
-  const states: BarState[] = [];
+import { createStats, snapshot, trackMemory } from './operation-stats';
+import { createCallStack, enterCall, exitCall, snapshotCalls } from './call-stack';
+import { ArrayFrame, PseudocodeLine } from './trace';
+
+export const QUICK_SORT_PSEUDOCODE: PseudocodeLine[] = [
+  { id: 'start', text: 'procedure quickSort(a, lo, hi)' },
+  { id: 'base', text: '  if lo ≥ hi: return' },
+  { id: 'partition', text: '  p ← partition(a, lo, hi); quickSort(a, lo, p - 1); quickSort(a, p + 1, hi)' },
+  { id: 'pivot', text: 'procedure partition(a, lo, hi): pivot ← a[hi]; i ← lo - 1' },
+  { id: 'compare', text: '  for j from lo to hi - 1: if a[j] ≤ pivot' },
+  { id: 'swap', text: '    i ← i + 1; swap a[i] and a[j]' },
+  { id: 'place', text: '  swap a[i + 1] and a[hi]; return i + 1' },
+];
+
+export function quickSort(arr: number[]): ArrayFrame[] {
+  const states: ArrayFrame[] = [];
   const array = [...arr];
   const n = array.length;
+  const stats = createStats();
+  const calls = createCallStack();
 
   // Add initial state
   states.push({
+    kind: 'array',
     values: [...array],
     comparing: [],
     swapping: [],
@@ -23,16 +29,23 @@ export function quickSort(arr: number[]): BarState[] {
     pivot: [],
     partition: [],
     left: [],
-    right: []
+    right: [],
+    callStack: snapshotCalls(calls),
+    line: 'start',
+    narration: `Sort ${n} values by partitioning around a pivot and recursing on both sides`,
+    watch: { n },
+    stats: snapshot(stats)
   });
 
   // Helper function to partition the array
   function partition(low: number, high: number): number {
     const pivot = array[high];
     let i = low - 1;
+    stats.accesses++;
 
     // Add state showing pivot selection
     states.push({
+      kind: 'array',
       values: [...array],
       comparing: [],
       swapping: [],
@@ -40,12 +53,21 @@ export function quickSort(arr: number[]): BarState[] {
       pivot: [high],
       partition: Array.from({ length: high - low + 1 }, (_, idx) => low + idx),
       left: [],
-      right: []
+      right: [],
+      callStack: snapshotCalls(calls),
+      line: 'pivot',
+      narration: `Partition a[${low}..${high}] around the last value, pivot = ${pivot}`,
+      watch: { lo: low, hi: high, pivot, i },
+      stats: snapshot(stats)
     });
 
     for (let j = low; j < high; j++) {
+      stats.comparisons++;
+      stats.accesses++;
+
       // Add comparing state
       states.push({
+        kind: 'array',
         values: [...array],
         comparing: [j, high],
         swapping: [],
@@ -53,7 +75,13 @@ export function quickSort(arr: number[]): BarState[] {
         pivot: [high],
         partition: Array.from({ length: high - low + 1 }, (_, idx) => low + idx),
         left: [],
-        right: []
+        right: [],
+        callStack: snapshotCalls(calls),
+        line: 'compare',
+        narration: `Compare a[${j}] = ${array[j]} with pivot ${pivot}; ` +
+          (array[j] <= pivot ? `${array[j]} ≤ ${pivot} so it joins the low side` : `${array[j]} > ${pivot} so it stays on the high side`),
+        watch: { lo: low, hi: high, pivot, i, j },
+        stats: snapshot(stats)
       });
 
       if (array[j] <= pivot) {
@@ -62,6 +90,7 @@ export function quickSort(arr: number[]): BarState[] {
         if (i !== j) {
           // Add swapping state
           states.push({
+            kind: 'array',
             values: [...array],
             comparing: [],
             swapping: [i, j],
@@ -69,14 +98,23 @@ export function quickSort(arr: number[]): BarState[] {
             pivot: [high],
             partition: Array.from({ length: high - low + 1 }, (_, idx) => low + idx),
             left: [],
-            right: []
+            right: [],
+            callStack: snapshotCalls(calls),
+            line: 'swap',
+            narration: `Swap a[${i}] = ${array[i]} and a[${j}] = ${array[j]} to grow the low side`,
+            watch: { lo: low, hi: high, pivot, i, j },
+            stats: snapshot(stats)
           });
 
           // Swap elements
           [array[i], array[j]] = [array[j], array[i]];
+          stats.swaps++;
+          stats.writes += 2;
+          stats.accesses += 4;
 
           // Add state after swap
           states.push({
+            kind: 'array',
             values: [...array],
             comparing: [],
             swapping: [],
@@ -84,7 +122,12 @@ export function quickSort(arr: number[]): BarState[] {
             pivot: [high],
             partition: Array.from({ length: high - low + 1 }, (_, idx) => low + idx),
             left: [],
-            right: []
+            right: [],
+            callStack: snapshotCalls(calls),
+            line: 'swap',
+            narration: `a[${low}..${i}] now holds the values ≤ ${pivot} seen so far`,
+            watch: { lo: low, hi: high, pivot, i, j },
+            stats: snapshot(stats)
           });
         }
       }
@@ -93,6 +136,7 @@ export function quickSort(arr: number[]): BarState[] {
     // Place pivot in correct position
     if (i + 1 !== high) {
       states.push({
+        kind: 'array',
         values: [...array],
         comparing: [],
         swapping: [i + 1, high],
@@ -100,12 +144,21 @@ export function quickSort(arr: number[]): BarState[] {
         pivot: [high],
         partition: Array.from({ length: high - low + 1 }, (_, idx) => low + idx),
         left: [],
-        right: []
+        right: [],
+        callStack: snapshotCalls(calls),
+        line: 'place',
+        narration: `Swap pivot ${pivot} into position ${i + 1}, between the low and high sides`,
+        watch: { lo: low, hi: high, pivot, i },
+        stats: snapshot(stats)
       });
 
       [array[i + 1], array[high]] = [array[high], array[i + 1]];
+      stats.swaps++;
+      stats.writes += 2;
+      stats.accesses += 4;
 
       states.push({
+        kind: 'array',
         values: [...array],
         comparing: [],
         swapping: [],
@@ -113,10 +166,16 @@ export function quickSort(arr: number[]): BarState[] {
         pivot: [],
         partition: [],
         left: [],
-        right: []
+        right: [],
+        callStack: snapshotCalls(calls),
+        line: 'place',
+        narration: `Pivot ${pivot} is in its final place at a[${i + 1}]`,
+        watch: { lo: low, hi: high, pivot, i },
+        stats: snapshot(stats)
       });
     } else {
       states.push({
+        kind: 'array',
         values: [...array],
         comparing: [],
         swapping: [],
@@ -124,7 +183,12 @@ export function quickSort(arr: number[]): BarState[] {
         pivot: [],
         partition: [],
         left: [],
-        right: []
+        right: [],
+        callStack: snapshotCalls(calls),
+        line: 'place',
+        narration: `Pivot ${pivot} is already at a[${i + 1}], its final place`,
+        watch: { lo: low, hi: high, pivot, i },
+        stats: snapshot(stats)
       });
     }
 
@@ -132,10 +196,18 @@ export function quickSort(arr: number[]): BarState[] {
   }
 
   // Recursive quick sort function
-  function quickSortHelper(low: number, high: number) {
+  function quickSortHelper(low: number, high: number, depth: number) {
+    // Each level of recursion keeps a stack frame alive
+    trackMemory(stats, depth);
+
+    // Empty ranges return straight away and are not shown as calls
+    if (low > high) return;
+    enterCall(calls, { name: 'quickSort', lo: low, hi: high });
+
     if (low < high) {
       // Add state showing current subarray
       states.push({
+        kind: 'array',
         values: [...array],
         comparing: [],
         swapping: [],
@@ -143,13 +215,19 @@ export function quickSort(arr: number[]): BarState[] {
         pivot: [],
         partition: [],
         left: Array.from({ length: low }, (_, idx) => idx),
-        right: Array.from({ length: n - high - 1 }, (_, idx) => high + 1 + idx)
+        right: Array.from({ length: n - high - 1 }, (_, idx) => high + 1 + idx),
+        callStack: snapshotCalls(calls),
+        line: 'partition',
+        narration: `Quick sort a[${low}..${high}]`,
+        watch: { lo: low, hi: high },
+        stats: snapshot(stats)
       });
 
       const pi = partition(low, high);
 
       // Add state showing partition result
       states.push({
+        kind: 'array',
         values: [...array],
         comparing: [],
         swapping: [],
@@ -157,15 +235,21 @@ export function quickSort(arr: number[]): BarState[] {
         pivot: [],
         partition: [],
         left: Array.from({ length: pi }, (_, idx) => idx),
-        right: Array.from({ length: n - pi - 1 }, (_, idx) => pi + 1 + idx)
+        right: Array.from({ length: n - pi - 1 }, (_, idx) => pi + 1 + idx),
+        callStack: snapshotCalls(calls),
+        line: 'partition',
+        narration: `Pivot landed at ${pi}; recurse on a[${low}..${pi - 1}] and a[${pi + 1}..${high}]`,
+        watch: { lo: low, hi: high, p: pi },
+        stats: snapshot(stats)
       });
 
       // Recursively sort left and right subarrays
-      quickSortHelper(low, pi - 1);
-      quickSortHelper(pi + 1, high);
+      quickSortHelper(low, pi - 1, depth + 1);
+      quickSortHelper(pi + 1, high, depth + 1);
     } else if (low === high) {
       // Single element is already sorted
       states.push({
+        kind: 'array',
         values: [...array],
         comparing: [],
         swapping: [],
@@ -173,16 +257,24 @@ export function quickSort(arr: number[]): BarState[] {
         pivot: [],
         partition: [],
         left: Array.from({ length: low }, (_, idx) => idx),
-        right: Array.from({ length: n - high - 1 }, (_, idx) => high + 1 + idx)
+        right: Array.from({ length: n - high - 1 }, (_, idx) => high + 1 + idx),
+        callStack: snapshotCalls(calls),
+        line: 'base',
+        narration: `a[${low}] = ${array[low]} alone is already sorted`,
+        watch: { lo: low, hi: high },
+        stats: snapshot(stats)
       });
     }
+
+    exitCall(calls);
   }
 
   // Start the quick sort
-  quickSortHelper(0, n - 1);
+  quickSortHelper(0, n - 1, 1);
 
   // Add final sorted state
   states.push({
+    kind: 'array',
     values: [...array],
     comparing: [],
     swapping: [],
@@ -190,7 +282,12 @@ export function quickSort(arr: number[]): BarState[] {
     pivot: [],
     partition: [],
     left: [],
-    right: []
+    right: [],
+    callStack: snapshotCalls(calls),
+    line: 'start',
+    narration: 'All values are sorted',
+    watch: { n },
+    stats: snapshot(stats)
   });
 
   return states;
@@ -0,0 +1,132 @@
+/**
+ * Radix Sort Algorithm Implementation
+ *
+ * Generates visualization states for least-significant-digit radix sort in
+ * base 10. Each pass is a stable counting sort on one digit; the digit
+ * counts and the output of the pass are shown as auxiliary rows. Values are
+ * shifted by the minimum first when there are negative numbers.
+ */
+
+import { createStats, snapshot, trackMemory } from './operation-stats';
+import { ArrayFrame, ArrayMove, AuxiliaryArray, PseudocodeLine, WatchVariables } from './trace';
+
+export const RADIX_SORT_PSEUDOCODE: PseudocodeLine[] = [
+  { id: 'start', text: 'procedure radixSort(a)' },
+  { id: 'pass', text: '  for exp in 1, 10, 100, ... up to the largest value\'s top digit' },
+  { id: 'count', text: '    for each x in a: count[digit(x)] ← count[digit(x)] + 1' },
+  { id: 'prefix', text: '    for d from 1 to 9: count[d] ← count[d] + count[d - 1]' },
+  { id: 'place', text: '    for i from n - 1 down to 0: count[digit(a[i])] -= 1; out[count[digit(a[i])]] ← a[i]' },
+  { id: 'copy', text: '    copy out back into a' },
+];
+
+const BASE = 10;
+const DIGIT_LABELS = Array.from({ length: BASE }, (_, index) => String(index));
+
+/**
+ * Radix Sort Algorithm
+ *
+ * @param arr - The input array to sort
+ * @returns Array of visualization states showing each step of the algorithm
+ */
+export function radixSort(arr: number[]): ArrayFrame[] {
+  const states: ArrayFrame[] = [];
+  const n = arr.length;
+  const array = [...arr];
+  const stats = createStats();
+
+  // Shift by the minimum only when there are negatives, so digits match the values shown
+  const min = n > 0 ? Math.min(0, ...array) : 0;
+  const maxShifted = n > 0 ? Math.max(...array) - min : 0;
+  const count: number[] = new Array(BASE).fill(0);
+  // One pass per digit of the largest shifted value (none for an empty array)
+  const passes = n > 0 ? String(maxShifted).length : 0;
+  const output: (number | null)[] = new Array(n).fill(null);
+  trackMemory(stats, BASE + n);
+
+  const digitOf = (value: number, exp: number) => Math.floor((value - min) / exp) % BASE;
+
+  const pushState = (
+    line: string,
+    narration: string,
+    watch: WatchVariables,
+    exp: number | undefined,
+    comparing: number[],
+    countHighlight: number[],
+    outputHighlight: number[],
+    key?: number,
+    sorted: number[] = [],
+    moves: ArrayMove[] = []
+  ) => {
+    const auxiliary: AuxiliaryArray[] = [
+      { name: 'Count', values: [...count], labels: DIGIT_LABELS, highlight: countHighlight },
+      { name: 'Output', values: [...output], highlight: outputHighlight }
+    ];
+    states.push({
+      kind: 'array',
+      values: [...array],
+      comparing,
+      swapping: [],
+      sorted,
+      key,
+      digit: exp,
+      auxiliary,
+      moves,
+      line,
+      narration,
+      watch,
+      stats: snapshot(stats)
+    });
+  };
+
+  // Add initial state
+  pushState('start', n > 0
+    ? `Sort on one decimal digit at a time, ${passes} pass${passes === 1 ? '' : 'es'} in all`
+    : 'Nothing to sort', { n, passes }, undefined, [], [], []);
+
+  for (let pass = 0, exp = 1; pass < passes; pass++, exp *= BASE) {
+    count.fill(0);
+    output.fill(null);
+    pushState('pass', `Pass ${pass + 1}: sort on the ${exp}s digit`, { pass: pass + 1, exp }, exp, [], [], []);
+
+    // Count the digit of every value
+    for (let i = 0; i < n; i++) {
+      const digit = digitOf(array[i], exp);
+      count[digit]++;
+      stats.accesses += 2;
+      stats.writes++;
+      pushState('count', `${array[i]}${min < 0 ? ` (shifted: ${array[i] - min})` : ''} has ${digit} in the ${exp}s place; count[${digit}] is now ${count[digit]}`, { exp, i, digit }, exp, [i], [digit], []);
+    }
+
+    // Turn counts into end positions
+    for (let d = 1; d < BASE; d++) {
+      count[d] += count[d - 1];
+      stats.accesses += 2;
+      stats.writes++;
+      pushState('prefix', `Add the running total: digit ${d} ends before position ${count[d]}`, { exp, d }, exp, [], [d - 1, d], []);
+    }
+
+    // Place values from the right so each pass is stable
+    for (let i = n - 1; i >= 0; i--) {
+      const digit = digitOf(array[i], exp);
+      count[digit]--;
+      const position = count[digit];
+      output[position] = array[i];
+      stats.accesses += 3;
+      stats.writes += 2;
+      pushState('place', `Place ${array[i]} at output position ${position}`, { exp, i, digit, position }, exp, [], [digit], [position], i, [], [{ from: { row: 'main', index: i }, to: { row: 1, index: position } }]);
+    }
+
+    // Copy the pass output back into the array
+    for (let i = 0; i < n; i++) {
+      array[i] = output[i] as number;
+      stats.accesses++;
+      stats.writes++;
+      pushState('copy', `Copy ${array[i]} back to a[${i}]`, { exp, i }, exp, [], [], [i], undefined, [], [{ from: { row: 1, index: i }, to: { row: 'main', index: i } }]);
+    }
+  }
+
+  // Final state: all elements sorted
+  pushState('copy', 'Every digit has been sorted on, so the array is sorted', {}, undefined, [], [], [], undefined, Array.from({ length: n }, (_, index) => index));
+
+  return states;
+}
@@ -0,0 +1,85 @@
+/**
+ * Algorithm Registry
+ *
+ * The list of algorithm plugins (see plugin.ts). Adding an algorithm means
+ * writing its plugin and adding it here; categories are shown in the
+ * order their first algorithm appears.
+ */
+
+import { AlgorithmPlugin } from './plugin';
+import { bubbleSortPlugin } from './plugins/bubble-sort';
+import { insertionSortPlugin } from './plugins/insertion-sort';
+import { mergeSortPlugin } from './plugins/merge-sort';
+import { quickSortPlugin } from './plugins/quick-sort';
+import { selectionSortPlugin } from './plugins/selection-sort';
+import { heapSortPlugin } from './plugins/heap-sort';
+import { shellSortPlugin } from './plugins/shell-sort';
+import { countingSortPlugin } from './plugins/counting-sort';
+import { radixSortPlugin } from './plugins/radix-sort';
+import { binarySearchPlugin } from './plugins/binary-search';
+import { hashTableSearchPlugin } from './plugins/hash-table-search';
+import { linearSearchPlugin } from './plugins/linear-search';
+import { breadthFirstSearchPlugin } from './plugins/breadth-first-search';
+import { depthFirstSearchPlugin } from './plugins/depth-first-search';
+import { tricolorAlgorithmPlugin } from './plugins/tricolor-algorithm';
+import { dijkstraPlugin } from './plugins/dijkstra';
+import { aStarPlugin } from './plugins/a-star';
+import { bellmanFordPlugin } from './plugins/bellman-ford';
+import { kruskalPlugin } from './plugins/kruskal';
+import { primPlugin } from './plugins/prim';
+import { kahnPlugin } from './plugins/kahn';
+import { dfsTopologicalSortPlugin } from './plugins/dfs-topological-sort';
+import { tarjanPlugin } from './plugins/tarjan-scc';
+import { kosarajuPlugin } from './plugins/kosaraju-scc';
+import { bridgesPlugin } from './plugins/bridges';
+
+export const algorithmRegistry: AlgorithmPlugin[] = [
+  // Sorting
+  bubbleSortPlugin,
+  insertionSortPlugin,
+  mergeSortPlugin,
+  quickSortPlugin,
+  selectionSortPlugin,
+  heapSortPlugin,
+  shellSortPlugin,
+  countingSortPlugin,
+  radixSortPlugin,
+
+  // Searching
+  binarySearchPlugin,
+  hashTableSearchPlugin,
+  linearSearchPlugin,
+
+  // Graph Traversal
+  breadthFirstSearchPlugin,
+  depthFirstSearchPlugin,
+  tricolorAlgorithmPlugin,
+
+  // Path Finding
+  dijkstraPlugin,
+  aStarPlugin,
+  bellmanFordPlugin,
+
+  // Minimum Spanning Tree
+  kruskalPlugin,
+  primPlugin,
+
+  // Topological Sort
+  kahnPlugin,
+  dfsTopologicalSortPlugin,
+
+  // Connectivity
+  tarjanPlugin,
+  kosarajuPlugin,
+  bridgesPlugin,
+];
+
+/**
+ * Get Algorithm Plugin
+ *
+ * @param algorithmId - The algorithm to look up
+ * @returns The plugin, or undefined for an unknown id
+ */
+export function getAlgorithmPlugin(algorithmId: string): AlgorithmPlugin | undefined {
+  return algorithmRegistry.find(plugin => plugin.id === algorithmId);
+}
@@ -0,0 +1,127 @@
+/**
+ * Selection Sort Algorithm Implementation
+ *
+ * Generates visualization states for selection sort. Each pass scans the
+ * unsorted part for its minimum (shown as the key) and swaps it to the
+ * front of that part.
+ */
+
+import { createStats, snapshot, trackMemory } from './operation-stats';
+import { ArrayFrame, PseudocodeLine } from './trace';
+
+export const SELECTION_SORT_PSEUDOCODE: PseudocodeLine[] = [
+  { id: 'start', text: 'procedure selectionSort(a)' },
+  { id: 'outer', text: '  for i from 0 to n - 2' },
+  { id: 'min', text: '    min ← i' },
+  { id: 'compare', text: '    for j from i + 1 to n - 1: if a[j] < a[min]: min ← j' },
+  { id: 'swap', text: '    if min ≠ i: swap a[i] and a[min]' },
+  { id: 'placed', text: '    // a[i] is now in its final place' },
+];
+
+/**
+ * Selection Sort Algorithm
+ *
+ * @param arr - The input array to sort
+ * @returns Array of visualization states showing each step of the algorithm
+ */
+export function selectionSort(arr: number[]): ArrayFrame[] {
+  const states: ArrayFrame[] = [];
+  const n = arr.length;
+  const array = [...arr];
+  const stats = createStats();
+
+  // Indices before i are in their final position
+  const sortedUpTo = (i: number) => Array.from({ length: i }, (_, index) => index);
+
+  // Add initial state
+  states.push({
+    kind: 'array',
+    values: [...array],
+    comparing: [],
+    swapping: [],
+    sorted: [],
+    line: 'start',
+    narration: `Start with ${n} unsorted values`,
+    watch: { n },
+    stats: snapshot(stats)
+  });
+
+  for (let i = 0; i < n - 1; i++) {
+    let minIndex = i;
+    trackMemory(stats, 1); // Index of the minimum so far
+
+    for (let j = i + 1; j < n; j++) {
+      stats.comparisons++;
+      stats.accesses += 2;
+
+      // Compare the candidate with the smallest value found so far
+      states.push({
+        kind: 'array',
+        values: [...array],
+        comparing: [minIndex, j],
+        swapping: [],
+        sorted: sortedUpTo(i),
+        key: minIndex,
+        line: 'compare',
+        narration: `Compare a[${j}] = ${array[j]} with the smallest so far, a[${minIndex}] = ${array[minIndex]}` +
+          (array[j] < array[minIndex] ? `; ${array[j]} is the new minimum` : ''),
+        watch: { i, j, min: minIndex },
+        stats: snapshot(stats)
+      });
+
+      if (array[j] < array[minIndex]) {
+        minIndex = j;
+      }
+    }
+
+    if (minIndex !== i) {
+      // Show the swap of the minimum into place
+      states.push({
+        kind: 'array',
+        values: [...array],
+        comparing: [],
+        swapping: [i, minIndex],
+        sorted: sortedUpTo(i),
+        key: minIndex,
+        line: 'swap',
+        narration: `Swap the minimum ${array[minIndex]} into a[${i}]`,
+        watch: { i, min: minIndex },
+        stats: snapshot(stats)
+      });
+
+      [array[i], array[minIndex]] = [array[minIndex], array[i]];
+      stats.swaps++;
+      stats.writes += 2;
+      stats.accesses += 2;
+      trackMemory(stats, 2); // Minimum index and the swap temporary
+    }
+
+    // The minimum is now in its final position
+    states.push({
+      kind: 'array',
+      values: [...array],
+      comparing: [],
+      swapping: [],
+      sorted: sortedUpTo(i + 1),
+      line: 'placed',
+      narration: `${array[i]} is in its final place at a[${i}]`,
+      watch: { i },
+      stats: snapshot(stats)
+    });
+  }
+
+  // The last element is sorted once the rest are
+  states.push({
+    kind: 'array',
+    values: [...array],
+    comparing: [],
+    swapping: [],
+    sorted: sortedUpTo(n),
+    line: 'placed',
+    narration: 'The last value is the largest, so everything is sorted',
+    watch: { n },
+    stats: snapshot(stats)
+  });
+
+  return states;
+}
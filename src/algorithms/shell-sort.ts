@@ -0,0 +1,135 @@
+/**
+ * Shell Sort Algorithm Implementation
+ *
+ * Generates visualization states for shell sort using Shell's original gap
+ * sequence (n/2, n/4, ..., 1). Each state records the current gap and the
+ * indices of the gap subsequence being insertion-sorted.
+ */
+
+import { createStats, snapshot, trackMemory } from './operation-stats';
+import { ArrayFrame, PseudocodeLine } from './trace';
+
+export const SHELL_SORT_PSEUDOCODE: PseudocodeLine[] = [
+  { id: 'start', text: 'procedure shellSort(a)' },
+  { id: 'gap', text: '  for gap in n / 2, n / 4, ..., 1' },
+  { id: 'outer', text: '    for i from gap to n - 1: j ← i' },
+  { id: 'compare', text: '      while j ≥ gap and a[j - gap] > a[j]' },
+  { id: 'swap', text: '        swap a[j - gap] and a[j]; j ← j - gap' },
+];
+
+/**
+ * Shell Sort Algorithm
+ *
+ * @param arr - The input array to sort
+ * @returns Array of visualization states showing each step of the algorithm
+ */
+export function shellSort(arr: number[]): ArrayFrame[] {
+  const states: ArrayFrame[] = [];
+  const n = arr.length;
+  const array = [...arr];
+  const stats = createStats();
+
+  // Work out the whole gap sequence up front so it can be shown
+  const gaps: number[] = [];
+  for (let gap = Math.floor(n / 2); gap > 0; gap = Math.floor(gap / 2)) {
+    gaps.push(gap);
+  }
+
+  // Indices that are compared with each other for this gap
+  const subsequence = (gap: number, index: number) => {
+    const indices: number[] = [];
+    for (let k = index % gap; k < n; k += gap) {
+      indices.push(k);
+    }
+    return indices;
+  };
+
+  // Add initial state
+  states.push({
+    kind: 'array',
+    values: [...array],
+    comparing: [],
+    swapping: [],
+    sorted: [],
+    gaps,
+    line: 'start',
+    narration: gaps.length > 0
+      ? `Use the gaps ${gaps.join(', ')}, finishing with an ordinary insertion sort`
+      : 'Fewer than two values, so there is nothing to sort',
+    watch: { n, gaps },
+    stats: snapshot(stats)
+  });
+
+  for (const gap of gaps) {
+    for (let i = gap; i < n; i++) {
+      const partition = subsequence(gap, i);
+      let j = i;
+      trackMemory(stats, 1); // Index of the element being placed
+
+      while (j >= gap) {
+        stats.comparisons++;
+        stats.accesses += 2;
+
+        // Compare with the element one gap to the left
+        states.push({
+          kind: 'array',
+          values: [...array],
+          comparing: [j - gap, j],
+          swapping: [],
+          sorted: [],
+          key: j,
+          partition,
+          gap,
+          gaps,
+          line: 'compare',
+          narration: `Gap ${gap}: compare a[${j - gap}] = ${array[j - gap]} with a[${j}] = ${array[j]}; ` +
+            (array[j - gap] <= array[j] ? 'already in order' : 'out of order, so swap'),
+          watch: { gap, i, j },
+          stats: snapshot(stats)
+        });
+
+        if (array[j - gap] <= array[j]) break;
+
+        // Show the swap across the gap
+        states.push({
+          kind: 'array',
+          values: [...array],
+          comparing: [],
+          swapping: [j - gap, j],
+          sorted: [],
+          key: j,
+          partition,
+          gap,
+          gaps,
+          line: 'swap',
+          narration: `Swap ${array[j - gap]} and ${array[j]}, ${gap} apart`,
+          watch: { gap, i, j },
+          stats: snapshot(stats)
+        });
+
+        [array[j - gap], array[j]] = [array[j], array[j - gap]];
+        stats.swaps++;
+        stats.writes += 2;
+        stats.accesses += 2;
+        trackMemory(stats, 2); // Index and the swap temporary
+        j -= gap;
+      }
+    }
+  }
+
+  // Final state: all elements sorted
+  states.push({
+    kind: 'array',
+    values: [...array],
+    comparing: [],
+    swapping: [],
+    sorted: Array.from({ length: n }, (_, index) => index),
+    gaps,
+    line: 'start',
+    narration: 'The pass with gap 1 has finished, so everything is sorted',
+    watch: { n, gaps },
+    stats: snapshot(stats)
+  });
+
+  return states;
+}
@@ -0,0 +1,175 @@
+/**
+ * Tarjan's SCC Algorithm Implementation
+ *
+ * Generates visualization states for Tarjan's strongly connected components
+ * algorithm. A recursive DFS gives every node a discovery number d and a
+ * low-link number low, the smallest discovery number reachable from its
+ * subtree through nodes still on the stack; both are drawn under the node.
+ * A node whose low-link equals its discovery number is the root of a
+ * component, which is popped off the stack and coloured.
+ */
+
+import { createStats, snapshot, trackMemory } from './operation-stats';
+import { createCallStack, enterCall, exitCall, snapshotCalls } from './call-stack';
+import { GraphFrame, TraceNode, TraceEdge, PseudocodeLine, NodeStatus, EdgeStatus } from './trace';
+
+export const TARJAN_PSEUDOCODE: PseudocodeLine[] = [
+  { id: 'start', text: 'procedure tarjan(graph)' },
+  { id: 'loop', text: '  for each undiscovered node s: strongConnect(s)' },
+  { id: 'visit', text: 'procedure strongConnect(u): d[u] ← low[u] ← next number; push u' },
+  { id: 'edge', text: '  for each edge (u, v)' },
+  { id: 'recurse', text: '    if v is undiscovered: strongConnect(v); low[u] ← min(low[u], low[v])' },
+  { id: 'back', text: '    else if v is on the stack: low[u] ← min(low[u], d[v])' },
+  { id: 'root', text: '  if low[u] = d[u]: pop the stack down to u as one component' },
+  { id: 'done', text: 'return the components' },
+];
+
+/**
+ * Tarjan's SCC Algorithm
+ *
+ * On an undirected graph every edge is followed both ways, so the
+ * components found are the connected components.
+ *
+ * @param nodes - Array of graph nodes
+ * @param edges - Array of graph edges
+ * @param directed - Whether edges can only be followed from "from" to "to"
+ * @returns Array of visualization states showing each step of the algorithm
+ */
+export function tarjan(
+  nodes: TraceNode[],
+  edges: TraceEdge[],
+  directed: boolean = true
+): GraphFrame[] {
+  const states: GraphFrame[] = [];
+  const discovery = new Map<string, number>();
+  const low = new Map<string, number>();
+  const group = new Map<string, number>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  const explored = new Set<TraceEdge>();
+  const calls = createCallStack();
+  const stats = createStats();
+
+  const frame = (
+    fields: Partial<GraphFrame>,
+    current: string | null,
+    edge?: TraceEdge
+  ): GraphFrame => ({
+    kind: 'graph',
+    nodes: nodes.map(node => ({
+      ...node,
+      status: (node.id === current ? 'current' :
+              group.has(node.id) ? 'visited' :
+              stack.includes(node.id) ? 'open' : 'unvisited') as NodeStatus,
+      ...(discovery.has(node.id) ? { annotations: { d: discovery.get(node.id)!, low: low.get(node.id)! } } : {}),
+      ...(group.has(node.id) ? { group: group.get(node.id) } : {})
+    })),
+    edges: edges.map(e => ({
+      ...e,
+      status: (e === edge ? 'current' : explored.has(e) ? 'visited' : 'normal') as EdgeStatus
+    })),
+    stack: [...stack],
+    visited: Array.from(discovery.keys()),
+    components: components.map(component => [...component]),
+    current,
+    callStack: snapshotCalls(calls),
+    watch: {
+      ...(current !== null ? { u: current } : {}),
+      ...(edge ? { v: edge.from === current ? edge.to : edge.from } : {}),
+      d: Object.fromEntries(discovery),
+      low: Object.fromEntries(low),
+      stack: [...stack],
+      components: components.map(component => component.join(''))
+    },
+    stats: snapshot(stats),
+    ...fields
+  });
+
+  const strongConnect = (u: string) => {
+    enterCall(calls, { name: 'strongConnect', node: u });
+    discovery.set(u, discovery.size);
+    low.set(u, discovery.get(u)!);
+    stack.push(u);
+    stats.nodesVisited++;
+    trackMemory(stats, discovery.size * 2 + stack.length);
+
+    states.push(frame({
+      line: 'visit',
+      narration: `strongConnect(${u}): d[${u}] = low[${u}] = ${discovery.get(u)}; push ${u} onto the stack`
+    }, u));
+
+    for (const edge of edges) {
+      if (edge.from !== u && (directed || edge.to !== u)) continue;
+      const v = edge.from === u ? edge.to : edge.from;
+      explored.add(edge);
+      stats.edgesRelaxed++;
+      stats.comparisons++;
+
+      if (!discovery.has(v)) {
+        states.push(frame({
+          line: 'recurse',
+          narration: `${u} → ${v}: ${v} is undiscovered, so call strongConnect(${v})`
+        }, u, edge));
+        strongConnect(v);
+
+        const before = low.get(u)!;
+        low.set(u, Math.min(before, low.get(v)!));
+        stats.writes++;
+        states.push(frame({
+          line: 'recurse',
+          narration: `Back in ${u}: low[${u}] = min(${before}, low[${v}] = ${low.get(v)}) = ${low.get(u)}`
+        }, u, edge));
+      } else if (stack.includes(v)) {
+        const before = low.get(u)!;
+        low.set(u, Math.min(before, discovery.get(v)!));
+        stats.writes++;
+        states.push(frame({
+          line: 'back',
+          narration: `${u} → ${v}: ${v} is on the stack, so low[${u}] = min(${before}, d[${v}] = ${discovery.get(v)}) = ${low.get(u)}`
+        }, u, edge));
+      } else {
+        states.push(frame({
+          line: 'edge',
+          narration: `${u} → ${v}: ${v} already belongs to a finished component, so the edge is ignored`
+        }, u, edge));
+      }
+    }
+
+    stats.comparisons++;
+    if (low.get(u) === discovery.get(u)) {
+      const component = stack.splice(stack.indexOf(u));
+      component.forEach(id => group.set(id, components.length));
+      components.push(component);
+      stats.writes += component.length;
+      states.push(frame({
+        line: 'root',
+        narration: `low[${u}] = d[${u}] = ${discovery.get(u)}, so ${u} is a root: pop {${component.join(', ')}} as component ${components.length}`
+      }, u));
+    }
+    exitCall(calls);
+  };
+
+  states.push(frame({
+    line: 'start',
+    narration: `Every node starts undiscovered${directed ? '' : ' (the graph is undirected, so every edge is followed both ways and the components found are the connected components)'}`
+  }, null));
+
+  for (const node of nodes) {
+    stats.comparisons++;
+    if (discovery.has(node.id)) continue;
+
+    states.push(frame({
+      line: 'loop',
+      narration: `${node.id} is undiscovered: start a search from it`
+    }, null));
+    strongConnect(node.id);
+  }
+
+  states.push(frame({
+    line: 'done',
+    narration: `${components.length} strongly connected ${components.length === 1 ? 'component' : 'components'}: ` +
+      components.map(component => `{${component.join(', ')}}`).join(', ')
+  }, null));
+
+  return states;
+}
@@ -0,0 +1,181 @@
+/**
+ * DFS Topological Sort Implementation
+ *
+ * Generates visualization states for the depth-first topological sort. A
+ * recursive DFS colours nodes white, gray and black; each node is put at the
+ * front of the order when it finishes, so the reversed finishing order is a
+ * topological order. Reaching a gray node means a back edge: the graph has a
+ * cycle, which is highlighted, and no order exists.
+ */
+
+import { createStats, snapshot, trackMemory } from './operation-stats';
+import { createCallStack, enterCall, exitCall, snapshotCalls } from './call-stack';
+import { GraphFrame, TraceNode, TraceEdge, PseudocodeLine, NodeStatus, EdgeStatus } from './trace';
+
+export const TOPOLOGICAL_DFS_PSEUDOCODE: PseudocodeLine[] = [
+  { id: 'start', text: 'procedure topologicalSort(graph)' },
+  { id: 'loop', text: '  for each white node s: visit(s)' },
+  { id: 'visit', text: 'procedure visit(u): colour u gray' },
+  { id: 'edge', text: '  for each edge (u, v)' },
+  { id: 'back', text: '    if v is gray: back edge - report the cycle' },
+  { id: 'recurse', text: '    if v is white: visit(v)' },
+  { id: 'finish', text: '  colour u black; put u at the front of the order' },
+  { id: 'done', text: 'return order' },
+];
+
+type Colour = 'white' | 'gray' | 'black';
+
+/**
+ * DFS Topological Sort
+ *
+ * Topological orders only exist for directed graphs; edges of an undirected
+ * graph are taken to point from "from" to "to".
+ *
+ * @param nodes - Array of graph nodes
+ * @param edges - Array of graph edges
+ * @param directed - Whether the editor graph is directed (only mentioned in the narration)
+ * @returns Array of visualization states showing each step of the algorithm
+ */
+export function dfsTopologicalSort(
+  nodes: TraceNode[],
+  edges: TraceEdge[],
+  directed: boolean = true
+): GraphFrame[] {
+  const states: GraphFrame[] = [];
+  const colour = new Map<string, Colour>(nodes.map(node => [node.id, 'white']));
+  const finished: string[] = [];
+  const path: string[] = [];           // Gray nodes, outermost call first
+  const calls = createCallStack();
+  const stats = createStats();
+
+  const withColour = (wanted: Colour) => nodes.filter(node => colour.get(node.id) === wanted).map(node => node.id);
+
+  const frame = (
+    fields: Partial<GraphFrame>,
+    current: string | null,
+    edge?: TraceEdge
+  ): GraphFrame => ({
+    kind: 'graph',
+    nodes: nodes.map(node => ({
+      ...node,
+      status: colour.get(node.id) as NodeStatus,
+      color: colour.get(node.id)
+    })),
+    edges: edges.map(e => ({
+      ...e,
+      status: (e === edge ? 'current' : colour.get(e.from) === 'black' ? 'visited' : 'normal') as EdgeStatus
+    })),
+    whiteNodes: withColour('white'),
+    grayNodes: withColour('gray'),
+    blackNodes: withColour('black'),
+    order: [...finished].reverse(),
+    current,
+    callStack: snapshotCalls(calls),
+    watch: {
+      ...(current !== null ? { u: current } : {}),
+      ...(edge ? { v: edge.to } : {}),
+      finished: [...finished],
+      order: [...finished].reverse(),
+      colour: Object.fromEntries(colour)
+    },
+    stats: snapshot(stats),
+    ...fields
+  });
+
+  // Returns the cycle closed by a back edge, abandoning the search, or null
+  const visit = (u: string): string[] | null => {
+    enterCall(calls, { name: 'visit', node: u });
+    colour.set(u, 'gray');
+    path.push(u);
+    stats.nodesVisited++;
+    trackMemory(stats, path.length + finished.length);
+
+    states.push(frame({
+      line: 'visit',
+      narration: `visit(${u}): ${u} turns gray`
+    }, u));
+
+    for (const edge of edges) {
+      if (edge.from !== u) continue;
+      const v = edge.to;
+      stats.edgesRelaxed++;
+      stats.comparisons++;
+
+      if (colour.get(v) === 'gray') {
+        const cycle = path.slice(path.indexOf(v));
+        states.push(frame({
+          line: 'back',
+          narration: `${u} → ${v} leads back to gray ${v}: a back edge, so ${[...cycle, v].join(' → ')} is a cycle`
+        }, u, edge));
+        return cycle;
+      }
+
+      if (colour.get(v) === 'black') {
+        states.push(frame({
+          line: 'edge',
+          narration: `${u} → ${v}: ${v} is already finished and placed in the order`
+        }, u, edge));
+        continue;
+      }
+
+      states.push(frame({
+        line: 'recurse',
+        narration: `${u} → ${v}: ${v} is white, so visit it`
+      }, u, edge));
+      const cycle = visit(v);
+      if (cycle) return cycle;
+    }
+
+    colour.set(u, 'black');
+    path.pop();
+    finished.push(u);
+    states.push(frame({
+      line: 'finish',
+      narration: `${u} is finished: it goes to the front of the order, ${[...finished].reverse().join(', ')}`
+    }, u));
+    exitCall(calls);
+    return null;
+  };
+
+  states.push(frame({
+    line: 'start',
+    narration: `Every node starts white${directed ? '' : ' (the graph is undirected, so each edge is taken to point from its first node to its second)'}`
+  }, null));
+
+  let cycle: string[] | null = null;
+  for (const node of nodes) {
+    stats.comparisons++;
+    if (colour.get(node.id) !== 'white') continue;
+
+    states.push(frame({
+      line: 'loop',
+      narration: `${node.id} is still white: start a search from it`
+    }, null));
+    cycle = visit(node.id);
+    if (cycle) break;
+  }
+
+  if (cycle === null) {
+    states.push(frame({
+      line: 'done',
+      narration: `Every node is finished: topological order ${[...finished].reverse().join(', ')}`
+    }, null));
+    return states;
+  }
+
+  const cycleArcs = cycle.map((id, i) => [id, cycle[(i + 1) % cycle.length]]);
+  const last = states[states.length - 1];
+  states.push({
+    ...last,
+    nodes: last.nodes.map(node => ({ ...node, status: cycle.includes(node.id) ? 'cycle' : node.status })),
+    edges: last.edges.map(edge => ({
+      ...edge,
+      status: cycleArcs.some(([a, b]) => edge.from === a && edge.to === b) ? 'cycle' : edge.status
+    })),
+    line: 'done',
+    narration: `The graph has the cycle ${[...cycle, cycle[0]].join(' → ')}, so no topological order exists`,
+    watch: { ...last.watch, cycle }
+  });
+
+  return states;
+}
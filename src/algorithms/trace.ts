@@ -0,0 +1,326 @@
+/**
+ * Trace Model
+ *
+ * The frame types produced by every trace generator and consumed by the
+ * Visualiser, the renderers and the exporters. A trace is an array of
+ * frames of one kind; the `kind` field tells the four shapes apart:
+ * - 'array' - bar charts for sorting and searching
+ * - 'graph' - nodes and edges for traversal and pathfinding
+ * - 'grid'  - delta frames for grid pathfinding (see grid-pathfinding.ts)
+ * - 'hash'  - buckets and chains, or probe arrays, for hash table operations
+ *
+ * Fields beyond the common ones are optional and only set by the
+ * algorithms that need them. Frames from the built-in generators also name
+ * the pseudocode line that produced them, narrate the step and list the
+ * variables in scope; traces from user code have none of these.
+ */
+
+import { OperationStats } from './operation-stats';
+import { CallFrame } from './call-stack';
+import type { GridConfig } from '../utils/gridEditing';
+import type { CollisionStrategy, HashOperationType } from '../utils/hashEditing';
+
+/**
+ * Pseudocode Line Interface
+ *
+ * One line of an algorithm's pseudocode. Indentation is part of the text;
+ * frames refer to lines by id.
+ */
+export interface PseudocodeLine {
+  id: string;
+  text: string;
+}
+
+/**
+ * Watch Value Type
+ *
+ * A variable shown in the watch panel: a scalar such as a loop index, a
+ * list such as a queue or stack, or a map keyed by node id such as the
+ * distances of Dijkstra's algorithm. Numbers may be Infinity.
+ */
+export type WatchValue =
+  | number | string | boolean | null
+  | (number | string)[]
+  | Record<string, number | string | null>;
+
+export type WatchVariables = Record<string, WatchValue>;
+
+/**
+ * Node Status Type
+ *
+ * Union of the statuses used by all graph algorithms.
+ */
+export type NodeStatus =
+  | 'unvisited' | 'visited' | 'current' | 'path' | 'start' | 'end'
+  | 'open' | 'closed'              // A*
+  | 'white' | 'gray' | 'black'     // Tricolor
+  | 'cycle'                        // Bellman-Ford: on a negative cycle
+  | 'articulation';                // Bridges: removing the node disconnects the graph
+
+export type EdgeStatus =
+  | 'normal' | 'visited' | 'path' | 'current'
+  | 'cycle'                        // Bellman-Ford: on a negative cycle
+  | 'tree' | 'rejected'            // Kruskal / Prim: accepted, or rejected for closing a cycle
+  | 'bridge';                      // Bridges: removing the edge disconnects the graph
+
+/**
+ * Trace Node Interface
+ *
+ * A graph vertex as drawn in one frame.
+ */
+export interface TraceNode {
+  id: string;                // Unique node identifier
+  x: number;                 // X coordinate for visualization
+  y: number;                 // Y coordinate for visualization
+  status: NodeStatus;        // Visual status
+  distance?: number;         // Dijkstra: tentative distance from the start
+  g?: number;                // A*: cost from start to this node
+  h?: number;                // A*: heuristic cost from this node to goal
+  f?: number;                // A*: total cost (g + h)
+  key?: number;              // Prim: weight of the cheapest edge joining it to the tree
+  inDegree?: number;         // Kahn: incoming edges from nodes not yet output
+  annotations?: Record<string, number>;   // Numbers drawn under the node, e.g. { d: 3, low: 1 } for Tarjan
+  group?: number;            // SCCs: index of the node's component, drawn in that component's colour
+  parent?: string;           // Parent node for path reconstruction
+  color?: 'white' | 'gray' | 'black';   // Tricolor marking
+}
+
+/**
+ * Trace Edge Interface
+ */
+export interface TraceEdge {
+  from: string;              // Source node ID
+  to: string;                // Target node ID
+  weight?: number;           // Edge weight (for weighted graphs)
+  status: EdgeStatus;        // Visual status
+}
+
+/**
+ * Frontier Entry Interface
+ *
+ * One entry of the priority queue of Dijkstra's algorithm, A* or Prim's
+ * algorithm, and what the current step did to it.
+ */
+export interface FrontierEntry {
+  node: string;              // Node ID
+  priority: number;          // Dijkstra: tentative distance; A*: f score; Prim: key
+  change?: 'popped' | 'pushed' | 'decreased';
+  previous?: number;         // Priority before a decrease
+}
+
+/**
+ * Union-Find Interface
+ *
+ * Kruskal's disjoint-set forest. Roots point to themselves; rank bounds the
+ * height of a root's tree and decides which root becomes the parent in a union.
+ */
+export interface UnionFindState {
+  parent: Record<string, string>;   // Parent pointer of every node
+  rank: Record<string, number>;     // Rank of every node (only meaningful for roots)
+  changed?: string[];               // Nodes whose parent or rank changed in this step
+}
+
+/**
+ * Auxiliary Array Interface
+ *
+ * A helper array drawn beneath the main bars, such as the merge buffer of
+ * merge sort, the count array of counting sort or the output buffer of
+ * radix sort.
+ */
+export interface AuxiliaryArray {
+  name: string;                 // Label shown next to the row
+  values: (number | null)[];    // Slot contents; null is an empty slot
+  labels?: string[];            // Caption under each slot (e.g. the value or digit it counts)
+  highlight: number[];          // Slots read or written in this step
+}
+
+/**
+ * Array Slot Interface
+ *
+ * A position in the main array (row 'main') or in one of the frame's
+ * auxiliary arrays (row is the index into `auxiliary`).
+ */
+export interface ArraySlot {
+  row: 'main' | number;
+  index: number;
+}
+
+/**
+ * Array Move Interface
+ *
+ * A value copied from one slot to another in this step, drawn as an arrow.
+ */
+export interface ArrayMove {
+  from: ArraySlot;
+  to: ArraySlot;
+}
+
+/**
+ * Array Frame Interface
+ *
+ * One step of a sorting or searching algorithm.
+ */
+export interface ArrayFrame {
+  kind: 'array';
+  values: number[];          // Current array values
+  comparing: number[];       // Indices of elements currently being compared
+  swapping: number[];        // Indices of elements currently being swapped or written
+  sorted: number[];          // Indices of elements known to be in their final position
+  stats: OperationStats;     // Operations performed so far
+  line?: string;             // Id of the pseudocode line this step executes
+  narration?: string;        // What happens in this step, in words
+  watch?: WatchVariables;    // The generator's named variables at this step
+  key?: number;              // Insertion / selection / counting / radix sort: element being placed or current minimum
+  pivot?: number[];          // Quick sort: pivot index
+  partition?: number[];      // Quick sort: current partition; shell sort: current gap subsequence
+  left?: number[];           // Merge / quick sort: indices of the left subarray
+  right?: number[];          // Merge / quick sort: indices of the right subarray
+  merging?: boolean;         // Merge sort: a merge is in progress
+  searching?: number[];      // Searching: indices being inspected / in range
+  found?: number[];          // Searching: index of the found element
+  target?: number;           // Searching: value being searched for
+  low?: number;              // Binary search: left boundary of the range
+  high?: number;             // Binary search: right boundary of the range
+  mid?: number;              // Binary search: middle index of the range
+  heapSize?: number;         // Heap sort: values[0..heapSize) form the max-heap
+  gap?: number;              // Shell sort: current gap
+  gaps?: number[];           // Shell sort: the whole gap sequence
+  digit?: number;            // Radix sort: place value being sorted on (1, 10, 100, ...)
+  auxiliary?: AuxiliaryArray[];   // Merge / counting / radix sort: helper arrays drawn beneath the bars
+  moves?: ArrayMove[];       // Values moving between the main array and auxiliary arrays
+  callStack?: CallFrame[];   // Merge / quick sort: active recursive calls, outermost first
+}
+
+/**
+ * Graph Frame Interface
+ *
+ * One step of a graph algorithm. The frontier field used depends on the
+ * algorithm (queue for BFS, stack for DFS and tricolor, openSet for A*).
+ */
+export interface GraphFrame {
+  kind: 'graph';
+  nodes: TraceNode[];        // Current state of all nodes
+  edges: TraceEdge[];        // Current state of all edges
+  current: string | null;    // Currently processing node ID
+  stats: OperationStats;     // Operations performed so far
+  line?: string;             // Id of the pseudocode line this step executes
+  narration?: string;        // What happens in this step, in words
+  watch?: WatchVariables;    // The generator's named variables at this step
+  visited?: string[];        // Visited node IDs
+  queue?: string[];          // BFS queue
+  stack?: string[];          // DFS / tricolor stack
+  distances?: Record<string, number>;   // Dijkstra: tentative distances
+  frontier?: FrontierEntry[];   // Dijkstra / A* / Prim: the priority queue, next to be popped first
+  openSet?: string[];        // A*: nodes to be evaluated
+  closedSet?: string[];      // A*: already evaluated nodes
+  whiteNodes?: string[];     // Tricolor: unvisited nodes
+  grayNodes?: string[];      // Tricolor: nodes being processed
+  blackNodes?: string[];     // Tricolor: completed nodes
+  path?: string[];           // Path found from start to end
+  negativeCycle?: string[];  // Bellman-Ford: the negative cycle found, in order around it
+  unionFind?: UnionFindState;   // Kruskal: the disjoint-set forest
+  treeWeight?: number;       // Kruskal / Prim: total weight of the tree edges so far
+  order?: string[];          // Topological sorts: the order built so far
+  components?: string[][];   // SCCs: the components finalized so far; component i has group i
+  callStack?: CallFrame[];   // DFS: the recursive calls equivalent to the current search path
+}
+
+/**
+ * Grid Frame Interface
+ *
+ * One step of a grid search, stored as a delta on the previous frame.
+ */
+export interface GridFrame {
+  kind: 'grid';
+  grid: GridConfig;          // The searched grid - the same object in every frame, never copied
+  changes: number[];         // Flat [cellIndex, cellStatus, ...] pairs applied on top of the previous frame
+  current: number | null;    // Cell being expanded
+  frontierSize: number;      // Cells waiting in the queue / stack / open set
+  visitedCount: number;      // Cells expanded so far
+  pathCost: number | null;   // Total cost of the final path, set on the last frame when one was found
+  pathLength: number | null; // Number of cells on the final path
+  stats: OperationStats;     // Operations performed so far
+  line?: string;             // Id of the pseudocode line this step executes
+  narration?: string;        // What happens in this step, in words
+  watch?: WatchVariables;    // The generator's named variables at this step
+}
+
+/**
+ * Hash Node Interface
+ *
+ * An entry in a bucket's chain.
+ */
+export interface HashNode {
+  key: string;
+  value: number;
+  next?: HashNode;
+}
+
+/**
+ * Hash Slot Interface
+ *
+ * A slot of an open-addressing table. A deleted entry leaves a tombstone
+ * that keeps its key, so probe sequences running through it stay intact.
+ */
+export interface HashSlot {
+  key: string;
+  value: number;
+  deleted?: boolean;         // Tombstone
+}
+
+/**
+ * Hash Resize Interface
+ *
+ * The old table while a resize moves its entries into the new one.
+ */
+export interface HashResize {
+  buckets: (HashNode | null)[];   // Separate chaining: the old chains
+  slots?: (HashSlot | null)[];    // Open addressing: the old slots
+  current: number;                // Old bucket or slot whose entry is being moved (-1 if none)
+}
+
+/**
+ * Hash Frame Interface
+ *
+ * One step of a hash table operation. Separate chaining fills `buckets`;
+ * open addressing leaves it empty and fills `slots` instead, and indices
+ * such as currentBucket then refer to slots.
+ */
+export interface HashFrame {
+  kind: 'hash';
+  buckets: (HashNode | null)[];   // Head of each bucket's chain
+  slots?: (HashSlot | null)[];    // Open addressing: the probe array
+  strategy?: CollisionStrategy;   // How collisions are resolved (separate chaining if absent)
+  operation?: HashOperationType;  // Operation this step belongs to
+  searchKey: string;         // Key of the current operation
+  currentBucket: number;     // Bucket or slot being inspected (-1 before hashing)
+  currentNode: number;       // Position in the chain being inspected (-1 if none)
+  found: boolean;            // Whether the key has been found
+  searchPath: number[];      // Buckets or slots probed so far, in order
+  hashValue: number;         // Home bucket of the key (-1 before hashing)
+  count?: number;            // Entries stored
+  loadFactor?: number;       // Entries (and tombstones) per bucket or slot
+  resize?: HashResize;       // Resize in progress
+  stats: OperationStats;     // Operations performed so far
+  line?: string;             // Id of the pseudocode line this step executes
+  narration?: string;        // What happens in this step, in words
+  watch?: WatchVariables;    // The generator's named variables at this step
+}
+
+export type TraceFrame = ArrayFrame | GraphFrame | GridFrame | HashFrame;
+export type TraceKind = TraceFrame['kind'];
+
+/**
+ * Trace Type
+ *
+ * Every frame of a trace has the same kind (checked by validateTrace); an
+ * empty trace means there is nothing to show.
+ */
+export type Trace = TraceFrame[];
+
+/**
+ * Kind of a trace, or null when it is empty
+ */
+export function traceKind(trace: Trace): TraceKind | null {
+  return trace.length > 0 ? trace[0].kind : null;
+}
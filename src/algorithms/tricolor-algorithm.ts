@@ -5,50 +5,24 @@
  * that generates visualization states for the graph visualizer. This algorithm is commonly
  * used in garbage collection and graph traversal, where nodes are marked with three colors:
  * white (unvisited), gray (being processed), and black (completed).
+ * An edge to a gray node leads back to an ancestor on the stack - a back
+ * edge - so it closes a cycle, which is highlighted.
  */
 
-/**
- * Node Interface
- * 
- * Represents a vertex in the graph with position, color, and status information
- * for visualization purposes.
- */
-export interface Node {
-  id: string;                                    // Unique node identifier
-  x: number;                                     // X coordinate for visualization
-  y: number;                                     // Y coordinate for visualization
-  status: 'unvisited' | 'visited' | 'current' | 'path' | 'start' | 'end' | 'white' | 'gray' | 'black';  // Visual status
-  color: 'white' | 'gray' | 'black';            // Tricolor marking
-}
-
-/**
- * Edge Interface
- * 
- * Represents a connection between two nodes with status for visualization.
- */
-export interface Edge {
-  from: string;                                  // Source node ID
-  to: string;                                    // Target node ID
-  weight?: number;                               // Edge weight (optional)
-  status: 'normal' | 'visited' | 'path' | 'current';  // Visual status
-}
+import { createStats, snapshot, trackMemory } from './operation-stats';
+import { GraphFrame, TraceNode, TraceEdge, PseudocodeLine, EdgeStatus } from './trace';
 
-/**
- * Graph State Interface
- * 
- * Defines the structure for each visualization state in the tricolor algorithm animation.
- * Each state represents a snapshot of the graph traversal at a specific point.
- */
-export interface GraphState {
-  nodes: Node[];         // Current state of all nodes
-  edges: Edge[];         // Current state of all edges
-  whiteNodes: string[];  // Nodes that are white (unvisited)
-  grayNodes: string[];   // Nodes that are gray (being processed)
-  blackNodes: string[];  // Nodes that are black (completed)
-  current: string | null; // Currently processing node ID
-  stack: string[];       // Stack for DFS-like processing
-  path?: string[];       // Path found from start to end (optional)
-}
+export const TRICOLOR_PSEUDOCODE: PseudocodeLine[] = [
+  { id: 'start', text: 'procedure tricolor(graph, start)' },
+  { id: 'init', text: '  colour every node white; stack ← [start]' },
+  { id: 'loop', text: '  while stack is not empty' },
+  { id: 'peek', text: '    u ← top(stack)' },
+  { id: 'gray', text: '    if u is white: colour u gray' },
+  { id: 'back', text: '    for each new edge (u, v) to a gray v other than parent[u]: back edge, report the cycle' },
+  { id: 'push', text: '    if u has a white neighbour v: parent[v] ← u; push(stack, v)' },
+  { id: 'black', text: '    else: colour u black; pop(stack)' },
+  { id: 'path', text: '      if u = goal: return path via parents' },
+];
 
 /**
  * Tricolor Algorithm
@@ -61,25 +35,37 @@ export interface GraphState {
  * 1. Initially all nodes are white (unvisited)
  * 2. When a node is discovered, it becomes gray (being processed)
  * 3. When a node is fully processed, it becomes black (completed)
+ * 4. An edge from the current node to a gray node is a back edge: the gray
+ *    nodes form the path on the stack, so the edge closes a cycle
  * 
  * @param nodes - Array of graph nodes
  * @param edges - Array of graph edges
  * @param startNode - Starting node for the traversal
  * @param endNode - Optional target node for pathfinding
+ * @param directed - Whether edges can only be followed from "from" to "to"
  * @returns Array of visualization states showing each step of the algorithm
  */
 export function tricolorAlgorithm(
-  nodes: Node[],
-  edges: Edge[],
+  nodes: TraceNode[],
+  edges: TraceEdge[],
   startNode: string,
-  endNode?: string
-): GraphState[] {
-  const states: GraphState[] = [];
+  endNode?: string,
+  directed: boolean = false
+): GraphFrame[] {
+  const states: GraphFrame[] = [];
   const whiteNodes: Set<string> = new Set(nodes.map(n => n.id));
   const grayNodes: Set<string> = new Set();
   const blackNodes: Set<string> = new Set();
   const stack: string[] = [startNode];
   const parent: Map<string, string> = new Map();
+  const backEdges: Set<TraceEdge> = new Set();
+  const stats = createStats();
+
+  // Colour of every node, for the watch panel
+  const colours = () => Object.fromEntries(nodes.map(node => [
+    node.id, grayNodes.has(node.id) ? 'gray' : blackNodes.has(node.id) ? 'black' : 'white'
+  ]));
+  trackMemory(stats, stack.length);
 
   // Initialize first state - shows all nodes as white
   const initialNodes = nodes.map(node => ({
@@ -90,13 +76,18 @@ export function tricolorAlgorithm(
   }));
 
   states.push({
+    kind: 'graph',
     nodes: initialNodes,
     edges: edges.map(edge => ({ ...edge, status: 'normal' })),
     whiteNodes: Array.from(whiteNodes),
     grayNodes: [],
     blackNodes: [],
     current: null,
-    stack: [...stack]
+    stack: [...stack],
+    line: 'start',
+    narration: `Every node starts white; push ${startNode}`,
+    watch: { stack: [...stack], colour: colours() },
+    stats: snapshot(stats)
   });
 
   // Main tricolor algorithm loop
@@ -113,6 +104,7 @@ export function tricolorAlgorithm(
     if (whiteNodes.has(current)) {
       whiteNodes.delete(current);
       grayNodes.add(current);
+      stats.nodesVisited++;
 
       // State: Show node becoming gray
       const updatedNodes = states[states.length - 1].nodes.map(node => ({
@@ -127,19 +119,60 @@ export function tricolorAlgorithm(
       }));
 
       states.push({
+        kind: 'graph',
         nodes: updatedNodes,
         edges: states[states.length - 1].edges,
         whiteNodes: Array.from(whiteNodes),
         grayNodes: Array.from(grayNodes),
         blackNodes: Array.from(blackNodes),
         current,
-        stack: [...stack]
+        stack: [...stack],
+        line: 'gray',
+        narration: `${current} is discovered and turns gray`,
+        watch: { u: current, stack: [...stack], colour: colours() },
+        stats: snapshot(stats)
       });
     }
 
     // Find unvisited neighbors
-    const neighbors = edges
-      .filter(edge => edge.from === current || edge.to === current)
+    const incident = edges.filter(edge => edge.from === current || (!directed && edge.to === current));
+    stats.edgesRelaxed += incident.length;
+
+    // The gray nodes are exactly the stack, so an edge to one of them closes
+    // a cycle; in an undirected graph the edge back to the parent does not count
+    for (const edge of incident) {
+      const neighbor = edge.from === current ? edge.to : edge.from;
+      stats.comparisons++;
+      if (!grayNodes.has(neighbor) || backEdges.has(edge)) continue;
+      if (!directed && neighbor === parent.get(current)) continue;
+
+      backEdges.add(edge);
+      // The stack from the neighbour up to the current node, closed by the back edge
+      const cycle = stack.slice(stack.indexOf(neighbor));
+      const cycleArcs = cycle.map((id, i) => [id, cycle[(i + 1) % cycle.length]]);
+      const cycleEdges = states[states.length - 1].edges.map(e => ({
+        ...e,
+        status: (cycleArcs.some(([a, b]) => (e.from === a && e.to === b) || (!directed && e.from === b && e.to === a))
+                ? 'cycle' : e.status) as EdgeStatus
+      }));
+
+      states.push({
+        kind: 'graph',
+        nodes: states[states.length - 1].nodes,
+        edges: cycleEdges,
+        whiteNodes: Array.from(whiteNodes),
+        grayNodes: Array.from(grayNodes),
+        blackNodes: Array.from(blackNodes),
+        current,
+        stack: [...stack],
+        line: 'back',
+        narration: `${current} → ${neighbor} leads back to gray ${neighbor}: a back edge, so ${[...cycle, neighbor].join(' → ')} is a cycle`,
+        watch: { u: current, v: neighbor, stack: [...stack], colour: colours(), 'back edges': backEdges.size },
+        stats: snapshot(stats)
+      });
+    }
+
+    const neighbors = incident
       .map(edge => edge.from === current ? edge.to : edge.from)
       .filter(neighbor => whiteNodes.has(neighbor));
 
@@ -148,6 +181,7 @@ export function tricolorAlgorithm(
       const nextNeighbor = neighbors[0];
       stack.push(nextNeighbor);
       parent.set(nextNeighbor, current);
+      trackMemory(stats, stack.length);
 
       // State: Show edge being explored
       const updatedEdges = states[states.length - 1].edges.map(edge => ({
@@ -157,13 +191,18 @@ export function tricolorAlgorithm(
       }));
 
       states.push({
+        kind: 'graph',
         nodes: states[states.length - 1].nodes,
         edges: updatedEdges,
         whiteNodes: Array.from(whiteNodes),
         grayNodes: Array.from(grayNodes),
         blackNodes: Array.from(blackNodes),
         current,
-        stack: [...stack]
+        stack: [...stack],
+        line: 'push',
+        narration: `${nextNeighbor} is still white, so push it with parent ${current}`,
+        watch: { u: current, v: nextNeighbor, stack: [...stack], colour: colours(), parent: Object.fromEntries(parent) },
+        stats: snapshot(stats)
       });
     } else {
       // No unvisited neighbors, mark current node as black
@@ -184,13 +223,18 @@ export function tricolorAlgorithm(
       }));
 
       states.push({
+        kind: 'graph',
         nodes: updatedNodes,
         edges: states[states.length - 1].edges,
         whiteNodes: Array.from(whiteNodes),
         grayNodes: Array.from(grayNodes),
         blackNodes: Array.from(blackNodes),
         current: null,
-        stack: [...stack]
+        stack: [...stack],
+        line: 'black',
+        narration: `${current} has no white neighbours left, so it turns black and is popped`,
+        watch: { u: current, stack: [...stack], colour: colours() },
+        stats: snapshot(stats)
       });
 
       // If we found the end node, reconstruct and highlight the path
@@ -209,6 +253,7 @@ export function tricolorAlgorithm(
         }));
 
         states.push({
+          kind: 'graph',
           nodes: finalNodes,
           edges: finalEdges,
           whiteNodes: Array.from(whiteNodes),
@@ -216,7 +261,11 @@ export function tricolorAlgorithm(
           blackNodes: Array.from(blackNodes),
           current: null,
           stack: [...stack],
-          path
+          path,
+          line: 'path',
+          narration: `Finished ${endNode}; following parents back gives ${path.join(' → ')}`,
+          watch: { u: current, stack: [...stack], colour: colours(), path },
+          stats: snapshot(stats)
         });
         
         break; // Exit early since we found the target
@@ -0,0 +1,60 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { auth } from "@clerk/nextjs/server";
+import { getExportCapacityError, startExportJob } from "@/utils/serverExport";
+import { MAX_EXPORT_BODY_LENGTH } from "@/utils/videoExport";
+import { GET, POST } from "./route";
+
+vi.mock("@clerk/nextjs/server", () => ({ auth: vi.fn() }));
+vi.mock("@/utils/serverExport", () => ({
+  isFFmpegAvailable: vi.fn(async () => true),
+  getExportCapacityError: vi.fn(() => null),
+  startExportJob: vi.fn(() => ({ id: "job", status: "queued" })),
+  exportNow: vi.fn(),
+  getExportJob: vi.fn(() => null),
+}));
+
+const signIn = (userId: string | null) => vi.mocked(auth).mockResolvedValue({ userId } as Awaited<ReturnType<typeof auth>>);
+
+const post = (body: string) => POST(new Request("http://localhost/api/export-gif", { method: "POST", body }));
+
+describe("export API route", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    signIn("alice");
+  });
+
+  it("needs a signed-in user", async () => {
+    signIn(null);
+
+    expect((await post("{}")).status).toBe(401);
+    expect((await GET(new Request("http://localhost/api/export-gif?job=job"))).status).toBe(401);
+  });
+
+  it("refuses bodies over the size limit before parsing them", async () => {
+    const response = await post(" ".repeat(MAX_EXPORT_BODY_LENGTH + 1));
+
+    expect(response.status).toBe(413);
+    expect(await response.json()).toEqual({ error: "The export request is too large" });
+  });
+
+  it("answers 400 for invalid requests", async () => {
+    expect((await post("not json")).status).toBe(400);
+    expect((await post(JSON.stringify({ algorithmId: "a-star", input: { gridMode: true } }))).status).toBe(400);
+  });
+
+  it("answers 429 while the user or the server is busy", async () => {
+    vi.mocked(getExportCapacityError).mockReturnValueOnce("The server is busy with other exports; try again in a few minutes");
+    const response = await post(JSON.stringify({ algorithmId: "bubble-sort", async: true }));
+
+    expect(response.status).toBe(429);
+    expect(startExportJob).not.toHaveBeenCalled();
+  });
+
+  it("starts a job for the signed-in user", async () => {
+    const response = await post(JSON.stringify({ algorithmId: "bubble-sort", async: true }));
+
+    expect(response.status).toBe(202);
+    expect(await response.json()).toEqual({ jobId: "job", status: "queued" });
+    expect(vi.mocked(startExportJob).mock.calls[0][1]).toBe("alice");
+  });
+});
@@ -1,21 +1,102 @@
 import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { videoFormats, VideoFormat, MAX_EXPORT_BODY_LENGTH, parseExportRequest } from "@/utils/videoExport";
+import { exportNow, getExportCapacityError, getExportJob, isFFmpegAvailable, startExportJob } from "@/utils/serverExport";
 
 /**
- * GIF Export API Route
- * 
- * This route is deprecated in favor of client-side GIF generation using ffmpeg.wasm.
- * The new implementation provides better performance and quality while reducing server load.
- * 
- * The GIF export functionality has been moved to the client-side using FFmpeg.wasm
- * in the GifExporter component for better user experience and performance.
+ * Export API Route
+ *
+ * Renders an animation as GIF, MP4 or WebM on the server (see serverExport.ts).
+ * POST a trace or an algorithm id with its input; the file is returned when
+ * it is ready, or with "async": true a job id is returned at once. Poll the
+ * job with GET ?job=<id> until it returns the file.
+ *
+ * Exports need a signed-in user, who can only poll their own jobs. Requests
+ * are refused with 429 while the user or the server has too many exports
+ * waiting.
+ *
+ * The GifExporter encodes GIFs in the browser with ffmpeg.wasm and uses
+ * this route for videos, or when ffmpeg.wasm cannot load.
  */
 
+// Rendering spawns ffmpeg, which the edge runtime cannot do
+export const runtime = "nodejs";
+
+function fileResponse(file: Buffer, format: VideoFormat, title: string) {
+  const name = title.replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '') || 'algorithm';
+  return new NextResponse(new Uint8Array(file), {
+    headers: {
+      'Content-Type': videoFormats[format].mimeType,
+      'Content-Disposition': `attachment; filename="${name}.${format}"`,
+      'Cache-Control': 'no-store'
+    }
+  });
+}
+
 export async function POST(request: Request) {
-  return NextResponse.json(
-    { 
-      error: 'This API route is deprecated. GIF export is now handled client-side using ffmpeg.wasm.',
-      message: 'Please use the Export GIF button in the visualizer interface.'
-    },
-    { status: 410 } // Gone - resource no longer available
-  );
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: 'Sign in to export animations' }, { status: 401 });
+  }
+
+  // Refuse large bodies from their declared length before reading them
+  const tooLarge = NextResponse.json({ error: 'The export request is too large' }, { status: 413 });
+  if (Number(request.headers.get('content-length')) > MAX_EXPORT_BODY_LENGTH) return tooLarge;
+  const text = await request.text();
+  if (text.length > MAX_EXPORT_BODY_LENGTH) return tooLarge;
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    body = null;
+  }
+  const { value, error } = parseExportRequest(body);
+  if (!value) {
+    return NextResponse.json({ error }, { status: 400 });
+  }
+
+  if (!await isFFmpegAvailable()) {
+    return NextResponse.json({ error: 'ffmpeg is not installed on the server; set FFMPEG_PATH' }, { status: 503 });
+  }
+
+  const busy = getExportCapacityError(userId);
+  if (busy) {
+    return NextResponse.json({ error: busy }, { status: 429 });
+  }
+
+  if (value.async) {
+    const job = startExportJob(value, userId);
+    return NextResponse.json({ jobId: job.id, status: job.status }, { status: 202 });
+  }
+
+  try {
+    return fileResponse(await exportNow(value, userId), value.options.format, value.title);
+  } catch (failure) {
+    return NextResponse.json({ error: (failure as Error).message }, { status: 500 });
+  }
+}
+
+export async function GET(request: Request) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: 'Sign in to download exports' }, { status: 401 });
+  }
+
+  const id = new URL(request.url).searchParams.get('job');
+  const job = id ? getExportJob(id, userId) : null;
+  if (!job) {
+    return NextResponse.json({ error: 'Unknown or expired export job' }, { status: 404 });
+  }
+
+  switch (job.status) {
+    case 'queued':
+    case 'running':
+      return NextResponse.json({ jobId: job.id, status: job.status, progress: job.progress }, { status: 202 });
+    case 'failed':
+      return NextResponse.json({ jobId: job.id, status: job.status, error: job.error }, { status: 500 });
+    case 'done':
+      if (job.result) return fileResponse(job.result, job.format, job.title);
+      return NextResponse.json({ jobId: job.id, status: job.status, error: 'The export finished without a file' }, { status: 500 });
+  }
 }
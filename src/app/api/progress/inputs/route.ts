@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { parseSavedInput } from "@/utils/progress";
+import { updateProgress } from "@/utils/progressStorage";
+
+/**
+ * Inputs API Route
+ * 
+ * Saves the last input the user ran an algorithm on, so the visualiser
+ * can start from it next time.
+ */
+
+export async function PUT(request: Request) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: 'Sign in to save inputs' }, { status: 401 });
+  }
+
+  const { value, error } = parseSavedInput(await request.json().catch(() => null));
+  if (!value) {
+    return NextResponse.json({ error }, { status: 400 });
+  }
+
+  const { algorithmId, input } = value;
+  await updateProgress(userId, progress => ({
+    progress: { ...progress, inputs: { ...progress.inputs, [algorithmId]: input } },
+    result: null
+  }));
+
+  return new NextResponse(null, { status: 204 });
+}
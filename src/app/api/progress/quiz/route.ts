@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { parseQuizResult } from "@/utils/progress";
+import { updateProgress } from "@/utils/progressStorage";
+import { addQuizResult } from "@/utils/quizScores";
+
+/**
+ * Quiz API Route
+ * 
+ * Adds a finished quiz to the user's score for the algorithm and returns
+ * the updated score.
+ */
+
+export async function POST(request: Request) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: 'Sign in to save quiz scores' }, { status: 401 });
+  }
+
+  const { value, error } = parseQuizResult(await request.json().catch(() => null));
+  if (!value) {
+    return NextResponse.json({ error }, { status: 400 });
+  }
+
+  const { algorithmId, correct, total } = value;
+  const score = await updateProgress(userId, progress => {
+    const updated = addQuizResult(progress.quizScores[algorithmId], correct, total);
+    return { progress: { ...progress, quizScores: { ...progress.quizScores, [algorithmId]: updated } }, result: updated };
+  });
+
+  return NextResponse.json(score);
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { loadProgress } from "@/utils/progressStorage";
+
+/**
+ * Progress API Route
+ * 
+ * Returns the signed-in user's submissions, quiz scores and saved inputs.
+ * The routes below it record each of them.
+ */
+
+export async function GET() {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: 'Sign in to see your progress' }, { status: 401 });
+  }
+
+  return NextResponse.json(await loadProgress(userId));
+}
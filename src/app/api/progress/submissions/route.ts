@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { SubmissionRecord, addSubmission, parseSubmission } from "@/utils/progress";
+import { updateProgress } from "@/utils/progressStorage";
+
+/**
+ * Submissions API Route
+ * 
+ * Records a graded submission from the code editor in the user's history.
+ * Grading runs in the browser sandbox, so the result is taken as reported.
+ */
+
+export async function POST(request: Request) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: 'Sign in to save submissions' }, { status: 401 });
+  }
+
+  const { value, error } = parseSubmission(await request.json().catch(() => null));
+  if (!value) {
+    return NextResponse.json({ error }, { status: 400 });
+  }
+
+  const submission: SubmissionRecord = { ...value, id: crypto.randomUUID(), submittedAt: new Date().toISOString() };
+  await updateProgress(userId, progress => ({ progress: addSubmission(progress, submission), result: null }));
+
+  return NextResponse.json(submission, { status: 201 });
+}
@@ -0,0 +1,308 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { ThemeToggle } from "@/components/ThemeToggle";
+import { BenchmarkChart } from "@/components/benchmarkChart/benchmarkChart";
+import { getAlgorithmById } from "@/data/algorithms";
+import {
+  BenchmarkPoint,
+  Distribution,
+  Metric,
+  MAX_BENCHMARK_SIZES,
+  benchmarkAlgorithms,
+  benchmarkTasks,
+  benchmarkToCsv,
+  claimedModel,
+  distributions,
+  fitModels,
+  metrics,
+  runBenchmarkTask,
+} from "@/utils/benchmark";
+import {
+  SignInButton,
+  SignUpButton,
+  SignedIn,
+  SignedOut,
+  UserButton,
+} from "@clerk/nextjs";
+
+/**
+ * Benchmark Page Component
+ *
+ * Measures how the operation counts of the sorting algorithms grow with
+ * the input size. Users can:
+ * - Sweep input sizes over random, sorted and reversed arrays
+ * - Plot a counter against n with fitted n, n log n and n² curves
+ * - Compare the best fit with the complexity listed for the algorithm
+ * - Download the measurements as CSV
+ */
+export default function BenchmarkPage() {
+  const router = useRouter();
+  const [selected, setSelected] = useState<string[]>(benchmarkAlgorithms);
+  const [maxSize, setMaxSize] = useState(MAX_BENCHMARK_SIZES[1]);
+  const [metric, setMetric] = useState<Metric>('comparisons');
+  const [plotAlgorithm, setPlotAlgorithm] = useState(benchmarkAlgorithms[0]);
+  const [fitDistribution, setFitDistribution] = useState<Distribution>('random');
+  const [points, setPoints] = useState<BenchmarkPoint[]>([]);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const runIdRef = useRef(0);
+
+  // Abandon a running sweep when the page unmounts
+  useEffect(() => () => { runIdRef.current++; }, []);
+
+  /**
+   * Run every task of the sweep, yielding to the browser between tasks so
+   * the page stays responsive and partial results appear as they arrive
+   */
+  const runBenchmark = async () => {
+    const runId = ++runIdRef.current;
+    const tasks = benchmarkTasks(selected, maxSize);
+    const results: BenchmarkPoint[] = [];
+    setPoints([]);
+    setProgress({ done: 0, total: tasks.length });
+
+    for (const task of tasks) {
+      await new Promise(resolve => setTimeout(resolve, 0));
+      if (runIdRef.current !== runId) return;
+      results.push(runBenchmarkTask(task));
+      setPoints([...results]);
+      setProgress({ done: results.length, total: tasks.length });
+    }
+
+    setProgress(null);
+    if (!selected.includes(plotAlgorithm) && selected.length > 0) setPlotAlgorithm(selected[0]);
+  };
+
+  const stopBenchmark = () => {
+    runIdRef.current++;
+    setProgress(null);
+  };
+
+  const toggleAlgorithm = (algorithmId: string) => {
+    setSelected(current =>
+      current.includes(algorithmId)
+        ? current.filter(id => id !== algorithmId)
+        : benchmarkAlgorithms.filter(id => id === algorithmId || current.includes(id))
+    );
+  };
+
+  const downloadCsv = () => {
+    const blob = new Blob([benchmarkToCsv(points)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'benchmark.csv';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Best fits for every measured algorithm and distribution
+  const fitRows = useMemo(() => {
+    const measured = benchmarkAlgorithms.filter(id => points.some(point => point.algorithmId === id));
+    return measured.flatMap(algorithmId =>
+      distributions.map(({ id, name }) => {
+        const series = points.filter(point => point.algorithmId === algorithmId && point.distribution === id);
+        return { algorithmId, distribution: name, fits: series.length >= 2 ? fitModels(series, metric) : [] };
+      })
+    );
+  }, [points, metric]);
+
+  const plotPoints = useMemo(() => points.filter(point => point.algorithmId === plotAlgorithm), [points, plotAlgorithm]);
+  const plotFits = useMemo(() => {
+    const series = plotPoints.filter(point => point.distribution === fitDistribution);
+    return series.length >= 2 ? fitModels(series, metric) : [];
+  }, [plotPoints, fitDistribution, metric]);
+
+  return (
+    <div className="min-h-screen bg-gray-100 dark:bg-gray-900 transition-colors">
+      {/* Header Navigation */}
+      <header className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700 transition-colors">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center space-x-4">
+              <Link href="/" className="text-xl font-bold text-gray-900 dark:text-white">
+                Algtrax
+              </Link>
+              <div className="flex items-center space-x-2">
+                <span className="text-gray-400 dark:text-gray-500">/</span>
+                <span className="text-gray-700 dark:text-gray-300">Benchmark</span>
+              </div>
+            </div>
+
+            <nav className="flex items-center space-x-2 sm:space-x-4 lg:space-x-8">
+              <SignedOut>
+                <SignInButton mode="modal">
+                  <button className="btn-base btn-secondary text-sm sm:text-base">
+                    Sign In
+                  </button>
+                </SignInButton>
+                <SignUpButton mode="modal">
+                  <button className="btn-base btn-primary text-sm sm:text-base">
+                    Sign Up
+                  </button>
+                </SignUpButton>
+              </SignedOut>
+              <SignedIn>
+                <UserButton />
+              </SignedIn>
+
+              <button
+                onClick={() => router.push('/#algorithms-section')}
+                className="text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white transition-colors text-sm sm:text-base hidden sm:block"
+              >
+                Algorithms
+              </button>
+              <Link
+                href="/compare"
+                className="text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white transition-colors text-sm sm:text-base hidden sm:block"
+              >
+                Compare
+              </Link>
+
+              <ThemeToggle />
+            </nav>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 space-y-4">
+        {/* Sweep Setup */}
+        <div className="p-4 bg-white dark:bg-gray-800 rounded-lg shadow-sm space-y-3 transition-colors">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Algorithms:</span>
+            {benchmarkAlgorithms.map(algorithmId => (
+              <label key={algorithmId} className="flex items-center gap-1 text-xs sm:text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(algorithmId)}
+                  onChange={() => toggleAlgorithm(algorithmId)}
+                  disabled={progress !== null}
+                />
+                {getAlgorithmById(algorithmId)?.name ?? algorithmId}
+              </label>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="text-xs sm:text-sm text-gray-700 dark:text-gray-300">
+              Largest n:{' '}
+              <select
+                value={maxSize}
+                onChange={(e) => setMaxSize(Number(e.target.value))}
+                disabled={progress !== null}
+                className="ml-1 px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800"
+              >
+                {MAX_BENCHMARK_SIZES.map(size => <option key={size} value={size}>{size}</option>)}
+              </select>
+            </label>
+            {progress === null ? (
+              <button onClick={runBenchmark} disabled={selected.length === 0} className="btn-base btn-primary text-xs sm:text-sm">
+                Run Benchmark
+              </button>
+            ) : (
+              <button onClick={stopBenchmark} className="btn-base btn-muted text-xs sm:text-sm">
+                Stop
+              </button>
+            )}
+            <button onClick={downloadCsv} disabled={points.length === 0 || progress !== null} className="btn-base btn-secondary text-xs sm:text-sm">
+              Export CSV
+            </button>
+            {progress && (
+              <span className="text-xs sm:text-sm text-gray-600 dark:text-gray-400">
+                Running {progress.done} / {progress.total}...
+              </span>
+            )}
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Each size is measured on random, sorted and reversed arrays; random results are averaged over several runs.
+          </p>
+        </div>
+
+        {/* Chart */}
+        <div className="p-4 bg-white dark:bg-gray-800 rounded-lg shadow-sm space-y-3 transition-colors">
+          <div className="flex flex-wrap items-center gap-3 text-xs sm:text-sm text-gray-700 dark:text-gray-300">
+            <label>
+              Plot:{' '}
+              <select
+                value={plotAlgorithm}
+                onChange={(e) => setPlotAlgorithm(e.target.value)}
+                className="ml-1 px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800"
+              >
+                {benchmarkAlgorithms.map(id => <option key={id} value={id}>{getAlgorithmById(id)?.name ?? id}</option>)}
+              </select>
+            </label>
+            <label>
+              Counter:{' '}
+              <select
+                value={metric}
+                onChange={(e) => setMetric(e.target.value as Metric)}
+                className="ml-1 px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800"
+              >
+                {metrics.map(({ id, name }) => <option key={id} value={id}>{name}</option>)}
+              </select>
+            </label>
+            <label>
+              Fit curves to:{' '}
+              <select
+                value={fitDistribution}
+                onChange={(e) => setFitDistribution(e.target.value as Distribution)}
+                className="ml-1 px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800"
+              >
+                {distributions.map(({ id, name }) => <option key={id} value={id}>{name}</option>)}
+              </select>
+            </label>
+            {getAlgorithmById(plotAlgorithm) && (
+              <span className="text-gray-500 dark:text-gray-400">
+                Listed time complexity: {getAlgorithmById(plotAlgorithm)!.complexity.time}
+              </span>
+            )}
+          </div>
+          <BenchmarkChart points={plotPoints} metric={metric} fits={plotFits} />
+        </div>
+
+        {/* Fit Summary */}
+        {fitRows.length > 0 && (
+          <div className="p-4 bg-white dark:bg-gray-800 rounded-lg shadow-sm transition-colors">
+            <h2 className="font-medium text-gray-900 dark:text-white mb-3">Best Fits</h2>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm text-left text-gray-700 dark:text-gray-300">
+                <thead className="text-xs uppercase text-gray-500 dark:text-gray-400">
+                  <tr>
+                    <th className="py-1 pr-4">Algorithm</th>
+                    <th className="py-1 pr-4">Input</th>
+                    <th className="py-1 pr-4">Best fit</th>
+                    <th className="py-1 pr-4">R² (n / n log n / n²)</th>
+                    <th className="py-1 pr-4">Listed</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {fitRows.map(({ algorithmId, distribution, fits }) => {
+                    const algorithm = getAlgorithmById(algorithmId);
+                    const claimed = algorithm ? claimedModel(algorithm.complexity.time) : null;
+                    const best = fits[0];
+                    const rSquared = (model: string) => fits.find(fit => fit.model === model)?.rSquared.toFixed(3) ?? '-';
+                    return (
+                      <tr key={`${algorithmId}-${distribution}`} className="border-t border-gray-200 dark:border-gray-700">
+                        <td className="py-1 pr-4 font-medium">{algorithm?.name ?? algorithmId}</td>
+                        <td className="py-1 pr-4">{distribution}</td>
+                        <td className={`py-1 pr-4 ${best && claimed && best.model !== claimed ? 'text-orange-600 dark:text-orange-400' : ''}`}>
+                          {best ? best.model : '-'}
+                        </td>
+                        <td className="py-1 pr-4">{rSquared('n')} / {rSquared('n log n')} / {rSquared('n²')}</td>
+                        <td className="py-1 pr-4">{algorithm?.complexity.time ?? '-'}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+            <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+              Fits that differ from the listed average case are highlighted - for example quick sort on sorted input, or insertion sort on sorted input.
+            </p>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
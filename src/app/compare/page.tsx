@@ -0,0 +1,322 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { ThemeToggle } from "@/components/ThemeToggle";
+import { InputPanel } from "@/components/inputPanel/inputPanel";
+import { GraphEditor } from "@/components/graphEditor/graphEditor";
+import { GridEditor } from "@/components/gridEditor/gridEditor";
+import { RaceLane } from "@/components/raceLane/raceLane";
+import { getAlgorithmById } from "@/data/algorithms";
+import { useStore } from "@/store";
+import { RaceKind, raceAlgorithms, buildRaceLanes } from "@/utils/raceMode";
+import {
+  SignInButton,
+  SignUpButton,
+  SignedIn,
+  SignedOut,
+  UserButton,
+} from "@clerk/nextjs";
+
+/**
+ * Compare Page Component
+ *
+ * Race mode: runs several algorithms on identical input and plays their
+ * traces in lockstep on a shared timeline. Users can:
+ * - Race sorting algorithms on the same array
+ * - Race pathfinding algorithms on the same graph or grid
+ * - Watch live counters per lane and a summary once every lane finishes
+ *
+ * The input is shared with the visualizer page through the store.
+ */
+export default function ComparePage() {
+  const { inputData, searchTarget, graph, grid, gridMode, setInput, setGraph, setGrid, setGridMode } = useStore();
+  const router = useRouter();
+  const [kind, setKind] = useState<RaceKind>('sorting');
+  const [selected, setSelected] = useState<string[]>(raceAlgorithms.sorting);
+  const [step, setStep] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(300);
+  const intervalRef = useRef<NodeJS.Timeout | null>(null);
+
+  // Run every selected algorithm on the shared input
+  const lanes = useMemo(
+    () => buildRaceLanes(kind, selected, { values: inputData, graph, grid, gridMode }),
+    [kind, selected, inputData, graph, grid, gridMode]
+  );
+  const totalSteps = Math.max(0, ...lanes.map(lane => lane.states.length));
+  const finished = totalSteps > 0 && step >= totalSteps - 1;
+  const leaderSteps = Math.min(...lanes.map(lane => lane.states.length));
+
+  // Restart the race whenever the lanes change
+  useEffect(() => {
+    setIsPlaying(false);
+    setStep(0);
+  }, [lanes]);
+
+  // Advance the shared timeline while playing
+  useEffect(() => {
+    if (isPlaying) {
+      intervalRef.current = setInterval(() => {
+        setStep(prev => {
+          if (prev >= totalSteps - 1) {
+            setIsPlaying(false);
+            return prev;
+          }
+          return prev + 1;
+        });
+      }, speed);
+    }
+
+    return () => {
+      if (intervalRef.current) {
+        clearInterval(intervalRef.current);
+      }
+    };
+  }, [isPlaying, speed, totalSteps]);
+
+  const changeKind = (next: RaceKind) => {
+    setKind(next);
+    setSelected(raceAlgorithms[next]);
+  };
+
+  const toggleAlgorithm = (algorithmId: string) => {
+    setSelected(current =>
+      current.includes(algorithmId)
+        ? current.filter(id => id !== algorithmId)
+        // Keep lanes in the canonical order
+        : raceAlgorithms[kind].filter(id => id === algorithmId || current.includes(id))
+    );
+  };
+
+  const play = () => {
+    if (finished) setStep(0);
+    setIsPlaying(true);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100 dark:bg-gray-900 transition-colors">
+      {/* Header Navigation */}
+      <header className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700 transition-colors">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center space-x-4">
+              <Link href="/" className="text-xl font-bold text-gray-900 dark:text-white">
+                Algtrax
+              </Link>
+              <div className="flex items-center space-x-2">
+                <span className="text-gray-400 dark:text-gray-500">/</span>
+                <span className="text-gray-700 dark:text-gray-300">Compare</span>
+              </div>
+            </div>
+
+            <nav className="flex items-center space-x-2 sm:space-x-4 lg:space-x-8">
+              <SignedOut>
+                <SignInButton mode="modal">
+                  <button className="btn-base btn-secondary text-sm sm:text-base">
+                    Sign In
+                  </button>
+                </SignInButton>
+                <SignUpButton mode="modal">
+                  <button className="btn-base btn-primary text-sm sm:text-base">
+                    Sign Up
+                  </button>
+                </SignUpButton>
+              </SignedOut>
+              <SignedIn>
+                <UserButton />
+              </SignedIn>
+
+              <button
+                onClick={() => router.push('/#algorithms-section')}
+                className="text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white transition-colors text-sm sm:text-base hidden sm:block"
+              >
+                Algorithms
+              </button>
+              <Link
+                href="/benchmark"
+                className="text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white transition-colors text-sm sm:text-base hidden sm:block"
+              >
+                Benchmark
+              </Link>
+
+              <ThemeToggle />
+            </nav>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 space-y-4">
+        {/* Race Setup */}
+        <div className="p-4 bg-white dark:bg-gray-800 rounded-lg shadow-sm space-y-4 transition-colors">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Race:</span>
+            <button
+              onClick={() => changeKind('sorting')}
+              className={`btn-base text-xs sm:text-sm ${kind === 'sorting' ? 'btn-primary' : 'btn-secondary'}`}
+            >
+              Sorting
+            </button>
+            <button
+              onClick={() => changeKind('pathfinding')}
+              className={`btn-base text-xs sm:text-sm ${kind === 'pathfinding' ? 'btn-primary' : 'btn-secondary'}`}
+            >
+              Pathfinding
+            </button>
+            <span className="text-sm text-gray-500 dark:text-gray-400 ml-2">Algorithms:</span>
+            {raceAlgorithms[kind].map(algorithmId => (
+              <label key={algorithmId} className="flex items-center gap-1 text-xs sm:text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(algorithmId)}
+                  onChange={() => toggleAlgorithm(algorithmId)}
+                />
+                {getAlgorithmById(algorithmId)?.name ?? algorithmId}
+              </label>
+            ))}
+          </div>
+
+          {/* Shared Input */}
+          {kind === 'sorting' ? (
+            <InputPanel values={inputData} target={searchTarget} showTarget={false} onApply={(values) => setInput(values, searchTarget)} />
+          ) : (
+            <>
+              <div className="mb-2 flex items-center gap-2">
+                <span className="text-xs sm:text-sm font-medium text-gray-700 dark:text-gray-300">Mode:</span>
+                <button
+                  onClick={() => setGridMode(false)}
+                  className={`btn-base text-xs sm:text-sm ${!gridMode ? 'btn-primary' : 'btn-secondary'}`}
+                >
+                  Graph
+                </button>
+                <button
+                  onClick={() => setGridMode(true)}
+                  className={`btn-base text-xs sm:text-sm ${gridMode ? 'btn-primary' : 'btn-secondary'}`}
+                >
+                  Grid
+                </button>
+              </div>
+              {gridMode
+                ? <GridEditor grid={grid} onChange={setGrid} />
+                : <GraphEditor graph={graph} onChange={setGraph} />}
+            </>
+          )}
+        </div>
+
+        {selected.length < 2 ? (
+          <p className="text-center text-sm text-gray-500 dark:text-gray-400">
+            Select at least two algorithms to race.
+          </p>
+        ) : (
+          <>
+            {/* Shared Timeline */}
+            <div className="p-4 bg-white dark:bg-gray-800 rounded-lg shadow-sm flex flex-wrap items-center gap-3 transition-colors">
+              <button onClick={() => { setIsPlaying(false); setStep(0); }} className="btn-base btn-muted text-xs sm:text-sm">
+                Reset
+              </button>
+              <button onClick={() => setStep(prev => Math.max(0, prev - 1))} disabled={step === 0} className="btn-base btn-secondary text-xs sm:text-sm">
+                Previous
+              </button>
+              <button onClick={isPlaying ? () => setIsPlaying(false) : play} className="btn-base btn-success text-xs sm:text-sm">
+                {isPlaying ? 'Pause' : 'Play'}
+              </button>
+              <button onClick={() => setStep(prev => Math.min(totalSteps - 1, prev + 1))} disabled={finished} className="btn-base btn-secondary text-xs sm:text-sm">
+                Next
+              </button>
+              <input
+                type="range"
+                min={0}
+                max={Math.max(0, totalSteps - 1)}
+                value={step}
+                onChange={(e) => { setIsPlaying(false); setStep(Number(e.target.value)); }}
+                className="flex-1 min-w-[120px] h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer slider"
+              />
+              <span className="text-xs sm:text-sm text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                Step {step + 1} of {totalSteps}
+              </span>
+              <label className="text-xs sm:text-sm text-gray-700 dark:text-gray-300">Speed:</label>
+              <input
+                type="range"
+                min="20"
+                max="1000"
+                step="20"
+                value={speed}
+                onChange={(e) => setSpeed(Number(e.target.value))}
+                className="w-24 h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer slider"
+              />
+              <span className="text-xs sm:text-sm text-gray-600 dark:text-gray-400 min-w-[45px]">{speed}ms</span>
+            </div>
+
+            {/* Lanes */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {lanes.map(lane => (
+                <RaceLane
+                  key={lane.algorithmId}
+                  lane={lane}
+                  step={step}
+                  directed={!gridMode && graph.directed}
+                  isLeader={lane.states.length === leaderSteps}
+                />
+              ))}
+            </div>
+
+            {/* Summary */}
+            {finished && (
+              <div className="p-4 bg-white dark:bg-gray-800 rounded-lg shadow-sm transition-colors">
+                <h2 className="font-medium text-gray-900 dark:text-white mb-3">Summary</h2>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm text-left text-gray-700 dark:text-gray-300">
+                    <thead className="text-xs uppercase text-gray-500 dark:text-gray-400">
+                      <tr>
+                        <th className="py-1 pr-4">Algorithm</th>
+                        <th className="py-1 pr-4">Steps</th>
+                        {kind === 'sorting' ? (
+                          <>
+                            <th className="py-1 pr-4">Comparisons</th>
+                            <th className="py-1 pr-4">Swaps</th>
+                            <th className="py-1 pr-4">Writes</th>
+                          </>
+                        ) : (
+                          <>
+                            <th className="py-1 pr-4">Expanded</th>
+                            <th className="py-1 pr-4">Path</th>
+                          </>
+                        )}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {[...lanes]
+                        .sort((a, b) => a.states.length - b.states.length)
+                        .map(lane => {
+                          const totals = lane.counters[lane.counters.length - 1];
+                          return (
+                            <tr key={lane.algorithmId} className="border-t border-gray-200 dark:border-gray-700">
+                              <td className="py-1 pr-4 font-medium">{getAlgorithmById(lane.algorithmId)?.name ?? lane.algorithmId}</td>
+                              <td className="py-1 pr-4">{totals?.steps ?? 0}</td>
+                              {kind === 'sorting' ? (
+                                <>
+                                  <td className="py-1 pr-4">{totals?.comparisons ?? 0}</td>
+                                  <td className="py-1 pr-4">{totals?.swaps ?? 0}</td>
+                                  <td className="py-1 pr-4">{totals?.writes ?? 0}</td>
+                                </>
+                              ) : (
+                                <>
+                                  <td className="py-1 pr-4">{totals?.expanded ?? 0}</td>
+                                  <td className="py-1 pr-4">{totals?.pathLength !== null && totals ? `${totals.pathLength} nodes` : totals?.noPath ? 'no path' : 'not found'}</td>
+                                </>
+                              )}
+                            </tr>
+                          );
+                        })}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -3,6 +3,7 @@
 import { useState, useEffect } from "react";
 import { motion, useScroll, useTransform } from "framer-motion";
 import { useRouter } from "next/navigation";
+import Link from "next/link";
 import { algorithms, categories } from "@/data/algorithms";
 import { AlgorithmCard } from "@/components/AlgorithmCard";
 import { ThemeToggle } from "@/components/ThemeToggle";
@@ -125,6 +126,32 @@ export default function LandingPage() {
                 Algorithms
               </button>
 
+              {/* Compare Link - Race algorithms side by side */}
+              <Link
+                href="/compare"
+                className="transition-colors duration-300 ease-in-out text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white no-underline"
+              >
+                Compare
+              </Link>
+
+              {/* Benchmark Link - Operation counts versus input size */}
+              <Link
+                href="/benchmark"
+                className="transition-colors duration-300 ease-in-out text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white no-underline"
+              >
+                Benchmark
+              </Link>
+
+              {/* Progress Link - Submissions and quiz scores of the signed-in user */}
+              <SignedIn>
+                <Link
+                  href="/progress"
+                  className="transition-colors duration-300 ease-in-out text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white no-underline"
+                >
+                  My Progress
+                </Link>
+              </SignedIn>
+
               {/* Q&A Link - Placeholder for future feature */}
               <a href="#" className="transition-colors duration-300 ease-in-out text-gray-700 dark:text-gray-300 no-underline"
               >Q&A</a>
@@ -0,0 +1,202 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { ThemeToggle } from "@/components/ThemeToggle";
+import { algorithms, categories, getAlgorithmById, getAlgorithmsByCategory } from "@/data/algorithms";
+import { UserProgress, summariseAlgorithm } from "@/utils/progress";
+import { fetchProgress } from "@/utils/progressClient";
+import {
+  SignInButton,
+  SignedIn,
+  SignedOut,
+  UserButton,
+  useAuth,
+} from "@clerk/nextjs";
+
+// Submissions listed under Recent Submissions
+const RECENT_SUBMISSIONS = 20;
+
+/**
+ * Progress Page Component
+ *
+ * Shows what the signed-in user has done so far:
+ * - Completion of every algorithm (a submission passing every test case)
+ * - Best submission score, languages passed and quiz scores per algorithm
+ * - Recent submissions with their code
+ */
+export default function ProgressPage() {
+  const router = useRouter();
+  const { isLoaded, isSignedIn } = useAuth();
+  const [progress, setProgress] = useState<UserProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isLoaded || !isSignedIn) return;
+    let cancelled = false;
+    fetchProgress()
+      .then(loaded => !cancelled && setProgress(loaded))
+      .catch(failure => !cancelled && setError((failure as Error).message));
+    return () => { cancelled = true; };
+  }, [isLoaded, isSignedIn]);
+
+  const summaries = useMemo(
+    () => new Map(progress ? algorithms.map(algorithm => [algorithm.id, summariseAlgorithm(progress, algorithm.id)]) : []),
+    [progress]
+  );
+  const completed = [...summaries.values()].filter(summary => summary.completed).length;
+
+  return (
+    <div className="min-h-screen bg-gray-100 dark:bg-gray-900 transition-colors">
+      {/* Header Navigation */}
+      <header className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700 transition-colors">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center space-x-4">
+              <Link href="/" className="text-xl font-bold text-gray-900 dark:text-white">
+                Algtrax
+              </Link>
+              <div className="flex items-center space-x-2">
+                <span className="text-gray-400 dark:text-gray-500">/</span>
+                <span className="text-gray-700 dark:text-gray-300">My Progress</span>
+              </div>
+            </div>
+
+            <nav className="flex items-center space-x-2 sm:space-x-4 lg:space-x-8">
+              <SignedIn>
+                <UserButton />
+              </SignedIn>
+
+              <button
+                onClick={() => router.push('/#algorithms-section')}
+                className="text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white transition-colors text-sm sm:text-base hidden sm:block"
+              >
+                Algorithms
+              </button>
+
+              <ThemeToggle />
+            </nav>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 space-y-4">
+        <SignedOut>
+          <div className="p-4 bg-white dark:bg-gray-800 rounded-lg shadow-sm space-y-3 transition-colors">
+            <p className="text-sm text-gray-700 dark:text-gray-300">
+              Sign in to keep your submissions, quiz scores and inputs.
+            </p>
+            <SignInButton mode="modal">
+              <button className="btn-base btn-primary text-sm">Sign In</button>
+            </SignInButton>
+          </div>
+        </SignedOut>
+
+        <SignedIn>
+          {error && (
+            <p className="p-4 bg-white dark:bg-gray-800 rounded-lg shadow-sm text-sm text-red-600 dark:text-red-400">
+              Could not load your progress: {error}
+            </p>
+          )}
+          {!progress && !error && (
+            <p className="text-sm text-gray-600 dark:text-gray-400">Loading your progress...</p>
+          )}
+
+          {progress && (
+            <>
+              {/* Completion per Algorithm */}
+              <div className="p-4 bg-white dark:bg-gray-800 rounded-lg shadow-sm transition-colors">
+                <div className="flex flex-wrap items-baseline justify-between gap-2 mb-3">
+                  <h2 className="font-medium text-gray-900 dark:text-white">Algorithms</h2>
+                  <span className="text-sm text-gray-600 dark:text-gray-400">
+                    {completed} of {algorithms.length} completed
+                  </span>
+                </div>
+                <div className="h-2 mb-4 bg-gray-200 dark:bg-gray-600 rounded-full overflow-hidden">
+                  <div className="h-full bg-green-500" style={{ width: `${(completed / algorithms.length) * 100}%` }} />
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm text-left text-gray-700 dark:text-gray-300">
+                    <thead className="text-xs uppercase text-gray-500 dark:text-gray-400">
+                      <tr>
+                        <th className="py-1 pr-4">Algorithm</th>
+                        <th className="py-1 pr-4">Status</th>
+                        <th className="py-1 pr-4">Best score</th>
+                        <th className="py-1 pr-4">Passed in</th>
+                        <th className="py-1 pr-4">Quiz</th>
+                        <th className="py-1 pr-4">Last submission</th>
+                      </tr>
+                    </thead>
+                    {categories.map(category => (
+                      <tbody key={category}>
+                        <tr>
+                          <td colSpan={6} className="pt-3 pb-1 text-xs font-medium text-gray-500 dark:text-gray-400">{category}</td>
+                        </tr>
+                        {getAlgorithmsByCategory(category).map(algorithm => {
+                          const summary = summaries.get(algorithm.id)!;
+                          return (
+                            <tr key={algorithm.id} className="border-t border-gray-200 dark:border-gray-700">
+                              <td className="py-1 pr-4 font-medium">
+                                <Link href={`/visualizer?algorithm=${algorithm.id}`} className="hover:underline">
+                                  {algorithm.name}
+                                </Link>
+                              </td>
+                              <td className={`py-1 pr-4 ${summary.completed ? 'text-green-600 dark:text-green-400' : ''}`}>
+                                {summary.completed ? 'Completed' : summary.attempts > 0 || summary.quiz ? 'In progress' : 'Not started'}
+                              </td>
+                              <td className="py-1 pr-4">{summary.bestScore !== null ? `${summary.bestScore}%` : '-'}</td>
+                              <td className="py-1 pr-4">{summary.passedLanguages.join(', ') || '-'}</td>
+                              <td className="py-1 pr-4">
+                                {summary.quiz
+                                  ? `${summary.quiz.correct}/${summary.quiz.answered} (best ${summary.quiz.bestCorrect}/${summary.quiz.bestTotal})`
+                                  : '-'}
+                              </td>
+                              <td className="py-1 pr-4">
+                                {summary.lastSubmittedAt ? new Date(summary.lastSubmittedAt).toLocaleString() : '-'}
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    ))}
+                  </table>
+                </div>
+              </div>
+
+              {/* Submission History */}
+              <div className="p-4 bg-white dark:bg-gray-800 rounded-lg shadow-sm transition-colors">
+                <h2 className="font-medium text-gray-900 dark:text-white mb-3">Recent Submissions</h2>
+                {progress.submissions.length === 0 ? (
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    Submit code from the visualizer to see it here.
+                  </p>
+                ) : (
+                  <ul className="space-y-2">
+                    {progress.submissions.slice(0, RECENT_SUBMISSIONS).map(submission => (
+                      <li key={submission.id} className="text-sm text-gray-700 dark:text-gray-300">
+                        <details>
+                          <summary className="cursor-pointer">
+                            <span className="font-medium">{getAlgorithmById(submission.algorithmId)?.name ?? submission.algorithmId}</span>
+                            {' '}in {submission.language}:{' '}
+                            <span className={submission.passed === submission.total ? 'text-green-600 dark:text-green-400' : 'text-orange-600 dark:text-orange-400'}>
+                              {submission.passed}/{submission.total} passed
+                            </span>
+                            <span className="text-gray-500 dark:text-gray-400"> - {new Date(submission.submittedAt).toLocaleString()}</span>
+                          </summary>
+                          <pre className="mt-2 p-3 max-h-64 overflow-auto text-xs font-mono bg-gray-50 dark:bg-gray-700 rounded">
+                            {submission.code}
+                          </pre>
+                        </details>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </>
+          )}
+        </SignedIn>
+      </main>
+    </div>
+  );
+}
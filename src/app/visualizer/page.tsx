@@ -4,19 +4,32 @@ import { CodeEditor } from "../../components/codeEditor/codeEditor";
 import { Visualiser } from "../../components/visualiser/visualiser";
 import { Controls } from "../../components/controls/controls";
 import { GifExporter } from "../../components/gifExporter/gifExporter";
+import { InputPanel } from "../../components/inputPanel/inputPanel";
+import { GraphEditor } from "../../components/graphEditor/graphEditor";
+import { GridEditor } from "../../components/gridEditor/gridEditor";
+import { HashTableEditor } from "../../components/hashTableEditor/hashTableEditor";
+import { QuizPanel } from "../../components/quizPanel/quizPanel";
+import { ShareLink } from "../../components/shareLink/shareLink";
 import { useStore } from "../../store";
 import { useSearchParams, useRouter } from "next/navigation";
-import { getAlgorithmById } from "@/data/algorithms";
+import { getAlgorithmPlugin } from "@/algorithms/registry";
 import { motion } from "framer-motion";
 import Link from "next/link";
 import { ThemeToggle } from "@/components/ThemeToggle";
-import { useEffect, useRef, useState, Suspense } from "react";
+import { useCallback, useEffect, useRef, useState, Suspense } from "react";
+import { AlgorithmService } from "@/utils/algorithmService";
+import { parseArrayInput, formatArrayInput } from "@/utils/inputPresets";
+import { restoreInput, toSavedInput } from "@/utils/progress";
+import { fetchProgress, saveInput } from "@/utils/progressClient";
+import { DEFAULT_SPEED, decodeSession, encodeSession } from "@/utils/permalink";
+import { Trace } from "@/algorithms/trace";
 import {
   SignInButton,
   SignUpButton,
   SignedIn,
   SignedOut,
   UserButton,
+  useAuth,
 } from "@clerk/nextjs";
 
 /**
@@ -26,17 +39,74 @@ import {
  * - View algorithm information and complexity
  * - Write and test code in the code editor
  * - Watch real-time algorithm visualizations
+ * - Choose custom input data (kept in the URL so it can be shared)
+ * - Copy a permalink to the current step, or open one
+ * - Pick up from the input they last used, when signed in
+ * - Edit the graph used by graph algorithms, or switch them to a grid
  * - Export visualizations as GIFs
  * - Switch between code editor and full-screen visualization modes
  */
 function VisualizerContent() {
-  const { code, states, runAlgorithm, setCode, generateStates } = useStore();
+  const {
+    code,
+    language,
+    states,
+    inputData,
+    searchTarget,
+    graph,
+    grid,
+    gridMode,
+    hashTable,
+    isRunning,
+    runError,
+    runLogs,
+    runAlgorithm,
+    setCode,
+    setLanguage,
+    generateStates,
+    setInput,
+    setGraph,
+    setGrid,
+    setGridMode,
+    setHashTable,
+  } = useStore();
   const searchParams = useSearchParams();
   const router = useRouter();
   const algorithmId = searchParams.get("algorithm");
-  const algorithm = algorithmId ? getAlgorithmById(algorithmId) : null;
+  const algorithm = algorithmId ? getAlgorithmPlugin(algorithmId) : undefined;
   const prevAlgorithmId = useRef<string | null>(null);
   const [activeTab, setActiveTab] = useState<'code' | 'visualization'>('code');
+  const [quizFrame, setQuizFrame] = useState<number | null>(null);   // Frame the quiz holds the visualiser at
+  const { isSignedIn } = useAuth();
+  const restoredInputFor = useRef<string | null>(null);   // Algorithm whose saved input has been restored
+  const [startAt, setStartAt] = useState<{ trace: Trace; frame: number; speed: number } | null>(null);   // Position a permalink opens at
+  const [sessionError, setSessionError] = useState<string | null>(null);
+  const position = useRef({ frame: 0, speed: DEFAULT_SPEED });   // Step and speed shown by the visualiser
+  const sessionParam = searchParams.get("session");
+  const inputParam = searchParams.get("input");
+  const targetParam = searchParams.get("target");
+
+  // Array and search inputs share the input panel; the hash table has its own editor
+  const acceptsInput = algorithm?.input === 'array' || algorithm?.input === 'search';
+  const acceptsTarget = algorithm?.input === 'search';
+  const acceptsGraph = algorithm?.input === 'graph';
+  const acceptsGrid = algorithm?.supportsGrid ?? false;
+  const acceptsHashTable = algorithm?.input === 'hash';
+  const defaultInput = algorithm?.defaultInput;
+
+  // Load custom input from the URL before states are generated
+  // Invalid or missing input falls back to the default data
+  useEffect(() => {
+    const parsed = inputParam ? parseArrayInput(inputParam).values : null;
+    const values = parsed ?? (defaultInput ? [...defaultInput] : AlgorithmService.getDefaultSortingData());
+    const targetValue = targetParam !== null ? Number(targetParam) : NaN;
+    const target = Number.isInteger(targetValue) ? targetValue : null;
+
+    const { inputData: currentValues, searchTarget: currentTarget } = useStore.getState();
+    if (formatArrayInput(values) !== formatArrayInput(currentValues) || target !== currentTarget) {
+      setInput(values, target);
+    }
+  }, [inputParam, targetParam, defaultInput, setInput]);
 
   // Reset code and generate visualization states when algorithm changes
   // This ensures users get a fresh start when switching between algorithms
@@ -50,6 +120,158 @@ function VisualizerContent() {
     }
   }, [algorithmId, setCode, generateStates]);
 
+  // Record the chosen input in the URL; the effect above applies it to the store
+  const applyInput = useCallback((values: number[], target: number | null) => {
+    const params = new URLSearchParams(searchParams.toString());
+    params.set("input", formatArrayInput(values));
+    if (target !== null) {
+      params.set("target", String(target));
+    } else {
+      params.delete("target");
+    }
+    router.replace(`/visualizer?${params.toString()}`, { scroll: false });
+  }, [searchParams, router]);
+
+  // Open a permalink: apply its input and code, then replace the session
+  // parameter with the plain input parameters so later edits are not undone
+  // by a reload. Runs before the restore below so the link's input wins.
+  useEffect(() => {
+    if (!sessionParam || !algorithmId) return;
+    const { session, error } = decodeSession(sessionParam);
+    const params = new URLSearchParams(searchParams.toString());
+    params.delete("session");
+
+    if (session && session.algorithmId === algorithmId) {
+      const { values, target, graph, grid, gridMode, hashTable } = session.input;
+      if (values) {
+        setInput(values, target);
+        params.set("input", formatArrayInput(values));
+        if (target !== null) params.set("target", String(target));
+      }
+      if (graph) setGraph(graph);
+      if (grid) setGrid(grid);
+      if (gridMode !== null) setGridMode(gridMode);
+      if (hashTable) setHashTable(hashTable);
+      if (session.code !== undefined) {
+        if (session.language) setLanguage(session.language);
+        setCode(session.code);
+      }
+      restoredInputFor.current = algorithmId;
+
+      // The setters above regenerate the trace synchronously
+      setStartAt({ trace: useStore.getState().states, frame: session.frame, speed: session.speed });
+    }
+    setSessionError(session && session.algorithmId !== algorithmId ? 'The link is for a different algorithm' : error);
+    router.replace(`/visualizer?${params.toString()}`, { scroll: false });
+  }, [sessionParam, algorithmId, searchParams, router, setInput, setGraph, setGrid, setGridMode, setHashTable, setLanguage, setCode]);
+
+  const trackPosition = useCallback((frame: number, speed: number) => {
+    position.current = { frame, speed };
+  }, []);
+
+  // Permalink to the current step, input and (optionally) code
+  const buildLink = (includeCode: boolean) => {
+    if (!algorithm) return window.location.href;
+    const token = encodeSession(
+      algorithm.id,
+      algorithm.input,
+      { values: inputData, target: searchTarget, graph, grid, gridMode, hashTable },
+      position.current,
+      includeCode ? { code, language } : undefined
+    );
+    return `${window.location.origin}/visualizer?algorithm=${algorithm.id}&session=${token}`;
+  };
+
+  // Restore the input a signed-in user last ran the algorithm on, once per
+  // algorithm; array input named in the URL (e.g. a shared link) wins
+  useEffect(() => {
+    if (!isSignedIn || !algorithmId || restoredInputFor.current === algorithmId) return;
+    let cancelled = false;
+
+    fetchProgress()
+      .catch(() => null)
+      .then(progress => {
+        if (cancelled) return;
+        restoredInputFor.current = algorithmId;
+        const saved = progress?.inputs[algorithmId];
+        if (!saved) return;
+
+        const restored = restoreInput(saved);
+        if (restored.values && !searchParams.has("input")) applyInput(restored.values, restored.target);
+        if (restored.graph) setGraph(restored.graph);
+        if (restored.grid) setGrid(restored.grid);
+        if (restored.gridMode !== null) setGridMode(restored.gridMode);
+        if (restored.hashTable) setHashTable(restored.hashTable);
+      });
+
+    return () => { cancelled = true; };
+  }, [isSignedIn, algorithmId, searchParams, applyInput, setGraph, setGrid, setGridMode, setHashTable]);
+
+  // Save the input whenever it changes, after the saved one was restored;
+  // the delay lets a burst of edits (e.g. dragging graph nodes) save once
+  useEffect(() => {
+    if (!isSignedIn || !algorithm || restoredInputFor.current !== algorithm.id) return;
+    const saved = toSavedInput(algorithm.input, algorithm.supportsGrid ?? false, {
+      values: inputData, target: searchTarget, graph, grid, gridMode, hashTable
+    });
+    const timer = setTimeout(() => saveInput(algorithm.id, saved).catch(() => undefined), 1000);
+    return () => clearTimeout(timer);
+  }, [isSignedIn, algorithm, inputData, searchTarget, graph, grid, gridMode, hashTable]);
+
+  // Input editors shown above the visualiser in both layouts
+  const inputEditors = (
+    <>
+      {sessionError && (
+        <p className="mb-2 text-xs sm:text-sm text-red-600 dark:text-red-400">{sessionError}</p>
+      )}
+      {acceptsInput && (
+        <InputPanel
+          values={inputData}
+          target={searchTarget}
+          showTarget={acceptsTarget}
+          onApply={applyInput}
+        />
+      )}
+      {acceptsGrid && (
+        <div className="mb-2 flex items-center gap-2">
+          <span className="text-xs sm:text-sm font-medium text-gray-700 dark:text-gray-300">Mode:</span>
+          <button
+            onClick={() => setGridMode(false)}
+            className={`btn-base text-xs sm:text-sm ${!gridMode ? 'btn-primary' : 'btn-secondary'}`}
+          >
+            Graph
+          </button>
+          <button
+            onClick={() => setGridMode(true)}
+            className={`btn-base text-xs sm:text-sm ${gridMode ? 'btn-primary' : 'btn-secondary'}`}
+          >
+            Grid
+          </button>
+        </div>
+      )}
+      {acceptsGrid && gridMode ? (
+        <GridEditor grid={grid} onChange={setGrid} />
+      ) : acceptsGraph && (
+        <GraphEditor graph={graph} onChange={setGraph} />
+      )}
+      {acceptsHashTable && (
+        <HashTableEditor hashTable={hashTable} onChange={setHashTable} />
+      )}
+    </>
+  );
+
+  // Quiz on the current trace, shown below the visualiser in both layouts
+  const quizPanel = algorithm?.hasQuiz && algorithmId && (
+    <div className="mt-4">
+      <QuizPanel
+        states={states}
+        algorithmId={algorithmId}
+        algorithmName={algorithm.name}
+        onFrameChange={setQuizFrame}
+      />
+    </div>
+  );
+
   // Navigate back to the algorithms section on the landing page
   const navigateToAlgorithms = () => {
     router.push('/#algorithms-section');
@@ -101,6 +323,26 @@ function VisualizerContent() {
               >
                 Algorithms
               </button>
+              <Link
+                href="/compare"
+                className="text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white transition-colors text-sm sm:text-base hidden sm:block"
+              >
+                Compare
+              </Link>
+              <Link
+                href="/benchmark"
+                className="text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white transition-colors text-sm sm:text-base hidden sm:block"
+              >
+                Benchmark
+              </Link>
+              <SignedIn>
+                <Link
+                  href="/progress"
+                  className="text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white transition-colors text-sm sm:text-base hidden sm:block"
+                >
+                  My Progress
+                </Link>
+              </SignedIn>
               <a href="#" className="text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white transition-colors text-sm sm:text-base hidden lg:block">Q&A</a>
               
               {/* Theme Toggle */}
@@ -139,6 +381,9 @@ function VisualizerContent() {
                 </div>
               </div>
               
+              {/* Permalink to the current step */}
+              <ShareLink buildLink={buildLink} />
+
               {/* Mode Toggle Buttons */}
               {/* Allow users to switch between code editor mode and full-screen visualization */}
               <div className="flex space-x-2 p-1 bg-gray-100 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
@@ -186,13 +431,24 @@ function VisualizerContent() {
             <div className="w-full lg:w-1/2 p-3 lg:p-6">
               {/* Code Editor Container */}
               <div className="editor-container p-4 bg-white dark:bg-gray-800 rounded-lg shadow-sm h-full transition-colors">
-                <CodeEditor code={code} onChange={(c) => setCode(c)} algorithmId={algorithmId || undefined} />
+                <CodeEditor
+                  code={code}
+                  onChange={(c) => setCode(c)}
+                  algorithmId={algorithmId || undefined}
+                  language={language}
+                  onLanguageChange={setLanguage}
+                />
               </div>
               
               {/* Control Panel - Run Button and GIF Export */}
               <div className="controls-container mt-4 flex flex-col sm:flex-row gap-4">
                 <div className="flex-1">
-                  <Controls onRun={() => runAlgorithm(code)} />
+                  <Controls
+                    onRun={() => runAlgorithm(code)}
+                    isRunning={isRunning}
+                    error={runError}
+                    logs={runLogs}
+                  />
                 </div>
                 <div className="flex-shrink-0">
                   <GifExporter states={states} algorithmId={algorithmId || undefined} />
@@ -203,7 +459,9 @@ function VisualizerContent() {
             {/* Right Panel - Visualization */}
             <div className="w-full lg:w-1/2 p-3 lg:p-6">
               <div className="visualiser-container bg-white dark:bg-gray-800 rounded-lg shadow-sm h-full p-4 transition-colors">
-                <Visualiser states={states} algorithmId={algorithmId || undefined} />
+                {inputEditors}
+                <Visualiser states={states} algorithmId={algorithmId || undefined} directed={graph.directed} pausedAt={quizFrame} startAt={startAt} onPositionChange={trackPosition} />
+                {quizPanel}
               </div>
             </div>
           </>
@@ -211,7 +469,9 @@ function VisualizerContent() {
           // Full-Screen Visualization Mode
           <div className="w-full p-3 lg:p-6">
             <div className="visualiser-container bg-white dark:bg-gray-800 rounded-lg shadow-sm h-full p-4 transition-colors">
-              <Visualiser states={states} algorithmId={algorithmId || undefined} />
+              {inputEditors}
+              <Visualiser states={states} algorithmId={algorithmId || undefined} directed={graph.directed} pausedAt={quizFrame} startAt={startAt} onPositionChange={trackPosition} />
+              {quizPanel}
             </div>
           </div>
         )}
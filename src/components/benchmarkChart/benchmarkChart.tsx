@@ -0,0 +1,120 @@
+'use client';
+
+/**
+ * Benchmark Chart Component
+ *
+ * Plots measured operation counts against input size for one algorithm,
+ * one series per input distribution, with the fitted n, n log n and n²
+ * curves of the chosen distribution drawn as dashed lines.
+ */
+
+import { BenchmarkPoint, Distribution, Metric, ModelFit, distributions, metricValue, models } from '@/utils/benchmark';
+
+interface BenchmarkChartProps {
+    points: BenchmarkPoint[];        // Measurements of one algorithm
+    metric: Metric;                  // Counter on the y axis
+    fits: ModelFit[];                // Fitted curves to overlay
+}
+
+const WIDTH = 600;
+const HEIGHT = 320;
+const MARGIN = { top: 16, right: 16, bottom: 36, left: 56 };
+
+const seriesColours: Record<Distribution, string> = {
+    random: '#3b82f6',
+    sorted: '#22c55e',
+    reversed: '#ef4444',
+};
+
+const modelColours: Record<string, string> = {
+    'n': '#9ca3af',
+    'n log n': '#a855f7',
+    'n²': '#f97316',
+};
+
+export function BenchmarkChart({ points, metric, fits }: BenchmarkChartProps) {
+    if (points.length === 0) {
+        return (
+            <div className="h-64 flex items-center justify-center text-sm text-gray-500 dark:text-gray-400">
+                Run the benchmark to plot results
+            </div>
+        );
+    }
+
+    const maxN = Math.max(...points.map(point => point.n));
+    const maxY = Math.max(1, ...points.map(point => metricValue(point.stats, metric)));
+    const plotWidth = WIDTH - MARGIN.left - MARGIN.right;
+    const plotHeight = HEIGHT - MARGIN.top - MARGIN.bottom;
+    const x = (n: number) => MARGIN.left + (n / maxN) * plotWidth;
+    // Fitted curves may overshoot the data, so clamp them to the plot area
+    const y = (value: number) => MARGIN.top + plotHeight - (Math.min(value, maxY * 1.1) / (maxY * 1.1)) * plotHeight;
+
+    const curveSamples = Array.from({ length: 41 }, (_, i) => (maxN * i) / 40);
+    const ticks = [0, 0.25, 0.5, 0.75, 1];
+
+    return (
+        <div className="w-full">
+            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto text-gray-500 dark:text-gray-400">
+                {/* Axes and grid */}
+                {ticks.map(tick => (
+                    <g key={tick}>
+                        <line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={y(tick * maxY * 1.1)} y2={y(tick * maxY * 1.1)} stroke="currentColor" strokeOpacity={0.2} />
+                        <text x={MARGIN.left - 6} y={y(tick * maxY * 1.1) + 4} textAnchor="end" fontSize={11} fill="currentColor">
+                            {Math.round(tick * maxY * 1.1)}
+                        </text>
+                        <text x={x(tick * maxN)} y={HEIGHT - MARGIN.bottom + 16} textAnchor="middle" fontSize={11} fill="currentColor">
+                            {Math.round(tick * maxN)}
+                        </text>
+                    </g>
+                ))}
+                <text x={MARGIN.left + plotWidth / 2} y={HEIGHT - 4} textAnchor="middle" fontSize={12} fill="currentColor">
+                    Input size n
+                </text>
+
+                {/* Fitted curves */}
+                {fits.map(fit => {
+                    const growth = models.find(model => model.id === fit.model)!.growth;
+                    const path = curveSamples
+                        .map((n, i) => `${i === 0 ? 'M' : 'L'}${x(n).toFixed(1)},${y(fit.coefficient * growth(n)).toFixed(1)}`)
+                        .join(' ');
+                    return <path key={fit.model} d={path} fill="none" stroke={modelColours[fit.model]} strokeWidth={1.5} strokeDasharray="6 4" />;
+                })}
+
+                {/* Measured series */}
+                {distributions.map(({ id }) => {
+                    const series = points.filter(point => point.distribution === id).sort((a, b) => a.n - b.n);
+                    if (series.length === 0) return null;
+                    const path = series
+                        .map((point, i) => `${i === 0 ? 'M' : 'L'}${x(point.n).toFixed(1)},${y(metricValue(point.stats, metric)).toFixed(1)}`)
+                        .join(' ');
+                    return (
+                        <g key={id}>
+                            <path d={path} fill="none" stroke={seriesColours[id]} strokeWidth={2} />
+                            {series.map(point => (
+                                <circle key={point.n} cx={x(point.n)} cy={y(metricValue(point.stats, metric))} r={3} fill={seriesColours[id]}>
+                                    <title>{`${id}, n = ${point.n}: ${metricValue(point.stats, metric)}`}</title>
+                                </circle>
+                            ))}
+                        </g>
+                    );
+                })}
+            </svg>
+
+            {/* Legend */}
+            <div className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-600 dark:text-gray-400">
+                {distributions.map(({ id, name }) => (
+                    <span key={id} className="flex items-center gap-1">
+                        <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: seriesColours[id] }} />
+                        {name}
+                    </span>
+                ))}
+                {fits.map(fit => (
+                    <span key={fit.model} className="flex items-center gap-1">
+                        <span className="inline-block w-4 border-t-2 border-dashed" style={{ borderColor: modelColours[fit.model] }} />
+                        {fit.coefficient.toFixed(2)} · {fit.model} (R² {fit.rSquared.toFixed(3)})
+                    </span>
+                ))}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,185 @@
+'use client';
+
+/**
+ * Call Stack Panel Component
+ *
+ * Shows the recursive calls active in the frame on screen, innermost on
+ * top, next to the recursion tree of every call made so far. The tree is
+ * rebuilt from the call stacks of the frames up to the current one, so it
+ * grows and unwinds as the animation steps forwards and backwards.
+ */
+
+import { CallFrame } from '@/algorithms/call-stack';
+import { Trace } from '@/algorithms/trace';
+
+interface CallStackPanelProps {
+    states: Trace;
+    currentState: number;
+}
+
+interface TreeCall {
+    call: CallFrame;
+    parent: number | null;     // Id of the caller, null for the outermost call
+    children: number[];
+    x: number;                 // Horizontal slot, assigned by layoutTree
+}
+
+const NODE_WIDTH = 76;
+const NODE_HEIGHT = 24;
+const LEVEL_GAP = 44;
+
+const callStackOf = (frame: Trace[number] | undefined): CallFrame[] | undefined =>
+    frame && 'callStack' in frame ? frame.callStack : undefined;
+
+// Arguments of a call, e.g. "0, 4" or "B"
+function callArguments(call: CallFrame): string {
+    if (call.node !== undefined) return call.node;
+    if (call.lo !== undefined && call.hi !== undefined) return `${call.lo}, ${call.hi}`;
+    return '';
+}
+
+// Collect every call seen up to the current frame, linked to its caller
+function buildTree(states: Trace, currentState: number): Map<number, TreeCall> {
+    const calls = new Map<number, TreeCall>();
+    for (const frame of states.slice(0, currentState + 1)) {
+        const stack = callStackOf(frame) ?? [];
+        stack.forEach((call, index) => {
+            if (calls.has(call.id)) return;
+            const parent = index > 0 ? stack[index - 1].id : null;
+            calls.set(call.id, { call, parent, children: [], x: 0 });
+            if (parent !== null) calls.get(parent)?.children.push(call.id);
+        });
+    }
+    return calls;
+}
+
+// Give leaves consecutive slots and centre each caller over its children; returns the slot count
+function layoutTree(calls: Map<number, TreeCall>): number {
+    let nextSlot = 0;
+    const place = (id: number) => {
+        const node = calls.get(id)!;
+        if (node.children.length === 0) {
+            node.x = nextSlot++;
+            return;
+        }
+        node.children.forEach(place);
+        const first = calls.get(node.children[0])!;
+        const last = calls.get(node.children[node.children.length - 1])!;
+        node.x = (first.x + last.x) / 2;
+    };
+    for (const [id, node] of calls) {
+        if (node.parent === null) place(id);
+    }
+    return nextSlot;
+}
+
+export function CallStackPanel({ states, currentState }: CallStackPanelProps) {
+    if (!states.some(frame => callStackOf(frame) !== undefined)) return null;
+
+    const stack = callStackOf(states[currentState]) ?? [];
+    const activeIds = new Set(stack.map(call => call.id));
+    const innermost = stack[stack.length - 1]?.id;
+
+    const tree = buildTree(states, currentState);
+    const slots = layoutTree(tree);
+    const levels = Math.max(0, ...Array.from(tree.values(), node => node.call.depth)) + 1;
+    const width = Math.max(slots, 1) * NODE_WIDTH;
+    const height = levels * (NODE_HEIGHT + LEVEL_GAP) - LEVEL_GAP;
+    const centre = (node: TreeCall) => ({
+        x: node.x * NODE_WIDTH + NODE_WIDTH / 2,
+        y: node.call.depth * (NODE_HEIGHT + LEVEL_GAP) + NODE_HEIGHT / 2
+    });
+
+    return (
+        <div className="mt-4 p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+            <h3 className="font-medium text-gray-900 dark:text-white text-sm sm:text-base mb-2">Recursion</h3>
+            <div className="flex flex-col md:flex-row gap-4">
+                {/* Call stack, innermost call on top */}
+                <div className="md:w-56 shrink-0">
+                    <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">Call stack</div>
+                    {stack.length === 0 ? (
+                        <p className="text-sm text-gray-500 dark:text-gray-400 italic">No calls active</p>
+                    ) : (
+                        <ol className="space-y-1">
+                            {[...stack].reverse().map(call => (
+                                <li
+                                    key={call.id}
+                                    className={`px-2 py-1 rounded font-mono text-xs ${
+                                        call.id === innermost
+                                            ? 'bg-blue-500 text-white'
+                                            : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300'
+                                    }`}
+                                    style={{ marginLeft: `${call.depth * 6}px` }}
+                                >
+                                    {call.name}({callArguments(call)})
+                                </li>
+                            ))}
+                        </ol>
+                    )}
+                </div>
+
+                {/* Recursion tree of every call made so far */}
+                <div className="flex-1 overflow-x-auto">
+                    <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">Recursion tree</div>
+                    {tree.size > 0 && (
+                        <svg width={width} height={height}>
+                            {Array.from(tree.values(), node => {
+                                if (node.parent === null) return null;
+                                const from = centre(tree.get(node.parent)!);
+                                const to = centre(node);
+                                return (
+                                    <line
+                                        key={`edge-${node.call.id}`}
+                                        x1={from.x}
+                                        y1={from.y + NODE_HEIGHT / 2}
+                                        x2={to.x}
+                                        y2={to.y - NODE_HEIGHT / 2}
+                                        className="stroke-gray-300 dark:stroke-gray-500"
+                                        strokeWidth={1.5}
+                                    />
+                                );
+                            })}
+                            {Array.from(tree.values(), node => {
+                                const { x, y } = centre(node);
+                                const status = node.call.id === innermost ? 'active' : activeIds.has(node.call.id) ? 'waiting' : 'done';
+                                return (
+                                    <g key={`call-${node.call.id}`}>
+                                        <rect
+                                            x={x - NODE_WIDTH / 2 + 3}
+                                            y={y - NODE_HEIGHT / 2}
+                                            width={NODE_WIDTH - 6}
+                                            height={NODE_HEIGHT}
+                                            rx={4}
+                                            className={
+                                                status === 'active' ? 'fill-blue-500' :
+                                                status === 'waiting' ? 'fill-yellow-300' :
+                                                'fill-gray-200 dark:fill-gray-600'
+                                            }
+                                        />
+                                        <text
+                                            x={x}
+                                            y={y}
+                                            textAnchor="middle"
+                                            dominantBaseline="central"
+                                            className={`font-mono text-[10px] ${status === 'active' ? 'fill-white' : 'fill-gray-800 dark:fill-gray-100'}`}
+                                        >
+                                            {callArguments(node.call)}
+                                        </text>
+                                    </g>
+                                );
+                            })}
+                        </svg>
+                    )}
+                    <div className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                        <span className="inline-block w-3 h-3 bg-blue-500 rounded mr-1"></span>
+                        Active call
+                        <span className="inline-block w-3 h-3 bg-yellow-300 rounded ml-3 mr-1"></span>
+                        Waiting on a child
+                        <span className="inline-block w-3 h-3 bg-gray-200 dark:bg-gray-600 rounded ml-3 mr-1"></span>
+                        Returned
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -7,12 +7,14 @@
  * - Playback controls for algorithm visualization
  * - Speed adjustment for animation playback
  * - Integration with the global state store
+ * - Display of sandbox errors and console output from the last run
  * 
  * The controls coordinate between the code editor and visualizer components,
  * allowing users to run their code and watch the resulting visualizations.
  */
 
 import { useStore } from '../../store';
+import { SandboxError } from '../../utils/codeSandbox';
 import {
   SignInButton,
   SignUpButton,
@@ -22,27 +24,69 @@ import {
 
 interface ControlsProps {
     onRun: () => void;
+    isRunning?: boolean;           // Whether user code is currently executing
+    error?: SandboxError | null;   // Structured error from the last run
+    logs?: string[];               // Console output captured from the last run
 }
 
-export function Controls({ onRun }: ControlsProps) {
+// Headings shown above each kind of run error
+const errorTitles: Record<SandboxError['kind'], string> = {
+    'syntax': 'Syntax error',
+    'missing-function': 'Function not found',
+    'runtime': 'Runtime error',
+    'timeout': 'Time limit exceeded',
+    'step-limit': 'Step limit exceeded',
+    'wrong-output': 'Wrong output',
+    'invalid-trace': 'Cannot visualise this run',
+    'unsupported': 'Cannot run this code'
+};
+
+export function Controls({ onRun, isRunning = false, error = null, logs = [] }: ControlsProps) {
     return (
-        <div className="flex items-center space-x-4">
-            {/* Run Button - Executes the user's code and generates visualizations */}
-            <SignedIn>
-                <button
-                    onClick={onRun}
-                    className="btn-base btn-success text-xs sm:text-sm whitespace-nowrap overflow-hidden"
-                >
-                    <span className="block truncate">Run Algorithm</span>
-                </button>
-            </SignedIn>
-            <SignedOut>
-                <SignInButton mode="modal">
-                    <button className="btn-base btn-success text-xs sm:text-sm whitespace-nowrap overflow-hidden">
-                        <span className="block truncate">Run Algorithm</span>
+        <div className="space-y-3">
+            <div className="flex items-center space-x-4">
+                {/* Run Button - Executes the user's code and generates visualizations */}
+                <SignedIn>
+                    <button
+                        onClick={onRun}
+                        disabled={isRunning}
+                        className="btn-base btn-success text-xs sm:text-sm whitespace-nowrap overflow-hidden"
+                    >
+                        <span className="block truncate">{isRunning ? 'Running...' : 'Run Algorithm'}</span>
                     </button>
-                </SignInButton>
-            </SignedOut>
+                </SignedIn>
+                <SignedOut>
+                    <SignInButton mode="modal">
+                        <button className="btn-base btn-success text-xs sm:text-sm whitespace-nowrap overflow-hidden">
+                            <span className="block truncate">Run Algorithm</span>
+                        </button>
+                    </SignInButton>
+                </SignedOut>
+            </div>
+
+            {/* Run Error - Shown next to the editor instead of silently replaying the demo */}
+            {error && (
+                <div className="p-3 rounded-lg border bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800">
+                    <h4 className="text-sm font-medium text-red-800 dark:text-red-200">
+                        {errorTitles[error.kind]}: {error.message}
+                    </h4>
+                    {error.details && (
+                        <pre className="text-xs mt-1 text-gray-600 dark:text-gray-400 whitespace-pre-wrap break-words max-h-32 overflow-auto">
+                            {error.details}
+                        </pre>
+                    )}
+                </div>
+            )}
+
+            {/* Console Output - Anything the user's code logged while running */}
+            {logs.length > 0 && (
+                <div className="p-3 rounded-lg border bg-gray-50 dark:bg-gray-700 border-gray-200 dark:border-gray-600">
+                    <h4 className="text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Console output</h4>
+                    <pre className="text-xs text-gray-600 dark:text-gray-400 whitespace-pre-wrap break-words max-h-32 overflow-auto">
+                        {logs.join('\n')}
+                    </pre>
+                </div>
+            )}
         </div>
     );
 } 
\ No newline at end of file
@@ -0,0 +1,132 @@
+'use client';
+
+/**
+ * Frontier Panel Component
+ *
+ * Side panel for Dijkstra's algorithm, A* and Prim's algorithm: the
+ * priority queue in pop order, marking the entry popped this step and any
+ * entry pushed or decreased, and a table of every node's distance (g, h and
+ * f scores for A*, key for Prim) and parent that fills in as edges are
+ * relaxed.
+ */
+
+import { FrontierEntry, GraphFrame } from '@/algorithms/trace';
+
+interface FrontierPanelProps {
+    frame: GraphFrame;
+}
+
+// ∞ for unreached nodes, one decimal for A*'s Euclidean scores
+function formatScore(value: number | undefined): string {
+    if (value === undefined) return '—';
+    if (!Number.isFinite(value)) return '∞';
+    return Number.isInteger(value) ? String(value) : value.toFixed(1);
+}
+
+const ENTRY_STYLES: Record<NonNullable<FrontierEntry['change']> | 'none', string> = {
+    popped: 'bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200',
+    pushed: 'bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200',
+    decreased: 'bg-yellow-200 dark:bg-yellow-700 text-gray-900 dark:text-white',
+    none: 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300'
+};
+
+function changeLabel(entry: FrontierEntry): string {
+    switch (entry.change) {
+        case 'popped': return 'popped';
+        case 'pushed': return 'pushed';
+        case 'decreased': return `↓ from ${formatScore(entry.previous)}`;
+        default: return '';
+    }
+}
+
+export function FrontierPanel({ frame }: FrontierPanelProps) {
+    const frontier = frame.frontier;
+    if (!frontier) return null;
+
+    const isAStar = frame.openSet !== undefined;
+    const isPrim = frame.treeWeight !== undefined;
+    const settled = new Set(isAStar ? frame.closedSet ?? [] : frame.visited ?? []);
+    const changed = frontier.find(entry => entry.change === 'pushed' || entry.change === 'decreased')?.node;
+    const queued = frontier.filter(entry => entry.change !== 'popped');
+
+    return (
+        <div className="lg:w-72 shrink-0 p-3 bg-gray-50 dark:bg-gray-700 rounded-lg text-xs sm:text-sm">
+            <h3 className="font-medium text-gray-900 dark:text-white text-sm sm:text-base">Priority queue</h3>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+                {isAStar ? 'Open set by f = g + h, lowest first' :
+                 isPrim ? 'Nodes outside the tree by cheapest joining edge' :
+                 'Unvisited nodes by distance, closest first'}
+            </p>
+
+            {frontier.length === 0 ? (
+                <p className="text-gray-500 dark:text-gray-400 italic">Empty</p>
+            ) : (
+                <ol className="space-y-1 font-mono">
+                    {frontier.map(entry => (
+                        <li
+                            key={`${entry.node}-${entry.change ?? 'queued'}`}
+                            className={`flex items-center justify-between px-2 py-1 rounded ${ENTRY_STYLES[entry.change ?? 'none']}`}
+                        >
+                            <span className={entry.change === 'popped' ? 'line-through' : ''}>{entry.node}</span>
+                            <span className="text-[10px]">{changeLabel(entry)}</span>
+                            <span>{formatScore(entry.priority)}</span>
+                        </li>
+                    ))}
+                </ol>
+            )}
+            {queued.length > 0 && (
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Next to pop: {queued[0].node}</p>
+            )}
+
+            {/* Distance / score and parent of every node */}
+            <table className="mt-3 w-full font-mono text-xs border-collapse">
+                <thead>
+                    <tr className="text-gray-500 dark:text-gray-400">
+                        <th className="text-left font-normal">Node</th>
+                        {isAStar ? (
+                            <>
+                                <th className="text-right font-normal">g</th>
+                                <th className="text-right font-normal">h</th>
+                                <th className="text-right font-normal">f</th>
+                            </>
+                        ) : (
+                            <th className="text-right font-normal">{isPrim ? 'key' : 'dist'}</th>
+                        )}
+                        <th className="text-right font-normal">parent</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {frame.nodes.map(node => (
+                        <tr
+                            key={node.id}
+                            className={
+                                node.id === changed ? 'bg-yellow-200 dark:bg-yellow-700 text-gray-900 dark:text-white' :
+                                node.id === frame.current ? 'bg-blue-100 dark:bg-blue-900 text-gray-900 dark:text-white' :
+                                settled.has(node.id) ? 'text-gray-400 dark:text-gray-500' :
+                                'text-gray-700 dark:text-gray-300'
+                            }
+                        >
+                            <td className="px-1">{node.id}</td>
+                            {isAStar ? (
+                                <>
+                                    <td className="px-1 text-right">{formatScore(node.g)}</td>
+                                    <td className="px-1 text-right">{formatScore(node.h)}</td>
+                                    <td className="px-1 text-right">{formatScore(node.f)}</td>
+                                </>
+                            ) : (
+                                <td className="px-1 text-right">{formatScore(isPrim ? node.key : node.distance)}</td>
+                            )}
+                            <td className="px-1 text-right">{node.parent ?? '—'}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            <div className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                <span className="inline-block w-3 h-3 bg-yellow-200 dark:bg-yellow-700 rounded mr-1"></span>
+                Relaxed this step
+                <span className="inline-block w-3 h-3 bg-blue-100 dark:bg-blue-900 rounded ml-3 mr-1"></span>
+                Current
+            </div>
+        </div>
+    );
+}
@@ -1,9 +1,11 @@
 /**
  * GIF Exporter Component
  * 
- * This component allows users to export algorithm visualizations as animated GIFs.
- * It provides:
+ * This component allows users to export algorithm visualizations as animated GIFs
+ * or videos. It provides:
  * - GIF generation from visualization states using FFmpeg.wasm
+ * - MP4 and WebM rendered on the server (see /api/export-gif), which also
+ *   makes the GIF when FFmpeg.wasm cannot load
  * - Customizable export settings (frame rate, quality, dimensions)
  * - Download functionality for sharing visualizations
  * - Integration with the visualization playback system
@@ -15,9 +17,13 @@
 
 import { useState, useRef, useCallback } from 'react';
 import { ffmpegService, GifExportOptions, GifExportProgress } from '@/utils/ffmpegService';
+import { Trace } from '@/algorithms/trace';
+import { drawFrame } from '@/utils/frameDrawing';
+import { exportOnServer } from '@/utils/exportClient';
+import { DEFAULT_EXPORT_OPTIONS, VideoFormat, videoFormats } from '@/utils/videoExport';
 
 interface GifExporterProps {
-    states: any[];
+    states: Trace;
     algorithmId?: string;
     canvasRef?: React.RefObject<HTMLCanvasElement | null>;
 }
@@ -26,6 +32,7 @@ export function GifExporter({ states, algorithmId, canvasRef }: GifExporterProps
     const [isExporting, setIsExporting] = useState(false);
     const [progress, setProgress] = useState<GifExportProgress | null>(null);
     const [showSettings, setShowSettings] = useState(false);
+    const [format, setFormat] = useState<VideoFormat>('gif');
     const [exportOptions, setExportOptions] = useState<GifExportOptions>({
         width: 800,
         height: 600,
@@ -57,194 +64,98 @@ export function GifExporter({ states, algorithmId, canvasRef }: GifExporterProps
             const state = states[stateIndex];
             if (!state) return null;
 
-            // Clear canvas
-            ctx.fillStyle = '#ffffff';
-            ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-            // Render based on visualization type
-            if (state.values) {
-                // Bar chart visualization
-                renderBarChart(ctx, state, canvas.width, canvas.height);
-            } else if (state.nodes) {
-                // Graph visualization
-                renderGraph(ctx, state, canvas.width, canvas.height);
-            } else if (state.buckets) {
-                // Hash table visualization
-                renderHashTable(ctx, state, canvas.width, canvas.height);
-            }
+            // Same drawing code as the server-side export
+            drawFrame(ctx, state, canvas.width, canvas.height, algorithmId || 'Algorithm Visualization');
 
             return await ffmpegService.captureFrame(canvas);
         } catch (error) {
             console.error('Failed to capture frame:', error);
             return null;
         }
-    }, [states, exportOptions, canvasRef]);
+    }, [states, exportOptions, canvasRef, algorithmId]);
 
     /**
-     * Render bar chart visualization on canvas
+     * Generate a GIF in the browser with FFmpeg.wasm
      */
-    const renderBarChart = (ctx: CanvasRenderingContext2D, state: any, width: number, height: number) => {
-        const values = state.values || [];
-        const comparing = state.comparing || [];
-        const swapping = state.swapping || [];
-        const sorted = state.sorted || [];
-        const searching = state.searching || [];
-        const found = state.found || [];
-
-        const barWidth = width / values.length;
-        const maxValue = Math.max(...values);
-
-        values.forEach((value: number, index: number) => {
-            const barHeight = (value / maxValue) * (height - 100);
-            const x = index * barWidth;
-            const y = height - 50 - barHeight;
-
-            // Determine bar color
-            let color = '#6b7280'; // gray-500
-            if (comparing.includes(index)) color = '#fbbf24'; // yellow-400
-            else if (swapping.includes(index)) color = '#f87171'; // red-400
-            else if (sorted.includes(index)) color = '#4ade80'; // green-400
-            else if (searching.includes(index)) color = '#60a5fa'; // blue-400
-            else if (found.includes(index)) color = '#10b981'; // green-500
-
-            ctx.fillStyle = color;
-            ctx.fillRect(x + 2, y, barWidth - 4, barHeight);
-
-            // Draw value text
-            ctx.fillStyle = '#000000';
-            ctx.font = '12px Arial';
-            ctx.textAlign = 'center';
-            ctx.fillText(value.toString(), x + barWidth / 2, y - 5);
-        });
-
-        // Draw title
-        ctx.fillStyle = '#000000';
-        ctx.font = '16px Arial';
-        ctx.textAlign = 'center';
-        ctx.fillText(algorithmId || 'Algorithm Visualization', width / 2, 30);
-    };
-
-    /**
-     * Render graph visualization on canvas
-     */
-    const renderGraph = (ctx: CanvasRenderingContext2D, state: any, width: number, height: number) => {
-        const { nodes, edges } = state;
-        if (!nodes || !edges) return;
+    const exportInBrowser = async (): Promise<Blob> => {
+        setProgress({ progress: 0, stage: 'loading', message: 'Loading FFmpeg...' });
 
-        // Draw edges
-        edges.forEach((edge: any) => {
-            const fromNode = nodes.find((n: any) => n.id === edge.from);
-            const toNode = nodes.find((n: any) => n.id === edge.to);
-            
-            if (fromNode && toNode) {
-                ctx.strokeStyle = edge.status === 'path' ? '#10b981' : '#6b7280';
-                ctx.lineWidth = edge.status === 'path' ? 3 : 1;
-                ctx.beginPath();
-                ctx.moveTo(fromNode.x, fromNode.y);
-                ctx.lineTo(toNode.x, toNode.y);
-                ctx.stroke();
+        // Capture all frames
+        setProgress({ progress: 10, stage: 'processing', message: 'Capturing frames...' });
+        
+        const frames: Uint8Array[] = [];
+        for (let i = 0; i < states.length; i++) {
+            const frame = await captureFrame(i);
+            if (frame) {
+                frames.push(frame);
             }
-        });
-
-        // Draw nodes
-        nodes.forEach((node: any) => {
-            let color = '#6b7280'; // gray-500
-            if (node.status === 'visited') color = '#60a5fa'; // blue-400
-            else if (node.status === 'current') color = '#fbbf24'; // yellow-400
-            else if (node.status === 'path') color = '#10b981'; // green-500
-            else if (node.status === 'start') color = '#8b5cf6'; // purple-500
-            else if (node.status === 'end') color = '#ef4444'; // red-500
+            
+            // Update progress
+            const frameProgress = 10 + ((i / states.length) * 20);
+            setProgress({ 
+                progress: frameProgress, 
+                stage: 'processing', 
+                message: `Captured ${i + 1}/${states.length} frames` 
+            });
+        }
 
-            ctx.fillStyle = color;
-            ctx.beginPath();
-            ctx.arc(node.x, node.y, 20, 0, 2 * Math.PI);
-            ctx.fill();
+        if (frames.length === 0) {
+            throw new Error('No frames captured');
+        }
 
-            // Draw node label
-            ctx.fillStyle = '#ffffff';
-            ctx.font = '12px Arial';
-            ctx.textAlign = 'center';
-            ctx.fillText(node.id, node.x, node.y + 4);
-        });
+        // Generate GIF
+        return ffmpegService.generateGifSimple(
+            frames,
+            exportOptions,
+            setProgress
+        );
     };
 
     /**
-     * Render hash table visualization on canvas
+     * Render the export on the server and wait for the file
      */
-    const renderHashTable = (ctx: CanvasRenderingContext2D, state: any, width: number, height: number) => {
-        const { buckets } = state;
-        if (!buckets) return;
-
-        const bucketWidth = width / buckets.length;
-        
-        buckets.forEach((bucket: any, index: number) => {
-            const x = index * bucketWidth;
-            const y = 100;
-
-            // Draw bucket
-            ctx.strokeStyle = '#6b7280';
-            ctx.lineWidth = 1;
-            ctx.strokeRect(x + 10, y, bucketWidth - 20, height - 150);
-
-            // Draw bucket items
-            if (bucket && bucket.length > 0) {
-                bucket.forEach((item: any, itemIndex: number) => {
-                    const itemY = y + 30 + (itemIndex * 25);
-                    ctx.fillStyle = '#60a5fa';
-                    ctx.fillRect(x + 15, itemY, bucketWidth - 30, 20);
-                    
-                    ctx.fillStyle = '#000000';
-                    ctx.font = '10px Arial';
-                    ctx.textAlign = 'center';
-                    ctx.fillText(item.toString(), x + bucketWidth / 2, itemY + 15);
-                });
-            }
-        });
+    const exportViaServer = async (): Promise<Blob> => {
+        setProgress({ progress: 0, stage: 'processing', message: 'Rendering on the server...' });
+
+        return exportOnServer(states, algorithmId || 'Algorithm Visualization', {
+            format,
+            width: exportOptions.width ?? DEFAULT_EXPORT_OPTIONS.width,
+            height: exportOptions.height ?? DEFAULT_EXPORT_OPTIONS.height,
+            fps: exportOptions.fps ?? DEFAULT_EXPORT_OPTIONS.fps,
+            loop: exportOptions.loop ?? DEFAULT_EXPORT_OPTIONS.loop
+        }, fraction => setProgress({
+            progress: fraction * 100,
+            stage: fraction < 0.8 ? 'processing' : 'encoding',
+            message: fraction < 0.8 ? 'Rendering frames on the server...' : `Encoding ${videoFormats[format].label}...`
+        }));
     };
 
     /**
-     * Handle GIF export
+     * Handle export
      */
     const handleExport = async () => {
         if (states.length === 0) return;
         
         setIsExporting(true);
-        setProgress({ progress: 0, stage: 'loading', message: 'Loading FFmpeg...' });
 
         try {
-            // Capture all frames
-            setProgress({ progress: 10, stage: 'processing', message: 'Capturing frames...' });
-            
-            const frames: Uint8Array[] = [];
-            for (let i = 0; i < states.length; i++) {
-                const frame = await captureFrame(i);
-                if (frame) {
-                    frames.push(frame);
+            let blob: Blob;
+            if (format === 'gif') {
+                // Fall back to the server when FFmpeg.wasm cannot load or fails
+                try {
+                    blob = await exportInBrowser();
+                } catch (error) {
+                    console.warn('Browser GIF export failed, rendering on the server:', error);
+                    blob = await exportViaServer();
                 }
-                
-                // Update progress
-                const frameProgress = 10 + ((i / states.length) * 20);
-                setProgress({ 
-                    progress: frameProgress, 
-                    stage: 'processing', 
-                    message: `Captured ${i + 1}/${states.length} frames` 
-                });
-            }
-
-            if (frames.length === 0) {
-                throw new Error('No frames captured');
+            } else {
+                blob = await exportViaServer();
             }
 
-            // Generate GIF
-            const blob = await ffmpegService.generateGifSimple(
-                frames,
-                exportOptions,
-                setProgress
-            );
-
-            // Download the GIF
-            const filename = `${algorithmId || 'algorithm'}_animation.gif`;
+            // Download the file
+            const filename = `${algorithmId || 'algorithm'}_animation.${format}`;
             ffmpegService.downloadBlob(blob, filename);
+            setProgress({ progress: 100, stage: 'complete', message: `${videoFormats[format].label} downloaded` });
 
         } catch (error) {
             console.error('Export failed:', error);
@@ -267,7 +178,7 @@ export function GifExporter({ states, algorithmId, canvasRef }: GifExporterProps
                 className="btn-base btn-secondary text-xs sm:text-sm whitespace-nowrap overflow-hidden"
             >
                 <span className="block truncate">
-                    {isExporting ? 'Exporting...' : 'Export GIF'}
+                    {isExporting ? 'Exporting...' : `Export ${videoFormats[format].label}`}
                 </span>
             </button>
 
@@ -282,6 +193,21 @@ export function GifExporter({ states, algorithmId, canvasRef }: GifExporterProps
             {/* Export Settings */}
             {showSettings && (
                 <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded-lg space-y-3">
+                    <div>
+                        <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+                            Format
+                        </label>
+                        <select
+                            value={format}
+                            onChange={(e) => setFormat(e.target.value as VideoFormat)}
+                            className="w-full px-2 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800"
+                        >
+                            {(Object.keys(videoFormats) as VideoFormat[]).map(id => (
+                                <option key={id} value={id}>{videoFormats[id].label}</option>
+                            ))}
+                        </select>
+                    </div>
+
                     <div className="grid grid-cols-2 gap-3">
                         <div>
                             <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
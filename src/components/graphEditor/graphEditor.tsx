@@ -0,0 +1,309 @@
+'use client';
+
+/**
+ * Graph Editor Component
+ *
+ * Lets users build the graph that graph algorithms run on:
+ * - Add, drag and delete nodes and edges on the canvas
+ * - Edit edge weights and toggle directed/undirected edges
+ * - Click to pick the start and goal nodes
+ * - Save the graph to a JSON file and load it back
+ * - Load example graphs, such as negative-weight graphs for Bellman-Ford
+ *
+ * Like the input panel, the editor does not change the store itself;
+ * every edit is reported through onChange.
+ */
+
+import { useRef, useState } from 'react';
+import { GraphRenderer } from '../visualiser/GraphRenderer';
+import {
+    EditableGraph,
+    GRAPH_BOUNDS,
+    MIN_EDGE_WEIGHT,
+    MAX_EDGE_WEIGHT,
+    addNode,
+    moveNode,
+    removeNode,
+    addEdge,
+    removeEdge,
+    setEdgeWeight,
+    setDirected,
+    setStart,
+    setEnd,
+    getDefaultEditableGraph,
+    graphPresets,
+    GraphPreset,
+    getPresetGraph,
+    serializeGraph,
+    parseGraph,
+} from '@/utils/graphEditing';
+
+interface GraphEditorProps {
+    graph: EditableGraph;                       // Graph being edited
+    onChange: (graph: EditableGraph) => void;   // Called after every edit
+}
+
+/**
+ * Editing Tools
+ */
+type EditTool = 'select' | 'add-node' | 'add-edge' | 'delete' | 'start' | 'goal';
+
+const tools: { id: EditTool; name: string; hint: string }[] = [
+    { id: 'select', name: 'Select', hint: 'Drag nodes to move them, click an edge to edit its weight' },
+    { id: 'add-node', name: 'Add node', hint: 'Click empty space to add a node' },
+    { id: 'add-edge', name: 'Add edge', hint: 'Click two nodes to connect them' },
+    { id: 'delete', name: 'Delete', hint: 'Click a node or edge to delete it' },
+    { id: 'start', name: 'Set start', hint: 'Click the node to start from' },
+    { id: 'goal', name: 'Set goal', hint: 'Click the node to search for' },
+];
+
+export function GraphEditor({ graph, onChange }: GraphEditorProps) {
+    const [isEditing, setIsEditing] = useState(false);
+    const [tool, setTool] = useState<EditTool>('select');
+    const [edgeSource, setEdgeSource] = useState<string | null>(null);   // First node picked by the edge tool
+    const [selectedEdge, setSelectedEdge] = useState<number | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [example, setExample] = useState<{ preset: GraphPreset; graph: EditableGraph } | null>(null);   // Last example loaded
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const selectTool = (next: EditTool) => {
+        setTool(next);
+        setEdgeSource(null);
+        setSelectedEdge(null);
+    };
+
+    const handleBackgroundClick = (x: number, y: number) => {
+        setSelectedEdge(null);
+        if (tool === 'add-node') {
+            onChange(addNode(graph, x, y));
+        }
+    };
+
+    const handleNodeClick = (id: string) => {
+        switch (tool) {
+            case 'add-edge':
+                if (edgeSource === null) {
+                    setEdgeSource(id);
+                } else {
+                    onChange(addEdge(graph, edgeSource, id));
+                    setEdgeSource(null);
+                }
+                break;
+            case 'delete':
+                onChange(removeNode(graph, id));
+                break;
+            case 'start':
+                onChange(setStart(graph, id));
+                break;
+            case 'goal':
+                onChange(setEnd(graph, id));
+                break;
+        }
+    };
+
+    const handleEdgeClick = (index: number) => {
+        if (tool === 'delete') {
+            onChange(removeEdge(graph, index));
+            setSelectedEdge(null);
+        } else if (tool === 'select') {
+            setSelectedEdge(index);
+        }
+    };
+
+    const handleNodeDrag = (id: string, x: number, y: number) => {
+        if (tool === 'select') {
+            onChange(moveNode(graph, id, x, y));
+        }
+    };
+
+    /**
+     * Save the graph as a JSON download
+     */
+    const handleSave = () => {
+        const blob = new Blob([serializeGraph(graph)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = 'graph.json';
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    /**
+     * Load a graph from a JSON file chosen by the user
+     */
+    const handleLoad = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';   // Allow loading the same file again
+        if (!file) return;
+
+        const parsed = parseGraph(await file.text());
+        if (!parsed.graph) {
+            setError(parsed.error);
+            return;
+        }
+
+        setError(null);
+        setSelectedEdge(null);
+        setEdgeSource(null);
+        onChange(parsed.graph);
+    };
+
+    const handleReset = () => {
+        setError(null);
+        setSelectedEdge(null);
+        setEdgeSource(null);
+        onChange(getDefaultEditableGraph());
+    };
+
+    const handlePreset = (preset: GraphPreset) => {
+        const next = getPresetGraph(preset);
+        setError(null);
+        setSelectedEdge(null);
+        setEdgeSource(null);
+        setExample({ preset, graph: next });
+        onChange(next);
+    };
+
+    // The example's explanation stays until the graph is edited
+    const exampleDescription = example?.graph === graph
+        ? graphPresets.find(option => option.id === example.preset)?.description
+        : undefined;
+
+    // The editor shows the plain graph with only start and goal highlighted
+    const displayNodes = graph.nodes.map(node => ({
+        ...node,
+        status: (node.id === graph.start ? 'start' : node.id === graph.end ? 'end' : 'unvisited') as 'start' | 'end' | 'unvisited'
+    }));
+    const displayEdges = graph.edges.map(edge => ({ ...edge, status: 'normal' as const }));
+    const activeTool = tools.find(option => option.id === tool)!;
+    const edgeBeingEdited = selectedEdge !== null ? graph.edges[selectedEdge] : undefined;
+
+    return (
+        <div className="mb-4 p-3 bg-gray-50 dark:bg-gray-700 rounded-lg space-y-3">
+            {/* Summary Row */}
+            <div className="flex flex-wrap items-center gap-2">
+                <span className="text-xs sm:text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Graph:
+                </span>
+                <span className="text-xs sm:text-sm text-gray-600 dark:text-gray-400 flex-1">
+                    {graph.nodes.length} nodes, {graph.edges.length} {graph.directed ? 'directed' : 'undirected'} edges
+                    · start {graph.start} · goal {graph.end}
+                </span>
+                <button
+                    onClick={() => setIsEditing(!isEditing)}
+                    className="btn-base btn-primary text-xs sm:text-sm"
+                >
+                    {isEditing ? 'Done' : 'Edit graph'}
+                </button>
+                <button onClick={handleSave} className="btn-base btn-muted text-xs sm:text-sm">
+                    Save JSON
+                </button>
+                <button onClick={() => fileInputRef.current?.click()} className="btn-base btn-muted text-xs sm:text-sm">
+                    Load JSON
+                </button>
+                <select
+                    value=""
+                    onChange={(e) => handlePreset(e.target.value as GraphPreset)}
+                    className="px-2 py-1 text-xs sm:text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                    <option value="" disabled>Examples</option>
+                    {graphPresets.map(option => (
+                        <option key={option.id} value={option.id}>{option.name}</option>
+                    ))}
+                </select>
+                <button onClick={handleReset} className="btn-base btn-secondary text-xs sm:text-sm">
+                    Reset
+                </button>
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept="application/json,.json"
+                    onChange={handleLoad}
+                    className="hidden"
+                />
+            </div>
+
+            {isEditing && (
+                <>
+                    {/* Tool Row */}
+                    <div className="flex flex-wrap items-center gap-2">
+                        {tools.map(option => (
+                            <button
+                                key={option.id}
+                                onClick={() => selectTool(option.id)}
+                                className={`btn-base text-xs sm:text-sm ${tool === option.id ? 'btn-primary' : 'btn-secondary'}`}
+                            >
+                                {option.name}
+                            </button>
+                        ))}
+                        <label className="flex items-center gap-1 text-xs sm:text-sm text-gray-700 dark:text-gray-300 ml-auto">
+                            <input
+                                type="checkbox"
+                                checked={graph.directed}
+                                onChange={(e) => onChange(setDirected(graph, e.target.checked))}
+                            />
+                            Directed
+                        </label>
+                    </div>
+
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {tool === 'add-edge' && edgeSource ? `Click the node to connect ${edgeSource} to` : activeTool.hint}
+                    </p>
+
+                    {/* Editing Canvas */}
+                    <div className="h-80 bg-white dark:bg-gray-800 rounded-lg">
+                        <GraphRenderer
+                            nodes={displayNodes}
+                            edges={displayEdges}
+                            directed={graph.directed}
+                            bounds={GRAPH_BOUNDS}
+                            selectedNode={edgeSource}
+                            selectedEdge={selectedEdge}
+                            onBackgroundClick={handleBackgroundClick}
+                            onNodeClick={handleNodeClick}
+                            onNodeDrag={handleNodeDrag}
+                            onEdgeClick={handleEdgeClick}
+                        />
+                    </div>
+
+                    {/* Weight Editor */}
+                    {edgeBeingEdited && selectedEdge !== null && (
+                        <div className="flex items-center gap-2">
+                            <label className="text-xs sm:text-sm font-medium text-gray-700 dark:text-gray-300">
+                                Weight of {edgeBeingEdited.from} {graph.directed ? '→' : '–'} {edgeBeingEdited.to}:
+                            </label>
+                            <input
+                                type="number"
+                                min={MIN_EDGE_WEIGHT}
+                                max={MAX_EDGE_WEIGHT}
+                                value={edgeBeingEdited.weight}
+                                onChange={(e) => {
+                                    const weight = Number(e.target.value);
+                                    if (Number.isFinite(weight)) onChange(setEdgeWeight(graph, selectedEdge, weight));
+                                }}
+                                className="w-20 px-2 py-1 text-xs sm:text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                            <button
+                                onClick={() => {
+                                    onChange(removeEdge(graph, selectedEdge));
+                                    setSelectedEdge(null);
+                                }}
+                                className="btn-base btn-secondary text-xs sm:text-sm"
+                            >
+                                Delete edge
+                            </button>
+                        </div>
+                    )}
+                </>
+            )}
+
+            {exampleDescription && (
+                <p className="text-xs text-gray-500 dark:text-gray-400">{exampleDescription}</p>
+            )}
+            {error && (
+                <p className="text-xs text-red-600 dark:text-red-400">{error}</p>
+            )}
+        </div>
+    );
+}
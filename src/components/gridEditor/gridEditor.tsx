@@ -0,0 +1,177 @@
+'use client';
+
+/**
+ * Grid Editor Component
+ *
+ * Lets users build the grid used by grid pathfinding mode:
+ * - Paint walls and weighted terrain (mud, water) by clicking or dragging
+ * - Click to pick the start and goal cells
+ * - Choose the grid size, 4- or 8-connectivity and the A* heuristic
+ *
+ * A paint stroke is kept locally and reported through onChange when the
+ * pointer is released, so the trace is regenerated once per stroke.
+ */
+
+import { useEffect, useState } from 'react';
+import { GridRenderer } from '../visualiser/GridRenderer';
+import {
+    GridConfig,
+    GridHeuristic,
+    gridHeuristics,
+    gridSizes,
+    terrainTypes,
+    TERRAIN_EMPTY,
+    TERRAIN_WALL,
+    TERRAIN_MUD,
+    TERRAIN_WATER,
+    paintCell,
+    setGridStart,
+    setGridGoal,
+    resizeGrid,
+    clearGrid,
+    scatterTerrain,
+    getDefaultGrid,
+} from '@/utils/gridEditing';
+
+interface GridEditorProps {
+    grid: GridConfig;                         // Grid being edited
+    onChange: (grid: GridConfig) => void;     // Called after every edit
+}
+
+/**
+ * Painting Tools
+ */
+type GridTool = 'wall' | 'mud' | 'water' | 'erase' | 'start' | 'goal';
+
+const tools: { id: GridTool; name: string }[] = [
+    { id: 'wall', name: 'Wall' },
+    { id: 'mud', name: `Mud (cost ${terrainTypes[TERRAIN_MUD].cost})` },
+    { id: 'water', name: `Water (cost ${terrainTypes[TERRAIN_WATER].cost})` },
+    { id: 'erase', name: 'Erase' },
+    { id: 'start', name: 'Set start' },
+    { id: 'goal', name: 'Set goal' },
+];
+
+const toolTerrain: Partial<Record<GridTool, number>> = {
+    wall: TERRAIN_WALL,
+    mud: TERRAIN_MUD,
+    water: TERRAIN_WATER,
+    erase: TERRAIN_EMPTY,
+};
+
+export function GridEditor({ grid, onChange }: GridEditorProps) {
+    const [isEditing, setIsEditing] = useState(false);
+    const [tool, setTool] = useState<GridTool>('wall');
+    const [draft, setDraft] = useState<GridConfig | null>(null);   // Grid while a stroke is in progress
+
+    // Drop an unfinished stroke if the grid is replaced from outside
+    useEffect(() => {
+        setDraft(null);
+    }, [grid]);
+
+    const shown = draft ?? grid;
+
+    const handleCellPaint = (index: number) => {
+        if (tool === 'start') {
+            onChange(setGridStart(grid, index));
+        } else if (tool === 'goal') {
+            onChange(setGridGoal(grid, index));
+        } else {
+            setDraft(current => paintCell(current ?? grid, index, toolTerrain[tool]!));
+        }
+    };
+
+    const handlePaintEnd = () => {
+        if (draft) onChange(draft);
+    };
+
+    const selectClassName = 'px-2 py-1 text-xs sm:text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+    const sizeIndex = gridSizes.findIndex(size => size.rows === grid.rows && size.cols === grid.cols);
+
+    return (
+        <div className="mb-4 p-3 bg-gray-50 dark:bg-gray-700 rounded-lg space-y-3">
+            {/* Options Row */}
+            <div className="flex flex-wrap items-center gap-2">
+                <label className="text-xs sm:text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Grid:
+                </label>
+                <select
+                    value={sizeIndex}
+                    onChange={(e) => {
+                        const size = gridSizes[Number(e.target.value)];
+                        onChange(resizeGrid(grid, size.rows, size.cols));
+                    }}
+                    className={selectClassName}
+                >
+                    {sizeIndex === -1 && <option value={-1}>{grid.rows} × {grid.cols}</option>}
+                    {gridSizes.map((size, index) => (
+                        <option key={size.name} value={index}>{size.name}</option>
+                    ))}
+                </select>
+                <select
+                    value={grid.connectivity}
+                    onChange={(e) => onChange({ ...grid, connectivity: Number(e.target.value) === 8 ? 8 : 4 })}
+                    className={selectClassName}
+                >
+                    <option value={4}>4-connected</option>
+                    <option value={8}>8-connected</option>
+                </select>
+                <label className="text-xs sm:text-sm text-gray-600 dark:text-gray-400">
+                    A* heuristic:
+                </label>
+                <select
+                    value={grid.heuristic}
+                    onChange={(e) => onChange({ ...grid, heuristic: e.target.value as GridHeuristic })}
+                    className={selectClassName}
+                >
+                    {gridHeuristics.map(option => (
+                        <option key={option.id} value={option.id}>{option.name}</option>
+                    ))}
+                </select>
+                <button
+                    onClick={() => setIsEditing(!isEditing)}
+                    className="btn-base btn-primary text-xs sm:text-sm ml-auto"
+                >
+                    {isEditing ? 'Done' : 'Edit grid'}
+                </button>
+            </div>
+
+            {isEditing && (
+                <>
+                    {/* Tool Row */}
+                    <div className="flex flex-wrap items-center gap-2">
+                        {tools.map(option => (
+                            <button
+                                key={option.id}
+                                onClick={() => setTool(option.id)}
+                                className={`btn-base text-xs sm:text-sm ${tool === option.id ? 'btn-primary' : 'btn-secondary'}`}
+                            >
+                                {option.name}
+                            </button>
+                        ))}
+                        <button onClick={() => onChange(scatterTerrain(grid))} className="btn-base btn-muted text-xs sm:text-sm ml-auto">
+                            Random
+                        </button>
+                        <button onClick={() => onChange(clearGrid(grid))} className="btn-base btn-muted text-xs sm:text-sm">
+                            Clear
+                        </button>
+                        <button onClick={() => onChange(getDefaultGrid())} className="btn-base btn-secondary text-xs sm:text-sm">
+                            Reset
+                        </button>
+                    </div>
+
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {tool === 'start' || tool === 'goal'
+                            ? `Click a cell to make it the ${tool}`
+                            : 'Click or drag across cells to paint them'}
+                    </p>
+
+                    {/* Editing Canvas */}
+                    <div className="h-80 bg-white dark:bg-gray-800 rounded-lg">
+                        <GridRenderer grid={shown} onCellPaint={handleCellPaint} onPaintEnd={handlePaintEnd} />
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,145 @@
+'use client';
+
+/**
+ * Hash Table Editor Component
+ *
+ * Lets users set up the hash table workbench:
+ * - Choose the collision strategy, hash function and initial capacity
+ * - Choose the maximum load factor that triggers a resize
+ * - Type the insert / delete / search operations to animate
+ *
+ * The options apply immediately; the operations are applied with the
+ * Apply button (or Enter) once they parse.
+ */
+
+import { useEffect, useState } from 'react';
+import {
+    HashTableConfig,
+    CollisionStrategy,
+    HashFunction,
+    collisionStrategies,
+    hashFunctions,
+    hashCapacities,
+    maxLoadFactors,
+    parseOperations,
+    formatOperations,
+    getDefaultHashTable,
+} from '@/utils/hashEditing';
+
+interface HashTableEditorProps {
+    hashTable: HashTableConfig;                       // Configuration being edited
+    onChange: (hashTable: HashTableConfig) => void;   // Called after every edit
+}
+
+export function HashTableEditor({ hashTable, onChange }: HashTableEditorProps) {
+    const [text, setText] = useState(formatOperations(hashTable.operations));
+    const [error, setError] = useState<string | null>(null);
+
+    // Keep the field in sync when the operations change elsewhere
+    useEffect(() => {
+        setText(formatOperations(hashTable.operations));
+    }, [hashTable.operations]);
+
+    const handleApply = () => {
+        const { operations, error: message } = parseOperations(text);
+        setError(message);
+        if (operations) onChange({ ...hashTable, operations });
+    };
+
+    const selectClassName = 'px-2 py-1 text-xs sm:text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+    const strategy = collisionStrategies.find(option => option.id === hashTable.strategy);
+    const hashFunction = hashFunctions.find(option => option.id === hashTable.hashFunction);
+
+    return (
+        <div className="mb-4 p-3 bg-gray-50 dark:bg-gray-700 rounded-lg space-y-3">
+            {/* Options Row */}
+            <div className="flex flex-wrap items-center gap-2">
+                <label className="text-xs sm:text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Collisions:
+                </label>
+                <select
+                    value={hashTable.strategy}
+                    onChange={(e) => onChange({ ...hashTable, strategy: e.target.value as CollisionStrategy })}
+                    className={selectClassName}
+                >
+                    {collisionStrategies.map(option => (
+                        <option key={option.id} value={option.id}>{option.name}</option>
+                    ))}
+                </select>
+                <label className="text-xs sm:text-sm text-gray-600 dark:text-gray-400">
+                    Hash:
+                </label>
+                <select
+                    value={hashTable.hashFunction}
+                    onChange={(e) => onChange({ ...hashTable, hashFunction: e.target.value as HashFunction })}
+                    className={selectClassName}
+                >
+                    {hashFunctions.map(option => (
+                        <option key={option.id} value={option.id}>{option.name}</option>
+                    ))}
+                </select>
+                <label className="text-xs sm:text-sm text-gray-600 dark:text-gray-400">
+                    Capacity:
+                </label>
+                <select
+                    value={hashTable.capacity}
+                    onChange={(e) => onChange({ ...hashTable, capacity: Number(e.target.value) })}
+                    className={selectClassName}
+                >
+                    {!hashCapacities.includes(hashTable.capacity) && <option value={hashTable.capacity}>{hashTable.capacity}</option>}
+                    {hashCapacities.map(capacity => (
+                        <option key={capacity} value={capacity}>{capacity}</option>
+                    ))}
+                </select>
+                <label className="text-xs sm:text-sm text-gray-600 dark:text-gray-400">
+                    Max load:
+                </label>
+                <select
+                    value={hashTable.maxLoadFactor}
+                    onChange={(e) => onChange({ ...hashTable, maxLoadFactor: Number(e.target.value) })}
+                    className={selectClassName}
+                >
+                    {!maxLoadFactors.includes(hashTable.maxLoadFactor) && <option value={hashTable.maxLoadFactor}>{hashTable.maxLoadFactor}</option>}
+                    {maxLoadFactors.map(load => (
+                        <option key={load} value={load}>{load}</option>
+                    ))}
+                </select>
+                <button
+                    onClick={() => {
+                        setError(null);
+                        onChange(getDefaultHashTable());
+                    }}
+                    className="btn-base btn-muted text-xs sm:text-sm ml-auto"
+                >
+                    Reset
+                </button>
+            </div>
+
+            {/* Operations Row */}
+            <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                <label className="text-xs sm:text-sm font-medium text-gray-700 dark:text-gray-300 whitespace-nowrap">
+                    Operations:
+                </label>
+                <input
+                    type="text"
+                    value={text}
+                    onChange={(e) => setText(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleApply()}
+                    placeholder="e.g. insert apple 1, search apple, delete apple"
+                    className="flex-1 px-2 py-1 text-xs sm:text-sm font-mono border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <button onClick={handleApply} className="btn-base btn-primary text-xs sm:text-sm">
+                    Apply
+                </button>
+            </div>
+
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+                Probe sequence: {strategy?.probe}. Hash: {hashFunction?.formula}.
+            </p>
+
+            {error && (
+                <p className="text-xs text-red-600 dark:text-red-400">{error}</p>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,157 @@
+'use client';
+
+/**
+ * Input Panel Component
+ *
+ * Lets users choose the data that sorting and searching algorithms run on:
+ * - Type an array directly (e.g. "5, 3, 8, 1")
+ * - Generate a preset (random, nearly sorted, reversed, ...) of a chosen size
+ * - Pick the search target for linear and binary search
+ *
+ * The panel does not change the store itself; it reports the chosen input
+ * through onApply so the page can also record it in the URL.
+ */
+
+import { useState, useEffect } from 'react';
+import {
+    inputPresets,
+    InputPreset,
+    generatePreset,
+    parseArrayInput,
+    formatArrayInput,
+    MIN_INPUT_SIZE,
+    MAX_INPUT_SIZE,
+} from '@/utils/inputPresets';
+
+interface InputPanelProps {
+    values: number[];                                          // Current input array
+    target: number | null;                                     // Current search target
+    showTarget: boolean;                                       // Whether the algorithm searches for a target
+    onApply: (values: number[], target: number | null) => void;
+}
+
+export function InputPanel({ values, target, showTarget, onApply }: InputPanelProps) {
+    const [text, setText] = useState(formatArrayInput(values));
+    const [targetText, setTargetText] = useState(target === null ? '' : String(target));
+    const [preset, setPreset] = useState<InputPreset>('random');
+    const [size, setSize] = useState(values.length);
+    const [error, setError] = useState<string | null>(null);
+
+    // Keep the fields in sync when the input changes elsewhere (e.g. via the URL)
+    useEffect(() => {
+        setText(formatArrayInput(values));
+        setSize(values.length);
+    }, [values]);
+
+    useEffect(() => {
+        setTargetText(target === null ? '' : String(target));
+    }, [target]);
+
+    /**
+     * Parse the search target field - empty means "pick automatically"
+     */
+    const parseTarget = (): { value: number | null; error: string | null } => {
+        if (!showTarget || targetText.trim() === '') return { value: null, error: null };
+        const value = Number(targetText);
+        if (!Number.isInteger(value)) {
+            return { value: null, error: 'Target must be a whole number' };
+        }
+        return { value, error: null };
+    };
+
+    const handleApply = () => {
+        const parsed = parseArrayInput(text);
+        const parsedTarget = parseTarget();
+        const message = parsed.error ?? parsedTarget.error;
+
+        if (message || !parsed.values) {
+            setError(message);
+            return;
+        }
+
+        setError(null);
+        onApply(parsed.values, parsedTarget.value);
+    };
+
+    const handleGenerate = () => {
+        const generated = generatePreset(preset, size);
+        const parsedTarget = parseTarget();
+
+        setText(formatArrayInput(generated));
+        setError(parsedTarget.error);
+        if (!parsedTarget.error) {
+            onApply(generated, parsedTarget.value);
+        }
+    };
+
+    return (
+        <div className="mb-4 p-3 bg-gray-50 dark:bg-gray-700 rounded-lg space-y-3">
+            {/* Custom Array Row */}
+            <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                <label className="text-xs sm:text-sm font-medium text-gray-700 dark:text-gray-300 whitespace-nowrap">
+                    Input:
+                </label>
+                <input
+                    type="text"
+                    value={text}
+                    onChange={(e) => setText(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleApply()}
+                    placeholder="e.g. 64, 34, 25, 12"
+                    className="flex-1 px-2 py-1 text-xs sm:text-sm font-mono border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                {showTarget && (
+                    <>
+                        <label className="text-xs sm:text-sm font-medium text-gray-700 dark:text-gray-300 whitespace-nowrap">
+                            Target:
+                        </label>
+                        <input
+                            type="number"
+                            value={targetText}
+                            onChange={(e) => setTargetText(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && handleApply()}
+                            placeholder="auto"
+                            className="w-20 px-2 py-1 text-xs sm:text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                    </>
+                )}
+                <button onClick={handleApply} className="btn-base btn-primary text-xs sm:text-sm">
+                    Apply
+                </button>
+            </div>
+
+            {/* Preset Row */}
+            <div className="flex flex-wrap items-center gap-2">
+                <label className="text-xs sm:text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Preset:
+                </label>
+                <select
+                    value={preset}
+                    onChange={(e) => setPreset(e.target.value as InputPreset)}
+                    className="px-2 py-1 text-xs sm:text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                    {inputPresets.map(option => (
+                        <option key={option.id} value={option.id}>{option.name}</option>
+                    ))}
+                </select>
+                <label className="text-xs sm:text-sm text-gray-600 dark:text-gray-400">
+                    Size: {size}
+                </label>
+                <input
+                    type="range"
+                    min={MIN_INPUT_SIZE}
+                    max={MAX_INPUT_SIZE}
+                    value={size}
+                    onChange={(e) => setSize(Number(e.target.value))}
+                    className="w-24 h-2 bg-gray-200 dark:bg-gray-600 rounded-lg appearance-none cursor-pointer slider"
+                />
+                <button onClick={handleGenerate} className="btn-base btn-muted text-xs sm:text-sm">
+                    Generate
+                </button>
+            </div>
+
+            {error && (
+                <p className="text-xs text-red-600 dark:text-red-400">{error}</p>
+            )}
+        </div>
+    );
+}
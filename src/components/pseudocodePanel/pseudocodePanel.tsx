@@ -0,0 +1,44 @@
+'use client';
+
+/**
+ * Pseudocode Panel Component
+ *
+ * The algorithm's pseudocode with the line that produced the frame on
+ * screen highlighted, and that frame's narration underneath. Both come
+ * from the trace, so they follow playback, stepping and scrubbing.
+ */
+
+import { PseudocodeLine } from '@/algorithms/trace';
+
+interface PseudocodePanelProps {
+    lines?: PseudocodeLine[];      // The algorithm's pseudocode
+    activeLine?: string;           // Line id of the current frame
+    narration?: string;            // What the current frame does
+}
+
+export function PseudocodePanel({ lines, activeLine, narration }: PseudocodePanelProps) {
+    if (!lines || lines.length === 0) return null;
+
+    return (
+        <div className="mt-4 p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+            <h3 className="font-medium text-gray-900 dark:text-white text-sm sm:text-base mb-2">Pseudocode</h3>
+            <pre className="p-2 bg-white dark:bg-gray-800 rounded text-xs sm:text-sm font-mono overflow-x-auto">
+                {lines.map(line => (
+                    <div
+                        key={line.id}
+                        className={`px-2 rounded ${
+                            line.id === activeLine
+                                ? 'bg-yellow-200 dark:bg-yellow-700 text-gray-900 dark:text-white font-semibold'
+                                : 'text-gray-700 dark:text-gray-300'
+                        }`}
+                    >
+                        {line.text}
+                    </div>
+                ))}
+            </pre>
+            <p className="mt-2 text-sm text-gray-700 dark:text-gray-300 min-h-[1.25rem]">
+                {narration ?? ''}
+            </p>
+        </div>
+    );
+}
@@ -0,0 +1,185 @@
+'use client';
+
+/**
+ * Quiz Panel Component
+ *
+ * Quizzes the user on the trace being visualised. Each question pauses the
+ * Visualiser at the frame it asks about (through onFrameChange); answering
+ * it jumps to the frame that reveals the answer and shows that frame's
+ * narration. Finished quizzes are recorded in the algorithm's score: in the
+ * user's progress when signed in, otherwise in localStorage.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useAuth } from '@clerk/nextjs';
+import { Trace } from '@/algorithms/trace';
+import { generateQuiz, QuizQuestion } from '@/utils/quizEngine';
+import { loadQuizScores, recordQuizResult, QuizScore } from '@/utils/quizScores';
+import { fetchProgress, saveQuizResult } from '@/utils/progressClient';
+
+interface QuizPanelProps {
+    states: Trace;                                   // Trace the questions are about
+    algorithmId: string;                             // Algorithm the score is recorded for
+    algorithmName: string;                           // Name used in the questions
+    onFrameChange: (frame: number | null) => void;   // Frame to hold the Visualiser at (null releases it)
+}
+
+export function QuizPanel({ states, algorithmId, algorithmName, onFrameChange }: QuizPanelProps) {
+    const [questions, setQuestions] = useState<QuizQuestion[]>([]);
+    const [current, setCurrent] = useState(0);               // Index of the open question
+    const [selected, setSelected] = useState<number | null>(null);   // Choice picked for the open question
+    const [correct, setCorrect] = useState(0);
+    const [finished, setFinished] = useState(false);
+    const [score, setScore] = useState<QuizScore | undefined>(undefined);
+    const { isLoaded, isSignedIn } = useAuth();
+
+    // Scores come from the user's progress, or from localStorage (only
+    // available after mounting) when signed out or the server is unreachable
+    useEffect(() => {
+        if (!isLoaded) return;
+        if (!isSignedIn) {
+            setScore(loadQuizScores()[algorithmId]);
+            return;
+        }
+        let cancelled = false;
+        fetchProgress()
+            .then(progress => !cancelled && setScore(progress.quizScores[algorithmId]))
+            .catch(() => !cancelled && setScore(loadQuizScores()[algorithmId]));
+        return () => { cancelled = true; };
+    }, [algorithmId, isLoaded, isSignedIn]);
+
+    // A new trace (other input or a run of the user's code) ends the quiz
+    useEffect(() => {
+        setQuestions([]);
+        setFinished(false);
+        onFrameChange(null);
+    }, [states, onFrameChange]);
+
+    // Release the Visualiser if the panel goes away mid-quiz
+    useEffect(() => () => onFrameChange(null), [onFrameChange]);
+
+    // Traces without a step to predict (e.g. grid mode) cannot be quizzed on
+    const available = useMemo(() => generateQuiz(states, algorithmName, 1).length > 0, [states, algorithmName]);
+
+    const question = questions[current];
+    const inProgress = questions.length > 0 && !finished;
+
+    const startQuiz = () => {
+        const quiz = generateQuiz(states, algorithmName);
+        setQuestions(quiz);
+        setCurrent(0);
+        setSelected(null);
+        setCorrect(0);
+        setFinished(false);
+        onFrameChange(quiz.length > 0 ? quiz[0].frame : null);
+    };
+
+    const answer = (choice: number) => {
+        if (selected !== null) return;
+        setSelected(choice);
+        if (choice === question.answer) setCorrect(count => count + 1);
+        onFrameChange(question.reveal);
+    };
+
+    const nextQuestion = () => {
+        if (current + 1 < questions.length) {
+            setCurrent(current + 1);
+            setSelected(null);
+            onFrameChange(questions[current + 1].frame);
+            return;
+        }
+        setFinished(true);
+        onFrameChange(null);
+        if (isSignedIn) {
+            saveQuizResult(algorithmId, correct, questions.length)
+                .then(setScore)
+                .catch(() => setScore(recordQuizResult(algorithmId, correct, questions.length)));
+        } else {
+            setScore(recordQuizResult(algorithmId, correct, questions.length));
+        }
+    };
+
+    const quitQuiz = () => {
+        setQuestions([]);
+        onFrameChange(null);
+    };
+
+    const choiceClassName = (choice: number) => {
+        if (selected === null) return 'btn-secondary';
+        if (choice === question.answer) return 'bg-green-500 text-white';
+        if (choice === selected) return 'bg-red-500 text-white';
+        return 'btn-muted opacity-60';
+    };
+
+    return (
+        <div className="mb-4 p-3 bg-gray-50 dark:bg-gray-700 rounded-lg space-y-3 text-xs sm:text-sm">
+            <div className="flex flex-wrap items-center gap-2">
+                <h3 className="font-medium text-gray-900 dark:text-white text-sm sm:text-base">Quiz</h3>
+                {score && (
+                    <span className="text-gray-500 dark:text-gray-400">
+                        {score.correct}/{score.answered} correct over {score.quizzes} {score.quizzes === 1 ? 'quiz' : 'quizzes'}; best {score.bestCorrect}/{score.bestTotal}
+                    </span>
+                )}
+                {inProgress ? (
+                    <button onClick={quitQuiz} className="btn-base btn-muted text-xs sm:text-sm ml-auto">
+                        Quit
+                    </button>
+                ) : (
+                    <button
+                        onClick={startQuiz}
+                        disabled={!available}
+                        className="btn-base btn-primary text-xs sm:text-sm ml-auto"
+                    >
+                        {finished ? 'New quiz' : 'Start quiz'}
+                    </button>
+                )}
+            </div>
+
+            {finished && (
+                <p className="text-gray-700 dark:text-gray-300">
+                    You answered {correct} of {questions.length} {questions.length === 1 ? 'question' : 'questions'} correctly.
+                </p>
+            )}
+
+            {!finished && questions.length === 0 && (
+                <p className="text-gray-500 dark:text-gray-400">
+                    {available
+                        ? 'Predict the next steps of this trace. The animation pauses on each question.'
+                        : 'This trace has no steps to quiz on.'}
+                </p>
+            )}
+
+            {inProgress && question && (
+                <div className="space-y-2">
+                    <p className="text-gray-500 dark:text-gray-400">
+                        Question {current + 1} of {questions.length} (step {question.frame + 1})
+                    </p>
+                    <p className="font-medium text-gray-900 dark:text-white">{question.prompt}</p>
+                    <div className="flex flex-wrap gap-2">
+                        {question.choices.map((choice, index) => (
+                            <button
+                                key={choice}
+                                onClick={() => answer(index)}
+                                disabled={selected !== null}
+                                className={`btn-base font-mono text-xs sm:text-sm ${choiceClassName(index)}`}
+                            >
+                                {choice}
+                            </button>
+                        ))}
+                    </div>
+                    {selected !== null && (
+                        <div className="flex flex-wrap items-center gap-2">
+                            <p className={selected === question.answer ? 'text-green-700 dark:text-green-400' : 'text-red-700 dark:text-red-400'}>
+                                {selected === question.answer ? 'Correct!' : `Not quite: the answer is ${question.choices[question.answer]}.`}
+                                {question.explanation && <span className="text-gray-600 dark:text-gray-400"> {question.explanation}</span>}
+                            </p>
+                            <button onClick={nextQuestion} className="btn-base btn-primary text-xs sm:text-sm ml-auto">
+                                {current + 1 < questions.length ? 'Next question' : 'Finish'}
+                            </button>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,119 @@
+'use client';
+
+/**
+ * Race Lane Component
+ *
+ * One algorithm in the comparison view: a compact visualization of the
+ * frame at the shared timeline position plus its running counters. Lanes
+ * that finish early keep showing their final frame.
+ */
+
+import { getAlgorithmById } from '@/data/algorithms';
+import { RaceLane as RaceLaneData } from '@/utils/raceMode';
+import { GridFrame } from '@/algorithms/trace';
+import { GraphRenderer } from '../visualiser/GraphRenderer';
+import { GridRenderer } from '../visualiser/GridRenderer';
+
+interface RaceLaneProps {
+    lane: RaceLaneData;      // States and counters of this algorithm
+    step: number;            // Shared timeline position
+    directed?: boolean;      // Whether graph edges are directed
+    isLeader?: boolean;      // Finished first (fewest steps)
+}
+
+export function RaceLane({ lane, step, directed = false, isLeader = false }: RaceLaneProps) {
+    const algorithm = getAlgorithmById(lane.algorithmId);
+    const frameIndex = Math.min(step, lane.states.length - 1);
+    const frame = lane.states[frameIndex];
+    const counters = lane.counters[frameIndex];
+    const finished = step >= lane.states.length - 1;
+
+    /**
+     * Render the current frame with the renderer for its trace type
+     */
+    const renderFrame = () => {
+        if (!frame) {
+            return <p className="text-sm text-gray-500 dark:text-gray-400">No visualization data available</p>;
+        }
+
+        if (frame.kind === 'grid') {
+            // Every frame of a trace has the same kind
+            return <GridRenderer grid={frame.grid} frames={lane.states as GridFrame[]} step={frameIndex} />;
+        }
+
+        if (frame.kind === 'graph') {
+            return <GraphRenderer nodes={frame.nodes} edges={frame.edges} directed={directed} />;
+        }
+
+        if (frame.kind !== 'array') {
+            return <p className="text-sm text-gray-500 dark:text-gray-400">No visualization data available</p>;
+        }
+
+        const values = frame.values;
+        const maxValue = Math.max(...values, 1);
+        return (
+            <div className="w-full h-full flex items-end justify-center gap-0.5 px-2">
+                {values.map((value, index) => (
+                    <div
+                        key={index}
+                        className={`flex-1 max-w-6 rounded-t transition-all duration-150 ${
+                            frame.swapping.includes(index) ? 'bg-red-400' :
+                            frame.comparing.includes(index) ? 'bg-yellow-400' :
+                            frame.sorted.includes(index) ? 'bg-green-400' :
+                            'bg-gray-400'
+                        }`}
+                        style={{ height: `${(value / maxValue) * 100}%`, minHeight: '4px' }}
+                        title={String(value)}
+                    />
+                ))}
+            </div>
+        );
+    };
+
+    return (
+        <div className={`p-3 bg-white dark:bg-gray-800 rounded-lg border transition-colors ${
+            finished && isLeader ? 'border-green-500' : 'border-gray-200 dark:border-gray-700'
+        }`}>
+            {/* Lane Header */}
+            <div className="flex items-center justify-between mb-2">
+                <h3 className="font-medium text-gray-900 dark:text-white text-sm sm:text-base">
+                    {algorithm?.name ?? lane.algorithmId}
+                </h3>
+                {finished && (
+                    <span className={`text-xs px-2 py-0.5 rounded ${
+                        isLeader
+                            ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
+                            : 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300'
+                    }`}>
+                        {isLeader ? 'Finished first' : 'Finished'}
+                    </span>
+                )}
+            </div>
+
+            {/* Frame */}
+            <div className="h-48">
+                {renderFrame()}
+            </div>
+
+            {/* Counters */}
+            {counters && (
+                <div className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-600 dark:text-gray-400">
+                    <span>Steps: {counters.steps} / {lane.states.length}</span>
+                    {frame?.kind === 'array' ? (
+                        <>
+                            <span>Comparisons: {counters.comparisons}</span>
+                            <span>Swaps: {counters.swaps}</span>
+                            <span>Writes: {counters.writes}</span>
+                        </>
+                    ) : (
+                        <>
+                            <span>Expanded: {counters.expanded}</span>
+                            {counters.pathLength !== null && <span>Path: {counters.pathLength} nodes</span>}
+                            {counters.noPath && <span>No path to the goal</span>}
+                        </>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
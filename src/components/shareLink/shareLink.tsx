@@ -0,0 +1,57 @@
+'use client';
+
+/**
+ * Share Link Component
+ *
+ * Copies a permalink to the current moment of the animation (see
+ * permalink.ts). The link is built when the button is pressed, so it has
+ * the step shown at that time; the editor code is only included on request.
+ * If the clipboard is unavailable the link is shown to copy by hand.
+ */
+
+import { useState } from 'react';
+
+interface ShareLinkProps {
+    buildLink: (includeCode: boolean) => string;   // Permalink to the current session
+}
+
+export function ShareLink({ buildLink }: ShareLinkProps) {
+    const [includeCode, setIncludeCode] = useState(false);
+    const [copied, setCopied] = useState(false);
+    const [fallbackLink, setFallbackLink] = useState<string | null>(null);   // Shown when copying failed
+
+    const copyLink = async () => {
+        const link = buildLink(includeCode);
+        try {
+            await navigator.clipboard.writeText(link);
+            setFallbackLink(null);
+            setCopied(true);
+            setTimeout(() => setCopied(false), 2000);
+        } catch {
+            setFallbackLink(link);
+        }
+    };
+
+    return (
+        <div className="flex flex-col gap-2">
+            <div className="flex items-center gap-3">
+                <button onClick={copyLink} className="btn-base btn-secondary text-sm">
+                    {copied ? 'Link copied!' : 'Copy link'}
+                </button>
+                <label className="flex items-center gap-1 text-xs sm:text-sm text-gray-600 dark:text-gray-400">
+                    <input type="checkbox" checked={includeCode} onChange={(e) => setIncludeCode(e.target.checked)} />
+                    Include code
+                </label>
+            </div>
+            {fallbackLink && (
+                <input
+                    type="text"
+                    readOnly
+                    value={fallbackLink}
+                    onFocus={(e) => e.target.select()}
+                    className="w-full sm:w-64 px-2 py-1 text-xs font-mono border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                />
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,75 @@
+'use client';
+
+/**
+ * Stats Panel Component
+ *
+ * Live operation counters for the frame on screen, next to the algorithm's
+ * theoretical complexity. Every trace frame carries the cumulative counts
+ * recorded by its generator, so stepping backwards rewinds them too.
+ */
+
+import { OperationStats } from '@/algorithms/operation-stats';
+
+interface StatsPanelProps {
+    stats?: OperationStats;                    // Counters of the current frame
+    totals?: OperationStats;                   // Counters of the last frame
+    kind: 'array' | 'graph' | 'hash';          // Which counters apply to the trace
+    complexity?: { time: string; space: string };
+}
+
+// Counters shown for each kind of trace
+const counterLabels: Record<StatsPanelProps['kind'], { key: keyof OperationStats; label: string }[]> = {
+    array: [
+        { key: 'comparisons', label: 'Comparisons' },
+        { key: 'swaps', label: 'Swaps' },
+        { key: 'writes', label: 'Writes' },
+        { key: 'accesses', label: 'Array accesses' },
+        { key: 'auxMemory', label: 'Aux. memory' },
+    ],
+    graph: [
+        { key: 'nodesVisited', label: 'Nodes visited' },
+        { key: 'edgesRelaxed', label: 'Edges relaxed' },
+        { key: 'comparisons', label: 'Comparisons' },
+        { key: 'auxMemory', label: 'Aux. memory' },
+    ],
+    hash: [
+        { key: 'nodesVisited', label: 'Entries probed' },
+        { key: 'comparisons', label: 'Key comparisons' },
+        { key: 'accesses', label: 'Table accesses' },
+        { key: 'writes', label: 'Entries written' },
+    ],
+};
+
+export function StatsPanel({ stats, totals, kind, complexity }: StatsPanelProps) {
+    if (!stats) return null;
+
+    return (
+        <div className="mt-4 p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+            <div className="flex flex-wrap items-baseline justify-between gap-2 mb-2">
+                <h3 className="font-medium text-gray-900 dark:text-white text-sm sm:text-base">Operation Counts</h3>
+                {complexity && (
+                    <span className="text-xs sm:text-sm text-gray-600 dark:text-gray-400">
+                        Expected: time {complexity.time}, space {complexity.space}
+                    </span>
+                )}
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+                {counterLabels[kind].map(({ key, label }) => (
+                    <div key={key} className="p-2 bg-white dark:bg-gray-800 rounded">
+                        <div className="text-xs text-gray-500 dark:text-gray-400">{label}</div>
+                        <div className="text-lg font-semibold text-gray-900 dark:text-white">
+                            {stats[key]}
+                            {totals && (
+                                <span className="ml-1 text-xs font-normal text-gray-500 dark:text-gray-400">/ {totals[key]}</span>
+                            )}
+                        </div>
+                    </div>
+                ))}
+            </div>
+            <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                Counts are cumulative up to this step; the right-hand number is the total for the whole run.
+                Auxiliary memory is the peak number of extra elements held at once.
+            </p>
+        </div>
+    );
+}
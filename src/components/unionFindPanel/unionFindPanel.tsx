@@ -0,0 +1,91 @@
+'use client';
+
+/**
+ * Union-Find Panel Component
+ *
+ * Side panel for Kruskal's algorithm: the disjoint-set forest behind the
+ * accept/reject decisions. Every node's parent pointer and rank is listed,
+ * with the entries changed by a union or by path compression highlighted,
+ * followed by the sets the forest currently describes.
+ */
+
+import { GraphFrame } from '@/algorithms/trace';
+
+interface UnionFindPanelProps {
+    frame: GraphFrame;
+}
+
+export function UnionFindPanel({ frame }: UnionFindPanelProps) {
+    const unionFind = frame.unionFind;
+    if (!unionFind) return null;
+
+    const changed = new Set(unionFind.changed ?? []);
+    const { parent, rank } = unionFind;
+
+    // Follow parent pointers to the root without compressing them
+    const rootOf = (id: string) => {
+        let root = id;
+        while (parent[root] !== undefined && parent[root] !== root) root = parent[root];
+        return root;
+    };
+
+    const sets = new Map<string, string[]>();
+    for (const node of frame.nodes) {
+        const root = rootOf(node.id);
+        sets.set(root, [...(sets.get(root) ?? []), node.id]);
+    }
+
+    return (
+        <div className="lg:w-72 shrink-0 p-3 bg-gray-50 dark:bg-gray-700 rounded-lg text-xs sm:text-sm">
+            <h3 className="font-medium text-gray-900 dark:text-white text-sm sm:text-base">Union-find forest</h3>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+                Roots point to themselves; union hangs the lower-ranked root under the other
+            </p>
+
+            <table className="w-full font-mono text-xs border-collapse">
+                <thead>
+                    <tr className="text-gray-500 dark:text-gray-400">
+                        <th className="text-left font-normal">Node</th>
+                        <th className="text-right font-normal">parent</th>
+                        <th className="text-right font-normal">rank</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {frame.nodes.map(node => {
+                        const isRoot = parent[node.id] === node.id;
+                        return (
+                            <tr
+                                key={node.id}
+                                className={
+                                    changed.has(node.id) ? 'bg-yellow-200 dark:bg-yellow-700 text-gray-900 dark:text-white' :
+                                    node.status === 'current' ? 'bg-blue-100 dark:bg-blue-900 text-gray-900 dark:text-white' :
+                                    'text-gray-700 dark:text-gray-300'
+                                }
+                            >
+                                <td className="px-1">{node.id}</td>
+                                <td className={`px-1 text-right ${isRoot ? 'font-semibold' : ''}`}>{parent[node.id] ?? '—'}</td>
+                                <td className="px-1 text-right">{isRoot ? rank[node.id] : '—'}</td>
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+
+            {/* The sets described by the forest, one per root */}
+            <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">{sets.size} {sets.size === 1 ? 'set' : 'sets'}</p>
+            <ul className="mt-1 space-y-1 font-mono text-xs">
+                {Array.from(sets).map(([root, members]) => (
+                    <li key={root} className="px-2 py-1 rounded bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300">
+                        <span className="font-semibold">{root}</span>: {'{'}{members.join(', ')}{'}'}
+                    </li>
+                ))}
+            </ul>
+            <div className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                <span className="inline-block w-3 h-3 bg-yellow-200 dark:bg-yellow-700 rounded mr-1"></span>
+                Changed this step
+                <span className="inline-block w-3 h-3 bg-blue-100 dark:bg-blue-900 rounded ml-3 mr-1"></span>
+                Current edge
+            </div>
+        </div>
+    );
+}
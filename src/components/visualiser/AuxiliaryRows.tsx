@@ -0,0 +1,43 @@
+'use client';
+
+import { AuxiliaryArray } from '@/algorithms/trace';
+import { slotId } from './MoveArrows';
+
+interface AuxiliaryRowsProps {
+  rows: AuxiliaryArray[];
+}
+
+export function AuxiliaryRows({ rows }: AuxiliaryRowsProps) {
+  return (
+    <div className="space-y-3 px-4">
+      {rows.map((row, rowIndex) => (
+        <div key={row.name} className="flex items-start gap-3">
+          <div className="w-16 pt-2 text-xs font-medium text-right text-gray-600 dark:text-gray-400">
+            {row.name}
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {row.values.map((value, index) => (
+              <div key={index} className="flex flex-col items-center">
+                <div
+                  data-slot={slotId({ row: rowIndex, index })}
+                  className={`w-8 h-8 flex items-center justify-center rounded border text-xs font-medium ${
+                    row.highlight.includes(index)
+                      ? 'border-yellow-500 bg-yellow-100 dark:bg-yellow-900/30 text-gray-900 dark:text-white'
+                      : value === null
+                      ? 'border-dashed border-gray-300 dark:border-gray-600 text-gray-400'
+                      : 'border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white'
+                  }`}
+                >
+                  {value ?? ''}
+                </div>
+                <div className="text-[10px] text-gray-500 dark:text-gray-400">
+                  {row.labels ? row.labels[index] : index}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
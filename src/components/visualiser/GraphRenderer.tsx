@@ -1,31 +1,50 @@
 'use client';
 
 import { useEffect, useRef, useState } from 'react';
+import { TraceNode, TraceEdge } from '@/algorithms/trace';
 
-interface Node {
-  id: string;
-  x: number;
-  y: number;
-  status: 'unvisited' | 'visited' | 'current' | 'path' | 'start' | 'end' | 'white' | 'gray' | 'black' | 'open' | 'closed';
-  distance?: number;
-}
-
-interface Edge {
-  from: string;
-  to: string;
-  weight?: number;
-  status: 'normal' | 'visited' | 'path' | 'current';
+interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+  width: number;
+  height: number;
 }
 
 interface GraphRendererProps {
-  nodes: Node[];
-  edges: Edge[];
+  nodes: TraceNode[];
+  edges: TraceEdge[];
   width?: number;
   height?: number;
+  directed?: boolean;                                   // Draw arrowheads on edges
+  bounds?: Bounds;                                      // Fixed coordinate space (defaults to fitting the nodes)
+  selectedNode?: string | null;                         // Node highlighted by the editor
+  selectedEdge?: number | null;                         // Index of the edge highlighted by the editor
+  onBackgroundClick?: (x: number, y: number) => void;   // Click on empty space, in graph coordinates
+  onNodeClick?: (id: string) => void;
+  onNodeDrag?: (id: string, x: number, y: number) => void;
+  onEdgeClick?: (index: number) => void;
+}
+
+// Transform used by the last draw, kept so pointer events can be mapped back to graph coordinates
+interface ViewTransform {
+  bounds: Bounds;
+  scale: number;
+  offsetX: number;
+  offsetY: number;
+  radius: number;
 }
 
+// Pixels the pointer must move before a press on a node becomes a drag
+const DRAG_THRESHOLD = 3;
+
+// Fill colors for node groups (strongly connected components), cycled when
+// there are more groups than colors
+export const GROUP_COLORS = ['#0ea5e9', '#f97316', '#14b8a6', '#e11d48', '#84cc16', '#a855f7', '#eab308', '#64748b'];
+
 // Helper function to calculate the bounding box of the original graph
-function calculateOriginalBounds(nodes: Node[]) {
+function calculateOriginalBounds(nodes: TraceNode[]): Bounds {
   if (nodes.length === 0) return { minX: 0, minY: 0, maxX: 100, maxY: 100, width: 100, height: 100 };
   
   const minX = Math.min(...nodes.map(n => n.x));
@@ -44,16 +63,41 @@ function calculateOriginalBounds(nodes: Node[]) {
 }
 
 // Helper function to scale and translate coordinates
-function transformCoordinates(x: number, y: number, originalBounds: any, scale: number, offsetX: number, offsetY: number) {
+function transformCoordinates(x: number, y: number, originalBounds: Bounds, scale: number, offsetX: number, offsetY: number) {
   const scaledX = (x - originalBounds.minX) * scale + offsetX;
   const scaledY = (y - originalBounds.minY) * scale + offsetY;
   return { x: scaledX, y: scaledY };
 }
 
-export function GraphRenderer({ nodes, edges, width = 1000, height = 400 }: GraphRendererProps) {
+// Distance from point (px, py) to the segment (ax, ay)-(bx, by)
+function distanceToSegment(px: number, py: number, ax: number, ay: number, bx: number, by: number) {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared > 0 ? Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lengthSquared)) : 0;
+  return Math.hypot(px - (ax + t * dx), py - (ay + t * dy));
+}
+
+export function GraphRenderer({
+  nodes,
+  edges,
+  width = 1000,
+  height = 400,
+  directed = false,
+  bounds,
+  selectedNode = null,
+  selectedEdge = null,
+  onBackgroundClick,
+  onNodeClick,
+  onNodeDrag,
+  onEdgeClick
+}: GraphRendererProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [dimensions, setDimensions] = useState({ width: 1000, height: 400 });
+  const transformRef = useRef<ViewTransform | null>(null);
+  const pressRef = useRef<{ nodeId: string | null; startX: number; startY: number; dragging: boolean } | null>(null);
+  const interactive = Boolean(onBackgroundClick || onNodeClick || onNodeDrag || onEdgeClick);
 
   // Handle responsive sizing
   useEffect(() => {
@@ -91,7 +135,7 @@ export function GraphRenderer({ nodes, edges, width = 1000, height = 400 }: Grap
     ctx.clearRect(0, 0, canvas.width, canvas.height);
 
     // Calculate scaling factors to fill the available space
-    const originalBounds = calculateOriginalBounds(nodes);
+    const originalBounds = bounds ?? calculateOriginalBounds(nodes);
     const padding = 60; // Padding around the graph
     const availableWidth = dimensions.width - (padding * 2);
     const availableHeight = dimensions.height - (padding * 2);
@@ -105,9 +149,11 @@ export function GraphRenderer({ nodes, edges, width = 1000, height = 400 }: Grap
     const scaledHeight = originalBounds.height * scale;
     const offsetX = (dimensions.width - scaledWidth) / 2;
     const offsetY = (dimensions.height - scaledHeight) / 2;
+    const radius = Math.max(15, 20 * scale); // Scale node radius
+    transformRef.current = { bounds: originalBounds, scale, offsetX, offsetY, radius };
 
     // Draw edges
-    edges.forEach(edge => {
+    edges.forEach((edge, edgeIndex) => {
       const fromNode = nodes.find(n => n.id === edge.from);
       const toNode = nodes.find(n => n.id === edge.to);
       
@@ -131,22 +177,61 @@ export function GraphRenderer({ nodes, edges, width = 1000, height = 400 }: Grap
           ctx.strokeStyle = '#3b82f6'; // blue
           ctx.lineWidth = Math.max(2, 3 * scale); // Scale line width
           break;
+        case 'cycle':
+          ctx.strokeStyle = '#dc2626'; // dark red
+          ctx.lineWidth = Math.max(3, 4 * scale); // Scale line width
+          break;
+        case 'tree':
+          ctx.strokeStyle = '#059669'; // dark green
+          ctx.lineWidth = Math.max(3, 5 * scale); // Scale line width
+          break;
+        case 'rejected':
+          ctx.strokeStyle = '#f87171'; // light red, dashed below
+          ctx.lineWidth = Math.max(1, 2 * scale); // Scale line width
+          break;
+        case 'bridge':
+          ctx.strokeStyle = '#ea580c'; // orange
+          ctx.lineWidth = Math.max(3, 5 * scale); // Scale line width
+          break;
         default:
           ctx.strokeStyle = '#6b7280'; // gray
           ctx.lineWidth = Math.max(1, 2 * scale); // Scale line width
       }
 
+      if (edgeIndex === selectedEdge) {
+        ctx.strokeStyle = '#ec4899'; // pink
+        ctx.lineWidth = Math.max(3, 4 * scale);
+      }
+
+      ctx.setLineDash(edge.status === 'rejected' ? [6, 4] : []);
       ctx.beginPath();
       ctx.moveTo(fromPos.x, fromPos.y);
       ctx.lineTo(toPos.x, toPos.y);
       ctx.stroke();
+      ctx.setLineDash([]);
+
+      // Draw arrowhead at the edge of the target node for directed graphs
+      if (directed) {
+        const angle = Math.atan2(toPos.y - fromPos.y, toPos.x - fromPos.x);
+        const tipX = toPos.x - Math.cos(angle) * radius;
+        const tipY = toPos.y - Math.sin(angle) * radius;
+        const size = Math.max(8, 10 * scale);
+
+        ctx.fillStyle = ctx.strokeStyle;
+        ctx.beginPath();
+        ctx.moveTo(tipX, tipY);
+        ctx.lineTo(tipX - size * Math.cos(angle - Math.PI / 7), tipY - size * Math.sin(angle - Math.PI / 7));
+        ctx.lineTo(tipX - size * Math.cos(angle + Math.PI / 7), tipY - size * Math.sin(angle + Math.PI / 7));
+        ctx.closePath();
+        ctx.fill();
+      }
 
       // Draw weight if weighted
       if (edge.weight !== undefined) {
         const midX = (fromPos.x + toPos.x) / 2;
         const midY = (fromPos.y + toPos.y) / 2;
         
-        ctx.fillStyle = '#374151';
+        ctx.fillStyle = edge.weight < 0 ? '#dc2626' : '#374151'; // negative weights in red
         ctx.font = `${Math.max(10, 12 * scale)}px Arial`; // Scale font size
         ctx.textAlign = 'center';
         ctx.fillText(edge.weight.toString(), midX, midY - 5);
@@ -157,7 +242,6 @@ export function GraphRenderer({ nodes, edges, width = 1000, height = 400 }: Grap
     nodes.forEach(node => {
       // Transform coordinates
       const pos = transformCoordinates(node.x, node.y, originalBounds, scale, offsetX, offsetY);
-      const radius = Math.max(15, 20 * scale); // Scale node radius
       
       // Set node color based on status
       switch (node.status) {
@@ -191,10 +275,21 @@ export function GraphRenderer({ nodes, edges, width = 1000, height = 400 }: Grap
         case 'closed':
           ctx.fillStyle = '#8b5cf6'; // purple
           break;
+        case 'cycle':
+          ctx.fillStyle = '#dc2626'; // dark red
+          break;
+        case 'articulation':
+          ctx.fillStyle = '#ea580c'; // orange
+          break;
         default:
           ctx.fillStyle = '#6b7280'; // gray
       }
 
+      // Grouped nodes take their group's color unless they are being processed
+      if (node.group !== undefined && node.status !== 'current') {
+        ctx.fillStyle = GROUP_COLORS[node.group % GROUP_COLORS.length];
+      }
+
       // Draw node circle
       ctx.beginPath();
       ctx.arc(pos.x, pos.y, radius, 0, 2 * Math.PI);
@@ -205,6 +300,15 @@ export function GraphRenderer({ nodes, edges, width = 1000, height = 400 }: Grap
       ctx.lineWidth = Math.max(1, 2 * scale); // Scale border width
       ctx.stroke();
 
+      // Draw selection ring
+      if (node.id === selectedNode) {
+        ctx.strokeStyle = '#ec4899'; // pink
+        ctx.lineWidth = 3;
+        ctx.beginPath();
+        ctx.arc(pos.x, pos.y, radius + 5, 0, 2 * Math.PI);
+        ctx.stroke();
+      }
+
       // Draw node label
       ctx.fillStyle = '#ffffff';
       ctx.font = `${Math.max(10, 14 * scale)}px Arial`; // Scale font size
@@ -217,8 +321,112 @@ export function GraphRenderer({ nodes, edges, width = 1000, height = 400 }: Grap
         ctx.font = `${Math.max(8, 10 * scale)}px Arial`; // Scale font size
         ctx.fillText(node.distance.toString(), pos.x, pos.y + radius + 15);
       }
+
+      // Draw remaining in-degree (Kahn's algorithm)
+      if (node.inDegree !== undefined) {
+        ctx.fillStyle = '#374151';
+        ctx.font = `${Math.max(8, 10 * scale)}px Arial`; // Scale font size
+        ctx.fillText(`in ${node.inDegree}`, pos.x, pos.y + radius + 15);
+      }
+
+      // Draw numeric annotations such as discovery and low-link numbers
+      if (node.annotations !== undefined) {
+        const text = Object.entries(node.annotations).map(([label, value]) => `${label} ${value}`).join(' · ');
+        ctx.fillStyle = '#374151';
+        ctx.font = `${Math.max(8, 10 * scale)}px Arial`; // Scale font size
+        ctx.fillText(text, pos.x, pos.y + radius + 15);
+      }
     });
-  }, [nodes, edges, dimensions]);
+  }, [nodes, edges, dimensions, directed, bounds, selectedNode, selectedEdge]);
+
+  /**
+   * Map a pointer event to canvas pixels and graph coordinates
+   */
+  const locatePointer = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    const transform = transformRef.current;
+    if (!canvas || !transform) return null;
+
+    // The canvas may be scaled down by CSS, so convert to canvas pixels first
+    const rect = canvas.getBoundingClientRect();
+    const px = (event.clientX - rect.left) * (canvas.width / rect.width);
+    const py = (event.clientY - rect.top) * (canvas.height / rect.height);
+
+    return {
+      px,
+      py,
+      x: (px - transform.offsetX) / transform.scale + transform.bounds.minX,
+      y: (py - transform.offsetY) / transform.scale + transform.bounds.minY
+    };
+  };
+
+  const findNodeAt = (px: number, py: number): string | null => {
+    const transform = transformRef.current;
+    if (!transform) return null;
+    const { bounds: view, scale, offsetX, offsetY, radius } = transform;
+
+    // Search from the last drawn node, which is on top
+    for (let i = nodes.length - 1; i >= 0; i--) {
+      const pos = transformCoordinates(nodes[i].x, nodes[i].y, view, scale, offsetX, offsetY);
+      if (Math.hypot(px - pos.x, py - pos.y) <= radius) return nodes[i].id;
+    }
+    return null;
+  };
+
+  const findEdgeAt = (px: number, py: number): number | null => {
+    const transform = transformRef.current;
+    if (!transform) return null;
+    const { bounds: view, scale, offsetX, offsetY } = transform;
+
+    for (let i = edges.length - 1; i >= 0; i--) {
+      const fromNode = nodes.find(n => n.id === edges[i].from);
+      const toNode = nodes.find(n => n.id === edges[i].to);
+      if (!fromNode || !toNode) continue;
+
+      const a = transformCoordinates(fromNode.x, fromNode.y, view, scale, offsetX, offsetY);
+      const b = transformCoordinates(toNode.x, toNode.y, view, scale, offsetX, offsetY);
+      if (distanceToSegment(px, py, a.x, a.y, b.x, b.y) <= 8) return i;
+    }
+    return null;
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const point = locatePointer(event);
+    if (!point) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    pressRef.current = { nodeId: findNodeAt(point.px, point.py), startX: point.px, startY: point.py, dragging: false };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const press = pressRef.current;
+    if (!press || !press.nodeId || !onNodeDrag) return;
+    const point = locatePointer(event);
+    if (!point) return;
+
+    if (!press.dragging && Math.hypot(point.px - press.startX, point.py - press.startY) < DRAG_THRESHOLD) return;
+    press.dragging = true;
+    onNodeDrag(press.nodeId, point.x, point.y);
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const press = pressRef.current;
+    pressRef.current = null;
+    if (!press || press.dragging) return;
+    const point = locatePointer(event);
+    if (!point) return;
+
+    if (press.nodeId) {
+      onNodeClick?.(press.nodeId);
+      return;
+    }
+
+    const edgeIndex = findEdgeAt(point.px, point.py);
+    if (edgeIndex !== null) {
+      onEdgeClick?.(edgeIndex);
+    } else {
+      onBackgroundClick?.(point.x, point.y);
+    }
+  };
 
   return (
     <div 
@@ -229,8 +437,11 @@ export function GraphRenderer({ nodes, edges, width = 1000, height = 400 }: Grap
         ref={canvasRef}
         width={dimensions.width}
         height={dimensions.height}
-        className="border border-gray-200 dark:border-gray-600 rounded-lg max-w-full max-h-full"
+        className={`border border-gray-200 dark:border-gray-600 rounded-lg max-w-full max-h-full ${interactive ? 'cursor-pointer touch-none' : ''}`}
         style={{ maxWidth: '100%', maxHeight: '100%' }}
+        onPointerDown={interactive ? handlePointerDown : undefined}
+        onPointerMove={interactive ? handlePointerMove : undefined}
+        onPointerUp={interactive ? handlePointerUp : undefined}
       />
     </div>
   );
@@ -0,0 +1,181 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { GridConfig, terrainTypes, cellPosition } from '@/utils/gridEditing';
+import { GridFrame } from '@/algorithms/trace';
+import {
+  CELL_UNVISITED,
+  CELL_FRONTIER,
+  CELL_VISITED,
+  CELL_CURRENT,
+  CELL_PATH
+} from '@/algorithms/grid-pathfinding';
+
+interface GridRendererProps {
+  grid: GridConfig;
+  frames?: GridFrame[];                       // Delta frames to replay (none while editing)
+  step?: number;                              // Index of the frame to show
+  onCellPaint?: (index: number) => void;      // Pointer pressed or dragged over a cell
+  onPaintEnd?: () => void;                    // Pointer released after painting
+}
+
+// Overlay colours per cell status, drawn on top of the terrain
+const statusColors: Record<number, string> = {
+  [CELL_FRONTIER]: 'rgba(52, 211, 153, 0.65)',  // green
+  [CELL_VISITED]: 'rgba(139, 92, 246, 0.45)',   // purple
+  [CELL_CURRENT]: 'rgba(37, 99, 235, 0.9)',     // blue
+  [CELL_PATH]: 'rgba(245, 158, 11, 0.95)',      // yellow
+};
+
+export function GridRenderer({ grid, frames = [], step = 0, onCellPaint, onPaintEnd }: GridRendererProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [dimensions, setDimensions] = useState({ width: 600, height: 400 });
+
+  // Cell statuses after applying frames 0..appliedStep - updated in place, never copied
+  const statusRef = useRef<Uint8Array>(new Uint8Array(0));
+  const appliedRef = useRef<{ frames: GridFrame[] | null; step: number }>({ frames: null, step: -1 });
+  const lastPaintedRef = useRef<number | null>(null);
+
+  // Handle responsive sizing
+  useEffect(() => {
+    const updateDimensions = () => {
+      if (containerRef.current) {
+        const rect = containerRef.current.getBoundingClientRect();
+        setDimensions({ width: Math.max(200, rect.width - 20), height: Math.max(200, rect.height - 20) });
+      }
+    };
+
+    // Use a small delay to ensure the container is rendered
+    const timeoutId = setTimeout(updateDimensions, 100);
+    window.addEventListener('resize', updateDimensions);
+    return () => {
+      clearTimeout(timeoutId);
+      window.removeEventListener('resize', updateDimensions);
+    };
+  }, []);
+
+  const cellSize = Math.max(2, Math.floor(Math.min(dimensions.width / grid.cols, dimensions.height / grid.rows)));
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    // Bring the status buffer to the requested step. Moving forward only
+    // applies the new deltas; moving back replays from the first frame.
+    const cellCount = grid.rows * grid.cols;
+    const applied = appliedRef.current;
+    if (statusRef.current.length !== cellCount || applied.frames !== frames || step < applied.step) {
+      statusRef.current = new Uint8Array(cellCount);
+      applied.frames = frames;
+      applied.step = -1;
+    }
+    const status = statusRef.current;
+    const target = Math.min(step, frames.length - 1);
+    for (let i = applied.step + 1; i <= target; i++) {
+      const changes = frames[i].changes;
+      for (let c = 0; c < changes.length; c += 2) {
+        status[changes[c]] = changes[c + 1];
+      }
+    }
+    applied.step = Math.max(applied.step, target);
+
+    canvas.width = grid.cols * cellSize;
+    canvas.height = grid.rows * cellSize;
+
+    // Draw terrain, then the search status on top
+    for (let index = 0; index < cellCount; index++) {
+      const { row, col } = cellPosition(grid, index);
+      const x = col * cellSize;
+      const y = row * cellSize;
+
+      ctx.fillStyle = terrainTypes[grid.terrain[index]].color;
+      ctx.fillRect(x, y, cellSize, cellSize);
+
+      if (status[index] !== CELL_UNVISITED) {
+        ctx.fillStyle = statusColors[status[index]];
+        ctx.fillRect(x, y, cellSize, cellSize);
+      }
+    }
+
+    // Start and goal markers
+    [[grid.start, '#10b981'], [grid.goal, '#ef4444']].forEach(([index, color]) => {
+      const { row, col } = cellPosition(grid, index as number);
+      ctx.fillStyle = color as string;
+      ctx.fillRect(col * cellSize + 1, row * cellSize + 1, cellSize - 2, cellSize - 2);
+    });
+
+    // Grid lines, skipped when cells are too small for them to help
+    if (cellSize >= 8) {
+      ctx.strokeStyle = '#e5e7eb';
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      for (let row = 0; row <= grid.rows; row++) {
+        ctx.moveTo(0, row * cellSize + 0.5);
+        ctx.lineTo(grid.cols * cellSize, row * cellSize + 0.5);
+      }
+      for (let col = 0; col <= grid.cols; col++) {
+        ctx.moveTo(col * cellSize + 0.5, 0);
+        ctx.lineTo(col * cellSize + 0.5, grid.rows * cellSize);
+      }
+      ctx.stroke();
+    }
+  }, [grid, frames, step, cellSize]);
+
+  /**
+   * Map a pointer event to the index of the cell under it
+   */
+  const cellAt = (event: React.PointerEvent<HTMLCanvasElement>): number | null => {
+    const canvas = canvasRef.current;
+    if (!canvas) return null;
+
+    // The canvas may be scaled down by CSS, so convert to canvas pixels first
+    const rect = canvas.getBoundingClientRect();
+    const col = Math.floor(((event.clientX - rect.left) * (canvas.width / rect.width)) / cellSize);
+    const row = Math.floor(((event.clientY - rect.top) * (canvas.height / rect.height)) / cellSize);
+    if (row < 0 || row >= grid.rows || col < 0 || col >= grid.cols) return null;
+    return row * grid.cols + col;
+  };
+
+  const paintAt = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const index = cellAt(event);
+    if (index === null || index === lastPaintedRef.current) return;
+    lastPaintedRef.current = index;
+    onCellPaint?.(index);
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    lastPaintedRef.current = null;
+    paintAt(event);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (event.buttons === 0) return;
+    paintAt(event);
+  };
+
+  const handlePointerUp = () => {
+    lastPaintedRef.current = null;
+    onPaintEnd?.();
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className="w-full h-full flex items-center justify-center"
+    >
+      <canvas
+        ref={canvasRef}
+        className={`border border-gray-200 dark:border-gray-600 rounded max-w-full max-h-full ${onCellPaint ? 'cursor-crosshair touch-none' : ''}`}
+        style={{ maxWidth: '100%', maxHeight: '100%', imageRendering: 'pixelated' }}
+        onPointerDown={onCellPaint ? handlePointerDown : undefined}
+        onPointerMove={onCellPaint ? handlePointerMove : undefined}
+        onPointerUp={onCellPaint ? handlePointerUp : undefined}
+      />
+    </div>
+  );
+}
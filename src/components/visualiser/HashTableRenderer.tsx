@@ -1,16 +1,18 @@
 'use client';
 
 import { motion } from 'framer-motion';
+import { HashFrame, HashNode, HashSlot } from '@/algorithms/trace';
+import { collisionStrategies } from '@/utils/hashEditing';
 
-interface HashNode {
-  key: string;
-  value: number;
-  next?: HashNode;
+interface HashTableRendererProps {
+  frame: HashFrame;
 }
 
-interface HashTableRendererProps {
-  buckets: (HashNode | null)[];
-  searchKey: string;
+/**
+ * What to highlight in one table: the bucket or slot being inspected, the
+ * probe sequence so far and the key's home bucket or slot
+ */
+interface Highlight {
   currentBucket: number;
   currentNode: number;
   found: boolean;
@@ -18,58 +20,21 @@ interface HashTableRendererProps {
   hashValue: number;
 }
 
-export function HashTableRenderer({
-  buckets,
-  searchKey,
-  currentBucket,
-  currentNode,
-  found,
-  searchPath,
-  hashValue
-}: HashTableRendererProps) {
-  const renderBucket = (bucket: HashNode | null, index: number) => {
-    const isCurrentBucket = index === currentBucket;
-    const isInSearchPath = searchPath.includes(index);
-    const isHashValue = index === hashValue;
+const NO_HIGHLIGHT: Highlight = { currentBucket: -1, currentNode: -1, found: false, searchPath: [], hashValue: -1 };
 
-    return (
-      <div
-        key={index}
-        className={`border-2 rounded-lg p-3 min-h-[80px] ${
-          isCurrentBucket
-            ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20'
-            : isInSearchPath
-            ? 'border-yellow-500 bg-yellow-50 dark:bg-yellow-900/20'
-            : isHashValue
-            ? 'border-green-500 bg-green-50 dark:bg-green-900/20'
-            : 'border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800'
-        }`}
-      >
-        <div className="text-xs text-gray-500 dark:text-gray-400 mb-2">
-          Bucket {index}
-          {isHashValue && (
-            <span className="ml-2 text-green-600 dark:text-green-400">
-              (Hash: {hashValue})
-            </span>
-          )}
-        </div>
-        
-        {bucket ? (
-          <div className="space-y-2">
-            {renderLinkedList(bucket, index)}
-          </div>
-        ) : (
-          <div className="text-gray-400 dark:text-gray-500 text-sm italic">
-            Empty
-          </div>
-        )}
-      </div>
-    );
-  };
+const cellClassName = (index: number, highlight: Highlight) =>
+  index === highlight.currentBucket
+    ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20'
+    : highlight.searchPath.includes(index)
+    ? 'border-yellow-500 bg-yellow-50 dark:bg-yellow-900/20'
+    : index === highlight.hashValue
+    ? 'border-green-500 bg-green-50 dark:bg-green-900/20'
+    : 'border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800';
 
+function ChainedBuckets({ buckets, highlight }: { buckets: (HashNode | null)[]; highlight: Highlight }) {
   const renderLinkedList = (node: HashNode, bucketIndex: number, nodeIndex: number = 0) => {
-    const isCurrentNode = bucketIndex === currentBucket && nodeIndex === currentNode;
-    const isFound = found && isCurrentNode;
+    const isCurrentNode = bucketIndex === highlight.currentBucket && nodeIndex === highlight.currentNode;
+    const isFound = highlight.found && isCurrentNode;
 
     return (
       <motion.div
@@ -101,36 +66,135 @@ export function HashTableRenderer({
     );
   };
 
+  return (
+    <div className="grid grid-cols-5 gap-4">
+      {buckets.map((bucket, index) => (
+        <div key={index} className={`border-2 rounded-lg p-3 min-h-[80px] ${cellClassName(index, highlight)}`}>
+          <div className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+            Bucket {index}
+            {index === highlight.hashValue && (
+              <span className="ml-2 text-green-600 dark:text-green-400">(home)</span>
+            )}
+          </div>
+
+          {bucket ? (
+            <div className="space-y-2">
+              {renderLinkedList(bucket, index)}
+            </div>
+          ) : (
+            <div className="text-gray-400 dark:text-gray-500 text-sm italic">
+              Empty
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function ProbeArray({ slots, highlight }: { slots: (HashSlot | null)[]; highlight: Highlight }) {
+  return (
+    <div className="flex flex-wrap gap-2">
+      {slots.map((slot, index) => {
+        const isCurrent = index === highlight.currentBucket;
+        const probe = highlight.searchPath.indexOf(index);
+
+        return (
+          <motion.div
+            key={index}
+            className={`w-24 border-2 rounded-lg p-2 ${
+              isCurrent && highlight.found ? 'border-green-500 bg-green-100 dark:bg-green-900/30' : cellClassName(index, highlight)
+            }`}
+            initial={{ scale: 1 }}
+            animate={{ scale: isCurrent ? 1.05 : 1 }}
+            transition={{ duration: 0.2 }}
+          >
+            <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mb-1">
+              <span>Slot {index}</span>
+              {probe >= 0 && (
+                <span className="text-yellow-700 dark:text-yellow-400" title="Probe order">#{probe + 1}</span>
+              )}
+            </div>
+            {slot === null ? (
+              <div className="text-gray-400 dark:text-gray-500 text-sm italic">Empty</div>
+            ) : slot.deleted ? (
+              <div className="text-sm text-gray-400 dark:text-gray-500" title="Tombstone">
+                ✝ <span className="line-through">{slot.key}</span>
+              </div>
+            ) : (
+              <div className="text-sm">
+                <span className="font-medium text-blue-600 dark:text-blue-400">{slot.key}</span>
+                <span className="text-gray-500 dark:text-gray-400"> = </span>
+                <span className="text-green-600 dark:text-green-400">{slot.value}</span>
+              </div>
+            )}
+          </motion.div>
+        );
+      })}
+    </div>
+  );
+}
+
+export function HashTableRenderer({ frame }: HashTableRendererProps) {
+  const { buckets, slots, strategy = 'chaining', operation, searchKey, found, hashValue, count, loadFactor, resize } = frame;
+  const strategyName = collisionStrategies.find(option => option.id === strategy)?.name;
+  const capacity = slots ? slots.length : buckets.length;
+  const unit = slots ? 'slots' : 'buckets';
+
+  const table = (tableBuckets: (HashNode | null)[], tableSlots: (HashSlot | null)[] | undefined, highlight: Highlight) =>
+    tableSlots
+      ? <ProbeArray slots={tableSlots} highlight={highlight} />
+      : <ChainedBuckets buckets={tableBuckets} highlight={highlight} />;
+
   return (
     <div className="w-full h-full flex flex-col">
-      <div className="mb-4 p-4 bg-gray-50 dark:bg-gray-700 rounded-lg">
+      <div className="mb-4 p-4 bg-gray-50 dark:bg-gray-700 rounded-lg grid grid-cols-2 gap-x-4">
         <div className="text-sm text-gray-700 dark:text-gray-300">
-          <strong>Searching for:</strong> {searchKey}
+          <strong>{operation ? `${operation[0].toUpperCase()}${operation.slice(1)}:` : 'Key:'}</strong> {searchKey || '—'}
         </div>
         <div className="text-sm text-gray-600 dark:text-gray-400">
-          <strong>Hash Value:</strong> {hashValue}
+          <strong>Collisions:</strong> {strategyName}
         </div>
         <div className="text-sm text-gray-600 dark:text-gray-400">
-          <strong>Status:</strong> {found ? 'Found!' : 'Searching...'}
+          <strong>Home {slots ? 'slot' : 'bucket'}:</strong> {hashValue >= 0 ? hashValue : '—'}
         </div>
-      </div>
-      
-      <div className="flex-1 overflow-auto">
-        <div className="grid grid-cols-5 gap-4">
-          {buckets.map((bucket, index) => renderBucket(bucket, index))}
+        <div className="text-sm text-gray-600 dark:text-gray-400">
+          <strong>Load factor:</strong> {count !== undefined ? `${count} / ${capacity} ${unit}` : `${capacity} ${unit}`}
+          {loadFactor !== undefined && ` (${loadFactor})`}
+        </div>
+        <div className="text-sm text-gray-600 dark:text-gray-400">
+          <strong>Status:</strong> {resize ? 'Resizing...' : found ? 'Found!' : 'Searching...'}
         </div>
       </div>
-      
+
+      <div className="flex-1 overflow-auto space-y-4">
+        {resize && (
+          <div className="p-3 border border-dashed border-gray-300 dark:border-gray-600 rounded-lg opacity-80">
+            <div className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+              Old table ({resize.slots ? resize.slots.length : resize.buckets.length} {unit}), moving entries into the new one
+            </div>
+            {table(resize.buckets, resize.slots, { ...NO_HIGHLIGHT, currentBucket: resize.current })}
+          </div>
+        )}
+        {table(buckets, slots, frame)}
+      </div>
+
       <div className="mt-4 text-xs text-gray-500 dark:text-gray-400 text-center">
         <span className="inline-block w-3 h-3 bg-green-500 rounded mr-1"></span>
-        Hash Value
+        Home {slots ? 'Slot' : 'Bucket'}
         <span className="inline-block w-3 h-3 bg-yellow-500 rounded ml-3 mr-1"></span>
-        Search Path
+        {slots ? 'Probe Sequence' : 'Search Path'}
         <span className="inline-block w-3 h-3 bg-blue-500 rounded ml-3 mr-1"></span>
-        Current Node
+        Current {slots ? 'Slot' : 'Node'}
         <span className="inline-block w-3 h-3 bg-green-400 rounded ml-3 mr-1"></span>
         Found
+        {slots && (
+          <>
+            <span className="ml-3 mr-1">✝</span>
+            Tombstone
+          </>
+        )}
       </div>
     </div>
   );
-} 
\ No newline at end of file
+}
@@ -0,0 +1,83 @@
+'use client';
+
+interface HeapTreeRendererProps {
+  values: number[];
+  heapSize: number;      // values[0..heapSize) form the heap
+  comparing: number[];
+  swapping: number[];
+  width?: number;
+  height?: number;
+}
+
+const NODE_RADIUS = 14;
+
+// Position of the node at index in a complete binary tree, in a width x height box
+function nodePosition(index: number, width: number, height: number, levels: number) {
+  const level = Math.floor(Math.log2(index + 1));
+  const levelStart = 2 ** level - 1;
+  const slots = 2 ** level;
+  const x = ((index - levelStart + 0.5) / slots) * width;
+  const y = NODE_RADIUS + 4 + (levels > 1 ? (level / (levels - 1)) * (height - 2 * (NODE_RADIUS + 4)) : 0);
+  return { x, y };
+}
+
+export function HeapTreeRenderer({
+  values,
+  heapSize,
+  comparing,
+  swapping,
+  width = 320,
+  height = 220
+}: HeapTreeRendererProps) {
+  if (heapSize === 0) {
+    return (
+      <div className="flex items-center justify-center text-sm text-gray-500 dark:text-gray-400" style={{ width, height }}>
+        Heap is empty
+      </div>
+    );
+  }
+
+  const levels = Math.floor(Math.log2(heapSize)) + 1;
+  const positions = Array.from({ length: heapSize }, (_, index) => nodePosition(index, width, height, levels));
+
+  const fillFor = (index: number) =>
+    swapping.includes(index) ? '#f87171' :   // red-400
+    comparing.includes(index) ? '#facc15' :  // yellow-400
+    '#9ca3af';                               // gray-400
+
+  return (
+    <svg width={width} height={height} className="overflow-visible">
+      {/* Edges from each node to its parent */}
+      {positions.map((position, index) => {
+        if (index === 0) return null;
+        const parent = positions[Math.floor((index - 1) / 2)];
+        return (
+          <line
+            key={`edge-${index}`}
+            x1={parent.x}
+            y1={parent.y}
+            x2={position.x}
+            y2={position.y}
+            className="stroke-gray-300 dark:stroke-gray-600"
+            strokeWidth={2}
+          />
+        );
+      })}
+
+      {positions.map((position, index) => (
+        <g key={`node-${index}`}>
+          <circle cx={position.x} cy={position.y} r={NODE_RADIUS} fill={fillFor(index)} />
+          <text
+            x={position.x}
+            y={position.y}
+            textAnchor="middle"
+            dominantBaseline="central"
+            className="fill-white text-xs font-medium"
+          >
+            {values[index]}
+          </text>
+        </g>
+      ))}
+    </svg>
+  );
+}
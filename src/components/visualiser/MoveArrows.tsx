@@ -0,0 +1,89 @@
+'use client';
+
+import { RefObject, useLayoutEffect, useState } from 'react';
+import { ArrayMove, ArraySlot } from '@/algorithms/trace';
+
+interface MoveArrowsProps {
+  containerRef: RefObject<HTMLDivElement | null>;   // Element containing the bars and auxiliary rows
+  moves: ArrayMove[];
+}
+
+interface Arrow {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+/**
+ * Slot Id
+ *
+ * The data-slot attribute given to a bar or auxiliary cell, so arrows can
+ * find the element a move starts or ends at.
+ */
+export function slotId(slot: ArraySlot): string {
+  return slot.row === 'main' ? `main-${slot.index}` : `aux-${slot.row}-${slot.index}`;
+}
+
+// Connect the facing edges of two boxes, in coordinates relative to the container
+function arrowBetween(from: DOMRect, to: DOMRect, origin: DOMRect): Arrow {
+  const downwards = from.top < to.top;
+  return {
+    x1: from.left + from.width / 2 - origin.left,
+    y1: (downwards ? from.bottom : from.top) - origin.top,
+    x2: to.left + to.width / 2 - origin.left,
+    y2: (downwards ? to.top : to.bottom) - origin.top
+  };
+}
+
+export function MoveArrows({ containerRef, moves }: MoveArrowsProps) {
+  const [arrows, setArrows] = useState<Arrow[]>([]);
+
+  // Measure after layout, and again whenever the container is resized
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const measure = () => {
+      const origin = container.getBoundingClientRect();
+      const find = (slot: ArraySlot) =>
+        container.querySelector<HTMLElement>(`[data-slot="${slotId(slot)}"]`)?.getBoundingClientRect();
+
+      setArrows(moves.flatMap(move => {
+        const from = find(move.from);
+        const to = find(move.to);
+        return from && to ? [arrowBetween(from, to, origin)] : [];
+      }));
+    };
+
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [containerRef, moves]);
+
+  if (arrows.length === 0) return null;
+
+  return (
+    <svg className="absolute inset-0 w-full h-full pointer-events-none overflow-visible">
+      <defs>
+        <marker id="move-arrowhead" markerWidth="8" markerHeight="8" refX="7" refY="4" orient="auto">
+          <path d="M0,0 L8,4 L0,8 z" className="fill-blue-500" />
+        </marker>
+      </defs>
+      {arrows.map((arrow, index) => (
+        <line
+          key={index}
+          x1={arrow.x1}
+          y1={arrow.y1}
+          x2={arrow.x2}
+          y2={arrow.y2}
+          className="stroke-blue-500"
+          strokeWidth={2}
+          strokeDasharray="4 3"
+          markerEnd="url(#move-arrowhead)"
+        />
+      ))}
+    </svg>
+  );
+}
@@ -2,11 +2,22 @@
 
 import { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { getAlgorithmById } from '@/data/algorithms';
-import { AlgorithmService } from '@/utils/algorithmService';
-import { GraphRenderer } from './GraphRenderer';
+import { getAlgorithmPlugin } from '@/algorithms/registry';
+import { DEFAULT_SPEED, MAX_SPEED, MIN_SPEED, SPEED_STEP } from '@/utils/permalink';
+import { GraphRenderer, GROUP_COLORS } from './GraphRenderer';
 import { HashTableRenderer } from './HashTableRenderer';
+import { GridRenderer } from './GridRenderer';
+import { HeapTreeRenderer } from './HeapTreeRenderer';
+import { AuxiliaryRows } from './AuxiliaryRows';
+import { MoveArrows, slotId } from './MoveArrows';
 import { GifExporter } from '../gifExporter/gifExporter';
+import { StatsPanel } from '../statsPanel/statsPanel';
+import { CallStackPanel } from '../callStackPanel/callStackPanel';
+import { PseudocodePanel } from '../pseudocodePanel/pseudocodePanel';
+import { WatchPanel } from '../watchPanel/watchPanel';
+import { FrontierPanel } from '../frontierPanel/frontierPanel';
+import { UnionFindPanel } from '../unionFindPanel/unionFindPanel';
+import { Trace, GridFrame } from '@/algorithms/trace';
 
 /**
  * Visualizer Component Props
@@ -15,87 +26,32 @@ import { GifExporter } from '../gifExporter/gifExporter';
  * algorithm animations and provides playback controls.
  */
 interface VisualiserProps {
-    states: any[];           // Array of visualization states from the algorithm
+    states: Trace;           // Array of visualization states from the algorithm
     algorithmId?: string;    // Current algorithm identifier
-}
-
-/**
- * Bar Data Interface
- * 
- * Represents individual bars in bar chart visualizations
- * (used for sorting and array-based algorithms).
- */
-interface BarData {
-    value: number;           // Numeric value of the bar
-    index: number;           // Position in the array
-    status: 'normal' | 'comparing' | 'swapping' | 'sorted' | 'pivot' | 'searching' | 'found';  // Visual state
-}
-
-/**
- * Node Interface
- * 
- * Represents vertices in graph visualizations
- * (used for graph traversal and pathfinding algorithms).
- */
-interface Node {
-    id: string;              // Unique node identifier
-    x: number;               // X coordinate for positioning
-    y: number;               // Y coordinate for positioning
-    value?: number;          // Optional numeric value
-    status: 'unvisited' | 'visited' | 'current' | 'path' | 'start' | 'end';  // Visual state
-}
-
-/**
- * Edge Interface
- * 
- * Represents connections between nodes in graph visualizations.
- */
-interface Edge {
-    from: string;            // Source node ID
-    to: string;              // Target node ID
-    weight?: number;         // Optional edge weight
-    status: 'normal' | 'visited' | 'path' | 'current';  // Visual state
-}
-
-/**
- * Graph Data Interface
- * 
- * Complete graph structure for graph-based algorithm visualizations.
- */
-interface GraphData {
-    nodes: Node[];           // Array of graph nodes
-    edges: Edge[];           // Array of graph edges
-    directed: boolean;       // Whether the graph is directed
-    weighted: boolean;       // Whether edges have weights
+    directed?: boolean;      // Whether graph edges are directed (draws arrowheads)
+    pausedAt?: number | null;   // Frame a quiz holds the animation at; playback is locked while set
+    startAt?: { trace: Trace; frame: number; speed: number } | null;   // Step and speed to open a trace at (permalinks)
+    onPositionChange?: (frame: number, speed: number) => void;         // Reports the shown step and speed
 }
 
 /**
  * Algorithm Visualizer Component
  * 
  * This is the main visualization component that displays algorithm animations.
- * It supports three types of visualizations:
+ * It supports four types of visualizations:
  * - Bar charts for sorting and array-based algorithms
  * - Graph visualizations for graph traversal algorithms
+ * - Grid visualizations for grid pathfinding mode
  * - Hash table visualizations for hash table operations
  * 
- * The component provides playback controls and automatically determines
- * the appropriate visualization type based on the algorithm category.
+ * The component provides playback controls and uses the renderer
+ * declared by the algorithm's plugin.
  */
-export function Visualiser({ states, algorithmId }: VisualiserProps) {
+export function Visualiser({ states, algorithmId, directed = false, pausedAt = null, startAt = null, onPositionChange }: VisualiserProps) {
     // Animation state management
     const [currentState, setCurrentState] = useState(0);        // Current animation frame
     const [isPlaying, setIsPlaying] = useState(false);          // Play/pause state
-    const [speed, setSpeed] = useState(1000);                   // Animation speed in milliseconds
-    const [visualizationType, setVisualizationType] = useState<'bars' | 'graph' | 'hash'>('bars');  // Visualization type
-    
-    // Data state for different visualization types
-    const [graphData, setGraphData] = useState<GraphData>({
-        nodes: [],
-        edges: [],
-        directed: false,
-        weighted: false
-    });
-    const [barData, setBarData] = useState<BarData[]>([]);
+    const [speed, setSpeed] = useState(DEFAULT_SPEED);          // Animation speed in milliseconds
     
     // Animation interval reference for cleanup
     const intervalRef = useRef<NodeJS.Timeout | null>(null);
@@ -103,77 +59,59 @@ export function Visualiser({ states, algorithmId }: VisualiserProps) {
     // Canvas reference for GIF export
     const canvasRef = useRef<HTMLCanvasElement | null>(null);
 
-    // Get algorithm metadata for display purposes
-    const algorithm = algorithmId ? getAlgorithmById(algorithmId) : null;
+    // Bar view container, used to place the arrows between bars and auxiliary rows
+    const barsRef = useRef<HTMLDivElement | null>(null);
+
+    // Get algorithm metadata and renderer from its plugin
+    const algorithm = algorithmId ? getAlgorithmPlugin(algorithmId) : undefined;
+    const visualizationType = algorithm?.renderer ?? 'array';
+
+    // Grid pathfinding traces are recognised by their frames rather than the plugin
+    const isGridTrace = states[0]?.kind === 'grid';
 
     /**
-     * Determine Visualization Type
+     * Reset Playback On New States
      * 
-     * Automatically selects the appropriate visualization type based on
-     * the algorithm category. This ensures the correct visual representation
-     * is used for each algorithm type.
+     * When a new trace arrives (e.g. after running the user's code),
+     * playback restarts from the first frame.
      */
     useEffect(() => {
-        if (algorithm) {
-            if (algorithm.category === 'Sorting') {
-                setVisualizationType('bars');
-            } else if (algorithm.category === 'Searching') {
-                if (algorithm.id === 'hash-table-search') {
-                    setVisualizationType('hash');
-                } else {
-                    setVisualizationType('bars');
-                }
-            } else {
-                setVisualizationType('graph');
-            }
-        }
-    }, [algorithm]);
+        setIsPlaying(false);
+        setCurrentState(0);
+    }, [states]);
 
     /**
-     * Initialize Bar Chart Data
+     * Start Position Effect
      * 
-     * Sets up the initial bar chart data for sorting and array-based algorithms.
-     * This creates the visual representation of the array as bars.
+     * Opens the trace a permalink was made for at its step and speed.
+     * Declared after the reset above so it wins when both run for the
+     * same trace, and applied once so later input changes start at 0.
      */
-    const initializeBarData = () => {
-        const initialValues = [64, 34, 25, 12, 22, 11, 90, 45, 78, 33];
-        const bars: BarData[] = initialValues.map((value, index) => ({
-            value,
-            index,
-            status: 'normal'
-        }));
-        setBarData(bars);
-    };
+    const appliedStartRef = useRef<VisualiserProps['startAt']>(null);
+    useEffect(() => {
+        if (!startAt || startAt.trace !== states || appliedStartRef.current === startAt) return;
+        appliedStartRef.current = startAt;
+        setSpeed(startAt.speed);
+        setCurrentState(Math.min(startAt.frame, Math.max(states.length - 1, 0)));
+    }, [startAt, states]);
+
+    useEffect(() => {
+        onPositionChange?.(currentState, speed);
+    }, [currentState, speed, onPositionChange]);
 
     /**
-     * Initialize Graph Data
+     * Quiz Pause Effect
      * 
-     * Sets up the initial graph structure for graph-based algorithms.
-     * This creates the visual representation of nodes and edges.
+     * Stops playback and shows the frame a quiz question is about (or
+     * the frame revealing its answer).
      */
-    const initializeGraphData = () => {
-        // Create a sample graph with nodes and edges
-        const nodes: Node[] = [
-            { id: 'A', x: 100, y: 100, status: 'unvisited' },
-            { id: 'B', x: 200, y: 150, status: 'unvisited' },
-            { id: 'C', x: 300, y: 100, status: 'unvisited' },
-            { id: 'D', x: 150, y: 200, status: 'unvisited' },
-            { id: 'E', x: 250, y: 200, status: 'unvisited' },
-            { id: 'F', x: 350, y: 150, status: 'unvisited' },
-        ];
-
-        const edges: Edge[] = [
-            { from: 'A', to: 'B', weight: 4, status: 'normal' },
-            { from: 'A', to: 'D', weight: 2, status: 'normal' },
-            { from: 'B', to: 'C', weight: 3, status: 'normal' },
-            { from: 'B', to: 'E', weight: 5, status: 'normal' },
-            { from: 'C', to: 'F', weight: 1, status: 'normal' },
-            { from: 'D', to: 'E', weight: 6, status: 'normal' },
-            { from: 'E', to: 'F', weight: 2, status: 'normal' },
-        ];
-
-        setGraphData({ nodes, edges, directed: false, weighted: true });
-    };
+    useEffect(() => {
+        if (pausedAt === null) return;
+        setIsPlaying(false);
+        setCurrentState(Math.min(pausedAt, Math.max(states.length - 1, 0)));
+    }, [pausedAt, states.length]);
+
+    const isLocked = pausedAt !== null;
 
     /**
      * Animation Control Effect
@@ -266,7 +204,7 @@ export function Visualiser({ states, algorithmId }: VisualiserProps) {
     const renderBars = () => {
         // Get current state data from the algorithm
         const currentStateData = states[currentState];
-        if (!currentStateData) {
+        if (currentStateData?.kind !== 'array') {
             return (
                 <div className="w-full h-full flex items-center justify-center">
                     <p className="text-gray-500 dark:text-gray-400">No visualization data available</p>
@@ -275,10 +213,7 @@ export function Visualiser({ states, algorithmId }: VisualiserProps) {
         }
 
         // Extract visualization data from current state
-        const values = currentStateData.values || barData.map(bar => bar.value);
-        const comparing = currentStateData.comparing || [];
-        const swapping = currentStateData.swapping || [];
-        const sorted = currentStateData.sorted || [];
+        const { values, comparing, swapping, sorted } = currentStateData;
         const key = currentStateData.key;
         const left = currentStateData.left || [];
         const right = currentStateData.right || [];
@@ -288,6 +223,7 @@ export function Visualiser({ states, algorithmId }: VisualiserProps) {
         const searching = currentStateData.searching || [];
         const found = currentStateData.found || [];
         const target = currentStateData.target;
+        const { heapSize, gap, gaps, digit, auxiliary, moves } = currentStateData;
 
         // Calculate visualization dimensions
         const maxValue = Math.max(...values);
@@ -295,55 +231,78 @@ export function Visualiser({ states, algorithmId }: VisualiserProps) {
 
         return (
             <div className="w-full h-full flex flex-col">
-                {/* Bar Chart Display */}
-                <div className="flex-1 flex items-end justify-center space-x-2 p-4">
-                    {values.map((value: number, index: number) => {
-                        // Determine bar color based on current operation
-                        let status = 'normal';
-                        if (comparing.includes(index)) status = 'comparing';
-                        else if (swapping.includes(index)) status = 'swapping';
-                        else if (sorted.includes(index)) status = 'sorted';
-                        else if (key === index) status = 'pivot';
-                        else if (left.includes(index)) status = 'left';
-                        else if (right.includes(index)) status = 'right';
-                        else if (pivot.includes(index)) status = 'pivot';
-                        else if (partition.includes(index)) status = 'partition';
-                        else if (searching.includes(index)) status = 'searching';
-                        else if (found.includes(index)) status = 'found';
-
-                        return (
-                            <motion.div
-                                key={index}
-                                className={`w-8 rounded-t-lg transition-all duration-300 ${
-                                    status === 'comparing' ? 'bg-yellow-400' :
-                                    status === 'swapping' ? 'bg-red-400' :
-                                    status === 'sorted' ? 'bg-green-400' :
-                                    status === 'pivot' ? 'bg-purple-400' :
-                                    status === 'searching' ? 'bg-blue-400' :
-                                    status === 'found' ? 'bg-green-500' :
-                                    status === 'left' ? 'bg-blue-300' :
-                                    status === 'right' ? 'bg-purple-300' :
-                                    status === 'partition' ? 'bg-orange-300' :
-                                    status === 'searching' ? 'bg-blue-400' :
-                                    status === 'found' ? 'bg-green-500' :
-                                    'bg-gray-400'
-                                }`}
-                                style={{
-                                    height: `${(value / maxValue) * containerHeight}px`,
-                                    minHeight: '20px'
-                                }}
-                                initial={{ scale: 1 }}
-                                animate={{
-                                    scale: status === 'comparing' || status === 'swapping' ? 1.1 : 1
-                                }}
-                                transition={{ duration: 0.2 }}
-                            >
-                                <div className="text-xs text-center text-white font-medium mt-1">
-                                    {value}
-                                </div>
-                            </motion.div>
-                        );
-                    })}
+                <div ref={barsRef} className="relative flex-1 flex flex-col">
+                    <div className="flex-1 flex items-end justify-center gap-6">
+                        {/* Bar Chart Display */}
+                        <div className="flex-1 flex items-end justify-center space-x-2 p-4">
+                            {values.map((value, index) => {
+                                // Determine bar color based on current operation
+                                let status = 'normal';
+                                if (comparing.includes(index)) status = 'comparing';
+                                else if (swapping.includes(index)) status = 'swapping';
+                                else if (sorted.includes(index)) status = 'sorted';
+                                else if (key === index) status = 'pivot';
+                                else if (left.includes(index)) status = 'left';
+                                else if (right.includes(index)) status = 'right';
+                                else if (pivot.includes(index)) status = 'pivot';
+                                else if (partition.includes(index)) status = 'partition';
+                                else if (searching.includes(index)) status = 'searching';
+                                else if (found.includes(index)) status = 'found';
+
+                                return (
+                                    <motion.div
+                                        key={index}
+                                        data-slot={slotId({ row: 'main', index })}
+                                        className={`w-8 rounded-t-lg transition-all duration-300 ${
+                                            status === 'comparing' ? 'bg-yellow-400' :
+                                            status === 'swapping' ? 'bg-red-400' :
+                                            status === 'sorted' ? 'bg-green-400' :
+                                            status === 'pivot' ? 'bg-purple-400' :
+                                            status === 'searching' ? 'bg-blue-400' :
+                                            status === 'found' ? 'bg-green-500' :
+                                            status === 'left' ? 'bg-blue-300' :
+                                            status === 'right' ? 'bg-purple-300' :
+                                            status === 'partition' ? 'bg-orange-300' :
+                                            status === 'searching' ? 'bg-blue-400' :
+                                            status === 'found' ? 'bg-green-500' :
+                                            'bg-gray-400'
+                                        }`}
+                                        style={{
+                                            height: `${(value / maxValue) * containerHeight}px`,
+                                            minHeight: '20px'
+                                        }}
+                                        initial={{ scale: 1 }}
+                                        animate={{
+                                            scale: status === 'comparing' || status === 'swapping' ? 1.1 : 1
+                                        }}
+                                        transition={{ duration: 0.2 }}
+                                    >
+                                        <div className="text-xs text-center text-white font-medium mt-1">
+                                            {value}
+                                        </div>
+                                    </motion.div>
+                                );
+                            })}
+                        </div>
+
+                        {/* Heap sort: the heap part of the array drawn as a tree */}
+                        {heapSize !== undefined && (
+                            <div className="p-4">
+                                <HeapTreeRenderer
+                                    values={values}
+                                    heapSize={heapSize}
+                                    comparing={comparing}
+                                    swapping={swapping}
+                                />
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Helper arrays such as merge buffers, counts and output arrays */}
+                    {auxiliary && auxiliary.length > 0 && <AuxiliaryRows rows={auxiliary} />}
+
+                    {/* Arrows for values copied between the array and the helper arrays */}
+                    {moves && moves.length > 0 && <MoveArrows containerRef={barsRef} moves={moves} />}
                 </div>
                 
                 {/* Progress Information */}
@@ -354,10 +313,28 @@ export function Visualiser({ states, algorithmId }: VisualiserProps) {
                             <span className="font-medium">Target:</span> {target}
                         </div>
                     )}
+                    {gaps && gaps.length > 0 && (
+                        <div className="mt-2 text-sm">
+                            <span className="font-medium">Gaps:</span>{' '}
+                            {gaps.map((value, index) => (
+                                <span
+                                    key={index}
+                                    className={`mx-1 ${value === gap ? 'font-bold text-orange-500' : ''}`}
+                                >
+                                    {value}
+                                </span>
+                            ))}
+                        </div>
+                    )}
+                    {digit !== undefined && (
+                        <div className="mt-2 text-sm">
+                            <span className="font-medium">Sorting on digit:</span> {digit}s place
+                        </div>
+                    )}
                 </div>
                 
                 {/* Legend for Algorithm-Specific Colors */}
-                {(merging || pivot.length > 0 || searching.length > 0 || found.length > 0) && (
+                {(merging || pivot.length > 0 || searching.length > 0 || found.length > 0 || heapSize !== undefined || gap !== undefined) && (
                     <div className="mt-2 text-xs text-gray-500 dark:text-gray-400 text-center">
                         {merging && (
                             <>
@@ -397,6 +374,28 @@ export function Visualiser({ states, algorithmId }: VisualiserProps) {
                                 Swapping
                             </>
                         )}
+                        {heapSize !== undefined && (
+                            <>
+                                <span className="inline-block w-3 h-3 bg-gray-400 rounded mr-1"></span>
+                                Heap
+                                <span className="inline-block w-3 h-3 bg-yellow-400 rounded ml-3 mr-1"></span>
+                                Comparing
+                                <span className="inline-block w-3 h-3 bg-red-400 rounded ml-3 mr-1"></span>
+                                Swapping
+                                <span className="inline-block w-3 h-3 bg-green-400 rounded ml-3 mr-1"></span>
+                                Sorted
+                            </>
+                        )}
+                        {gap !== undefined && (
+                            <>
+                                <span className="inline-block w-3 h-3 bg-orange-300 rounded mr-1"></span>
+                                Gap subsequence
+                                <span className="inline-block w-3 h-3 bg-yellow-400 rounded ml-3 mr-1"></span>
+                                Comparing
+                                <span className="inline-block w-3 h-3 bg-red-400 rounded ml-3 mr-1"></span>
+                                Swapping
+                            </>
+                        )}
                         {searching.length > 0 && (
                             <>
                                 <span className="inline-block w-3 h-3 bg-blue-400 rounded mr-1"></span>
@@ -421,7 +420,7 @@ export function Visualiser({ states, algorithmId }: VisualiserProps) {
      */
     const renderGraph = () => {
         const currentStateData = states[currentState];
-        if (!currentStateData) {
+        if (currentStateData?.kind !== 'graph') {
             return (
                 <div className="w-full h-full flex items-center justify-center">
                     <p className="text-gray-500 dark:text-gray-400">No visualization data available</p>
@@ -439,11 +438,18 @@ export function Visualiser({ states, algorithmId }: VisualiserProps) {
         const blackNodes = currentStateData.blackNodes || [];
         const stack = currentStateData.stack || [];
         const current = currentStateData.current;
+        const bridges = edges.filter(edge => edge.status === 'bridge');
+        const articulationPoints = nodes.filter(node => node.status === 'articulation');
 
         return (
             <div className="w-full h-full flex flex-col">
-                <div className="flex-1">
-                    <GraphRenderer nodes={nodes} edges={edges} />
+                {/* Priority queue (Dijkstra, A*, Prim) or union-find forest (Kruskal) beside the graph */}
+                <div className="flex-1 flex flex-col lg:flex-row gap-4">
+                    <div className="flex-1 min-w-0">
+                        <GraphRenderer nodes={nodes} edges={edges} directed={directed} />
+                    </div>
+                    <FrontierPanel frame={currentStateData} />
+                    <UnionFindPanel frame={currentStateData} />
                 </div>
                 
                 {/* Algorithm-specific information display */}
@@ -452,8 +458,8 @@ export function Visualiser({ states, algorithmId }: VisualiserProps) {
                         {currentState < states.length ? `Step ${currentState + 1} of ${states.length}` : 'Animation complete'}
                     </div>
                     
-                    {/* A* Algorithm specific info */}
-                    {algorithmId === 'a-star' && (
+                    {/* Open/closed sets (A*) */}
+                    {currentStateData.openSet && (
                         <div className="text-xs text-gray-500 dark:text-gray-400 text-center space-x-4">
                             <span>Open Set: {openSet.length}</span>
                             <span>Closed Set: {closedSet.length}</span>
@@ -461,8 +467,8 @@ export function Visualiser({ states, algorithmId }: VisualiserProps) {
                         </div>
                     )}
                     
-                    {/* Tricolor Algorithm specific info */}
-                    {algorithmId === 'tricolor-algorithm' && (
+                    {/* White/gray/black sets (tricolor) */}
+                    {currentStateData.whiteNodes && (
                         <div className="text-xs text-gray-500 dark:text-gray-400 text-center space-x-4">
                             <span className="inline-flex items-center">
                                 <span className="w-3 h-3 bg-gray-200 rounded-full mr-1"></span>
@@ -479,12 +485,117 @@ export function Visualiser({ states, algorithmId }: VisualiserProps) {
                         </div>
                     )}
                     
-                    {/* BFS/DFS specific info */}
-                    {(algorithmId === 'breadth-first-search' || algorithmId === 'depth-first-search') && stack.length > 0 && (
+                    {/* Traversal stack (DFS) */}
+                    {stack.length > 0 && (
                         <div className="text-xs text-gray-500 dark:text-gray-400 text-center">
                             Stack/Queue: [{stack.join(', ')}]
                         </div>
                     )}
+
+                    {/* Order built so far (topological sorts) */}
+                    {currentStateData.order && (
+                        <div className="text-xs text-gray-500 dark:text-gray-400 text-center">
+                            Order: [{currentStateData.order.join(', ')}]
+                        </div>
+                    )}
+
+                    {/* Tree weight and edge colours (Kruskal, Prim) */}
+                    {currentStateData.treeWeight !== undefined && (
+                        <div className="text-xs text-gray-500 dark:text-gray-400 text-center">
+                            <span className="font-medium">Tree weight: {currentStateData.treeWeight}</span>
+                            <span className="inline-block w-3 h-3 bg-emerald-600 rounded ml-3 mr-1"></span>
+                            Tree edge
+                            <span className="inline-block w-3 h-3 bg-red-400 rounded ml-3 mr-1"></span>
+                            Rejected (closes a cycle)
+                            <span className="inline-block w-3 h-3 bg-blue-500 rounded ml-3 mr-1"></span>
+                            Considering
+                        </div>
+                    )}
+
+                    {/* Components found so far, in their node colours (Tarjan, Kosaraju) */}
+                    {currentStateData.components && currentStateData.components.length > 0 && (
+                        <div className="text-xs text-gray-500 dark:text-gray-400 text-center">
+                            Components:
+                            {currentStateData.components.map((component, index) => (
+                                <span key={index} className="inline-flex items-center ml-3">
+                                    <span
+                                        className="inline-block w-3 h-3 rounded mr-1"
+                                        style={{ backgroundColor: GROUP_COLORS[index % GROUP_COLORS.length] }}
+                                    ></span>
+                                    {'{'}{component.join(', ')}{'}'}
+                                </span>
+                            ))}
+                        </div>
+                    )}
+
+                    {/* Bridges and articulation points found so far */}
+                    {(bridges.length > 0 || articulationPoints.length > 0) && (
+                        <div className="text-xs text-gray-500 dark:text-gray-400 text-center">
+                            <span className="inline-block w-3 h-3 bg-orange-600 rounded mr-1"></span>
+                            Bridges: {bridges.length > 0 ? bridges.map(edge => `${edge.from}–${edge.to}`).join(', ') : 'none'}
+                            <span className="inline-block w-3 h-3 bg-orange-600 rounded-full ml-3 mr-1"></span>
+                            Articulation points: {articulationPoints.length > 0 ? articulationPoints.map(node => node.id).join(', ') : 'none'}
+                        </div>
+                    )}
+
+                    {/* Negative cycle found (Bellman-Ford) */}
+                    {currentStateData.negativeCycle && (
+                        <div className="text-sm text-center font-medium text-red-700 dark:text-red-300">
+                            <span className="inline-block w-3 h-3 bg-red-600 rounded mr-1"></span>
+                            Negative cycle: {[...currentStateData.negativeCycle, currentStateData.negativeCycle[0]].join(' → ')} - no shortest paths exist
+                        </div>
+                    )}
+                </div>
+            </div>
+        );
+    };
+
+    /**
+     * Render Grid Visualization
+     * 
+     * Creates the grid visualization for grid pathfinding mode.
+     * The GridRenderer replays the delta frames up to the current step.
+     */
+    const renderGrid = () => {
+        const currentStateData = states[currentState];
+        if (currentStateData?.kind !== 'grid') {
+            return (
+                <div className="w-full h-full flex items-center justify-center">
+                    <p className="text-gray-500 dark:text-gray-400">No visualization data available</p>
+                </div>
+            );
+        }
+
+        const { grid, frontierSize, visitedCount, pathCost, pathLength } = currentStateData;
+
+        return (
+            <div className="w-full h-full flex flex-col">
+                <div className="flex-1 min-h-[300px]">
+                    <GridRenderer grid={grid} frames={states as GridFrame[]} step={currentState} />
+                </div>
+
+                <div className="mt-4 space-y-2">
+                    <div className="text-center text-sm text-gray-600 dark:text-gray-400">
+                        {`Step ${currentState + 1} of ${states.length}`}
+                    </div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400 text-center space-x-4">
+                        <span>Frontier: {frontierSize}</span>
+                        <span>Visited: {visitedCount}</span>
+                        {pathCost !== null && <span>Path: {pathLength} cells, cost {pathCost}</span>}
+                        {currentStateData.line === 'no-path' && <span>No path to the goal</span>}
+                    </div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400 text-center">
+                        <span className="inline-block w-3 h-3 bg-emerald-400 rounded mr-1"></span>
+                        Frontier
+                        <span className="inline-block w-3 h-3 bg-violet-400 rounded ml-3 mr-1"></span>
+                        Visited
+                        <span className="inline-block w-3 h-3 bg-amber-500 rounded ml-3 mr-1"></span>
+                        Path
+                        <span className="inline-block w-3 h-3 bg-yellow-700 rounded ml-3 mr-1"></span>
+                        Mud
+                        <span className="inline-block w-3 h-3 bg-sky-300 rounded ml-3 mr-1"></span>
+                        Water
+                    </div>
                 </div>
             </div>
         );
@@ -494,11 +605,12 @@ export function Visualiser({ states, algorithmId }: VisualiserProps) {
      * Render Hash Table Visualization
      * 
      * Creates the hash table visualization for hash table operations.
-     * Uses the HashTableRenderer component to display buckets and chains.
+     * Uses the HashTableRenderer component to display buckets and chains,
+     * or the probe array under open addressing.
      */
     const renderHashTable = () => {
         const currentStateData = states[currentState];
-        if (!currentStateData) {
+        if (currentStateData?.kind !== 'hash') {
             return (
                 <div className="w-full h-full flex items-center justify-center">
                     <p className="text-gray-500 dark:text-gray-400">No visualization data available</p>
@@ -506,27 +618,9 @@ export function Visualiser({ states, algorithmId }: VisualiserProps) {
             );
         }
 
-        const { 
-            buckets, 
-            searchKey, 
-            currentBucket, 
-            currentNode, 
-            found, 
-            searchPath, 
-            hashValue 
-        } = currentStateData;
-
         return (
             <div className="w-full h-full">
-                <HashTableRenderer
-                    buckets={buckets}
-                    searchKey={searchKey}
-                    currentBucket={currentBucket}
-                    currentNode={currentNode}
-                    found={found}
-                    searchPath={searchPath}
-                    hashValue={hashValue}
-                />
+                <HashTableRenderer frame={currentStateData} />
                 <div className="text-center text-sm text-gray-600 dark:text-gray-400 mt-4">
                     {currentState < states.length ? `Step ${currentState + 1} of ${states.length}` : 'Animation complete'}
                 </div>
@@ -543,6 +637,7 @@ export function Visualiser({ states, algorithmId }: VisualiserProps) {
                     <div className="flex items-center space-x-2 sm:space-x-3">
                         <button
                             onClick={resetAnimation}
+                            disabled={isLocked}
                             className="btn-base btn-muted text-xs sm:text-sm"
                             title="Reset to beginning"
                         >
@@ -553,7 +648,7 @@ export function Visualiser({ states, algorithmId }: VisualiserProps) {
                         </button>
                         <button
                             onClick={prevStep}
-                            disabled={currentState === 0}
+                            disabled={currentState === 0 || isLocked}
                             className="btn-base btn-secondary text-xs sm:text-sm"
                             title="Previous step"
                         >
@@ -564,6 +659,7 @@ export function Visualiser({ states, algorithmId }: VisualiserProps) {
                         </button>
                         <button
                             onClick={isPlaying ? pauseAnimation : playAnimation}
+                            disabled={isLocked}
                             className="btn-base btn-success px-2 sm:px-4 text-xs sm:text-sm"
                             title={isPlaying ? 'Pause animation' : 'Play animation'}
                         >
@@ -580,7 +676,7 @@ export function Visualiser({ states, algorithmId }: VisualiserProps) {
                         </button>
                         <button
                             onClick={nextStep}
-                            disabled={currentState >= states.length - 1}
+                            disabled={currentState >= states.length - 1 || isLocked}
                             className="btn-base btn-secondary text-xs sm:text-sm"
                             title="Next step"
                         >
@@ -607,9 +703,9 @@ export function Visualiser({ states, algorithmId }: VisualiserProps) {
                     <div className="flex items-center space-x-2 sm:space-x-3 w-full sm:w-auto">
                         <input
                             type="range"
-                            min="100"
-                            max="2000"
-                            step="100"
+                            min={MIN_SPEED}
+                            max={MAX_SPEED}
+                            step={SPEED_STEP}
                             value={speed}
                             onChange={(e) => setSpeed(Number(e.target.value))}
                             className="flex-1 sm:w-24 h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer slider"
@@ -621,7 +717,8 @@ export function Visualiser({ states, algorithmId }: VisualiserProps) {
 
             {/* Visualization Display */}
             <div className="flex-1 bg-white dark:bg-gray-800 rounded-lg p-4 relative">
-                {visualizationType === 'bars' ? renderBars() : 
+                {isGridTrace ? renderGrid() :
+                 visualizationType === 'array' ? renderBars() : 
                  visualizationType === 'graph' ? renderGraph() : 
                  renderHashTable()}
                 
@@ -634,6 +731,33 @@ export function Visualiser({ states, algorithmId }: VisualiserProps) {
                 />
             </div>
 
+            {/* Pseudocode line and narration of the current step */}
+            <PseudocodePanel
+                lines={algorithm?.pseudocode}
+                activeLine={states[Math.min(currentState, states.length - 1)]?.line}
+                narration={states[Math.min(currentState, states.length - 1)]?.narration}
+            />
+
+            {/* Generator variables, highlighting what the step changed */}
+            <WatchPanel
+                watch={states[Math.min(currentState, states.length - 1)]?.watch}
+                previous={currentState > 0 ? states[Math.min(currentState, states.length - 1) - 1]?.watch : undefined}
+            />
+
+            {/* Live Operation Counters */}
+            <StatsPanel
+                stats={states[Math.min(currentState, states.length - 1)]?.stats}
+                totals={states[states.length - 1]?.stats}
+                kind={isGridTrace ? 'graph' : visualizationType}
+                complexity={algorithm?.complexity}
+            />
+
+            {/* Recursive calls for merge sort, quick sort and DFS */}
+            <CallStackPanel
+                states={states}
+                currentState={Math.min(currentState, states.length - 1)}
+            />
+
             {/* Algorithm Information */}
             {algorithm && (
                 <div className="mt-4 p-4 bg-gray-50 dark:bg-gray-700 rounded-lg">
@@ -641,8 +765,10 @@ export function Visualiser({ states, algorithmId }: VisualiserProps) {
                         {algorithm.name} Visualization
                     </h3>
                     <p className="text-sm text-gray-600 dark:text-gray-400">
-                        {visualizationType === 'bars' 
+                        {visualizationType === 'array' 
                             ? 'Watch the bars as they are compared and swapped during the sorting process.'
+                            : isGridTrace
+                            ? 'Watch the frontier spread across the grid around walls and costly terrain until the goal is reached.'
                             : 'Observe how the algorithm explores the graph, highlighting visited nodes and the path taken.'
                         }
                     </p>
@@ -0,0 +1,114 @@
+'use client';
+
+/**
+ * Watch Panel Component
+ *
+ * The variables the generator recorded for the frame on screen - loop
+ * indices, pivots and keys, queues and stacks, distance and parent maps,
+ * A* scores. Anything that differs from the previous frame is highlighted,
+ * so stepping forwards shows exactly what each step changed.
+ */
+
+import { WatchValue, WatchVariables } from '@/algorithms/trace';
+
+interface WatchPanelProps {
+    watch?: WatchVariables;        // Variables of the current frame
+    previous?: WatchVariables;     // Variables of the frame before it, if any
+}
+
+type WatchMap = Record<string, number | string | null>;
+
+const isMap = (value: WatchValue | undefined): value is WatchMap =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const CHANGED = 'bg-yellow-200 dark:bg-yellow-700 text-gray-900 dark:text-white';
+const UNCHANGED = 'text-gray-700 dark:text-gray-300';
+
+// Display text for one value: ∞ for unreached distances, scores to two decimals
+function formatItem(value: number | string | boolean | null | undefined): string {
+    if (value === null || value === undefined) return '—';
+    if (typeof value === 'number') {
+        if (!Number.isFinite(value)) return value > 0 ? '∞' : '-∞';
+        return Number.isInteger(value) ? String(value) : String(Math.round(value * 100) / 100);
+    }
+    return String(value);
+}
+
+// Display text for a scalar or list; maps are laid out as tables instead
+function formatValue(value: WatchValue | undefined): string {
+    if (Array.isArray(value)) return `[${value.map(formatItem).join(', ')}]`;
+    return isMap(value) ? '' : formatItem(value);
+}
+
+export function WatchPanel({ watch, previous }: WatchPanelProps) {
+    if (!watch || Object.keys(watch).length === 0) return null;
+
+    // Nothing counts as changed on the first frame
+    const changed = (before: string, now: string) => previous !== undefined && before !== now;
+
+    const entries = Object.entries(watch);
+    const scalars = entries.filter(([, value]) => !isMap(value));
+    const maps = entries.filter((entry): entry is [string, WatchMap] => isMap(entry[1]));
+
+    return (
+        <div className="mt-4 p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+            <h3 className="font-medium text-gray-900 dark:text-white text-sm sm:text-base mb-2">Variables</h3>
+
+            {/* Indices, keys and lists */}
+            {scalars.length > 0 && (
+                <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs sm:text-sm font-mono">
+                    {scalars.map(([name, value]) => {
+                        const text = formatValue(value);
+                        return (
+                            <div key={name} className="contents">
+                                <dt className="text-gray-500 dark:text-gray-400">{name}</dt>
+                                <dd className={`px-1 rounded break-all ${changed(formatValue(previous?.[name]), text) ? CHANGED : UNCHANGED}`}>
+                                    {text}
+                                </dd>
+                            </div>
+                        );
+                    })}
+                </dl>
+            )}
+
+            {/* Maps keyed by node, one column per node */}
+            {maps.map(([name, map]) => {
+                const earlier = previous?.[name];
+                const before = isMap(earlier) ? earlier : undefined;
+                return (
+                    <div key={name} className="mt-3 overflow-x-auto">
+                        <table className="text-xs sm:text-sm font-mono border-collapse">
+                            <tbody>
+                                <tr>
+                                    <th className="pr-3 text-left font-normal text-gray-500 dark:text-gray-400">{name}</th>
+                                    {Object.keys(map).map(key => (
+                                        <th key={key} className="px-2 font-normal text-gray-500 dark:text-gray-400">{key}</th>
+                                    ))}
+                                </tr>
+                                <tr>
+                                    <td></td>
+                                    {Object.entries(map).map(([key, value]) => {
+                                        const text = formatItem(value);
+                                        return (
+                                            <td
+                                                key={key}
+                                                className={`px-2 text-center rounded ${changed(formatItem(before?.[key]), text) ? CHANGED : UNCHANGED}`}
+                                            >
+                                                {text}
+                                            </td>
+                                        );
+                                    })}
+                                </tr>
+                            </tbody>
+                        </table>
+                    </div>
+                );
+            })}
+
+            <div className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                <span className="inline-block w-3 h-3 bg-yellow-200 dark:bg-yellow-700 rounded mr-1"></span>
+                Changed in this step
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it, vi } from 'vitest';
+import { useStore } from './store';
+import { UserCodeRunResult, runUserCode } from './utils/userCodeRunner';
+
+vi.mock('./utils/userCodeRunner', () => ({ runUserCode: vi.fn() }));
+
+describe('runAlgorithm', () => {
+  it('drops the result of a run when the user has picked another algorithm', async () => {
+    let finish: (result: UserCodeRunResult) => void = () => undefined;
+    vi.mocked(runUserCode).mockReturnValue(new Promise(resolve => { finish = resolve; }));
+
+    useStore.getState().generateStates('bubble-sort');
+    const running = useStore.getState().runAlgorithm('return arr;');
+    useStore.getState().generateStates('binary-search');
+    const states = useStore.getState().states;
+
+    finish({ states: [], error: { kind: 'timeout', message: 'Too slow' }, logs: ['old run'] });
+    await running;
+
+    const after = useStore.getState();
+    expect(after.states).toBe(states);
+    expect(after.runError).toBeNull();
+    expect(after.runLogs).toEqual([]);
+    expect(after.isRunning).toBe(false);
+  });
+});
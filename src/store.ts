@@ -1,5 +1,12 @@
 import { create } from 'zustand';
 import { AlgorithmService } from './utils/algorithmService';
+import { runUserCode } from './utils/userCodeRunner';
+import { SandboxError } from './utils/codeSandbox';
+import { EditableGraph, getDefaultEditableGraph } from './utils/graphEditing';
+import { GridConfig, getDefaultGrid } from './utils/gridEditing';
+import { HashTableConfig, getDefaultHashTable } from './utils/hashEditing';
+import { validateTrace } from './utils/traceValidator';
+import { Trace } from './algorithms/trace';
 
 /**
  * Global Application State Interface
@@ -9,12 +16,54 @@ import { AlgorithmService } from './utils/algorithmService';
  */
 interface Store {
     code: string;                    // Current code in the editor
-    states: any[];                   // Visualization states for the current algorithm
+    language: string;                // Current editor language
+    states: Trace;                   // Visualization states for the current algorithm
     currentAlgorithm: string | null; // Currently selected algorithm ID
-    runAlgorithm: (code: string) => void;           // Execute user's code
+    isRunning: boolean;              // Whether user code is executing in the sandbox
+    runError: SandboxError | null;   // Structured error from the last run, if any
+    runLogs: string[];               // Console output captured from the last run
+    inputData: number[];             // Input array for sorting and searching algorithms
+    searchTarget: number | null;     // Chosen search target (null picks the middle element)
+    graph: EditableGraph;            // Input graph, start and goal for graph algorithms
+    grid: GridConfig;                // Input grid for grid pathfinding mode
+    gridMode: boolean;               // Whether graph algorithms run on the grid instead of the graph
+    hashTable: HashTableConfig;      // Collision strategy, capacity and operations for the hash table
+    runAlgorithm: (code: string) => Promise<void>;  // Execute user's code
     setCode: (code: string) => void;                // Update editor code
+    setLanguage: (language: string) => void;        // Update editor language
     setAlgorithm: (algorithmId: string) => void;    // Change selected algorithm
     generateStates: (algorithmId: string) => void;  // Generate visualization states
+    setInput: (values: number[], target: number | null) => void;  // Change input data and regenerate
+    setGraph: (graph: EditableGraph) => void;                      // Change input graph and regenerate
+    setGrid: (grid: GridConfig) => void;                           // Change input grid and regenerate
+    setGridMode: (gridMode: boolean) => void;                      // Switch between graph and grid mode
+    setHashTable: (hashTable: HashTableConfig) => void;            // Change hash table operations and regenerate
+}
+
+/**
+ * Algorithm Input
+ * 
+ * The parts of the store that algorithms run on.
+ */
+type AlgorithmInput = Pick<Store, 'inputData' | 'searchTarget' | 'graph' | 'grid' | 'gridMode' | 'hashTable'>;
+
+/**
+ * Build States
+ * 
+ * Runs an algorithm's generator on the current input. Each generator
+ * reads the parts of the input its plugin declares; in grid mode the
+ * grid is searched instead of the graph.
+ * 
+ * @param algorithmId - The algorithm to generate states for
+ * @param input - Input array, search target, graph, grid and hash table
+ * @returns Array of visualization states
+ */
+function buildStates(algorithmId: string, input: AlgorithmInput): Trace {
+    return AlgorithmService.generateStates(
+        algorithmId,
+        { values: input.inputData, target: input.searchTarget, graph: input.graph, hashTable: input.hashTable },
+        input.gridMode ? input.grid : undefined
+    );
 }
 
 /**
@@ -29,37 +78,60 @@ interface Store {
 export const useStore = create<Store>((set, get) => ({
     // Initial state
     code: '',
+    language: 'javascript',
     states: [],
     currentAlgorithm: null,
+    isRunning: false,
+    runError: null,
+    runLogs: [],
+    inputData: AlgorithmService.getDefaultSortingData(),
+    searchTarget: null,
+    graph: getDefaultEditableGraph(),
+    grid: getDefaultGrid(),
+    gridMode: false,
+    hashTable: getDefaultHashTable(),
     
     /**
      * Run Algorithm Function
      * 
-     * Executes the user's code and generates visualization states.
-     * For now, this generates demo states based on the current algorithm.
-     * In a full implementation, this would execute the user's actual code.
+     * Executes the user's code in a sandboxed Web Worker and turns the
+     * recorded array operations into visualization states. Errors (syntax,
+     * exceptions, timeouts, wrong output) are stored in runError so they
+     * can be shown next to the editor instead of replaying the demo.
+     * Frames that fail validation are rejected the same way.
      */
-    runAlgorithm: (code) => {
-        const { currentAlgorithm } = get();
+    runAlgorithm: async (code) => {
+        const { currentAlgorithm, language, inputData, searchTarget } = get();
         
         if (!currentAlgorithm) return;
         
-        let states: any[] = [];
+        set({ isRunning: true, runError: null, runLogs: [] });
         
-        // Generate visualization states based on the current algorithm
-        // This simulates running the algorithm with the user's code
-        if (['bubble-sort', 'insertion-sort', 'merge-sort', 'quick-sort', 'linear-search', 'hash-table-search'].includes(currentAlgorithm)) {
-          // Sorting and array-based algorithms use bar chart visualization
-          const defaultData = AlgorithmService.getDefaultSortingData();
-          states = AlgorithmService.generateSortingStates(currentAlgorithm, defaultData);
-        } else if (['breadth-first-search', 'depth-first-search', 'dijkstra', 'a-star'].includes(currentAlgorithm)) {
-            // Graph algorithms use node/edge visualization
-            const { nodes, edges } = AlgorithmService.getDefaultGraphData();
-            states = AlgorithmService.generateGraphStates(currentAlgorithm, nodes, edges, 'A', 'F');
+        const result = await runUserCode(
+            currentAlgorithm,
+            code,
+            language,
+            inputData,
+            searchTarget ?? undefined
+        );
+
+        // The user picked another algorithm while the code ran
+        if (get().currentAlgorithm !== currentAlgorithm) {
+            set({ isRunning: false });
+            return;
         }
+
+        const { trace, error } = validateTrace(result.states);
         
-        // Update the states with the generated visualization
-        set({ states });
+        // Keep the reference animation if the run produced nothing to show
+        set(state => ({
+            states: trace && trace.length > 0 ? trace : state.states,
+            runError: error
+                ? { kind: 'invalid-trace', message: 'Your code produced frames that cannot be visualised', details: error }
+                : result.error,
+            runLogs: result.logs,
+            isRunning: false
+        }));
     },
     
     /**
@@ -70,6 +142,14 @@ export const useStore = create<Store>((set, get) => ({
      */
     setCode: (code) => set({ code }),
     
+    /**
+     * Set Language Function
+     * 
+     * Updates the editor language. Only JavaScript can be executed
+     * by runAlgorithm; other languages report an unsupported error.
+     */
+    setLanguage: (language) => set({ language }),
+    
     /**
      * Set Algorithm Function
      * 
@@ -95,21 +175,95 @@ export const useStore = create<Store>((set, get) => ({
         // Avoid regenerating states if algorithm hasn't changed
         if (algorithmId === currentAlgorithm) return;
 
-        let states: any[] = [];
-        
-        // Determine algorithm type and generate appropriate states
-        // This routing logic determines what visualization type to use
-        if (['bubble-sort', 'insertion-sort', 'merge-sort', 'quick-sort', 'linear-search', 'binary-search', 'hash-table-search'].includes(algorithmId)) {
-          // Sorting and array-based algorithms use bar chart visualization
-          const defaultData = AlgorithmService.getDefaultSortingData();
-          states = AlgorithmService.generateSortingStates(algorithmId, defaultData);
-        } else if (['breadth-first-search', 'depth-first-search', 'tricolor-algorithm', 'dijkstra', 'a-star'].includes(algorithmId)) {
-            // Graph algorithms use node/edge visualization
-            const { nodes, edges } = AlgorithmService.getDefaultGraphData();
-            states = AlgorithmService.generateGraphStates(algorithmId, nodes, edges, 'A', 'F');
-        }
+        const states = buildStates(algorithmId, get());
         
         // Update the global state with new visualization states
-        set({ states, currentAlgorithm: algorithmId });
+        set({ states, currentAlgorithm: algorithmId, runError: null, runLogs: [] });
+    },
+    
+    /**
+     * Set Input Function
+     * 
+     * Replaces the input array and search target, then regenerates the
+     * states of the current algorithm so the visualization reflects
+     * the new input immediately.
+     */
+    setInput: (values, target) => {
+        const { currentAlgorithm } = get();
+        
+        set({
+            inputData: values,
+            searchTarget: target,
+            states: currentAlgorithm ? buildStates(currentAlgorithm, { ...get(), inputData: values, searchTarget: target }) : [],
+            runError: null,
+            runLogs: []
+        });
+    },
+    
+    /**
+     * Set Graph Function
+     * 
+     * Replaces the input graph (including start, goal and direction)
+     * after an edit in the graph editor and regenerates the states.
+     */
+    setGraph: (graph) => {
+        const { currentAlgorithm } = get();
+        
+        set({
+            graph,
+            states: currentAlgorithm ? buildStates(currentAlgorithm, { ...get(), graph }) : [],
+            runError: null,
+            runLogs: []
+        });
+    },
+    
+    /**
+     * Set Grid Function
+     * 
+     * Replaces the grid (terrain, start, goal and search options)
+     * after an edit in the grid editor and regenerates the states.
+     */
+    setGrid: (grid) => {
+        const { currentAlgorithm } = get();
+        
+        set({
+            grid,
+            states: currentAlgorithm ? buildStates(currentAlgorithm, { ...get(), grid }) : [],
+            runError: null,
+            runLogs: []
+        });
+    },
+    
+    /**
+     * Set Grid Mode Function
+     * 
+     * Switches graph algorithms between the node/edge graph and the grid.
+     */
+    setGridMode: (gridMode) => {
+        const { currentAlgorithm } = get();
+        
+        set({
+            gridMode,
+            states: currentAlgorithm ? buildStates(currentAlgorithm, { ...get(), gridMode }) : [],
+            runError: null,
+            runLogs: []
+        });
+    },
+    
+    /**
+     * Set Hash Table Function
+     * 
+     * Replaces the hash table configuration (collision strategy, hash
+     * function, capacity and operations) and regenerates the states.
+     */
+    setHashTable: (hashTable) => {
+        const { currentAlgorithm } = get();
+        
+        set({
+            hashTable,
+            states: currentAlgorithm ? buildStates(currentAlgorithm, { ...get(), hashTable }) : [],
+            runError: null,
+            runLogs: []
+        });
     },
 })); 
\ No newline at end of file
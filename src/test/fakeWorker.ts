@@ -0,0 +1,50 @@
+/**
+ * Fake Worker
+ *
+ * Test helper for code that runs user code in a Web Worker (see
+ * codeSandbox.ts). Call useFakeWorker in a test and vi.unstubAllGlobals
+ * afterwards.
+ */
+
+import { resolveObjectURL } from 'buffer';
+import vm from 'vm';
+import { vi } from 'vitest';
+
+/**
+ * Runs the worker source in a VM context of this process, answering like a
+ * Web Worker. A hanging worker never answers, like one stuck in a loop.
+ */
+export class FakeWorker {
+  static hang = false;
+  static terminated = 0;
+
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+  private source: Promise<string>;
+
+  constructor(url: string) {
+    this.source = resolveObjectURL(url)!.text();
+  }
+
+  postMessage(data: unknown) {
+    if (FakeWorker.hang) return;
+    this.source.then(source => {
+      const scope: { onmessage?: (event: { data: unknown }) => void; postMessage: (message: unknown) => void } = {
+        postMessage: message => this.onmessage?.({ data: structuredClone(message) })
+      };
+      vm.runInNewContext(source, { self: scope });
+      scope.onmessage!({ data: structuredClone(data) });
+    });
+  }
+
+  terminate() {
+    FakeWorker.terminated++;
+  }
+}
+
+export function useFakeWorker({ hang = false } = {}) {
+  FakeWorker.hang = hang;
+  FakeWorker.terminated = 0;
+  vi.stubGlobal('window', {});
+  vi.stubGlobal('Worker', FakeWorker);
+}
@@ -6,31 +6,13 @@
  * providing the data structures needed to render algorithm animations.
  */
 
-import { bubbleSort } from '../algorithms/bubble-sort';
-import { insertionSort } from '../algorithms/insertion-sort';
-import { mergeSort } from '../algorithms/merge-sort';
-import { quickSort } from '../algorithms/quick-sort';
-import { linearSearch } from '../algorithms/linear-search';
-import { hashTableSearch } from '../algorithms/hash-table-search';
-import { binarySearch } from '../algorithms/binary-search';
-
-import { breadthFirstSearch } from '../algorithms/bfs';
-import { depthFirstSearch } from '../algorithms/dfs';
-import { tricolorAlgorithm } from '../algorithms/tricolor-algorithm';
-
-import { dijkstra } from '../algorithms/dijkstra';
-import { aStar } from '../algorithms/a-star';
-
-/**
- * Algorithm State Interface
- * 
- * Defines the structure for visualization states that are passed to the visualizer.
- * Different algorithm types produce different state structures.
- */
-export interface AlgorithmState {
-  type: 'sorting' | 'graph';  // Determines which visualizer component to use
-  data: any;                  // Algorithm-specific state data
-}
+import { gridSearch } from '../algorithms/grid-pathfinding';
+import { getAlgorithmPlugin } from '../algorithms/registry';
+import { AlgorithmInput, DEFAULT_VALUES } from '../algorithms/plugin';
+import { Trace, TraceNode, TraceEdge } from '../algorithms/trace';
+import { getDefaultEditableGraph } from './graphEditing';
+import { GridConfig } from './gridEditing';
+import { getDefaultHashTable } from './hashEditing';
 
 /**
  * Algorithm Service Class
@@ -42,74 +24,46 @@ export interface AlgorithmState {
 export class AlgorithmService {
   
   /**
-   * Generate Sorting States
+   * Generate States
    * 
-   * Creates visualization states for sorting and array-based algorithms.
-   * These algorithms use bar chart visualizations where each bar represents
-   * an array element and colors indicate the current operation.
+   * Runs an algorithm's trace generator (declared in its plugin) on the
+   * given input. Algorithms that support grid mode search the grid instead
+   * when one is passed.
    * 
    * @param algorithmId - The algorithm to generate states for
-   * @param values - The input array to sort
+   * @param input - Input array, search target, graph and hash table operations
+   * @param grid - Grid to search in grid pathfinding mode
    * @returns Array of visualization states showing each step of the algorithm
    */
-  static generateSortingStates(algorithmId: string, values: number[]): any[] {
-    switch (algorithmId) {
-      case 'bubble-sort':
-        return bubbleSort(values);
-      case 'insertion-sort':
-        return insertionSort(values);
-      case 'merge-sort':
-        return mergeSort(values);
-      case 'quick-sort':
-        return quickSort(values);
-      case 'linear-search':
-        // For search algorithms, use middle element as target
-        const target = values[Math.floor(values.length / 2)];
-        return linearSearch(values, target);
-      case 'binary-search':
-        // Binary search requires sorted array
-        const sortedValues = [...values].sort((a, b) => a - b);
-        const binaryTarget = sortedValues[Math.floor(sortedValues.length / 2)];
-        return binarySearch(sortedValues, binaryTarget);
-      case 'hash-table-search':
-        // Hash table uses string keys and numeric values
-        const keys = ['apple', 'banana', 'cherry', 'date', 'elderberry', 'fig', 'grape'];
-        const searchKey = 'cherry';
-        return hashTableSearch(keys, values.slice(0, keys.length), searchKey);
-      default:
-        return [];
-    }
+  static generateStates(algorithmId: string, input: AlgorithmInput, grid?: GridConfig): Trace {
+    const plugin = getAlgorithmPlugin(algorithmId);
+    if (!plugin) return [];
+    if (grid && plugin.supportsGrid) return gridSearch(algorithmId, grid);
+    return plugin.generate(input);
   }
 
   /**
-   * Generate Graph States
+   * Generate Sorting States
    * 
-   * Creates visualization states for graph-based algorithms.
-   * These algorithms use node/edge visualizations where nodes represent
-   * vertices and edges represent connections between them.
+   * Shorthand for array-based algorithms, which ignore the graph and hash table.
    * 
    * @param algorithmId - The algorithm to generate states for
-   * @param nodes - Array of graph nodes with positions and status
-   * @param edges - Array of graph edges with weights and status
-   * @param startNode - Starting node for traversal/pathfinding
-   * @param endNode - Optional end node for pathfinding algorithms
+   * @param values - The input array to sort
+   * @param target - Optional search target (defaults to the middle element)
    * @returns Array of visualization states showing each step of the algorithm
    */
-  static generateGraphStates(algorithmId: string, nodes: any[], edges: any[], startNode: string, endNode?: string): any[] {
-    switch (algorithmId) {
-      case 'breadth-first-search':
-        return breadthFirstSearch(nodes, edges, startNode, endNode);
-      case 'depth-first-search':
-        return depthFirstSearch(nodes, edges, startNode, endNode);
-      case 'tricolor-algorithm':
-        return tricolorAlgorithm(nodes, edges, startNode, endNode);
-      case 'dijkstra':
-        return dijkstra(nodes, edges, startNode, endNode);
-      case 'a-star':
-        return aStar(nodes, edges, startNode, endNode || 'F');
-      default:
-        return [];
-    }
+  static generateSortingStates(algorithmId: string, values: number[], target: number | null = null): Trace {
+    return AlgorithmService.generateStates(algorithmId, { values, target, graph: getDefaultEditableGraph(), hashTable: getDefaultHashTable() });
+  }
+
+  /**
+   * Supports Grid
+   * 
+   * @param algorithmId - The algorithm to check
+   * @returns Whether the algorithm can run in grid pathfinding mode
+   */
+  static supportsGrid(algorithmId: string): boolean {
+    return getAlgorithmPlugin(algorithmId)?.supportsGrid ?? false;
   }
 
   /**
@@ -122,7 +76,7 @@ export class AlgorithmService {
    * @returns Array of numbers to be sorted
    */
   static getDefaultSortingData(): number[] {
-    return [64, 34, 25, 12, 22, 11, 90, 45, 78, 33];
+    return [...DEFAULT_VALUES];
   }
 
   /**
@@ -134,9 +88,9 @@ export class AlgorithmService {
    * 
    * @returns Object containing nodes and edges for the demonstration graph
    */
-  static getDefaultGraphData(): { nodes: any[], edges: any[] } {
+  static getDefaultGraphData(): { nodes: TraceNode[], edges: TraceEdge[] } {
     // Define nodes with positions for visualization - larger graph for better space utilization
-    const nodes = [
+    const nodes: TraceNode[] = [
       { id: 'A', x: 50, y: 50, status: 'unvisited' },
       { id: 'B', x: 150, y: 50, status: 'unvisited' },
       { id: 'C', x: 250, y: 50, status: 'unvisited' },
@@ -151,7 +105,7 @@ export class AlgorithmService {
     ];
 
     // Define edges with weights for weighted algorithms - more connections for interesting paths
-    const edges = [
+    const edges: TraceEdge[] = [
       { from: 'A', to: 'B', weight: 4, status: 'normal' },
       { from: 'A', to: 'E', weight: 2, status: 'normal' },
       { from: 'B', to: 'C', weight: 3, status: 'normal' },
@@ -0,0 +1,221 @@
+/**
+ * Benchmark
+ *
+ * Runs the instrumented sorting generators over a sweep of input sizes and
+ * distributions, then fits n, n log n and n² curves to the operation counts
+ * so the complexity claimed in algorithms.ts can be checked against data.
+ */
+
+import { AlgorithmService } from './algorithmService';
+import { algorithmRegistry } from '../algorithms/registry';
+import { OperationStats } from '../algorithms/operation-stats';
+
+/**
+ * Distribution Type
+ */
+export type Distribution = 'random' | 'sorted' | 'reversed';
+
+export const distributions: { id: Distribution; name: string }[] = [
+  { id: 'random', name: 'Random' },
+  { id: 'sorted', name: 'Sorted' },
+  { id: 'reversed', name: 'Reversed' },
+];
+
+export const benchmarkAlgorithms = algorithmRegistry
+  .filter(plugin => plugin.category === 'Sorting')
+  .map(plugin => plugin.id);
+
+/**
+ * Metric Type
+ *
+ * The operation count plotted against n.
+ */
+export type Metric = 'comparisons' | 'writes' | 'accesses' | 'total';
+
+export const metrics: { id: Metric; name: string }[] = [
+  { id: 'comparisons', name: 'Comparisons' },
+  { id: 'writes', name: 'Writes' },
+  { id: 'accesses', name: 'Array accesses' },
+  { id: 'total', name: 'Comparisons + writes' },
+];
+
+/**
+ * Model Type
+ *
+ * Growth rates fitted to the measurements.
+ */
+export type Model = 'n' | 'n log n' | 'n²';
+
+export const models: { id: Model; growth: (n: number) => number }[] = [
+  { id: 'n', growth: n => n },
+  { id: 'n log n', growth: n => (n > 1 ? n * Math.log2(n) : 0) },
+  { id: 'n²', growth: n => n * n },
+];
+
+// Every trace frame keeps a copy of the array, so sizes stay moderate
+export const MAX_BENCHMARK_SIZES = [40, 80, 120];
+export const SWEEP_STEPS = 8;
+export const RANDOM_TRIALS = 3;
+
+/**
+ * Benchmark Point Interface
+ *
+ * Operation counts for one algorithm, distribution and size. Random
+ * inputs are averaged over several trials.
+ */
+export interface BenchmarkPoint {
+  algorithmId: string;
+  distribution: Distribution;
+  n: number;
+  stats: OperationStats;
+}
+
+/**
+ * Benchmark Task Interface
+ */
+export interface BenchmarkTask {
+  algorithmId: string;
+  distribution: Distribution;
+  n: number;
+}
+
+/**
+ * Model Fit Interface
+ */
+export interface ModelFit {
+  model: Model;
+  coefficient: number;   // c in ops ≈ c · f(n)
+  rSquared: number;      // Goodness of fit, 1 is perfect
+}
+
+/**
+ * Input sizes of a sweep, evenly spaced up to maxSize
+ */
+export function sweepSizes(maxSize: number, steps: number = SWEEP_STEPS): number[] {
+  return Array.from({ length: steps }, (_, i) => Math.round((maxSize * (i + 1)) / steps));
+}
+
+/**
+ * Generate Distribution
+ *
+ * @param distribution - Shape of the array
+ * @param n - Number of elements
+ * @param random - Random source (defaults to Math.random)
+ * @returns Array of distinct-ish values 1..n·4 in the requested order
+ */
+export function generateDistribution(distribution: Distribution, n: number, random: () => number = Math.random): number[] {
+  const values = Array.from({ length: n }, () => Math.floor(random() * n * 4) + 1);
+  if (distribution === 'sorted') return values.sort((a, b) => a - b);
+  if (distribution === 'reversed') return values.sort((a, b) => b - a);
+  return values;
+}
+
+/**
+ * Read a metric from the counters of a run
+ */
+export function metricValue(stats: OperationStats, metric: Metric): number {
+  return metric === 'total' ? stats.comparisons + stats.writes : stats[metric];
+}
+
+/**
+ * Benchmark Tasks
+ *
+ * Every algorithm × distribution × size combination of a sweep, smallest
+ * sizes first so partial results are already useful.
+ */
+export function benchmarkTasks(algorithmIds: string[], maxSize: number): BenchmarkTask[] {
+  const tasks: BenchmarkTask[] = [];
+  for (const n of sweepSizes(maxSize)) {
+    for (const algorithmId of algorithmIds) {
+      for (const { id } of distributions) {
+        tasks.push({ algorithmId, distribution: id, n });
+      }
+    }
+  }
+  return tasks;
+}
+
+/**
+ * Run Benchmark Task
+ *
+ * Generates the algorithm's trace for the task and keeps the counters of
+ * the final frame.
+ *
+ * @param task - Algorithm, distribution and size to measure
+ * @param random - Random source for the random distribution
+ * @returns The measured point
+ */
+export function runBenchmarkTask(task: BenchmarkTask, random: () => number = Math.random): BenchmarkPoint {
+  const trials = task.distribution === 'random' ? RANDOM_TRIALS : 1;
+  const sum: OperationStats = { comparisons: 0, swaps: 0, writes: 0, accesses: 0, auxMemory: 0, nodesVisited: 0, edgesRelaxed: 0 };
+
+  for (let trial = 0; trial < trials; trial++) {
+    const states = AlgorithmService.generateSortingStates(task.algorithmId, generateDistribution(task.distribution, task.n, random));
+    const stats: OperationStats | undefined = states[states.length - 1]?.stats;
+    if (!stats) continue;
+    (Object.keys(sum) as (keyof OperationStats)[]).forEach(key => {
+      sum[key] += stats[key];
+    });
+  }
+
+  (Object.keys(sum) as (keyof OperationStats)[]).forEach(key => {
+    sum[key] = Math.round((sum[key] / trials) * 10) / 10;
+  });
+
+  return { ...task, stats: sum };
+}
+
+/**
+ * Fit Models
+ *
+ * Least-squares fit of ops ≈ c · f(n) for each model, through the origin.
+ *
+ * @param points - Measurements of one algorithm and distribution
+ * @param metric - Which counter to fit
+ * @returns One fit per model, best first
+ */
+export function fitModels(points: BenchmarkPoint[], metric: Metric): ModelFit[] {
+  const ys = points.map(point => metricValue(point.stats, metric));
+  const mean = ys.reduce((total, y) => total + y, 0) / Math.max(1, ys.length);
+  const totalSquares = ys.reduce((total, y) => total + (y - mean) ** 2, 0);
+
+  return models
+    .map(({ id, growth }) => {
+      const fs = points.map(point => growth(point.n));
+      const denominator = fs.reduce((total, f) => total + f * f, 0);
+      const coefficient = denominator > 0 ? fs.reduce((total, f, i) => total + f * ys[i], 0) / denominator : 0;
+      const residual = fs.reduce((total, f, i) => total + (ys[i] - coefficient * f) ** 2, 0);
+      // A flat series is fitted perfectly by any model that reproduces it
+      const rSquared = totalSquares > 0 ? 1 - residual / totalSquares : residual === 0 ? 1 : 0;
+      return { model: id, coefficient, rSquared };
+    })
+    .sort((a, b) => b.rSquared - a.rSquared);
+}
+
+/**
+ * Claimed Model
+ *
+ * Reads the growth rate from the first term of a complexity string such as
+ * "O(n log n) average, O(n²) worst". Only the models fitted here are recognised.
+ */
+export function claimedModel(complexity: string): Model | null {
+  const term = complexity.match(/O\(([^)]*)\)/)?.[1].replace(/\s+/g, ' ').trim().toLowerCase();
+  if (term === 'n²' || term === 'n^2') return 'n²';
+  if (term === 'n log n') return 'n log n';
+  if (term === 'n') return 'n';
+  return null;
+}
+
+/**
+ * Benchmark CSV
+ *
+ * One row per measured point with every counter.
+ */
+export function benchmarkToCsv(points: BenchmarkPoint[]): string {
+  const counters: (keyof OperationStats)[] = ['comparisons', 'swaps', 'writes', 'accesses', 'auxMemory'];
+  const header = ['algorithm', 'distribution', 'n', ...counters].join(',');
+  const rows = points.map(point =>
+    [point.algorithmId, point.distribution, point.n, ...counters.map(key => point.stats[key])].join(',')
+  );
+  return [header, ...rows].join('\n') + '\n';
+}
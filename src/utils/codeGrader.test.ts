@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { useFakeWorker } from '../test/fakeWorker';
+import { gradeSubmission } from './codeGrader';
+
+const bubbleSort = `
+function bubbleSort(arr) {
+  const result = arr.slice();
+  for (let i = 0; i < result.length; i++) {
+    for (let j = 0; j < result.length - i - 1; j++) {
+      if (result[j] > result[j + 1]) [result[j], result[j + 1]] = [result[j + 1], result[j]];
+    }
+  }
+  return result;
+}`;
+
+describe('gradeSubmission', () => {
+  beforeEach(() => {
+    useFakeWorker();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('passes a correct sort on every case', async () => {
+    const { report, error } = await gradeSubmission('bubble-sort', bubbleSort, 'javascript');
+
+    expect(error).toBeNull();
+    expect(report).toMatchObject({ passed: report?.total, score: 100, firstFailure: null });
+  });
+
+  it('grades an in-place sort on the sorted input array', async () => {
+    const inPlace = `function bubbleSort(arr) { arr.sort((a, b) => a - b); }`;
+    const { report } = await gradeSubmission('bubble-sort', inPlace, 'javascript');
+
+    expect(report).toMatchObject({ score: 100, firstFailure: null });
+  });
+
+  it('fails a function that returns nothing and leaves the input unsorted', async () => {
+    const { report } = await gradeSubmission('bubble-sort', 'function bubbleSort(arr) {}', 'javascript');
+
+    expect(report?.firstFailure).toMatchObject({ name: 'Two elements out of order', actual: '[2,1]' });
+  });
+
+    it('fails cases that exceed the step budget on the input array', async () => {
+    // Only the 50-element case wastes steps, which keeps the test quick
+    const wasteful = `function bubbleSort(arr) { if (arr.length === 50) for (;;) arr[0]; return arr.slice().sort((a, b) => a - b); }`;
+    const { report } = await gradeSubmission('bubble-sort', wasteful, 'javascript');
+
+    expect(report?.passed).toBe(report!.total - 1);
+    expect(report?.firstFailure).toMatchObject({ name: 'Random (50 elements)', actual: 'Step limit of 200000 array operations exceeded' });
+  });
+
+  it('counts steps in search suites too', async () => {
+    const wasteful = `function linearSearch(arr, target) { if (arr.length === 20) for (;;) arr[0]; return arr.indexOf(target); }`;
+    const { report } = await gradeSubmission('linear-search', wasteful, 'javascript');
+
+    expect(report?.firstFailure).toMatchObject({ name: 'Random (20 elements)', actual: 'Step limit of 200000 array operations exceeded' });
+  });
+});
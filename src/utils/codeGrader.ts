@@ -0,0 +1,140 @@
+/**
+ * Code Grader
+ *
+ * Grades a submission from the code editor by running it against the
+ * algorithm's test suite (see testSuites.ts) in the sandbox. Each case runs
+ * in its own worker, so one infinite loop only fails that case.
+ */
+
+import { runInSandbox, SandboxError } from './codeSandbox';
+import { TestCase } from './testSuites';
+import { getAlgorithmPlugin } from '../algorithms/registry';
+
+/**
+ * Test Case Result Interface
+ */
+export interface TestCaseResult {
+  name: string;        // Name of the test case
+  passed: boolean;
+  input: string;       // Human-readable arguments
+  expected: string;    // Human-readable expected output
+  actual: string;      // Human-readable actual output (or error message)
+}
+
+/**
+ * Grading Report Interface
+ */
+export interface GradingReport {
+  results: TestCaseResult[];
+  passed: number;
+  total: number;
+  score: number;                      // Percentage of passed cases (0-100)
+  firstFailure: TestCaseResult | null;
+}
+
+/**
+ * Grading Outcome
+ *
+ * Either a report, or an error that prevented any case from running
+ * (unsupported language, syntax error, missing function).
+ */
+export interface GradingOutcome {
+  report: GradingReport | null;
+  error: SandboxError | null;
+}
+
+// Errors that would fail every case identically, so grading stops early
+const fatalErrors: SandboxError['kind'][] = ['syntax', 'missing-function', 'unsupported'];
+
+// Per-case budgets - generous enough for O(n²) sorts on the largest case.
+// Steps are only counted on the suite's traced array argument.
+const CASE_TIMEOUT_MS = 1500;
+const CASE_MAX_STEPS = 200000;
+
+/**
+ * Format a value for display, keeping Infinity readable
+ */
+function describe(value: unknown): string {
+  if (value === undefined) return 'undefined';
+  if (value === Infinity) return 'Infinity';
+  try {
+    return JSON.stringify(value, (_, v) => (v === Infinity ? 'Infinity' : v));
+  } catch {
+    return String(value);
+  }
+}
+
+function describeArgs(testCase: TestCase): string {
+  return testCase.args.map(describe).join(', ');
+}
+
+/**
+ * Grade Submission
+ *
+ * @param algorithmId - The algorithm being implemented
+ * @param code - The user's source code
+ * @param language - Editor language; only JavaScript can be graded
+ * @returns A report of every case, or an error if grading could not start
+ */
+export async function gradeSubmission(algorithmId: string, code: string, language: string): Promise<GradingOutcome> {
+  if (language !== 'javascript') {
+    return {
+      report: null,
+      error: {
+        kind: 'unsupported',
+        message: 'Automatic grading is only available for JavaScript',
+        details: 'Switch the editor language to JavaScript to run your code against the test suite.'
+      }
+    };
+  }
+
+  const suite = getAlgorithmPlugin(algorithmId)?.tests?.() ?? null;
+  if (!suite) {
+    return {
+      report: null,
+      error: {
+        kind: 'unsupported',
+        message: 'No automated tests for this algorithm yet',
+        details: 'Use the visualisation to check your understanding instead.'
+      }
+    };
+  }
+
+  const source = suite.harness ? `${code}\n${suite.harness}` : code;
+  const results: TestCaseResult[] = [];
+
+  for (const testCase of suite.cases) {
+    const expected = suite.expected(testCase);
+    const outcome = await runInSandbox(source, suite.entryPoint, testCase.args, suite.tracedArg ?? null, {
+      timeoutMs: CASE_TIMEOUT_MS,
+      maxSteps: CASE_MAX_STEPS
+    });
+
+    if (!outcome.ok && outcome.error && fatalErrors.includes(outcome.error.kind)) {
+      return { report: null, error: outcome.error };
+    }
+
+    const actual = suite.inPlace && outcome.returnValue === undefined ? outcome.finalArray : outcome.returnValue;
+    const passed = outcome.ok && suite.check(actual, expected, testCase);
+    results.push({
+      name: testCase.name,
+      passed,
+      input: describeArgs(testCase),
+      expected: describe(expected),
+      actual: outcome.ok ? describe(actual) : outcome.error?.message ?? 'Unknown error'
+    });
+  }
+
+  const passed = results.filter(result => result.passed).length;
+
+  return {
+    report: {
+      results,
+      passed,
+      total: results.length,
+      score: results.length > 0 ? Math.round((passed / results.length) * 100) : 0,
+      firstFailure: results.find(result => !result.passed) ?? null
+    },
+    error: null
+  };
+}
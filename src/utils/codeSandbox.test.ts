@@ -0,0 +1,65 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { FakeWorker, useFakeWorker } from '../test/fakeWorker';
+import { runInSandbox } from './codeSandbox';
+
+describe('runInSandbox', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('records reads and writes of the traced array', async () => {
+    useFakeWorker();
+    const code = 'function sort(arr) { if (arr[0] > arr[1]) { const t = arr[0]; arr[0] = arr[1]; arr[1] = t; } return arr; }';
+    const result = await runInSandbox(code, 'sort', [[2, 1]], 0);
+
+    expect(result).toMatchObject({ ok: true, returnValue: [1, 2], finalArray: [1, 2] });
+    expect(result.trace).toEqual([
+      { op: 'read', index: 0 }, { op: 'read', index: 1 }, { op: 'read', index: 0 }, { op: 'read', index: 1 },
+      { op: 'write', index: 0, value: 1 }, { op: 'write', index: 1, value: 2 },
+    ]);
+    expect(FakeWorker.terminated).toBe(1);
+  });
+
+  it('stops at the step limit', async () => {
+    useFakeWorker();
+    const result = await runInSandbox('function spin(arr) { for (;;) arr[0]; }', 'spin', [[1]], 0, { maxSteps: 100 });
+
+    expect(result.error).toMatchObject({ kind: 'step-limit', message: 'Step limit of 100 array operations exceeded' });
+    expect(result.trace).toHaveLength(100);
+  });
+
+  it('rejects writes past the end of the array', async () => {
+    useFakeWorker();
+    const result = await runInSandbox('function grow(arr) { arr[100000000] = 1; }', 'grow', [[1, 2]], 0);
+
+    expect(result.error).toMatchObject({ kind: 'runtime', message: 'Runtime error: Index 100000000 is outside the array (length 2)' });
+    expect(result.finalArray).toEqual([1, 2]);
+  });
+
+  it('does not trace copying the returned array', async () => {
+    useFakeWorker();
+    const result = await runInSandbox('function same(arr) { return arr; }', 'same', [[3, 1, 2]], 0);
+
+    expect(result.returnValue).toEqual([3, 1, 2]);
+    expect(result.trace).toEqual([]);
+  });
+
+  it('reports syntax errors and a missing entry point', async () => {
+    useFakeWorker();
+
+    expect((await runInSandbox('function (', 'sort', [[]], 0)).error?.kind).toBe('syntax');
+    expect((await runInSandbox('function other() {}', 'sort', [[]], 0)).error?.kind).toBe('missing-function');
+  });
+
+  it('terminates a worker that does not answer in time', async () => {
+    useFakeWorker({ hang: true });
+    const result = await runInSandbox('function sort(arr) { return arr; }', 'sort', [[1]], 0, { timeoutMs: 20 });
+
+    expect(result.error).toMatchObject({ kind: 'timeout', message: 'Execution timed out after 20ms' });
+    expect(FakeWorker.terminated).toBe(1);
+  });
+
+  it('is unavailable without Web Workers', async () => {
+    expect((await runInSandbox('function sort(arr) { return arr; }', 'sort', [[1]], 0)).error?.kind).toBe('unsupported');
+  });
+});
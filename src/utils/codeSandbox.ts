@@ -0,0 +1,308 @@
+/**
+ * Code Sandbox
+ *
+ * This utility runs user-written JavaScript from the code editor inside an
+ * isolated Web Worker. The worker has no access to the page, is terminated
+ * when it exceeds its time budget, and counts every instrumented array access
+ * against a step budget so that runaway loops are stopped early.
+ *
+ * Array arguments are wrapped in a Proxy that records each read and write as
+ * a trace event. The trace is returned to the main thread, where it can be
+ * turned into visualization frames (see traceFrames.ts).
+ */
+
+/**
+ * Sandbox Error Kinds
+ *
+ * Categorizes why a run failed so the UI can explain it to the user.
+ */
+export type SandboxErrorKind =
+  | 'syntax'            // Code could not be parsed
+  | 'missing-function'  // The expected entry point was not defined
+  | 'runtime'           // The code threw an exception
+  | 'timeout'           // The time budget was exceeded (e.g. an infinite loop)
+  | 'step-limit'        // The step budget was exceeded
+  | 'wrong-output'      // The code ran but produced an incorrect result
+  | 'invalid-trace'     // The recorded frames do not match the trace model
+  | 'unsupported';      // The algorithm or language cannot be run in the sandbox
+
+/**
+ * Sandbox Error Interface
+ *
+ * Structured error returned instead of throwing, so it can be shown
+ * next to the editor.
+ */
+export interface SandboxError {
+  kind: SandboxErrorKind;
+  message: string;       // Short, user-facing summary
+  details?: string;      // Longer explanation (stack trace, expected vs actual, ...)
+}
+
+/**
+ * Trace Event
+ *
+ * A single instrumented operation on the traced array argument.
+ */
+export type TraceEvent =
+  | { op: 'read'; index: number }
+  | { op: 'write'; index: number; value: number };
+
+/**
+ * Sandbox Options
+ */
+export interface SandboxOptions {
+  timeoutMs?: number;    // Wall-clock budget before the worker is terminated
+  maxSteps?: number;     // Maximum number of instrumented array operations
+}
+
+/**
+ * Sandbox Result Interface
+ *
+ * Outcome of running a function inside the sandbox.
+ */
+export interface SandboxResult {
+  ok: boolean;
+  returnValue?: unknown;   // Value returned by the entry point
+  finalArray?: number[];   // Contents of the traced array after the call
+  trace: TraceEvent[];     // Recorded array operations
+  logs: string[];          // Captured console output
+  error?: SandboxError;
+}
+
+const DEFAULT_TIMEOUT_MS = 2000;
+const DEFAULT_MAX_STEPS = 20000;
+
+/**
+ * Worker Source
+ *
+ * Kept as a plain string so the bundler does not need a dedicated worker
+ * loader and no compiled helpers leak into the worker scope.
+ *
+ * Message in:  { code, entryPoint, args, tracedArg, maxSteps }
+ * Message out: { ok, returnValue, finalArray, trace, logs, error }
+ */
+const workerSource = `
+'use strict';
+
+function StepLimitError(limit) {
+  this.name = 'StepLimitError';
+  this.message = 'Step limit of ' + limit + ' array operations exceeded';
+}
+
+self.onmessage = function (event) {
+  var data = event.data;
+  var trace = [];
+  var logs = [];
+  var steps = 0;
+  var recording = true;
+
+  function tick() {
+    steps++;
+    if (steps > data.maxSteps) throw new StepLimitError(data.maxSteps);
+  }
+
+  function isIndex(prop) {
+    return typeof prop === 'string' && /^(0|[1-9][0-9]*)$/.test(prop);
+  }
+
+  function stringify(value) {
+    try {
+      return typeof value === 'string' ? value : JSON.stringify(value);
+    } catch (e) {
+      return String(value);
+    }
+  }
+
+  // Capture console output instead of writing to the devtools console
+  var sandboxConsole = {
+    log: function () { logs.push(Array.prototype.map.call(arguments, stringify).join(' ')); },
+  };
+  sandboxConsole.info = sandboxConsole.log;
+  sandboxConsole.warn = sandboxConsole.log;
+  sandboxConsole.error = sandboxConsole.log;
+
+  // Wrap the traced array so every element access is recorded
+  function instrument(array) {
+    return new Proxy(array, {
+      get: function (target, prop, receiver) {
+        if (recording && isIndex(prop)) {
+          tick();
+          trace.push({ op: 'read', index: Number(prop) });
+        }
+        return Reflect.get(target, prop, receiver);
+      },
+      set: function (target, prop, value, receiver) {
+        if (recording && isIndex(prop)) {
+          // A write past the end would grow the array, possibly to millions of empty slots
+          if (Number(prop) >= target.length) {
+            throw new RangeError('Index ' + prop + ' is outside the array (length ' + target.length + ')');
+          }
+          tick();
+          trace.push({ op: 'write', index: Number(prop), value: value });
+        }
+        return Reflect.set(target, prop, value, receiver);
+      },
+    });
+  }
+
+  var entry;
+  try {
+    var factory = new Function(
+      'console',
+      data.code + '\\n;return typeof ' + data.entryPoint + ' === "function" ? ' + data.entryPoint + ' : undefined;'
+    );
+    entry = factory(sandboxConsole);
+  } catch (error) {
+    var isSyntax = error instanceof SyntaxError;
+    self.postMessage({
+      ok: false,
+      trace: [],
+      logs: logs,
+      error: {
+        kind: isSyntax ? 'syntax' : 'runtime',
+        message: isSyntax ? 'Syntax error: ' + error.message : 'Error while loading code: ' + error.message,
+        details: error && error.stack ? String(error.stack) : undefined,
+      },
+    });
+    return;
+  }
+
+  if (typeof entry !== 'function') {
+    self.postMessage({
+      ok: false,
+      trace: [],
+      logs: logs,
+      error: {
+        kind: 'missing-function',
+        message: 'Function "' + data.entryPoint + '" was not found',
+        details: 'Define a function named ' + data.entryPoint + ' so it can be run on the input data.',
+      },
+    });
+    return;
+  }
+
+  // Recording starts only now, so top-level example code is not traced
+  var args = data.args.slice();
+  var tracedArray = null;
+  if (data.tracedArg !== undefined && data.tracedArg !== null && Array.isArray(args[data.tracedArg])) {
+    tracedArray = args[data.tracedArg].slice();
+    args[data.tracedArg] = instrument(tracedArray);
+  }
+
+  try {
+    var returnValue = entry.apply(null, args);
+    // Copying the result may read the traced array; those reads are not the user's
+    recording = false;
+    if (Array.isArray(returnValue)) returnValue = Array.prototype.slice.call(returnValue);
+    self.postMessage({
+      ok: true,
+      returnValue: returnValue,
+      finalArray: tracedArray,
+      trace: trace,
+      logs: logs,
+    });
+  } catch (error) {
+    var isStepLimit = error instanceof StepLimitError;
+    self.postMessage({
+      ok: false,
+      finalArray: tracedArray,
+      trace: trace,
+      logs: logs,
+      error: isStepLimit
+        ? {
+            kind: 'step-limit',
+            message: error.message,
+            details: 'Your code performed too many array operations. Check your loop conditions.',
+          }
+        : {
+            kind: 'runtime',
+            message: 'Runtime error: ' + (error && error.message ? error.message : String(error)),
+            details: error && error.stack ? String(error.stack) : undefined,
+          },
+    });
+  }
+};
+`;
+
+/**
+ * Run In Sandbox
+ *
+ * Executes the named function from the user's code in a fresh Web Worker.
+ * The worker is always terminated afterwards, and killed early if it does
+ * not answer within the time budget.
+ *
+ * @param code - The user's JavaScript source
+ * @param entryPoint - Name of the function to call
+ * @param args - Arguments passed to the function (must be structured-cloneable)
+ * @param tracedArg - Index of the array argument to instrument, if any
+ * @param options - Time and step budgets
+ * @returns The result of the run; never rejects
+ */
+export function runInSandbox(
+  code: string,
+  entryPoint: string,
+  args: unknown[],
+  tracedArg: number | null,
+  options: SandboxOptions = {}
+): Promise<SandboxResult> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const maxSteps = options.maxSteps ?? DEFAULT_MAX_STEPS;
+
+  if (typeof window === 'undefined' || typeof Worker === 'undefined') {
+    return Promise.resolve({
+      ok: false,
+      trace: [],
+      logs: [],
+      error: {
+        kind: 'unsupported',
+        message: 'Code execution is not available in this environment',
+        details: 'The sandbox requires Web Worker support in the browser.'
+      }
+    });
+  }
+
+  return new Promise(resolve => {
+    const url = URL.createObjectURL(new Blob([workerSource], { type: 'application/javascript' }));
+    const worker = new Worker(url);
+    let settled = false;
+
+    const finish = (result: SandboxResult) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      worker.terminate();
+      URL.revokeObjectURL(url);
+      resolve(result);
+    };
+
+    // Terminating the worker is the only reliable way to stop an infinite loop
+    const timer = setTimeout(() => {
+      finish({
+        ok: false,
+        trace: [],
+        logs: [],
+        error: {
+          kind: 'timeout',
+          message: `Execution timed out after ${timeoutMs}ms`,
+          details: 'Your code may contain an infinite loop or be too slow for this input.'
+        }
+      });
+    }, timeoutMs);
+
+    worker.onmessage = (event: MessageEvent<SandboxResult>) => finish(event.data);
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      finish({
+        ok: false,
+        trace: [],
+        logs: [],
+        error: {
+          kind: 'runtime',
+          message: `Runtime error: ${event.message}`
+        }
+      });
+    };
+
+    worker.postMessage({ code, entryPoint, args, tracedArg, maxSteps });
+  });
+}
@@ -0,0 +1,48 @@
+/**
+ * Export Client
+ *
+ * Browser helper for the export API route: sends the visualiser's trace to
+ * be rendered on the server as a job and polls the job until the file is
+ * ready. Throws with the server's message if the export fails.
+ */
+
+import { Trace } from '../algorithms/trace';
+import { ExportOptions } from './videoExport';
+
+// Time between polls of a running job
+const POLL_INTERVAL = 1000;
+
+async function errorMessage(response: Response): Promise<string> {
+  const data = await response.json().catch(() => null);
+  return data?.error ?? `Export failed (${response.status})`;
+}
+
+/**
+ * Export on Server
+ *
+ * @param trace - Frames to render
+ * @param title - Shown above bar charts
+ * @param options - Format, size, frame rate and looping
+ * @param onProgress - Called with the job's progress from 0 to 1
+ * @returns The encoded file
+ */
+export async function exportOnServer(
+  trace: Trace,
+  title: string,
+  options: ExportOptions,
+  onProgress?: (progress: number) => void
+): Promise<Blob> {
+  // JSON has no Infinity, which unreached distances use; send it as text
+  const body = JSON.stringify({ trace, title, ...options, async: true }, (_, value) => (value === Infinity ? 'Infinity' : value));
+  const started = await fetch('/api/export-gif', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body });
+  if (!started.ok) throw new Error(await errorMessage(started));
+  const { jobId } = await started.json();
+
+  for (;;) {
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL));
+    const response = await fetch(`/api/export-gif?job=${encodeURIComponent(jobId)}`);
+    if (response.status === 200) return response.blob();
+    if (response.status !== 202) throw new Error(await errorMessage(response));
+    onProgress?.((await response.json()).progress);
+  }
+}
@@ -0,0 +1,184 @@
+/**
+ * Frame Drawing
+ *
+ * Draws one trace frame onto a 2D drawing context. The GIF exporter draws
+ * onto a browser canvas; server-side export (see serverExport.ts) draws the
+ * same way onto an SVG-backed context, so both produce the same pictures.
+ */
+
+import { TraceFrame, ArrayFrame, GraphFrame, HashFrame, HashNode } from '../algorithms/trace';
+
+/**
+ * Drawing Context
+ *
+ * The part of CanvasRenderingContext2D the renderers use.
+ */
+export type DrawingContext = Pick<
+  CanvasRenderingContext2D,
+  'fillStyle' | 'strokeStyle' | 'lineWidth' | 'font' | 'textAlign'
+  | 'fillRect' | 'strokeRect' | 'fillText'
+  | 'beginPath' | 'moveTo' | 'lineTo' | 'arc' | 'fill' | 'stroke'
+>;
+
+/**
+ * Render bar chart visualization
+ */
+function drawBarChart(ctx: DrawingContext, state: ArrayFrame, width: number, height: number, title: string) {
+  const { values, comparing, swapping, sorted } = state;
+  const searching = state.searching || [];
+  const found = state.found || [];
+
+  const barWidth = width / values.length;
+  const maxValue = values.reduce((max, value) => Math.max(max, value), 1);
+
+  values.forEach((value, index) => {
+    const barHeight = (value / maxValue) * (height - 100);
+    const x = index * barWidth;
+    const y = height - 50 - barHeight;
+
+    // Determine bar color
+    let color = '#6b7280'; // gray-500
+    if (comparing.includes(index)) color = '#fbbf24'; // yellow-400
+    else if (swapping.includes(index)) color = '#f87171'; // red-400
+    else if (sorted.includes(index)) color = '#4ade80'; // green-400
+    else if (searching.includes(index)) color = '#60a5fa'; // blue-400
+    else if (found.includes(index)) color = '#10b981'; // green-500
+
+    ctx.fillStyle = color;
+    ctx.fillRect(x + 2, y, barWidth - 4, barHeight);
+
+    // Draw value text
+    ctx.fillStyle = '#000000';
+    ctx.font = '12px Arial';
+    ctx.textAlign = 'center';
+    ctx.fillText(value.toString(), x + barWidth / 2, y - 5);
+  });
+
+  // Draw title
+  ctx.fillStyle = '#000000';
+  ctx.font = '16px Arial';
+  ctx.textAlign = 'center';
+  ctx.fillText(title, width / 2, 30);
+}
+
+/**
+ * Render graph visualization
+ */
+function drawGraph(ctx: DrawingContext, state: GraphFrame) {
+  const { nodes, edges } = state;
+
+  // Draw edges
+  edges.forEach(edge => {
+    const fromNode = nodes.find(n => n.id === edge.from);
+    const toNode = nodes.find(n => n.id === edge.to);
+
+    if (fromNode && toNode) {
+      ctx.strokeStyle = edge.status === 'path' ? '#10b981' : '#6b7280';
+      ctx.lineWidth = edge.status === 'path' ? 3 : 1;
+      ctx.beginPath();
+      ctx.moveTo(fromNode.x, fromNode.y);
+      ctx.lineTo(toNode.x, toNode.y);
+      ctx.stroke();
+    }
+  });
+
+  // Draw nodes
+  nodes.forEach(node => {
+    let color = '#6b7280'; // gray-500
+    if (node.status === 'visited') color = '#60a5fa'; // blue-400
+    else if (node.status === 'current') color = '#fbbf24'; // yellow-400
+    else if (node.status === 'path') color = '#10b981'; // green-500
+    else if (node.status === 'start') color = '#8b5cf6'; // purple-500
+    else if (node.status === 'end') color = '#ef4444'; // red-500
+
+    ctx.fillStyle = color;
+    ctx.beginPath();
+    ctx.arc(node.x, node.y, 20, 0, 2 * Math.PI);
+    ctx.fill();
+
+    // Draw node label
+    ctx.fillStyle = '#ffffff';
+    ctx.font = '12px Arial';
+    ctx.textAlign = 'center';
+    ctx.fillText(node.id, node.x, node.y + 4);
+  });
+}
+
+/**
+ * Render hash table visualization
+ */
+function drawHashTable(ctx: DrawingContext, state: HashFrame, width: number, height: number) {
+  const { buckets, slots } = state;
+
+  // Open addressing: one row of slots, the probed ones outlined
+  if (slots) {
+    const slotWidth = width / slots.length;
+    slots.forEach((slot, index) => {
+      const x = index * slotWidth;
+      const y = height / 2 - 20;
+
+      ctx.fillStyle = slot === null ? '#ffffff' : slot.deleted ? '#e5e7eb' : '#60a5fa';
+      ctx.fillRect(x + 4, y, slotWidth - 8, 40);
+      ctx.strokeStyle = index === state.currentBucket ? '#2563eb' : state.searchPath.includes(index) ? '#eab308' : '#6b7280';
+      ctx.lineWidth = index === state.currentBucket ? 3 : 1;
+      ctx.strokeRect(x + 4, y, slotWidth - 8, 40);
+
+      ctx.fillStyle = '#000000';
+      ctx.font = '10px Arial';
+      ctx.textAlign = 'center';
+      ctx.fillText(String(index), x + slotWidth / 2, y - 6);
+      if (slot) ctx.fillText(slot.deleted ? `✝ ${slot.key}` : `${slot.key}: ${slot.value}`, x + slotWidth / 2, y + 24);
+    });
+    return;
+  }
+
+  const bucketWidth = width / buckets.length;
+
+  buckets.forEach((bucket, index) => {
+    const x = index * bucketWidth;
+    const y = 100;
+
+    // Draw bucket
+    ctx.strokeStyle = '#6b7280';
+    ctx.lineWidth = 1;
+    ctx.strokeRect(x + 10, y, bucketWidth - 20, height - 150);
+
+    // Draw the bucket's chain, one entry per row
+    let item: HashNode | null | undefined = bucket;
+    for (let itemIndex = 0; item; itemIndex++, item = item.next) {
+      const itemY = y + 30 + (itemIndex * 25);
+      ctx.fillStyle = '#60a5fa';
+      ctx.fillRect(x + 15, itemY, bucketWidth - 30, 20);
+
+      ctx.fillStyle = '#000000';
+      ctx.font = '10px Arial';
+      ctx.textAlign = 'center';
+      ctx.fillText(`${item.key}: ${item.value}`, x + bucketWidth / 2, itemY + 15);
+    }
+  });
+}
+
+/**
+ * Draw Frame
+ *
+ * Clears the context to white and draws the frame. Grid frames are not
+ * drawn yet and stay blank, so the export API rejects grid traces.
+ *
+ * @param ctx - Context to draw on
+ * @param frame - The frame to draw
+ * @param width - Width of the picture in pixels
+ * @param height - Height of the picture in pixels
+ * @param title - Title shown above bar charts
+ */
+export function drawFrame(ctx: DrawingContext, frame: TraceFrame, width: number, height: number, title: string) {
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+
+  if (frame.kind === 'array') {
+    drawBarChart(ctx, frame, width, height, title);
+  } else if (frame.kind === 'graph') {
+    drawGraph(ctx, frame);
+  } else if (frame.kind === 'hash') {
+    drawHashTable(ctx, frame, width, height);
+  }
+}
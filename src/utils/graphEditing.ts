@@ -0,0 +1,418 @@
+/**
+ * Graph Editing
+ *
+ * Pure helpers behind the graph editor: the editable graph model, the edit
+ * operations (add/move/delete nodes and edges, change weights, pick start and
+ * goal) and JSON save/load. Every operation returns a new graph so the store
+ * can regenerate the trace from it.
+ */
+
+import { AlgorithmService } from './algorithmService';
+import { TraceNode, TraceEdge } from '../algorithms/trace';
+
+/**
+ * Editable Graph Interfaces
+ */
+export interface EditableNode {
+  id: string;
+  x: number;
+  y: number;
+}
+
+export interface EditableEdge {
+  from: string;
+  to: string;
+  weight: number;
+}
+
+export interface EditableGraph {
+  nodes: EditableNode[];
+  edges: EditableEdge[];
+  directed: boolean;    // Edges only lead from "from" to "to"
+  start: string;        // Start node for traversal / pathfinding
+  end: string;          // Goal node for pathfinding
+}
+
+// Coordinate space for edited graphs - matches the layout of the default graph
+export const GRAPH_BOUNDS = { minX: 0, minY: 0, maxX: 400, maxY: 300, width: 400, height: 300 };
+
+// Limits keep node labels unique single letters and the traces short.
+// Negative weights are allowed for Bellman-Ford; new and unweighted edges
+// get a positive weight so the other algorithms behave as expected.
+export const MAX_GRAPH_NODES = 26;
+export const MIN_EDGE_WEIGHT = -99;
+export const MAX_EDGE_WEIGHT = 99;
+export const DEFAULT_EDGE_WEIGHT = 1;
+
+const NODE_LABELS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+/**
+ * Get Default Editable Graph
+ *
+ * The demonstration graph from AlgorithmService, searched from A to F.
+ */
+export function getDefaultEditableGraph(): EditableGraph {
+  const { nodes, edges } = AlgorithmService.getDefaultGraphData();
+  return {
+    nodes: nodes.map(({ id, x, y }) => ({ id, x, y })),
+    edges: edges.map(({ from, to, weight }) => ({ from, to, weight: weight ?? DEFAULT_EDGE_WEIGHT })),
+    directed: false,
+    start: 'A',
+    end: 'F'
+  };
+}
+
+/**
+ * Graph Preset Type
+ */
+export type GraphPreset = 'default' | 'negative-edge' | 'negative-cycle' | 'dag' | 'scc' | 'bridges';
+
+/**
+ * Graph Presets
+ *
+ * Example graphs listed by the graph editor. The negative-weight examples
+ * are directed, since an undirected negative edge is a negative cycle, and
+ * so are the acyclic example for the topological sorts and the example for
+ * strongly connected components.
+ */
+export const graphPresets: { id: GraphPreset; name: string; description: string }[] = [
+  {
+    id: 'default',
+    name: 'Sample graph',
+    description: 'The default demonstration graph, searched from A to F.'
+  },
+  {
+    id: 'negative-edge',
+    name: 'Negative edge',
+    description: 'Dijkstra settles C before finding the cheaper route through B and reports A → C → D (3); ' +
+      'Bellman-Ford finds A → B → C → D (2).'
+  },
+  {
+    id: 'negative-cycle',
+    name: 'Negative cycle',
+    description: 'B → C → D → B has total weight -2, so no shortest path to E exists; ' +
+      'Bellman-Ford reports the cycle.'
+  },
+  {
+    id: 'dag',
+    name: 'Directed acyclic graph',
+    description: 'Every edge points forwards in some order of the nodes, so the topological sorts succeed; ' +
+      'add an edge from G back to A to create a cycle.'
+  },
+  {
+    id: 'scc',
+    name: 'Strongly connected components',
+    description: 'Three cycles joined by one-way edges form three components: {A, B, C}, {D, E} and {F, G, H}; ' +
+      'add an edge from F back to A to merge them all.'
+  },
+  {
+    id: 'bridges',
+    name: 'Bridges',
+    description: 'Two triangles joined by the bridge C–D, with G hanging off D: C–D and D–G are bridges, ' +
+      'and C and D are articulation points.'
+  },
+];
+
+/**
+ * Get Preset Graph
+ *
+ * @param preset - The example graph to build
+ * @returns A new editable graph
+ */
+export function getPresetGraph(preset: GraphPreset): EditableGraph {
+  switch (preset) {
+    case 'negative-edge':
+      return {
+        nodes: [{ id: 'A', x: 50, y: 150 }, { id: 'B', x: 200, y: 50 }, { id: 'C', x: 200, y: 250 }, { id: 'D', x: 350, y: 150 }],
+        edges: [
+          { from: 'A', to: 'B', weight: 5 }, { from: 'A', to: 'C', weight: 2 },
+          { from: 'B', to: 'C', weight: -4 }, { from: 'C', to: 'D', weight: 1 },
+        ],
+        directed: true,
+        start: 'A',
+        end: 'D'
+      };
+    case 'negative-cycle':
+      return {
+        nodes: [
+          { id: 'A', x: 40, y: 150 }, { id: 'B', x: 150, y: 50 }, { id: 'C', x: 260, y: 150 },
+          { id: 'D', x: 150, y: 250 }, { id: 'E', x: 370, y: 150 },
+        ],
+        edges: [
+          { from: 'A', to: 'B', weight: 2 }, { from: 'B', to: 'C', weight: 3 }, { from: 'C', to: 'D', weight: -4 },
+          { from: 'D', to: 'B', weight: -1 }, { from: 'C', to: 'E', weight: 2 },
+        ],
+        directed: true,
+        start: 'A',
+        end: 'E'
+      };
+    case 'dag':
+      return {
+        nodes: [
+          { id: 'A', x: 40, y: 60 }, { id: 'B', x: 40, y: 240 }, { id: 'C', x: 150, y: 60 }, { id: 'D', x: 150, y: 240 },
+          { id: 'E', x: 260, y: 150 }, { id: 'F', x: 370, y: 60 }, { id: 'G', x: 370, y: 240 },
+        ],
+        edges: [
+          { from: 'A', to: 'C', weight: 1 }, { from: 'A', to: 'D', weight: 1 }, { from: 'B', to: 'D', weight: 1 },
+          { from: 'C', to: 'E', weight: 1 }, { from: 'D', to: 'E', weight: 1 }, { from: 'C', to: 'F', weight: 1 },
+          { from: 'E', to: 'F', weight: 1 }, { from: 'E', to: 'G', weight: 1 },
+        ],
+        directed: true,
+        start: 'A',
+        end: 'G'
+      };
+    case 'scc':
+      return {
+        nodes: [
+          { id: 'A', x: 40, y: 60 }, { id: 'B', x: 140, y: 60 }, { id: 'C', x: 90, y: 240 }, { id: 'D', x: 200, y: 240 },
+          { id: 'E', x: 200, y: 60 }, { id: 'F', x: 300, y: 60 }, { id: 'G', x: 370, y: 150 }, { id: 'H', x: 300, y: 240 },
+        ],
+        edges: [
+          { from: 'A', to: 'B', weight: 1 }, { from: 'B', to: 'C', weight: 1 }, { from: 'C', to: 'A', weight: 1 },
+          { from: 'B', to: 'E', weight: 1 }, { from: 'C', to: 'D', weight: 1 }, { from: 'D', to: 'E', weight: 1 },
+          { from: 'E', to: 'D', weight: 1 }, { from: 'E', to: 'F', weight: 1 }, { from: 'F', to: 'G', weight: 1 },
+          { from: 'G', to: 'H', weight: 1 }, { from: 'H', to: 'F', weight: 1 },
+        ],
+        directed: true,
+        start: 'A',
+        end: 'H'
+      };
+    case 'bridges':
+      return {
+        nodes: [
+          { id: 'A', x: 40, y: 60 }, { id: 'B', x: 40, y: 240 }, { id: 'C', x: 140, y: 150 }, { id: 'D', x: 250, y: 150 },
+          { id: 'E', x: 360, y: 60 }, { id: 'F', x: 360, y: 240 }, { id: 'G', x: 250, y: 270 },
+        ],
+        edges: [
+          { from: 'A', to: 'B', weight: 1 }, { from: 'B', to: 'C', weight: 1 }, { from: 'C', to: 'A', weight: 1 },
+          { from: 'C', to: 'D', weight: 1 }, { from: 'D', to: 'E', weight: 1 }, { from: 'E', to: 'F', weight: 1 },
+          { from: 'F', to: 'D', weight: 1 }, { from: 'D', to: 'G', weight: 1 },
+        ],
+        directed: false,
+        start: 'A',
+        end: 'G'
+      };
+    default:
+      return getDefaultEditableGraph();
+  }
+}
+
+/**
+ * To Algorithm Input
+ *
+ * Adds the visual status fields the algorithm implementations expect.
+ */
+export function toAlgorithmInput(graph: EditableGraph): { nodes: TraceNode[], edges: TraceEdge[] } {
+  return {
+    nodes: graph.nodes.map(node => ({ ...node, status: 'unvisited' })),
+    edges: graph.edges.map(edge => ({ ...edge, status: 'normal' }))
+  };
+}
+
+function clampToBounds(x: number, y: number): { x: number; y: number } {
+  return {
+    x: Math.round(Math.max(GRAPH_BOUNDS.minX, Math.min(GRAPH_BOUNDS.maxX, x))),
+    y: Math.round(Math.max(GRAPH_BOUNDS.minY, Math.min(GRAPH_BOUNDS.maxY, y)))
+  };
+}
+
+/**
+ * Default weight for a new edge, proportional to its length
+ * (the default graph spaces neighbouring nodes about 100 units apart)
+ */
+function defaultWeight(graph: EditableGraph, from: string, to: string): number {
+  const a = graph.nodes.find(node => node.id === from);
+  const b = graph.nodes.find(node => node.id === to);
+  if (!a || !b) return DEFAULT_EDGE_WEIGHT;
+  const length = Math.hypot(a.x - b.x, a.y - b.y);
+  return Math.max(DEFAULT_EDGE_WEIGHT, Math.min(MAX_EDGE_WEIGHT, Math.round(length / 25)));
+}
+
+/**
+ * Find Edge Index
+ *
+ * In an undirected graph A-B and B-A are the same edge.
+ */
+export function findEdgeIndex(graph: EditableGraph, from: string, to: string): number {
+  return graph.edges.findIndex(edge =>
+    (edge.from === from && edge.to === to) ||
+    (!graph.directed && edge.from === to && edge.to === from)
+  );
+}
+
+/**
+ * Add Node
+ *
+ * @returns The updated graph, or the same graph if the node limit is reached
+ */
+export function addNode(graph: EditableGraph, x: number, y: number): EditableGraph {
+  const id = NODE_LABELS.split('').find(label => !graph.nodes.some(node => node.id === label));
+  if (!id || graph.nodes.length >= MAX_GRAPH_NODES) return graph;
+  return { ...graph, nodes: [...graph.nodes, { id, ...clampToBounds(x, y) }] };
+}
+
+export function moveNode(graph: EditableGraph, id: string, x: number, y: number): EditableGraph {
+  return {
+    ...graph,
+    nodes: graph.nodes.map(node => (node.id === id ? { id, ...clampToBounds(x, y) } : node))
+  };
+}
+
+/**
+ * Remove Node
+ *
+ * Also removes the node's edges. Start and goal move to another node when
+ * their node is removed; the last two nodes cannot be removed.
+ */
+export function removeNode(graph: EditableGraph, id: string): EditableGraph {
+  if (graph.nodes.length <= 2) return graph;
+
+  const nodes = graph.nodes.filter(node => node.id !== id);
+  const start = graph.start === id ? nodes.find(node => node.id !== graph.end)!.id : graph.start;
+  const end = graph.end === id ? nodes.find(node => node.id !== start)!.id : graph.end;
+
+  return {
+    ...graph,
+    nodes,
+    edges: graph.edges.filter(edge => edge.from !== id && edge.to !== id),
+    start,
+    end
+  };
+}
+
+/**
+ * Add Edge
+ *
+ * Ignores self-loops and edges that already exist.
+ */
+export function addEdge(graph: EditableGraph, from: string, to: string): EditableGraph {
+  if (from === to || findEdgeIndex(graph, from, to) !== -1) return graph;
+  return { ...graph, edges: [...graph.edges, { from, to, weight: defaultWeight(graph, from, to) }] };
+}
+
+export function removeEdge(graph: EditableGraph, index: number): EditableGraph {
+  return { ...graph, edges: graph.edges.filter((_, i) => i !== index) };
+}
+
+export function setEdgeWeight(graph: EditableGraph, index: number, weight: number): EditableGraph {
+  const clamped = Math.max(MIN_EDGE_WEIGHT, Math.min(MAX_EDGE_WEIGHT, Math.round(weight)));
+  return {
+    ...graph,
+    edges: graph.edges.map((edge, i) => (i === index ? { ...edge, weight: clamped } : edge))
+  };
+}
+
+/**
+ * Set Directed
+ *
+ * Switching to undirected drops edges that would become duplicates
+ * (e.g. both A→B and B→A).
+ */
+export function setDirected(graph: EditableGraph, directed: boolean): EditableGraph {
+  if (directed) return { ...graph, directed };
+
+  const edges: EditableEdge[] = [];
+  graph.edges.forEach(edge => {
+    if (findEdgeIndex({ ...graph, edges, directed: false }, edge.from, edge.to) === -1) {
+      edges.push(edge);
+    }
+  });
+  return { ...graph, edges, directed };
+}
+
+/**
+ * Set Start / Set End
+ *
+ * Choosing the other endpoint's node swaps start and goal.
+ */
+export function setStart(graph: EditableGraph, id: string): EditableGraph {
+  return id === graph.end ? { ...graph, start: id, end: graph.start } : { ...graph, start: id };
+}
+
+export function setEnd(graph: EditableGraph, id: string): EditableGraph {
+  return id === graph.start ? { ...graph, end: id, start: graph.end } : { ...graph, end: id };
+}
+
+/**
+ * Serialize Graph
+ *
+ * @returns Pretty-printed JSON suitable for saving to a file
+ */
+export function serializeGraph(graph: EditableGraph): string {
+  return JSON.stringify(graph, null, 2);
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Parse Result Interface
+ */
+export interface ParsedGraph {
+  graph: EditableGraph | null;   // Parsed graph, or null if invalid
+  error: string | null;          // Reason the file was rejected
+}
+
+/**
+ * Parse Graph
+ *
+ * Validates JSON produced by serializeGraph (or written by hand).
+ * Coordinates are clamped into GRAPH_BOUNDS and missing weights default to 1.
+ *
+ * @param text - The JSON text to parse
+ * @returns The parsed graph or an error message
+ */
+export function parseGraph(text: string): ParsedGraph {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { graph: null, error: 'The file is not valid JSON' };
+  }
+
+  if (!isObject(data) || !Array.isArray(data.nodes) || !Array.isArray(data.edges)) {
+    return { graph: null, error: 'Expected an object with "nodes" and "edges" arrays' };
+  }
+  if (data.nodes.length < 2 || data.nodes.length > MAX_GRAPH_NODES) {
+    return { graph: null, error: `A graph needs between 2 and ${MAX_GRAPH_NODES} nodes` };
+  }
+
+  const nodes: EditableNode[] = [];
+  for (const node of data.nodes as unknown[]) {
+    if (!isObject(node) || typeof node.id !== 'string' || !node.id || typeof node.x !== 'number' || typeof node.y !== 'number') {
+      return { graph: null, error: 'Every node needs a string "id" and numeric "x" and "y"' };
+    }
+    const id = node.id;
+    if (nodes.some(existing => existing.id === id)) {
+      return { graph: null, error: `Duplicate node id "${id}"` };
+    }
+    nodes.push({ id, ...clampToBounds(node.x, node.y) });
+  }
+
+  const directed = data.directed === true;
+  let graph: EditableGraph = { nodes, edges: [], directed, start: nodes[0].id, end: nodes[nodes.length - 1].id };
+
+  for (const edge of data.edges as unknown[]) {
+    const { from, to, weight } = isObject(edge) ? edge : {};
+    if (typeof from !== 'string' || typeof to !== 'string' || !nodes.some(node => node.id === from) || !nodes.some(node => node.id === to)) {
+      return { graph: null, error: 'Every edge must connect two existing nodes' };
+    }
+    if (weight !== undefined && (typeof weight !== 'number' || weight < MIN_EDGE_WEIGHT || weight > MAX_EDGE_WEIGHT)) {
+      return { graph: null, error: `Edge weights must be numbers between ${MIN_EDGE_WEIGHT} and ${MAX_EDGE_WEIGHT}` };
+    }
+    const next = addEdge(graph, from, to);
+    if (next !== graph) {
+      graph = setEdgeWeight(next, next.edges.length - 1, weight ?? DEFAULT_EDGE_WEIGHT);
+    }
+  }
+
+  const { start, end } = data;
+  if (typeof start === 'string' && nodes.some(node => node.id === start)) {
+    graph = setStart(graph, start);
+  }
+  if (typeof end === 'string' && nodes.some(node => node.id === end)) {
+    graph = setEnd(graph, end);
+  }
+
+  return { graph, error: null };
+}
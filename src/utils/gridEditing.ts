@@ -0,0 +1,228 @@
+/**
+ * Grid Editing
+ *
+ * The grid model behind grid pathfinding mode: every cell is a node, walls
+ * block movement and weighted terrain (mud, water) costs more to enter.
+ * Like graphEditing.ts, every operation returns a new grid so the store can
+ * regenerate the trace from it.
+ */
+
+/**
+ * Terrain Types
+ *
+ * Indexed by the values stored in GridConfig.terrain.
+ */
+export const TERRAIN_EMPTY = 0;
+export const TERRAIN_WALL = 1;
+export const TERRAIN_MUD = 2;
+export const TERRAIN_WATER = 3;
+
+export const terrainTypes: { id: number; name: string; cost: number; color: string }[] = [
+  { id: TERRAIN_EMPTY, name: 'Empty', cost: 1, color: '#f9fafb' },
+  { id: TERRAIN_WALL, name: 'Wall', cost: Infinity, color: '#1f2937' },
+  { id: TERRAIN_MUD, name: 'Mud', cost: 3, color: '#a16207' },
+  { id: TERRAIN_WATER, name: 'Water', cost: 5, color: '#7dd3fc' },
+];
+
+/**
+ * Heuristic Type
+ *
+ * Distance estimates available to A* on the grid.
+ */
+export type GridHeuristic = 'manhattan' | 'euclidean' | 'chebyshev' | 'octile';
+
+export const gridHeuristics: { id: GridHeuristic; name: string }[] = [
+  { id: 'manhattan', name: 'Manhattan' },
+  { id: 'euclidean', name: 'Euclidean' },
+  { id: 'chebyshev', name: 'Chebyshev' },
+  { id: 'octile', name: 'Octile' },
+];
+
+/**
+ * Grid Config Interface
+ */
+export interface GridConfig {
+  rows: number;
+  cols: number;
+  terrain: number[];           // Terrain type per cell, row by row
+  start: number;               // Index of the start cell
+  goal: number;                // Index of the goal cell
+  connectivity: 4 | 8;         // Whether diagonal moves are allowed
+  heuristic: GridHeuristic;    // Heuristic used by A*
+}
+
+/**
+ * Grid Size Presets
+ */
+export const gridSizes: { name: string; rows: number; cols: number }[] = [
+  { name: 'Small (15 × 25)', rows: 15, cols: 25 },
+  { name: 'Medium (25 × 40)', rows: 25, cols: 40 },
+  { name: 'Large (40 × 60)', rows: 40, cols: 60 },
+];
+
+export function cellIndex(grid: GridConfig, row: number, col: number): number {
+  return row * grid.cols + col;
+}
+
+export function cellPosition(grid: GridConfig, index: number): { row: number; col: number } {
+  return { row: Math.floor(index / grid.cols), col: index % grid.cols };
+}
+
+/**
+ * Create Grid
+ *
+ * An empty grid with start and goal on opposite sides of the middle row.
+ */
+export function createGrid(rows: number, cols: number): GridConfig {
+  const middle = Math.floor(rows / 2);
+  return {
+    rows,
+    cols,
+    terrain: new Array(rows * cols).fill(TERRAIN_EMPTY),
+    start: middle * cols + Math.floor(cols / 5),
+    goal: middle * cols + cols - 1 - Math.floor(cols / 5),
+    connectivity: 4,
+    heuristic: 'manhattan'
+  };
+}
+
+/**
+ * Get Default Grid
+ *
+ * The small grid with a wall between start and goal, so the default
+ * trace has to search around an obstacle.
+ */
+export function getDefaultGrid(): GridConfig {
+  const grid = createGrid(gridSizes[0].rows, gridSizes[0].cols);
+  const wallCol = Math.floor(grid.cols / 2);
+  const terrain = [...grid.terrain];
+  for (let row = 2; row < grid.rows - 2; row++) {
+    terrain[cellIndex(grid, row, wallCol)] = TERRAIN_WALL;
+  }
+  return { ...grid, terrain };
+}
+
+/**
+ * Paint Cell
+ *
+ * Start and goal cells cannot be painted over.
+ */
+export function paintCell(grid: GridConfig, index: number, terrain: number): GridConfig {
+  if (index === grid.start || index === grid.goal || grid.terrain[index] === terrain) return grid;
+  const next = [...grid.terrain];
+  next[index] = terrain;
+  return { ...grid, terrain: next };
+}
+
+/**
+ * Set Start / Set Goal
+ *
+ * The chosen cell is cleared so it is always passable.
+ */
+export function setGridStart(grid: GridConfig, index: number): GridConfig {
+  if (index === grid.goal) return grid;
+  const terrain = [...grid.terrain];
+  terrain[index] = TERRAIN_EMPTY;
+  return { ...grid, terrain, start: index };
+}
+
+export function setGridGoal(grid: GridConfig, index: number): GridConfig {
+  if (index === grid.start) return grid;
+  const terrain = [...grid.terrain];
+  terrain[index] = TERRAIN_EMPTY;
+  return { ...grid, terrain, goal: index };
+}
+
+/**
+ * Resize Grid
+ *
+ * Starts from an empty grid of the new size, keeping the search options.
+ */
+export function resizeGrid(grid: GridConfig, rows: number, cols: number): GridConfig {
+  return { ...createGrid(rows, cols), connectivity: grid.connectivity, heuristic: grid.heuristic };
+}
+
+export function clearGrid(grid: GridConfig): GridConfig {
+  return { ...grid, terrain: new Array(grid.rows * grid.cols).fill(TERRAIN_EMPTY) };
+}
+
+/**
+ * Scatter Terrain
+ *
+ * Randomly fills cells with walls and weighted terrain.
+ *
+ * @param grid - The grid to fill
+ * @param random - Random source (defaults to Math.random)
+ */
+export function scatterTerrain(grid: GridConfig, random: () => number = Math.random): GridConfig {
+  const terrain = grid.terrain.map((_, index) => {
+    if (index === grid.start || index === grid.goal) return TERRAIN_EMPTY;
+    const roll = random();
+    if (roll < 0.25) return TERRAIN_WALL;
+    if (roll < 0.33) return TERRAIN_MUD;
+    if (roll < 0.38) return TERRAIN_WATER;
+    return TERRAIN_EMPTY;
+  });
+  return { ...grid, terrain };
+}
+
+/**
+ * Grid Neighbours
+ *
+ * Passable neighbours of a cell with the cost of moving into them. Diagonal
+ * moves cost √2 times the terrain cost and may not cut the corner of a wall.
+ *
+ * @returns Neighbour indices and move costs, orthogonal moves first
+ */
+export function gridNeighbours(grid: GridConfig, index: number): { index: number; cost: number }[] {
+  const { row, col } = cellPosition(grid, index);
+  const result: { index: number; cost: number }[] = [];
+  const passable = (r: number, c: number) =>
+    r >= 0 && r < grid.rows && c >= 0 && c < grid.cols && grid.terrain[cellIndex(grid, r, c)] !== TERRAIN_WALL;
+
+  const orthogonal = [[-1, 0], [0, 1], [1, 0], [0, -1]];
+  for (const [dr, dc] of orthogonal) {
+    if (passable(row + dr, col + dc)) {
+      const next = cellIndex(grid, row + dr, col + dc);
+      result.push({ index: next, cost: terrainTypes[grid.terrain[next]].cost });
+    }
+  }
+
+  if (grid.connectivity === 8) {
+    const diagonal = [[-1, 1], [1, 1], [1, -1], [-1, -1]];
+    for (const [dr, dc] of diagonal) {
+      if (passable(row + dr, col + dc) && passable(row + dr, col) && passable(row, col + dc)) {
+        const next = cellIndex(grid, row + dr, col + dc);
+        result.push({ index: next, cost: terrainTypes[grid.terrain[next]].cost * Math.SQRT2 });
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Grid Heuristic
+ *
+ * Estimated cost from a cell to the goal. Every terrain costs at least 1,
+ * so each estimate is admissible for the moves it was designed for
+ * (Manhattan for 4-connected grids, octile for 8-connected grids).
+ */
+export function gridHeuristic(grid: GridConfig, from: number, to: number): number {
+  const a = cellPosition(grid, from);
+  const b = cellPosition(grid, to);
+  const dx = Math.abs(a.col - b.col);
+  const dy = Math.abs(a.row - b.row);
+
+  switch (grid.heuristic) {
+    case 'euclidean':
+      return Math.hypot(dx, dy);
+    case 'chebyshev':
+      return Math.max(dx, dy);
+    case 'octile':
+      return dx + dy + (Math.SQRT2 - 2) * Math.min(dx, dy);
+    case 'manhattan':
+    default:
+      return dx + dy;
+  }
+}
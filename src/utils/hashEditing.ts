@@ -0,0 +1,158 @@
+/**
+ * Hash Table Editing
+ *
+ * The configuration behind the hash table workbench: how collisions are
+ * resolved, which hash function places the keys, the initial capacity, the
+ * load factor that triggers a resize, and the insert / delete / search
+ * operations to animate. Like gridEditing.ts, every helper returns a new
+ * configuration so the store can regenerate the trace from it.
+ */
+
+/**
+ * Collision Strategy Type
+ *
+ * Separate chaining keeps a linked list per bucket; the others store every
+ * entry in one flat array and probe for a free slot (open addressing).
+ */
+export type CollisionStrategy = 'chaining' | 'linear' | 'quadratic' | 'double';
+
+export const collisionStrategies: { id: CollisionStrategy; name: string; probe: string }[] = [
+  { id: 'chaining', name: 'Separate chaining', probe: 'append to the chain of bucket i' },
+  { id: 'linear', name: 'Linear probing', probe: 'i, i + 1, i + 2, ...' },
+  { id: 'quadratic', name: 'Quadratic probing', probe: 'i, i + 1, i + 4, i + 9, ...' },
+  { id: 'double', name: 'Double hashing', probe: 'i, i + s, i + 2s, ... with step s from a second hash' },
+];
+
+export function isOpenAddressing(strategy: CollisionStrategy): boolean {
+  return strategy !== 'chaining';
+}
+
+/**
+ * Hash Function Type
+ *
+ * Ways of turning a string key into a number before it is reduced modulo
+ * the capacity. The additive hash is deliberately weak: anagrams collide.
+ */
+export type HashFunction = 'polynomial' | 'additive' | 'djb2';
+
+export const hashFunctions: { id: HashFunction; name: string; formula: string }[] = [
+  { id: 'polynomial', name: 'Polynomial (× 31)', formula: 'h ← 31h + code(c) for each character c' },
+  { id: 'additive', name: 'Sum of characters', formula: 'h ← h + code(c) for each character c' },
+  { id: 'djb2', name: 'djb2 (× 33, from 5381)', formula: 'h ← 33h + code(c) for each character c, starting from 5381' },
+];
+
+/**
+ * Hash Operation Interface
+ */
+export type HashOperationType = 'insert' | 'delete' | 'search';
+
+export interface HashOperation {
+  type: HashOperationType;
+  key: string;
+  value?: number;            // Insert only
+}
+
+/**
+ * Hash Table Config Interface
+ */
+export interface HashTableConfig {
+  strategy: CollisionStrategy;
+  hashFunction: HashFunction;
+  capacity: number;              // Buckets or slots before any resize
+  maxLoadFactor: number;         // Resize (doubling the capacity) before the load would exceed this
+  operations: HashOperation[];   // Run in order on an initially empty table
+}
+
+// Limits keep the table on screen and the traces short
+export const hashCapacities = [4, 5, 7, 8, 10, 11, 13, 16];
+export const maxLoadFactors = [0.5, 0.75, 0.9];
+export const MAX_OPERATIONS = 25;
+export const MAX_KEY_LENGTH = 12;
+
+/**
+ * Default Hash Table
+ *
+ * Seven fruits into eight buckets: the seventh insert pushes the load past
+ * 0.75 and triggers a resize, then a search, a delete and a search for the
+ * deleted key.
+ */
+export function getDefaultHashTable(): HashTableConfig {
+  const fruits = ['apple', 'banana', 'cherry', 'date', 'elderberry', 'fig', 'grape'];
+  return {
+    strategy: 'chaining',
+    hashFunction: 'polynomial',
+    capacity: 8,
+    maxLoadFactor: 0.75,
+    operations: [
+      ...fruits.map((key, index): HashOperation => ({ type: 'insert', key, value: index + 1 })),
+      { type: 'search', key: 'cherry' },
+      { type: 'delete', key: 'banana' },
+      { type: 'search', key: 'banana' },
+    ]
+  };
+}
+
+/**
+ * Parse Result Interface
+ */
+export interface ParsedOperations {
+  operations: HashOperation[] | null;   // Parsed operations, or null if invalid
+  error: string | null;                 // Reason the text was rejected
+}
+
+/**
+ * Parse Operations
+ *
+ * Accepts operations separated by commas, semicolons or new lines, each
+ * written as "insert key value", "delete key" or "search key",
+ * e.g. "insert apple 1, search apple, delete apple".
+ *
+ * @param text - The text to parse
+ * @returns The parsed operations or an error message
+ */
+export function parseOperations(text: string): ParsedOperations {
+  const parts = text.split(/[,;\n]+/).map(part => part.trim()).filter(Boolean);
+  if (parts.length === 0) {
+    return { operations: null, error: 'Enter at least one operation' };
+  }
+  if (parts.length > MAX_OPERATIONS) {
+    return { operations: null, error: `Enter at most ${MAX_OPERATIONS} operations` };
+  }
+
+  const operations: HashOperation[] = [];
+  for (const part of parts) {
+    const [verb, key, value, ...rest] = part.split(/\s+/);
+    const type = verb.toLowerCase();
+
+    if (type !== 'insert' && type !== 'delete' && type !== 'search') {
+      return { operations: null, error: `"${part}" must start with insert, delete or search` };
+    }
+    if (key === undefined || !/^\w+$/.test(key) || key.length > MAX_KEY_LENGTH) {
+      return { operations: null, error: `"${part}" needs a key of up to ${MAX_KEY_LENGTH} letters or digits` };
+    }
+    if (type !== 'insert') {
+      if (value !== undefined) return { operations: null, error: `"${part}": only insert takes a value` };
+      operations.push({ type, key });
+      continue;
+    }
+    if (value === undefined || !Number.isInteger(Number(value)) || rest.length > 0) {
+      return { operations: null, error: `"${part}" needs a whole-number value, e.g. insert ${key} 1` };
+    }
+    operations.push({ type, key, value: Number(value) });
+  }
+
+  return { operations, error: null };
+}
+
+/**
+ * Format Operations
+ *
+ * Inverse of parseOperations, used for the text field.
+ */
+export function formatOperations(operations: HashOperation[]): string {
+  return operations
+    .map(operation => operation.type === 'insert'
+      ? `insert ${operation.key} ${operation.value}`
+      : `${operation.type} ${operation.key}`)
+    .join(', ');
+}
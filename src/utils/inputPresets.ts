@@ -0,0 +1,129 @@
+/**
+ * Input Presets
+ *
+ * Helpers for the custom input panel: generating arrays with a particular
+ * shape (random, nearly sorted, reversed, ...) and parsing arrays typed by
+ * the user or carried in the URL.
+ */
+
+/**
+ * Input Preset Type
+ */
+export type InputPreset = 'random' | 'nearly-sorted' | 'reversed' | 'many-duplicates' | 'few-unique';
+
+/**
+ * Preset Options
+ *
+ * Used by the input panel to list the available presets.
+ */
+export const inputPresets: { id: InputPreset; name: string }[] = [
+  { id: 'random', name: 'Random' },
+  { id: 'nearly-sorted', name: 'Nearly sorted' },
+  { id: 'reversed', name: 'Reversed' },
+  { id: 'many-duplicates', name: 'Many duplicates' },
+  { id: 'few-unique', name: 'Few unique' },
+];
+
+// Limits keep the bar chart readable and the traces short
+export const MIN_INPUT_SIZE = 2;
+export const MAX_INPUT_SIZE = 30;
+export const MIN_INPUT_VALUE = 1;
+export const MAX_INPUT_VALUE = 99;
+
+function randomValue(random: () => number, min = MIN_INPUT_VALUE, max = MAX_INPUT_VALUE): number {
+  return Math.floor(random() * (max - min + 1)) + min;
+}
+
+/**
+ * Generate Preset
+ *
+ * @param preset - Shape of the generated array
+ * @param size - Number of elements
+ * @param random - Random source (defaults to Math.random)
+ * @returns The generated array
+ */
+export function generatePreset(preset: InputPreset, size: number, random: () => number = Math.random): number[] {
+  const n = Math.max(MIN_INPUT_SIZE, Math.min(MAX_INPUT_SIZE, Math.round(size)));
+
+  switch (preset) {
+    case 'nearly-sorted': {
+      // Sorted array with a few neighbouring pairs swapped
+      const values = Array.from({ length: n }, () => randomValue(random)).sort((a, b) => a - b);
+      const swaps = Math.max(1, Math.floor(n / 8));
+      for (let s = 0; s < swaps; s++) {
+        const i = Math.floor(random() * (n - 1));
+        [values[i], values[i + 1]] = [values[i + 1], values[i]];
+      }
+      return values;
+    }
+    case 'reversed':
+      return Array.from({ length: n }, () => randomValue(random)).sort((a, b) => b - a);
+    case 'many-duplicates': {
+      // Roughly half the elements share a handful of values
+      const pool = Array.from({ length: 3 }, () => randomValue(random));
+      return Array.from({ length: n }, () =>
+        random() < 0.6 ? pool[Math.floor(random() * pool.length)] : randomValue(random)
+      );
+    }
+    case 'few-unique': {
+      const pool = Array.from({ length: Math.min(4, n) }, () => randomValue(random));
+      return Array.from({ length: n }, () => pool[Math.floor(random() * pool.length)]);
+    }
+    case 'random':
+    default:
+      return Array.from({ length: n }, () => randomValue(random));
+  }
+}
+
+/**
+ * Parse Result Interface
+ */
+export interface ParsedInput {
+  values: number[] | null;   // Parsed array, or null if invalid
+  error: string | null;      // Reason the input was rejected
+}
+
+/**
+ * Parse Array Input
+ *
+ * Accepts numbers separated by commas and/or whitespace, with or
+ * without surrounding brackets, e.g. "5, 3, 8" or "[5 3 8]".
+ *
+ * @param text - The text to parse
+ * @returns The parsed values or an error message
+ */
+export function parseArrayInput(text: string): ParsedInput {
+  const trimmed = text.trim().replace(/^\[/, '').replace(/\]$/, '').trim();
+  if (!trimmed) {
+    return { values: null, error: 'Enter at least two numbers' };
+  }
+
+  const parts = trimmed.split(/[\s,]+/).filter(Boolean);
+  const values: number[] = [];
+
+  for (const part of parts) {
+    const value = Number(part);
+    if (!Number.isInteger(value)) {
+      return { values: null, error: `"${part}" is not a whole number` };
+    }
+    if (value < MIN_INPUT_VALUE || value > MAX_INPUT_VALUE) {
+      return { values: null, error: `Values must be between ${MIN_INPUT_VALUE} and ${MAX_INPUT_VALUE}` };
+    }
+    values.push(value);
+  }
+
+  if (values.length < MIN_INPUT_SIZE || values.length > MAX_INPUT_SIZE) {
+    return { values: null, error: `Enter between ${MIN_INPUT_SIZE} and ${MAX_INPUT_SIZE} numbers` };
+  }
+
+  return { values, error: null };
+}
+
+/**
+ * Format Array Input
+ *
+ * Inverse of parseArrayInput, used for the text field and the URL.
+ */
+export function formatArrayInput(values: number[]): string {
+  return values.join(',');
+}
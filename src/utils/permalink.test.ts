@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { getDefaultHashTable } from './hashEditing';
+import { decodeSession } from './permalink';
+
+// Build a version 1 link by hand, as a hand-edited URL would be
+const link = (data: unknown) => `1.${Buffer.from(JSON.stringify(data)).toString('base64url')}`;
+
+describe('decodeSession', () => {
+  it('keeps hash table sizes the editor offers', () => {
+    const { session } = decodeSession(link({ a: 'hash-table-search', f: 0, s: 1000, h: ['linear', 'djb2', 11, 0.5, 'insert a 1'] }));
+
+    expect(session?.input.hashTable).toMatchObject({ strategy: 'linear', hashFunction: 'djb2', capacity: 11, maxLoadFactor: 0.5 });
+  });
+
+  it('falls back to the default capacity and load factor when they are out of range', () => {
+    const defaults = getDefaultHashTable();
+    const { session, error } = decodeSession(link({ a: 'hash-table-search', f: 0, s: 1000, h: ['linear', 'djb2', 1, 0, 'insert a 1, insert b 2'] }));
+
+    expect(error).toBeNull();
+    expect(session?.input.hashTable?.capacity).toBe(defaults.capacity);
+    expect(session?.input.hashTable?.maxLoadFactor).toBe(defaults.maxLoadFactor);
+    expect(session?.input.hashTable?.operations).toHaveLength(2);
+  });
+
+  it('drops an editor language the editor does not offer', () => {
+    const { session } = decodeSession(link({ a: 'hash-table-search', f: 0, s: 1000, c: 'code', l: 'ruby' }));
+
+    expect(session?.code).toBe('code');
+    expect(session?.language).toBeUndefined();
+  });
+
+  it('rejects a link that is not an object', () => {
+    expect(decodeSession(link([1, 2])).error).toBe('The link names an unknown algorithm');
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * Permalinks
+ *
+ * Encodes a visualiser session - algorithm, input, current step, playback
+ * speed and optionally the editor code - into one URL parameter, so a link
+ * opens the exact moment of an animation. The parameter is a version number
+ * and base64url JSON ("1.eyJ..."); links made by an older version keep
+ * working as long as their version is decoded here.
+ *
+ * Decoded input goes through the same checks as input restored from a
+ * user's progress (see restoreInput), so a hand-edited link cannot put an
+ * invalid graph or array in the store.
+ */
+
+import { InputKind, LANGUAGES } from '../algorithms/plugin';
+import { getAlgorithmPlugin } from '../algorithms/registry';
+import { EditableGraph } from './graphEditing';
+import { GridConfig, GridHeuristic } from './gridEditing';
+import { HashTableConfig, CollisionStrategy, HashFunction, formatOperations, parseOperations } from './hashEditing';
+import { formatArrayInput } from './inputPresets';
+import { RestoredInput, SavedInput, MAX_CODE_LENGTH, restoreInput } from './progress';
+
+export const PERMALINK_VERSION = 1;
+
+// Playback speed in milliseconds per step, shared with the Visualiser's slider
+export const MIN_SPEED = 100;
+export const MAX_SPEED = 2000;
+export const SPEED_STEP = 100;
+export const DEFAULT_SPEED = 1000;
+
+/**
+ * Session Interface
+ *
+ * What a permalink restores. Input parts the algorithm does not run on
+ * are left out when encoding.
+ */
+export interface Session {
+  algorithmId: string;
+  input: RestoredInput;
+  frame: number;              // Step shown by the Visualiser (0-based)
+  speed: number;              // Milliseconds per step
+  code?: string;              // Editor code, if the link includes it
+  language?: string;          // Editor language of the code
+}
+
+/**
+ * Live Input
+ *
+ * The visualiser's current input, as kept in the store.
+ */
+export interface LiveInput {
+  values: number[];
+  target: number | null;
+  graph: EditableGraph;
+  grid: GridConfig;
+  gridMode: boolean;
+  hashTable: HashTableConfig;
+}
+
+/**
+ * Version 1 Layout
+ *
+ * Short keys keep the links short: nodes are [id, x, y], edges are
+ * [from, to, weight], the grid is [rows, cols, terrain digits, start, goal,
+ * connectivity, heuristic] and the hash table is [strategy, hash function,
+ * capacity, max load factor, operations as typed].
+ */
+interface EncodedSessionV1 {
+  a: string;
+  v?: string;
+  t?: number | null;
+  g?: { n: [string, number, number][]; e: [string, string, number][]; d: 0 | 1; s: string; z: string };
+  r?: [number, number, string, number, number, 4 | 8, GridHeuristic];
+  m?: 0 | 1;
+  h?: [CollisionStrategy, HashFunction, number, number, string];
+  f: number;
+  s: number;
+  c?: string;
+  l?: string;
+}
+
+function encodeGraph(graph: EditableGraph): EncodedSessionV1['g'] {
+  return {
+    n: graph.nodes.map(node => [node.id, Math.round(node.x), Math.round(node.y)]),
+    e: graph.edges.map(edge => [edge.from, edge.to, edge.weight]),
+    d: graph.directed ? 1 : 0,
+    s: graph.start,
+    z: graph.end
+  };
+}
+
+function encodeGrid(grid: GridConfig): EncodedSessionV1['r'] {
+  return [grid.rows, grid.cols, grid.terrain.join(''), grid.start, grid.goal, grid.connectivity, grid.heuristic];
+}
+
+function encodeHashTable(hashTable: HashTableConfig): EncodedSessionV1['h'] {
+  return [hashTable.strategy, hashTable.hashFunction, hashTable.capacity, hashTable.maxLoadFactor, formatOperations(hashTable.operations)];
+}
+
+// base64url of the UTF-8 bytes, so code with any characters survives the URL
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): string {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+}
+
+/**
+ * Encode Session
+ *
+ * @param algorithmId - The algorithm being visualised
+ * @param kind - The input its plugin declares; only that input is encoded
+ * @param input - The visualiser's current input
+ * @param playback - Current step and speed
+ * @param editor - Editor code and language, when the link should include them
+ * @returns The value of the session URL parameter
+ */
+export function encodeSession(
+  algorithmId: string,
+  kind: InputKind,
+  input: LiveInput,
+  playback: { frame: number; speed: number },
+  editor?: { code: string; language: string }
+): string {
+  const encoded: EncodedSessionV1 = { a: algorithmId, f: playback.frame, s: playback.speed };
+
+  switch (kind) {
+    case 'array':
+      encoded.v = formatArrayInput(input.values);
+      break;
+    case 'search':
+      encoded.v = formatArrayInput(input.values);
+      encoded.t = input.target;
+      break;
+    case 'graph':
+      encoded.g = encodeGraph(input.graph);
+      if (getAlgorithmPlugin(algorithmId)?.supportsGrid) {
+        encoded.r = encodeGrid(input.grid);
+        encoded.m = input.gridMode ? 1 : 0;
+      }
+      break;
+    case 'hash':
+      encoded.h = encodeHashTable(input.hashTable);
+      break;
+  }
+
+  if (editor) {
+    encoded.c = editor.code;
+    encoded.l = editor.language;
+  }
+
+  return `${PERMALINK_VERSION}.${toBase64Url(JSON.stringify(encoded))}`;
+}
+
+/**
+ * Decode Result Interface
+ */
+export interface DecodedSession {
+  session: Session | null;     // Decoded session, or null if the link is invalid
+  error: string | null;        // Reason the link was rejected
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function decodeV1(data: unknown): DecodedSession {
+  if (!isObject(data) || typeof data.a !== 'string' || !getAlgorithmPlugin(data.a)) {
+    return { session: null, error: 'The link names an unknown algorithm' };
+  }
+
+  // Only the layout is checked here; restoreInput checks the values
+  const saved: SavedInput = {};
+  if (typeof data.v === 'string') saved.values = data.v;
+  if (typeof data.t === 'number' || data.t === null) saved.target = data.t;
+  if (isObject(data.g) && Array.isArray(data.g.n) && Array.isArray(data.g.e)) {
+    const graph = {
+      nodes: data.g.n.map((node: unknown) => Array.isArray(node) ? { id: node[0], x: node[1], y: node[2] } : null),
+      edges: data.g.e.map((edge: unknown) => Array.isArray(edge) ? { from: edge[0], to: edge[1], weight: edge[2] } : null),
+      directed: data.g.d === 1,
+      start: data.g.s,
+      end: data.g.z
+    };
+    saved.graph = JSON.stringify(graph);
+  }
+  if (Array.isArray(data.r) && typeof data.r[2] === 'string') {
+    const [rows, cols, terrain, start, goal, connectivity, heuristic] = data.r;
+    saved.grid = { rows, cols, terrain: [...terrain].map(Number), start, goal, connectivity, heuristic } as GridConfig;
+  }
+  if (data.m === 0 || data.m === 1) saved.gridMode = data.m === 1;
+  if (Array.isArray(data.h) && typeof data.h[4] === 'string') {
+    const [strategy, hashFunction, capacity, maxLoadFactor, operations] = data.h;
+    saved.hashTable = { strategy, hashFunction, capacity, maxLoadFactor, operations: parseOperations(operations).operations ?? [] } as HashTableConfig;
+  }
+
+  const frame = typeof data.f === 'number' && Number.isInteger(data.f) && data.f >= 0 ? data.f : 0;
+  const speed = typeof data.s === 'number' ? Math.min(MAX_SPEED, Math.max(MIN_SPEED, Math.round(data.s / SPEED_STEP) * SPEED_STEP)) : DEFAULT_SPEED;
+  const session: Session = { algorithmId: data.a, input: restoreInput(saved), frame, speed };
+
+  if (typeof data.c === 'string' && data.c.length <= MAX_CODE_LENGTH) {
+    session.code = data.c;
+    session.language = LANGUAGES.find(language => language === data.l);
+  }
+  return { session, error: null };
+}
+
+/**
+ * Decode Session
+ *
+ * @param text - The value of the session URL parameter
+ * @returns The session or an error message
+ */
+export function decodeSession(text: string): DecodedSession {
+  const damaged: DecodedSession = { session: null, error: 'The link is damaged and could not be read' };
+  const separator = text.indexOf('.');
+  const version = Number(text.slice(0, separator));
+  if (separator < 0 || !Number.isInteger(version) || version < 1) return damaged;
+  if (version > PERMALINK_VERSION) {
+    return { session: null, error: 'The link was made by a newer version of Algtrax; reload the page to update' };
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(fromBase64Url(text.slice(separator + 1)));
+  } catch {
+    return damaged;
+  }
+
+  // Each layout version keeps its decoder
+  switch (version) {
+    case 1:
+      return decodeV1(data);
+    default:
+      return damaged;
+  }
+}
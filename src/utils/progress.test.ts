@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { createGrid } from './gridEditing';
+import {
+  MAX_CODE_LENGTH,
+  MAX_SAVED_INPUT_LENGTH,
+  MAX_SUBMISSION_HISTORY,
+  SubmissionRecord,
+  addSubmission,
+  getEmptyProgress,
+  parseQuizResult,
+  parseSavedInput,
+  parseSubmission,
+  restoreInput,
+} from './progress';
+
+const submission = { algorithmId: 'bubble-sort', language: 'javascript', code: 'return arr;', passed: 3, total: 4 };
+
+describe('parseSubmission', () => {
+  it('scores a valid submission', () => {
+    expect(parseSubmission(submission)).toEqual({ value: { ...submission, score: 75 }, error: null });
+  });
+
+  it('rejects an unknown algorithm', () => {
+    expect(parseSubmission({ ...submission, algorithmId: 'bogo-sort' }).error).toBe('Unknown algorithm');
+  });
+
+  it('rejects a language the editor does not offer', () => {
+    expect(parseSubmission({ ...submission, language: 'ruby' }).error).toBe('Language must be one of javascript, python, java');
+  });
+
+  it('rejects code longer than MAX_CODE_LENGTH', () => {
+    expect(parseSubmission({ ...submission, code: 'x'.repeat(MAX_CODE_LENGTH) }).value).not.toBeNull();
+    expect(parseSubmission({ ...submission, code: 'x'.repeat(MAX_CODE_LENGTH + 1) }).value).toBeNull();
+  });
+
+  it('rejects more passed cases than were run, or none run', () => {
+    expect(parseSubmission({ ...submission, passed: 5, total: 4 }).value).toBeNull();
+    expect(parseSubmission({ ...submission, passed: 0, total: 0 }).value).toBeNull();
+  });
+});
+
+describe('parseQuizResult', () => {
+  it('accepts a valid result', () => {
+    expect(parseQuizResult({ algorithmId: 'dijkstra', correct: 2, total: 5 }).value).toEqual({ algorithmId: 'dijkstra', correct: 2, total: 5 });
+  });
+
+  it('rejects an unknown algorithm, correct > total and total === 0', () => {
+    expect(parseQuizResult({ algorithmId: 'nope', correct: 1, total: 1 }).error).toBe('Unknown algorithm');
+    expect(parseQuizResult({ algorithmId: 'dijkstra', correct: 6, total: 5 }).value).toBeNull();
+    expect(parseQuizResult({ algorithmId: 'dijkstra', correct: 0, total: 0 }).value).toBeNull();
+  });
+});
+
+describe('parseSavedInput', () => {
+  it('keeps only the parts of the right type', () => {
+    const { value } = parseSavedInput({ algorithmId: 'binary-search', input: { values: '1, 2, 3', target: '2', gridMode: 'yes' } });
+
+    expect(value).toEqual({ algorithmId: 'binary-search', input: { values: '1, 2, 3' } });
+  });
+
+  it('rejects an unknown algorithm', () => {
+    expect(parseSavedInput({ algorithmId: 'nope', input: {} }).error).toBe('Unknown algorithm');
+  });
+
+  it('rejects an oversized input', () => {
+    const input = { values: '1,'.repeat(MAX_SAVED_INPUT_LENGTH) };
+
+    expect(parseSavedInput({ algorithmId: 'bubble-sort', input })).toEqual({ value: null, error: 'Input is too large to save' });
+  });
+
+  it('drops a grid size the editor does not offer', () => {
+    const offered = createGrid(15, 25);
+    const other = createGrid(16, 25);
+
+    expect(parseSavedInput({ algorithmId: 'a-star', input: { grid: offered } }).value?.input.grid).toEqual(offered);
+    expect(parseSavedInput({ algorithmId: 'a-star', input: { grid: other } }).value?.input.grid).toBeUndefined();
+    expect(restoreInput({ grid: other }).grid).toBeNull();
+  });
+
+  it('drops hash operations without a valid key or value', () => {
+    const hashTable = { strategy: 'linear', hashFunction: 'djb2', capacity: 8, maxLoadFactor: 0.75, operations: [{ type: 'insert', key: 'a', value: 1 }] };
+
+    expect(parseSavedInput({ algorithmId: 'hash-table-search', input: { hashTable } }).value?.input.hashTable).toEqual(hashTable);
+    for (const operation of [{ type: 'insert' }, { type: 'insert', key: 5, value: 1 }, { type: 'insert', key: 'a', value: 'x' }, { type: 'search', key: 'a', value: 1 }]) {
+      const input = { hashTable: { ...hashTable, operations: [operation] } };
+      expect(parseSavedInput({ algorithmId: 'hash-table-search', input }).value?.input.hashTable).toBeUndefined();
+    }
+  });
+});
+
+describe('addSubmission', () => {
+  const record = (id: number, language: string): SubmissionRecord => ({
+    ...submission, id: String(id), language, score: 75, submittedAt: new Date(id).toISOString()
+  });
+
+  it('keeps MAX_SUBMISSION_HISTORY submissions per algorithm and language', () => {
+    let progress = getEmptyProgress();
+    progress = addSubmission(progress, record(0, 'python'));
+    for (let id = 1; id <= MAX_SUBMISSION_HISTORY + 5; id++) {
+      progress = addSubmission(progress, record(id, 'javascript'));
+    }
+
+    const javascript = progress.submissions.filter(entry => entry.language === 'javascript');
+    expect(javascript).toHaveLength(MAX_SUBMISSION_HISTORY);
+    expect(javascript[0].id).toBe(String(MAX_SUBMISSION_HISTORY + 5));
+    expect(javascript[javascript.length - 1].id).toBe('6');
+    expect(progress.submissions.filter(entry => entry.language === 'python')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,321 @@
+/**
+ * User Progress
+ *
+ * What a signed-in user's account remembers: graded submissions per
+ * algorithm and language, quiz scores and the last input used with each
+ * algorithm. The API routes under app/api/progress validate requests with
+ * the parse functions here and store the result through progressStorage.ts;
+ * the client reaches them through progressClient.ts.
+ */
+
+import { getAlgorithmPlugin } from '../algorithms/registry';
+import { InputKind, LANGUAGES } from '../algorithms/plugin';
+import { QuizScore, QuizScores } from './quizScores';
+import { parseArrayInput, formatArrayInput } from './inputPresets';
+import { EditableGraph, parseGraph, serializeGraph } from './graphEditing';
+import { GridConfig, gridHeuristics, gridSizes, terrainTypes } from './gridEditing';
+import {
+  HashOperation,
+  HashTableConfig,
+  MAX_KEY_LENGTH,
+  MAX_OPERATIONS,
+  collisionStrategies,
+  hashCapacities,
+  hashFunctions,
+  maxLoadFactors,
+  getDefaultHashTable,
+} from './hashEditing';
+
+/**
+ * Submission Record Interface
+ */
+export interface SubmissionRecord {
+  id: string;
+  algorithmId: string;
+  language: string;
+  code: string;
+  passed: number;              // Test cases passed
+  total: number;               // Test cases run
+  score: number;               // Percentage of passed cases (0-100)
+  submittedAt: string;         // ISO timestamp
+}
+
+/**
+ * Saved Input Interface
+ *
+ * The last input used with an algorithm. Array input is kept as typed
+ * (see formatArrayInput) and the graph as serialized by serializeGraph, so
+ * both go back through their parsers when restored.
+ */
+export interface SavedInput {
+  values?: string;
+  target?: number | null;
+  graph?: string;
+  grid?: GridConfig;
+  gridMode?: boolean;
+  hashTable?: HashTableConfig;
+}
+
+/**
+ * User Progress Interface
+ */
+export interface UserProgress {
+  submissions: SubmissionRecord[];          // Newest first
+  quizScores: QuizScores;                   // By algorithm id
+  inputs: Record<string, SavedInput>;       // By algorithm id
+}
+
+// Limits keep a user's progress file small
+export const MAX_SUBMISSION_HISTORY = 20;   // Per algorithm and language
+export const MAX_CODE_LENGTH = 50000;
+export const MAX_SAVED_INPUT_LENGTH = 20000;
+
+export function getEmptyProgress(): UserProgress {
+  return { submissions: [], quizScores: {}, inputs: {} };
+}
+
+/**
+ * Parse Result Interface
+ */
+export interface ParsedRequest<T> {
+  value: T | null;           // Parsed request body, or null if invalid
+  error: string | null;      // Reason the request was rejected
+}
+
+export type NewSubmission = Omit<SubmissionRecord, 'id' | 'submittedAt'>;
+
+function isCount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Parse Submission
+ *
+ * @param body - JSON body of a submission request
+ * @returns The submission to record or an error message
+ */
+export function parseSubmission(body: unknown): ParsedRequest<NewSubmission> {
+  if (!isObject(body) || typeof body.algorithmId !== 'string' || !getAlgorithmPlugin(body.algorithmId)) {
+    return { value: null, error: 'Unknown algorithm' };
+  }
+  const language = LANGUAGES.find(id => id === body.language);
+  if (!language) {
+    return { value: null, error: `Language must be one of ${LANGUAGES.join(', ')}` };
+  }
+  if (typeof body.code !== 'string' || body.code.length > MAX_CODE_LENGTH) {
+    return { value: null, error: `Code must be a string of at most ${MAX_CODE_LENGTH} characters` };
+  }
+  if (!isCount(body.passed) || !isCount(body.total) || body.total === 0 || body.passed > body.total) {
+    return { value: null, error: 'Passed and total must be counts with passed <= total' };
+  }
+
+  return {
+    value: {
+      algorithmId: body.algorithmId,
+      language,
+      code: body.code,
+      passed: body.passed,
+      total: body.total,
+      score: Math.round((body.passed / body.total) * 100)
+    },
+    error: null
+  };
+}
+
+/**
+ * Parse Quiz Result
+ *
+ * @param body - JSON body of a quiz result request
+ * @returns The result to record or an error message
+ */
+export function parseQuizResult(body: unknown): ParsedRequest<{ algorithmId: string; correct: number; total: number }> {
+  if (!isObject(body) || typeof body.algorithmId !== 'string' || !getAlgorithmPlugin(body.algorithmId)) {
+    return { value: null, error: 'Unknown algorithm' };
+  }
+  if (!isCount(body.correct) || !isCount(body.total) || body.total === 0 || body.correct > body.total) {
+    return { value: null, error: 'Correct and total must be counts with correct <= total' };
+  }
+  return { value: { algorithmId: body.algorithmId, correct: body.correct, total: body.total }, error: null };
+}
+
+/**
+ * Parse Saved Input
+ *
+ * Checks the size and keeps the parts of the right type; array and graph
+ * text are parsed when restored.
+ *
+ * @param body - JSON body of a saved input request
+ * @returns The input to save or an error message
+ */
+export function parseSavedInput(body: unknown): ParsedRequest<{ algorithmId: string; input: SavedInput }> {
+  if (!isObject(body) || typeof body.algorithmId !== 'string' || !getAlgorithmPlugin(body.algorithmId)) {
+    return { value: null, error: 'Unknown algorithm' };
+  }
+  const input = body.input;
+  if (!isObject(input)) {
+    return { value: null, error: 'Input must be an object' };
+  }
+  if (JSON.stringify(input).length > MAX_SAVED_INPUT_LENGTH) {
+    return { value: null, error: 'Input is too large to save' };
+  }
+
+  const saved: SavedInput = {};
+  if (typeof input.values === 'string') saved.values = input.values;
+  if (typeof input.target === 'number' || input.target === null) saved.target = input.target;
+  if (typeof input.graph === 'string') saved.graph = input.graph;
+  if (isValidGrid(input.grid)) saved.grid = input.grid;
+  if (typeof input.gridMode === 'boolean') saved.gridMode = input.gridMode;
+  const hashTable = restoreHashTable(input.hashTable);
+  if (hashTable) saved.hashTable = hashTable;
+
+  return { value: { algorithmId: body.algorithmId, input: saved }, error: null };
+}
+
+/**
+ * Add Submission
+ *
+ * Puts the submission first and drops the oldest ones beyond
+ * MAX_SUBMISSION_HISTORY for its algorithm and language.
+ */
+export function addSubmission(progress: UserProgress, submission: SubmissionRecord): UserProgress {
+  let kept = 0;
+  const submissions = [submission, ...progress.submissions].filter(record => {
+    if (record.algorithmId !== submission.algorithmId || record.language !== submission.language) return true;
+    return ++kept <= MAX_SUBMISSION_HISTORY;
+  });
+  return { ...progress, submissions };
+}
+
+/**
+ * Algorithm Summary Interface
+ */
+export interface AlgorithmSummary {
+  attempts: number;
+  bestScore: number | null;        // Best submission score, null before the first submission
+  passedLanguages: string[];       // Languages with a submission passing every case
+  completed: boolean;              // Whether any submission passed every case
+  lastSubmittedAt: string | null;
+  quiz: QuizScore | undefined;
+}
+
+/**
+ * Summarise Algorithm
+ *
+ * @returns The user's completion of one algorithm, for the progress page
+ */
+export function summariseAlgorithm(progress: UserProgress, algorithmId: string): AlgorithmSummary {
+  const submissions = progress.submissions.filter(record => record.algorithmId === algorithmId);
+  const passed = submissions.filter(record => record.passed === record.total);
+
+  return {
+    attempts: submissions.length,
+    bestScore: submissions.length > 0 ? Math.max(...submissions.map(record => record.score)) : null,
+    passedLanguages: [...new Set(passed.map(record => record.language))],
+    completed: passed.length > 0,
+    lastSubmittedAt: submissions[0]?.submittedAt ?? null,
+    quiz: progress.quizScores[algorithmId]
+  };
+}
+
+/**
+ * To Saved Input
+ *
+ * Picks the parts of the visualiser's input an algorithm runs on.
+ *
+ * @param kind - The input the algorithm's plugin declares
+ * @param supportsGrid - Whether the algorithm can also run on the grid
+ * @param input - The visualiser's current input
+ */
+export function toSavedInput(
+  kind: InputKind,
+  supportsGrid: boolean,
+  input: { values: number[]; target: number | null; graph: EditableGraph; grid: GridConfig; gridMode: boolean; hashTable: HashTableConfig }
+): SavedInput {
+  switch (kind) {
+    case 'array':
+      return { values: formatArrayInput(input.values) };
+    case 'search':
+      return { values: formatArrayInput(input.values), target: input.target };
+    case 'graph':
+      return supportsGrid
+        ? { graph: serializeGraph(input.graph), grid: input.grid, gridMode: input.gridMode }
+        : { graph: serializeGraph(input.graph) };
+    case 'hash':
+      return { hashTable: input.hashTable };
+  }
+}
+
+/**
+ * Restored Input Interface
+ *
+ * The valid parts of a saved input; invalid or missing parts are null.
+ */
+export interface RestoredInput {
+  values: number[] | null;
+  target: number | null;
+  graph: EditableGraph | null;
+  grid: GridConfig | null;
+  gridMode: boolean | null;
+  hashTable: HashTableConfig | null;
+}
+
+function isValidGrid(grid: unknown): grid is GridConfig {
+  if (!isObject(grid) || !isCount(grid.rows) || !isCount(grid.cols) || !Array.isArray(grid.terrain)) return false;
+  // Only the sizes the grid editor offers
+  if (!gridSizes.some(size => size.rows === grid.rows && size.cols === grid.cols)) return false;
+  const cells = grid.rows * grid.cols;
+  return grid.terrain.length === cells
+    && grid.terrain.every(terrain => terrainTypes.some(type => type.id === terrain))
+    && isCount(grid.start) && grid.start < cells
+    && isCount(grid.goal) && grid.goal < cells
+    && (grid.connectivity === 4 || grid.connectivity === 8)
+    && gridHeuristics.some(heuristic => heuristic.id === grid.heuristic);
+}
+
+// The same operations parseOperations accepts from the editor
+function restoreOperation(operation: unknown): HashOperation | null {
+  if (!isObject(operation)) return null;
+  const { type, key, value } = operation;
+  if (type !== 'insert' && type !== 'delete' && type !== 'search') return null;
+  if (typeof key !== 'string' || !/^\w+$/.test(key) || key.length > MAX_KEY_LENGTH) return null;
+  if (type !== 'insert') return value === undefined ? { type, key } : null;
+  return typeof value === 'number' && Number.isInteger(value) ? { type, key, value } : null;
+}
+
+function restoreHashTable(hashTable: unknown): HashTableConfig | null {
+  if (!isObject(hashTable) || !Array.isArray(hashTable.operations)) return null;
+  if (hashTable.operations.length === 0 || hashTable.operations.length > MAX_OPERATIONS) return null;
+  const operations = hashTable.operations.map(restoreOperation);
+  if (!operations.every(operation => operation !== null)) return null;
+  const strategy = collisionStrategies.find(option => option.id === hashTable.strategy)?.id;
+  const hashFunction = hashFunctions.find(option => option.id === hashTable.hashFunction)?.id;
+  if (!strategy || !hashFunction) return null;
+
+  // Only the sizes the editor offers: a load factor of 0, say, would resize
+  // the table on every insert and grow it exponentially
+  const defaults = getDefaultHashTable();
+  const capacity = hashCapacities.find(option => option === hashTable.capacity) ?? defaults.capacity;
+  const maxLoadFactor = maxLoadFactors.find(option => option === hashTable.maxLoadFactor) ?? defaults.maxLoadFactor;
+
+  return { strategy, hashFunction, capacity, maxLoadFactor, operations };
+}
+
+/**
+ * Restore Input
+ *
+ * @param saved - An input saved by this or an older version of the app
+ * @returns The parts of the input that are still valid
+ */
+export function restoreInput(saved: SavedInput): RestoredInput {
+  return {
+    values: typeof saved.values === 'string' ? parseArrayInput(saved.values).values : null,
+    target: Number.isInteger(saved.target) ? saved.target as number : null,
+    graph: typeof saved.graph === 'string' ? parseGraph(saved.graph).graph : null,
+    grid: isValidGrid(saved.grid) ? saved.grid : null,
+    gridMode: typeof saved.gridMode === 'boolean' ? saved.gridMode : null,
+    hashTable: restoreHashTable(saved.hashTable)
+  };
+}
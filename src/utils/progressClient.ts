@@ -0,0 +1,40 @@
+/**
+ * Progress Client
+ *
+ * Browser helpers for the progress API routes. They are only called for
+ * signed-in users; every helper throws with the server's message if the
+ * request fails, so callers can show it or fall back to local state.
+ */
+
+import { NewSubmission, SavedInput, SubmissionRecord, UserProgress } from './progress';
+import { QuizScore } from './quizScores';
+
+async function request<T>(url: string, method: string, body?: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method,
+    headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.error ?? `Request failed (${response.status})`);
+  }
+  return response.status === 204 ? (undefined as T) : response.json();
+}
+
+export function fetchProgress(): Promise<UserProgress> {
+  return request('/api/progress', 'GET');
+}
+
+export function saveSubmission(submission: Omit<NewSubmission, 'score'>): Promise<SubmissionRecord> {
+  return request('/api/progress/submissions', 'POST', submission);
+}
+
+export function saveQuizResult(algorithmId: string, correct: number, total: number): Promise<QuizScore> {
+  return request('/api/progress/quiz', 'POST', { algorithmId, correct, total });
+}
+
+export function saveInput(algorithmId: string, input: SavedInput): Promise<void> {
+  return request('/api/progress/inputs', 'PUT', { algorithmId, input });
+}
@@ -0,0 +1,24 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { addSubmission } from './progress';
+
+describe('updateProgress', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.resetModules();
+  });
+
+  it('applies concurrent updates of one user in turn', async () => {
+    vi.stubEnv('PROGRESS_STORAGE', 'memory');
+    const { loadProgress, updateProgress } = await import('./progressStorage');
+    const record = (id: number) => ({
+      id: String(id), algorithmId: 'bubble-sort', language: 'javascript', code: '', passed: 1, total: 1, score: 100, submittedAt: ''
+    });
+
+    await Promise.all([1, 2, 3].map(id =>
+      updateProgress('user', progress => ({ progress: addSubmission(progress, record(id)), result: null }))
+    ));
+
+    expect((await loadProgress('user')).submissions.map(entry => entry.id)).toEqual(['3', '2', '1']);
+    expect((await loadProgress('someone-else')).submissions).toEqual([]);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Progress Storage
+ *
+ * Server-side storage for user progress (see progress.ts), keyed by the
+ * Clerk user id. Storage backends only read and write whole progress
+ * records; updateProgress serialises the read-modify-write of each user so
+ * two requests from the same user cannot overwrite each other.
+ *
+ * The backend is chosen with PROGRESS_STORAGE:
+ * - "file" (default): one JSON file per user in PROGRESS_DIR (default .data/progress)
+ * - "memory": kept in the server process, lost on restart
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { UserProgress, getEmptyProgress } from './progress';
+
+/**
+ * Progress Storage Interface
+ */
+export interface ProgressStorage {
+  read: (userId: string) => Promise<UserProgress | null>;           // null if the user has no progress yet
+  write: (userId: string, progress: UserProgress) => Promise<void>;
+}
+
+/**
+ * Memory Storage
+ */
+export function createMemoryStorage(): ProgressStorage {
+  const records = new Map<string, string>();
+
+  return {
+    read: async (userId) => {
+      const stored = records.get(userId);
+      return stored ? JSON.parse(stored) : null;
+    },
+    write: async (userId, progress) => {
+      records.set(userId, JSON.stringify(progress));
+    }
+  };
+}
+
+/**
+ * File Storage
+ *
+ * Writes go to a temporary file that is then renamed over the user's file,
+ * so a crash mid-write leaves the previous progress intact.
+ *
+ * @param directory - Directory holding one <userId>.json file per user
+ */
+export function createFileStorage(directory: string): ProgressStorage {
+  // Clerk ids are already safe file names; this guards against anything else
+  const fileFor = (userId: string) => path.join(directory, `${userId.replace(/[^\w-]/g, '_')}.json`);
+
+  return {
+    read: async (userId) => {
+      try {
+        return JSON.parse(await fs.readFile(fileFor(userId), 'utf8'));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+    write: async (userId, progress) => {
+      await fs.mkdir(directory, { recursive: true });
+      const file = fileFor(userId);
+      const temporary = `${file}.${process.pid}.tmp`;
+      await fs.writeFile(temporary, JSON.stringify(progress));
+      await fs.rename(temporary, file);
+    }
+  };
+}
+
+let storage: ProgressStorage | null = null;
+
+/**
+ * Get Progress Storage
+ *
+ * @returns The backend configured by PROGRESS_STORAGE, created on first use
+ */
+export function getProgressStorage(): ProgressStorage {
+  if (!storage) {
+    storage = process.env.PROGRESS_STORAGE === 'memory'
+      ? createMemoryStorage()
+      : createFileStorage(path.resolve(process.env.PROGRESS_DIR ?? '.data/progress'));
+  }
+  return storage;
+}
+
+/**
+ * Load Progress
+ *
+ * @returns The user's progress, filling in parts missing from older records
+ */
+export async function loadProgress(userId: string): Promise<UserProgress> {
+  return { ...getEmptyProgress(), ...await getProgressStorage().read(userId) };
+}
+
+// Pending update of each user; the next update waits for it
+const pendingUpdates = new Map<string, Promise<unknown>>();
+
+/**
+ * Update Progress
+ *
+ * @param userId - The signed-in user
+ * @param update - Returns the new progress and the value to respond with
+ * @returns The value returned by update
+ */
+export async function updateProgress<T>(
+  userId: string,
+  update: (progress: UserProgress) => { progress: UserProgress; result: T }
+): Promise<T> {
+  const run = async () => {
+    const { progress, result } = update(await loadProgress(userId));
+    await getProgressStorage().write(userId, progress);
+    return result;
+  };
+
+  const previous = pendingUpdates.get(userId) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(run);
+  pendingUpdates.set(userId, next);
+
+  try {
+    return await next;
+  } finally {
+    if (pendingUpdates.get(userId) === next) pendingUpdates.delete(userId);
+  }
+}
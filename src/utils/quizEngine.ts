@@ -0,0 +1,364 @@
+/**
+ * Quiz Engine
+ *
+ * Generates multiple-choice questions from an algorithm's trace. Each
+ * question pauses the visualiser at one frame and asks what a later frame
+ * shows: the array after the next swap, the next node taken off the
+ * frontier, a distance after a relaxation, where a key is stored. The
+ * correct answer is read from that later frame, so it always agrees with
+ * the generator's output; the wrong choices are plausible mistakes built
+ * from the paused frame.
+ */
+
+import { ArrayFrame, GraphFrame, HashFrame, HashNode, Trace, TraceFrame } from '../algorithms/trace';
+
+/**
+ * Quiz Question Kind Type
+ *
+ * - 'array'    - the array after the next swap or write (sorting)
+ * - 'probe'    - the index compared next (searching)
+ * - 'node'     - the node visited, dequeued or popped next (graphs)
+ * - 'distance' - a distance after the next relaxation (shortest paths)
+ * - 'hash'     - where a key is stored, or what a search returns (hash table)
+ */
+export type QuizKind = 'array' | 'probe' | 'node' | 'distance' | 'hash';
+
+/**
+ * Quiz Question Interface
+ */
+export interface QuizQuestion {
+  kind: QuizKind;
+  frame: number;             // Frame the visualiser pauses at while the question is open
+  reveal: number;            // Frame that shows the answer
+  prompt: string;
+  choices: string[];
+  answer: number;            // Index of the correct choice
+  explanation: string;       // Narration of the reveal frame
+}
+
+/**
+ * A question before its choices are shuffled
+ */
+interface Candidate {
+  kind: QuizKind;
+  frame: number;
+  reveal: number;
+  prompt: string;
+  correct: string;
+  distractors: string[];
+}
+
+const MAX_CHOICES = 4;
+export const QUIZ_LENGTH = 5;
+
+const formatArray = (values: number[]) => `[${values.join(', ')}]`;
+const formatDistance = (distance: number) => (distance === Infinity ? '∞' : String(distance));
+
+/**
+ * Pairs of consecutive frames of one kind
+ */
+function steps<T extends TraceFrame>(trace: Trace, kind: T['kind']): [T, T, number][] {
+  const pairs: [T, T, number][] = [];
+  for (let i = 1; i < trace.length; i++) {
+    if (trace[i - 1].kind === kind && trace[i].kind === kind) pairs.push([trace[i - 1] as T, trace[i] as T, i]);
+  }
+  return pairs;
+}
+
+/**
+ * "What will the array look like after the next swap?"
+ */
+function arrayQuestions(trace: Trace): Candidate[] {
+  return steps<ArrayFrame>(trace, 'array').flatMap(([before, after, index]) => {
+    if (before.values.length !== after.values.length) return [];
+    const changed = after.values.flatMap((value, i) => (value !== before.values[i] ? [i] : []));
+    if (changed.length === 0) return [];
+
+    const [a, b] = changed;
+    const swap = changed.length === 2 && before.values[a] === after.values[b] && before.values[b] === after.values[a];
+
+    // Wrong answers: a neighbouring swap, or the new value written one place off
+    const distractors: number[][] = [];
+    for (const i of changed) {
+      for (const j of [i - 1, i + 1, i - 2, i + 2]) {
+        if (j < 0 || j >= before.values.length) continue;
+        const values = [...before.values];
+        if (swap) {
+          [values[i], values[j]] = [values[j], values[i]];
+        } else {
+          values[j] = after.values[i];
+        }
+        distractors.push(values);
+      }
+    }
+    distractors.push(before.values);
+
+    return [{
+      kind: 'array',
+      frame: index - 1,
+      reveal: index,
+      prompt: swap ? 'What will the array look like after the next swap?' : 'What will the array look like after the next write?',
+      correct: formatArray(after.values),
+      distractors: distractors.map(formatArray)
+    }];
+  });
+}
+
+/**
+ * "Which index is compared with the target next?"
+ */
+function probeQuestions(trace: Trace): Candidate[] {
+  // Sorting traces are asked about their swaps instead
+  if (trace.some((frame, i) => i > 0 && frame.kind === 'array' && trace[i - 1].kind === 'array' &&
+      frame.values.some((value, j) => value !== (trace[i - 1] as ArrayFrame).values[j]))) {
+    return [];
+  }
+
+  return steps<ArrayFrame>(trace, 'array').flatMap(([before, after, index]) => {
+    if (after.comparing.length !== 1 || before.comparing[0] === after.comparing[0]) return [];
+    const probe = after.comparing[0];
+    const label = (i: number) => `Index ${i} (value ${after.values[i]})`;
+    const nearby = [
+      before.low, before.high, before.mid, before.comparing[0],
+      probe - 1, probe + 1, probe - 2, probe + 2
+    ].filter((i): i is number => i !== undefined && i >= 0 && i < after.values.length);
+
+    return [{
+      kind: 'probe',
+      frame: index - 1,
+      reveal: index,
+      prompt: after.target !== undefined
+        ? `Which index is compared with the target ${after.target} next?`
+        : 'Which index is compared next?',
+      correct: label(probe),
+      distractors: nearby.map(label)
+    }];
+  });
+}
+
+/**
+ * "Which node does the algorithm dequeue next?" - asked only when the next
+ * node is taken from the frontier shown in the paused frame, and not when
+ * the lowest priority in a priority queue is tied
+ */
+function nodeQuestions(trace: Trace, name: string): Candidate[] {
+  const seen = new Set<string>();
+
+  return steps<GraphFrame>(trace, 'graph').flatMap(([before, after, index]) => {
+    const next = after.current;
+    if (before.current !== null) seen.add(before.current);
+    if (next === null || next === before.current || seen.has(next)) return [];
+    seen.add(next);
+
+    const frontier = [
+      ...(before.queue ?? []),
+      ...(before.frontier ?? []).map(entry => entry.node),
+      ...(before.openSet ?? []),
+      ...[...(before.stack ?? [])].reverse()
+    ];
+    if (!frontier.includes(next)) return [];
+
+    // With several entries at the lowest priority, any of them could come
+    // next depending on how ties are broken, so there is no single answer
+    const waiting = (before.frontier ?? []).filter(entry => entry.change !== 'popped' && (entry.node === next || !seen.has(entry.node)));
+    const lowest = Math.min(...waiting.map(entry => entry.priority));
+    if (waiting.filter(entry => entry.priority === lowest).length > 1) return [];
+
+    // A stack that keeps the node (tricolor's path of gray nodes) is not popped
+    const verb = before.queue ? 'dequeue' :
+                 before.frontier ? 'take off the priority queue' :
+                 before.openSet ? 'expand' :
+                 after.stack?.includes(next) ? 'visit' : 'pop';
+    // The frontier first, then the current node's neighbours, then anything
+    const neighbours = before.edges
+      .filter(edge => edge.from === before.current || edge.to === before.current)
+      .map(edge => (edge.from === before.current ? edge.to : edge.from));
+
+    return [{
+      kind: 'node',
+      frame: index - 1,
+      reveal: index,
+      prompt: `Which node does ${name} ${verb} next?`,
+      correct: next,
+      distractors: [
+        ...frontier,
+        ...neighbours,
+        ...before.nodes.map(node => node.id)
+      ]
+    }];
+  });
+}
+
+/**
+ * "What is dist[G] after this relaxation?"
+ */
+function distanceQuestions(trace: Trace): Candidate[] {
+  const distanceOf = (frame: GraphFrame, id: string) => {
+    const node = frame.nodes.find(n => n.id === id);
+    return frame.distances?.[id] ?? node?.distance ?? node?.g;
+  };
+
+  return steps<GraphFrame>(trace, 'graph').flatMap(([before, after, index]) => {
+    const node = after.nodes.find(n => {
+      const previous = distanceOf(before, n.id);
+      const updated = distanceOf(after, n.id);
+      return previous !== undefined && updated !== undefined && updated !== previous && Number.isFinite(updated);
+    });
+    if (!node) return [];
+
+    const v = node.id;
+    const label = after.distances || node.distance !== undefined ? 'dist' : 'g';
+    const previous = distanceOf(before, v)!;
+    const updated = distanceOf(after, v)!;
+    const edge = after.edges.find(e => e.status === 'current' && (e.from === v || e.to === v));
+    const u = edge ? (edge.from === v ? edge.to : edge.from) : null;
+    const weight = edge?.weight ?? 1;
+    const fromDistance = u !== null ? distanceOf(before, u) : undefined;
+
+    return [{
+      kind: 'distance',
+      frame: index - 1,
+      reveal: index,
+      prompt: u !== null
+        ? `The edge ${u} → ${v} (weight ${weight}) is relaxed next. What is ${label}[${v}] afterwards?`
+        : `What is ${label}[${v}] after the next update?`,
+      correct: formatDistance(updated),
+      distractors: [
+        previous,
+        ...(fromDistance !== undefined ? [fromDistance] : []),
+        weight,
+        updated + weight,
+        updated - 1,
+        updated + 1
+      ].map(formatDistance)
+    }];
+  });
+}
+
+/**
+ * "Which slot will the key be stored in?" and "What does search return?"
+ */
+function hashQuestions(trace: Trace): Candidate[] {
+  const valueAt = (frame: HashFrame, index: number, position: number) => {
+    if (frame.slots) return frame.slots[index]?.value;
+    let node: HashNode | null | undefined = frame.buckets[index];
+    for (let i = 0; i < position && node; i++) node = node.next;
+    return node?.value;
+  };
+
+  const candidates: Candidate[] = [];
+  let start = -1;
+  trace.forEach((frame, index) => {
+    if (frame.kind !== 'hash') return;
+    if (frame.line === 'insert' || frame.line === 'search' || frame.line === 'delete') start = index;
+    if (start < 0) return;
+
+    const paused = trace[start] as HashFrame;
+    const capacity = frame.slots ? frame.slots.length : frame.buckets.length;
+    const unit = frame.slots ? 'slot' : 'bucket';
+    const key = frame.searchKey;
+
+    // A resize during the insert changes the capacity after the question was asked
+    if (frame.line === 'store' && paused.operation === 'insert' && !trace.slice(start, index).some(f => f.kind === 'hash' && f.line === 'resize')) {
+      const target = frame.currentBucket;
+      candidates.push({
+        kind: 'hash',
+        frame: start,
+        reveal: index,
+        prompt: `Which ${unit} will "${key}" be stored in?`,
+        correct: `${unit[0].toUpperCase()}${unit.slice(1)} ${target}`,
+        distractors: [frame.hashValue, target + 1, target - 1, frame.hashValue + 1, target + 2, 0]
+          .filter(i => i >= 0 && i < capacity)
+          .map(i => `${unit[0].toUpperCase()}${unit.slice(1)} ${i}`)
+      });
+    }
+
+    if (frame.line === 'result' && paused.operation === 'search') {
+      const stored = (frame.slots ?? []).flatMap(slot => (slot && !slot.deleted ? [slot.value] : []));
+      for (const head of frame.buckets) {
+        for (let node: HashNode | null | undefined = head; node; node = node.next) stored.push(node.value);
+      }
+      const value = frame.found ? valueAt(frame, frame.currentBucket, frame.currentNode) : undefined;
+      candidates.push({
+        kind: 'hash',
+        frame: start,
+        reveal: index,
+        prompt: `What does search("${key}") return?`,
+        correct: value !== undefined ? String(value) : 'not found',
+        distractors: [...(value !== undefined ? ['not found'] : []), ...stored.map(String)]
+      });
+    }
+  });
+  return candidates;
+}
+
+// Distinct wrong answers, most plausible first
+const wrongChoices = (candidate: Candidate) =>
+  Array.from(new Set(candidate.distractors)).filter(choice => choice !== candidate.correct).slice(0, MAX_CHOICES - 1);
+
+/**
+ * Shuffle in place with the given random source
+ */
+function shuffle<T>(items: T[], random: () => number): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
+
+/**
+ * Generate Quiz
+ *
+ * Picks questions of as many kinds as the trace allows, at most one per
+ * paused frame, and returns them in the order the frames play.
+ *
+ * @param trace - The trace to ask about
+ * @param algorithmName - Name used in the questions, e.g. "Breadth-First Search"
+ * @param count - Number of questions wanted (fewer if the trace has too few steps)
+ * @param random - Random source (defaults to Math.random)
+ * @returns The questions, or an empty list if nothing can be asked about the trace
+ */
+export function generateQuiz(
+  trace: Trace,
+  algorithmName: string,
+  count: number = QUIZ_LENGTH,
+  random: () => number = Math.random
+): QuizQuestion[] {
+  const byKind = [
+    arrayQuestions(trace),
+    probeQuestions(trace),
+    nodeQuestions(trace, algorithmName),
+    distanceQuestions(trace),
+    hashQuestions(trace)
+  ].map(candidates => shuffle(candidates, random)).filter(candidates => candidates.length > 0);
+
+  // Take one question of each kind in turn, skipping frames already asked
+  // about and questions without a wrong answer to offer
+  const picked: Candidate[] = [];
+  const frames = new Set<number>();
+  while (picked.length < count && byKind.some(candidates => candidates.length > 0)) {
+    for (const candidates of byKind) {
+      const candidate = candidates.pop();
+      if (!candidate || frames.has(candidate.frame) || picked.length >= count) continue;
+      if (wrongChoices(candidate).length === 0) continue;
+      frames.add(candidate.frame);
+      picked.push(candidate);
+    }
+  }
+
+  return picked
+    .sort((a, b) => a.frame - b.frame)
+    .map(candidate => {
+      const choices = shuffle([candidate.correct, ...wrongChoices(candidate)], random);
+      return {
+        kind: candidate.kind,
+        frame: candidate.frame,
+        reveal: candidate.reveal,
+        prompt: candidate.prompt,
+        choices,
+        answer: choices.indexOf(candidate.correct),
+        explanation: trace[candidate.reveal].narration ?? ''
+      };
+    });
+}
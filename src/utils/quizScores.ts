@@ -0,0 +1,76 @@
+/**
+ * Quiz Scores
+ *
+ * Per-algorithm quiz results. Signed-out users keep them in localStorage so
+ * they survive page reloads; signed-in users keep them in their progress
+ * (see progress.ts). Every finished quiz adds to the algorithm's totals and
+ * may set a new best score.
+ */
+
+/**
+ * Quiz Score Interface
+ */
+export interface QuizScore {
+  quizzes: number;           // Quizzes finished
+  answered: number;          // Questions answered over all quizzes
+  correct: number;           // Questions answered correctly over all quizzes
+  bestCorrect: number;       // Correct answers in the best quiz
+  bestTotal: number;         // Questions in the best quiz
+}
+
+export type QuizScores = Record<string, QuizScore>;
+
+const STORAGE_KEY = 'quizScores';
+
+/**
+ * Add Quiz Result
+ *
+ * @param previous - The algorithm's score so far (undefined before its first quiz)
+ * @param correct - Questions answered correctly
+ * @param total - Questions asked
+ * @returns The updated score
+ */
+export function addQuizResult(previous: QuizScore | undefined, correct: number, total: number): QuizScore {
+  const isBest = !previous || correct / total > previous.bestCorrect / previous.bestTotal;
+
+  return {
+    quizzes: (previous?.quizzes ?? 0) + 1,
+    answered: (previous?.answered ?? 0) + total,
+    correct: (previous?.correct ?? 0) + correct,
+    bestCorrect: isBest ? correct : previous.bestCorrect,
+    bestTotal: isBest ? total : previous.bestTotal
+  };
+}
+
+/**
+ * Load Quiz Scores
+ *
+ * @returns Scores by algorithm id (empty on the server or if nothing is stored)
+ */
+export function loadQuizScores(): QuizScores {
+  if (typeof window === 'undefined') return {};
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    return typeof stored === 'object' && stored !== null && !Array.isArray(stored) ? stored : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Record Quiz Result
+ *
+ * @param algorithmId - Algorithm the quiz was about
+ * @param correct - Questions answered correctly
+ * @param total - Questions asked
+ * @returns The algorithm's updated score
+ */
+export function recordQuizResult(algorithmId: string, correct: number, total: number): QuizScore {
+  const scores = loadQuizScores();
+  const score = addQuizResult(scores[algorithmId], correct, total);
+
+  if (typeof window !== 'undefined') {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...scores, [algorithmId]: score }));
+  }
+  return score;
+}
@@ -0,0 +1,119 @@
+/**
+ * Race Mode
+ *
+ * Helpers for the comparison page, which runs several algorithms on the
+ * same input and plays their traces in lockstep. Each algorithm becomes a
+ * lane with its states and running operation counters.
+ */
+
+import { AlgorithmService } from './algorithmService';
+import { algorithmRegistry } from '../algorithms/registry';
+import { EditableGraph } from './graphEditing';
+import { GridConfig } from './gridEditing';
+import { getDefaultHashTable } from './hashEditing';
+import { Trace, TraceFrame } from '../algorithms/trace';
+
+/**
+ * Race Kind Type
+ *
+ * Sorting races share an array; pathfinding races share a graph or grid.
+ */
+export type RaceKind = 'sorting' | 'pathfinding';
+
+// Pathfinding races are open to every algorithm that can also run on the grid
+export const raceAlgorithms: Record<RaceKind, string[]> = {
+  sorting: algorithmRegistry.filter(plugin => plugin.category === 'Sorting').map(plugin => plugin.id),
+  pathfinding: algorithmRegistry.filter(plugin => plugin.supportsGrid).map(plugin => plugin.id),
+};
+
+/**
+ * Lane Counters Interface
+ *
+ * Running totals up to and including a frame.
+ */
+export interface LaneCounters {
+  steps: number;              // Frames shown so far
+  comparisons: number;        // Element comparisons
+  swaps: number;              // Two elements exchanged
+  writes: number;             // Single array writes (a swap counts as two)
+  expanded: number;           // Nodes / cells expanded
+  pathLength: number | null;  // Nodes on the final path, once found
+  noPath: boolean;            // The search ended without reaching the goal
+}
+
+/**
+ * Race Lane Interface
+ */
+export interface RaceLane {
+  algorithmId: string;
+  states: Trace;
+  counters: LaneCounters[];   // counters[i] are the totals after frame i
+}
+
+/**
+ * Race Input Interface
+ */
+export interface RaceInput {
+  values: number[];
+  graph: EditableGraph;
+  grid: GridConfig;
+  gridMode: boolean;
+}
+
+/**
+ * Nodes on the path highlighted by a frame, or null if none is shown
+ */
+function pathLengthIn(state: TraceFrame): number | null {
+  if (state.kind === 'grid') return state.pathLength;
+  if (state.kind !== 'graph') return null;
+  const onPath = state.nodes.filter(node => node.status === 'path').length;
+  return onPath > 0 ? onPath : null;
+}
+
+/**
+ * Count Lane Operations
+ *
+ * Reads the running counters recorded in each frame of a trace.
+ *
+ * @param states - The visualization states of one algorithm
+ * @returns Counters after each frame
+ */
+export function countLaneOperations(states: Trace): LaneCounters[] {
+  let pathLength: number | null = null;
+
+  return states.map((state, index) => {
+    const { stats } = state;
+    if (state.kind !== 'array') pathLength = pathLengthIn(state) ?? pathLength;
+
+    return {
+      steps: index + 1,
+      comparisons: stats.comparisons,
+      swaps: stats.swaps,
+      writes: stats.writes,
+      expanded: stats.nodesVisited,
+      pathLength,
+      noPath: state.line === 'no-path'
+    };
+  });
+}
+
+/**
+ * Build Race Lanes
+ *
+ * Runs every selected algorithm on the same input.
+ *
+ * @param kind - Whether the race is over an array or a graph/grid
+ * @param algorithmIds - Algorithms to compare
+ * @param input - The shared input
+ * @returns One lane per algorithm
+ */
+export function buildRaceLanes(kind: RaceKind, algorithmIds: string[], input: RaceInput): RaceLane[] {
+  return algorithmIds.map(algorithmId => {
+    const states = AlgorithmService.generateStates(
+      algorithmId,
+      { values: input.values, target: null, graph: input.graph, hashTable: getDefaultHashTable() },
+      kind === 'pathfinding' && input.gridMode ? input.grid : undefined
+    );
+    return { algorithmId, states, counters: countLaneOperations(states) };
+  });
+}
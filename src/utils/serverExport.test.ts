@@ -0,0 +1,88 @@
+import { EventEmitter } from 'events';
+import { promises as fs } from 'fs';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { parseExportRequest } from './videoExport';
+
+// Stand in for ffmpeg: every run succeeds at once
+vi.mock('child_process', () => ({
+  spawn: () => {
+    const child = Object.assign(new EventEmitter(), { stderr: new EventEmitter(), kill: () => true });
+    setTimeout(() => child.emit('close', 0, null));
+    return child;
+  }
+}));
+
+type ServerExport = typeof import('./serverExport');
+
+const request = parseExportRequest({ algorithmId: 'bubble-sort', input: { values: '2, 1' }, width: 100, height: 100 }).value!;
+
+async function finished(server: ServerExport, id: string, userId: string) {
+  await vi.waitFor(() => expect(server.getExportJob(id, userId)?.finishedAt).not.toBeNull(), { timeout: 10_000 });
+  return server.getExportJob(id, userId)!;
+}
+
+describe('serverExport', () => {
+  let server: ServerExport;
+
+  beforeEach(async () => {
+    // Each test starts with an empty queue and no jobs
+    vi.resetModules();
+    server = await import('./serverExport');
+    vi.spyOn(fs, 'readFile').mockResolvedValue(Buffer.from('file'));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('only lets the user who started a job poll it', async () => {
+    const job = server.startExportJob(request, 'alice');
+
+    expect(server.getExportJob(job.id, 'bob')).toBeNull();
+    expect(server.getExportJob(job.id, 'alice')).toBe(job);
+    expect(await finished(server, job.id, 'alice')).toMatchObject({ status: 'done', result: Buffer.from('file') });
+  });
+
+  it('allows two pending renders per user', async () => {
+    const jobs = [server.startExportJob(request, 'alice'), server.startExportJob(request, 'alice')];
+
+    expect(server.getExportCapacityError('alice')).toBe('You already have 2 exports in progress; wait for one to finish');
+    expect(server.getExportCapacityError('bob')).toBeNull();
+
+    await Promise.all(jobs.map(job => finished(server, job.id, 'alice')));
+    expect(server.getExportCapacityError('alice')).toBeNull();
+  });
+
+  it('counts renders from exportNow', async () => {
+    const rendering = [server.exportNow(request, 'alice'), server.exportNow(request, 'alice')];
+
+    expect(server.getExportCapacityError('alice')).not.toBeNull();
+    await Promise.all(rendering);
+    expect(server.getExportCapacityError('alice')).toBeNull();
+  });
+
+  it('allows eight pending renders in total', async () => {
+    const jobs = Array.from({ length: 8 }, (_, index) => server.startExportJob(request, `user${index}`));
+
+    expect(server.getExportCapacityError('alice')).toBe('The server is busy with other exports; try again in a few minutes');
+
+    await Promise.all(jobs.map((job, index) => finished(server, job.id, `user${index}`)));
+    expect(server.getExportCapacityError('alice')).toBeNull();
+  });
+
+  it('stops taking exports while finished files fill the memory budget', async () => {
+    // A file as large as the budget, without allocating it
+    vi.mocked(fs.readFile).mockResolvedValue({ length: 256 * 1024 * 1024 } as Buffer);
+    const job = server.startExportJob(request, 'alice');
+    await finished(server, job.id, 'alice');
+
+    expect(server.getExportCapacityError('bob')).toBe('The server is busy with other exports; try again in a few minutes');
+  });
+
+  it('reports a failed render on the job', async () => {
+    vi.mocked(fs.readFile).mockRejectedValue(new Error('disk full'));
+    const job = server.startExportJob(request, 'alice');
+
+    expect(await finished(server, job.id, 'alice')).toMatchObject({ status: 'failed', error: 'disk full', result: null });
+  });
+});
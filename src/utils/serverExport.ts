@@ -0,0 +1,252 @@
+/**
+ * Server Export
+ *
+ * Renders export requests (see videoExport.ts) to GIF, MP4 or WebM on the
+ * server. Each frame is drawn with the GifExporter's renderers onto an SVG
+ * context, rasterised to PNG with sharp and encoded with a locally
+ * installed ffmpeg (FFMPEG_PATH, default "ffmpeg" on the PATH).
+ *
+ * Renders run one at a time, in the order they were requested. Requests
+ * that asked for a job are kept in memory with their progress and result
+ * until JOB_TTL after they finish, so they are lost on restart. Check
+ * getExportCapacityError before starting one: each user may have a few
+ * renders waiting and the server a few more, and finished files count
+ * against a memory budget until they expire.
+ */
+
+import { spawn } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { drawFrame } from './frameDrawing';
+import { createSvgContext } from './svgContext';
+import { ExportOptions, ExportRequest, VideoFormat } from './videoExport';
+
+const ffmpegPath = process.env.FFMPEG_PATH || 'ffmpeg';
+
+// Longest an ffmpeg run may take before it is stopped
+const ENCODE_TIMEOUT = 120_000;
+
+// How long a finished job and its file are kept
+const JOB_TTL = 10 * 60_000;
+
+// Renders queued or running at once, per user and in total
+const MAX_RENDERS_PER_USER = 2;
+const MAX_RENDERS = 8;
+
+// Bytes of finished files kept in memory for download
+const MAX_STORED_BYTES = 256 * 1024 * 1024;
+
+/**
+ * Export Job Interface
+ */
+export interface ExportJob {
+  id: string;
+  userId: string;               // Only this user can poll the job
+  status: 'queued' | 'running' | 'done' | 'failed';
+  progress: number;             // 0 to 1
+  format: VideoFormat;
+  title: string;
+  result: Buffer | null;        // The encoded file once done
+  error: string | null;         // Why the job failed
+  finishedAt: number | null;
+}
+
+/**
+ * Run ffmpeg, rejecting with the end of its log if it fails
+ */
+function runFFmpeg(args: string[], timeout: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(ffmpegPath, args, { stdio: ['ignore', 'ignore', 'pipe'] });
+    let log = '';
+    child.stderr.on('data', (chunk: Buffer) => {
+      log = (log + chunk.toString()).slice(-2000);
+    });
+
+    const timer = setTimeout(() => child.kill('SIGKILL'), timeout);
+    child.on('error', (error: NodeJS.ErrnoException) => {
+      clearTimeout(timer);
+      reject(new Error(error.code === 'ENOENT'
+        ? `ffmpeg was not found at "${ffmpegPath}"; install it or set FFMPEG_PATH`
+        : `ffmpeg could not be started: ${error.message}`));
+    });
+    child.on('close', (code, signal) => {
+      clearTimeout(timer);
+      if (code === 0) resolve();
+      else if (signal) reject(new Error(`ffmpeg was stopped after ${timeout / 1000} seconds`));
+      else reject(new Error(`ffmpeg failed: ${log.trim().split('\n').pop() ?? `exit code ${code}`}`));
+    });
+  });
+}
+
+let availability: Promise<boolean> | null = null;
+
+/**
+ * FFmpeg Available
+ *
+ * Checked once per server process.
+ *
+ * @returns Whether ffmpeg can be run
+ */
+export function isFFmpegAvailable(): Promise<boolean> {
+  availability ??= runFFmpeg(['-version'], 10_000).then(() => true, () => false);
+  return availability;
+}
+
+/**
+ * Encoder arguments for each format, after the input frames
+ */
+function encoderArgs(options: ExportOptions): string[] {
+  switch (options.format) {
+    case 'gif':
+      // A palette made from the frames keeps the colours exact
+      return ['-vf', 'split[a][b];[a]palettegen[p];[b][p]paletteuse', '-loop', options.loop ? '0' : '-1'];
+    case 'mp4':
+      // H.264 in yuv420p needs even dimensions
+      return ['-vf', 'pad=ceil(iw/2)*2:ceil(ih/2)*2', '-c:v', 'libx264', '-pix_fmt', 'yuv420p', '-movflags', '+faststart'];
+    case 'webm':
+      return ['-c:v', 'libvpx-vp9', '-crf', '32', '-b:v', '0', '-pix_fmt', 'yuv420p'];
+  }
+}
+
+/**
+ * Render an export to a file in memory
+ */
+async function render(request: ExportRequest, onProgress: (progress: number) => void): Promise<Buffer> {
+  const { trace, title, options } = request;
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'algtrax-export-'));
+
+  try {
+    // Drawing the frames counts for 80% of the progress, encoding the rest
+    for (const [index, frame] of trace.entries()) {
+      const ctx = createSvgContext(options.width, options.height);
+      drawFrame(ctx, frame, options.width, options.height, title);
+      const png = await sharp(Buffer.from(ctx.toSvg())).png().toBuffer();
+      await fs.writeFile(path.join(directory, `frame${String(index).padStart(4, '0')}.png`), png);
+      onProgress(((index + 1) / trace.length) * 0.8);
+    }
+
+    const output = path.join(directory, `export.${options.format}`);
+    await runFFmpeg([
+      '-y', '-loglevel', 'error',
+      '-framerate', String(options.fps),
+      '-i', path.join(directory, 'frame%04d.png'),
+      ...encoderArgs(options),
+      output
+    ], ENCODE_TIMEOUT);
+    onProgress(1);
+
+    return await fs.readFile(output);
+  } finally {
+    await fs.rm(directory, { recursive: true, force: true });
+  }
+}
+
+// The render in progress; the next one waits for it
+let queue: Promise<unknown> = Promise.resolve();
+
+// Renders queued or running, by user
+const pending = new Map<string, number>();
+
+function enqueue<T>(userId: string, task: () => Promise<T>): Promise<T> {
+  pending.set(userId, (pending.get(userId) ?? 0) + 1);
+  const next = queue.catch(() => undefined).then(task).finally(() => {
+    const count = pending.get(userId)! - 1;
+    if (count > 0) pending.set(userId, count);
+    else pending.delete(userId);
+  });
+  queue = next;
+  return next;
+}
+
+const jobs = new Map<string, ExportJob>();
+
+function removeExpiredJobs() {
+  const now = Date.now();
+  for (const [id, job] of jobs) {
+    if (job.finishedAt !== null && now - job.finishedAt > JOB_TTL) jobs.delete(id);
+  }
+}
+
+/**
+ * Export Capacity Error
+ *
+ * @param userId - The user asking for an export
+ * @returns Why the export cannot start now, or null if it can
+ */
+export function getExportCapacityError(userId: string): string | null {
+  removeExpiredJobs();
+
+  if ((pending.get(userId) ?? 0) >= MAX_RENDERS_PER_USER) {
+    return `You already have ${MAX_RENDERS_PER_USER} exports in progress; wait for one to finish`;
+  }
+  const renders = [...pending.values()].reduce((total, count) => total + count, 0);
+  const storedBytes = [...jobs.values()].reduce((total, job) => total + (job.result?.length ?? 0), 0);
+  if (renders >= MAX_RENDERS || storedBytes >= MAX_STORED_BYTES) {
+    return 'The server is busy with other exports; try again in a few minutes';
+  }
+  return null;
+}
+
+/**
+ * Export Now
+ *
+ * @param request - A parsed export request
+ * @param userId - The user asking for the export
+ * @returns The encoded file
+ */
+export function exportNow(request: ExportRequest, userId: string): Promise<Buffer> {
+  return enqueue(userId, () => render(request, () => undefined));
+}
+
+/**
+ * Start Export Job
+ *
+ * @param request - A parsed export request
+ * @param userId - The user asking for the export
+ * @returns The queued job; poll it with getExportJob
+ */
+export function startExportJob(request: ExportRequest, userId: string): ExportJob {
+  removeExpiredJobs();
+
+  const job: ExportJob = {
+    id: crypto.randomUUID(),
+    userId,
+    status: 'queued',
+    progress: 0,
+    format: request.options.format,
+    title: request.title,
+    result: null,
+    error: null,
+    finishedAt: null
+  };
+  jobs.set(job.id, job);
+
+  enqueue(userId, async () => {
+    job.status = 'running';
+    try {
+      job.result = await render(request, progress => { job.progress = progress; });
+      job.status = 'done';
+    } catch (error) {
+      job.error = (error as Error).message;
+      job.status = 'failed';
+    }
+    job.finishedAt = Date.now();
+  });
+
+  return job;
+}
+
+/**
+ * Get Export Job
+ *
+ * @param id - Job id returned by startExportJob
+ * @param userId - The user polling the job
+ * @returns The job, or null if it is unknown, has expired or belongs to another user
+ */
+export function getExportJob(id: string, userId: string): ExportJob | null {
+  removeExpiredJobs();
+  const job = jobs.get(id);
+  return job?.userId === userId ? job : null;
+}
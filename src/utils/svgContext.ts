@@ -0,0 +1,107 @@
+/**
+ * SVG Drawing Context
+ *
+ * A stand-in for a canvas 2D context that records the drawing as SVG, so
+ * the frame renderers in frameDrawing.ts can run on the server, where there
+ * is no canvas. Only the calls the renderers make are supported; arcs are
+ * drawn as SVG elliptical arcs.
+ */
+
+import { DrawingContext } from './frameDrawing';
+
+/**
+ * SVG Context Interface
+ */
+export interface SvgContext extends DrawingContext {
+  toSvg: () => string;    // The drawing so far as a complete SVG document
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const textAnchors: Record<CanvasTextAlign, string> = {
+  left: 'start',
+  start: 'start',
+  center: 'middle',
+  right: 'end',
+  end: 'end',
+};
+
+/**
+ * Create SVG Context
+ *
+ * @param width - Width of the picture in pixels
+ * @param height - Height of the picture in pixels
+ */
+export function createSvgContext(width: number, height: number): SvgContext {
+  const elements: string[] = [];
+  let path = '';
+  let hasPoint = false;
+
+  const context: SvgContext = {
+    fillStyle: '#000000',
+    strokeStyle: '#000000',
+    lineWidth: 1,
+    font: '10px sans-serif',
+    textAlign: 'start',
+
+    fillRect: (x, y, w, h) => {
+      elements.push(`<rect x="${round(x)}" y="${round(y)}" width="${round(w)}" height="${round(h)}" fill="${context.fillStyle}"/>`);
+    },
+    strokeRect: (x, y, w, h) => {
+      elements.push(`<rect x="${round(x)}" y="${round(y)}" width="${round(w)}" height="${round(h)}" fill="none" stroke="${context.strokeStyle}" stroke-width="${context.lineWidth}"/>`);
+    },
+    fillText: (text, x, y) => {
+      // Canvas fonts look like "12px Arial"
+      const [, size = '10', family = 'sans-serif'] = /(\d+(?:\.\d+)?)px\s+(.+)/.exec(context.font) ?? [];
+      elements.push(
+        `<text x="${round(x)}" y="${round(y)}" font-size="${size}" font-family="${escapeXml(family)}, sans-serif" ` +
+        `text-anchor="${textAnchors[context.textAlign]}" fill="${context.fillStyle}">${escapeXml(text)}</text>`
+      );
+    },
+
+    beginPath: () => {
+      path = '';
+      hasPoint = false;
+    },
+    moveTo: (x, y) => {
+      path += `M${round(x)} ${round(y)}`;
+      hasPoint = true;
+    },
+    lineTo: (x, y) => {
+      path += `${hasPoint ? 'L' : 'M'}${round(x)} ${round(y)}`;
+      hasPoint = true;
+    },
+    arc: (x, y, radius, startAngle, endAngle, counterclockwise = false) => {
+      const point = (angle: number) => `${round(x + radius * Math.cos(angle))} ${round(y + radius * Math.sin(angle))}`;
+      const sweep = counterclockwise ? 0 : 1;
+      const span = counterclockwise ? startAngle - endAngle : endAngle - startAngle;
+
+      // Like a canvas, connect the arc to the current point
+      path += `${hasPoint ? 'L' : 'M'}${point(startAngle)}`;
+      hasPoint = true;
+
+      // SVG cannot draw a full circle as one arc, so draw two halves
+      if (span >= 2 * Math.PI) {
+        const half = startAngle + (counterclockwise ? -Math.PI : Math.PI);
+        path += `A${radius} ${radius} 0 0 ${sweep} ${point(half)}A${radius} ${radius} 0 0 ${sweep} ${point(startAngle)}`;
+        return;
+      }
+      const normalised = ((span % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI);
+      path += `A${radius} ${radius} 0 ${normalised > Math.PI ? 1 : 0} ${sweep} ${point(endAngle)}`;
+    },
+    fill: () => {
+      if (path) elements.push(`<path d="${path}" fill="${context.fillStyle}"/>`);
+    },
+    stroke: () => {
+      if (path) elements.push(`<path d="${path}" fill="none" stroke="${context.strokeStyle}" stroke-width="${context.lineWidth}"/>`);
+    },
+
+    toSvg: () =>
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">${elements.join('')}</svg>`,
+  };
+
+  return context;
+}
@@ -0,0 +1,900 @@
+/**
+ * Test Suites
+ *
+ * Per-algorithm test cases used to grade submissions from the code editor.
+ * Expected results always come from the reference implementations in
+ * src/algorithms/, so grading and visualisation can never disagree.
+ *
+ * Each suite describes:
+ * - The function (or harness) to call in the user's code
+ * - A fixed set of cases covering edge cases and random inputs
+ * - How to compute the expected value and how to compare it to the actual one
+ *
+ * Algorithm plugins (see algorithms/plugin.ts) pick their suite from the
+ * factories exported here.
+ */
+
+import { linearSearch } from '../algorithms/linear-search';
+import { binarySearch } from '../algorithms/binary-search';
+import { hashTableOperations } from '../algorithms/hash-table';
+import { GraphFrame, HashNode, TraceEdge, TraceNode } from '../algorithms/trace';
+import { breadthFirstSearch } from '../algorithms/bfs';
+import { depthFirstSearch } from '../algorithms/dfs';
+import { dijkstra } from '../algorithms/dijkstra';
+import { aStar } from '../algorithms/a-star';
+import { bellmanFord } from '../algorithms/bellman-ford';
+import { kruskal } from '../algorithms/kruskal';
+import { prim } from '../algorithms/prim';
+import { bridgesAndArticulationPoints } from '../algorithms/bridges';
+import { tricolorAlgorithm } from '../algorithms/tricolor-algorithm';
+
+/**
+ * Test Graph Interface
+ *
+ * Compact graph description shared by the graph test cases. Edges are
+ * stored as [from, to, weight] tuples and are undirected unless the graph
+ * is marked as directed.
+ */
+export interface TestGraph {
+  nodes: { id: string; x: number; y: number }[];
+  edges: [string, string, number][];
+  directed?: boolean;   // Edges only lead from the first node to the second
+}
+
+/**
+ * Test Case Interface
+ */
+export interface TestCase {
+  name: string;        // Short description shown in the feedback panel
+  args: unknown[];     // Arguments passed to the entry point
+  graph?: TestGraph;   // Graph the arguments were derived from (graph suites)
+}
+
+/**
+ * Test Suite Interface
+ */
+export interface TestSuite {
+  entryPoint: string;                                  // Function called in the user's code
+  harness?: string;                                    // Code appended to the user's code for class-based APIs
+  tracedArg?: number;                                  // Array argument whose accesses count against the step budget
+  inPlace?: boolean;                                   // A function that returns nothing is graded on the traced array
+  cases: TestCase[];
+  expected: (testCase: TestCase) => unknown;           // Result of the reference implementation
+  check: (actual: unknown, expected: unknown, testCase: TestCase) => boolean;
+}
+
+/**
+ * Seeded Random Number Generator
+ *
+ * Mulberry32 - keeps the "random" cases identical between submissions
+ * so a score only changes when the code changes.
+ */
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function randomArray(seed: number, length: number, max: number): number[] {
+  const random = seededRandom(seed);
+  return Array.from({ length }, () => Math.floor(random() * max) + 1);
+}
+
+const ascending = (a: number, b: number) => a - b;
+
+/**
+ * Sorting Cases
+ *
+ * Empty and single-element input, already sorted, reverse sorted,
+ * duplicates, negatives and several random arrays.
+ */
+function sortingCases(): TestCase[] {
+  return [
+    { name: 'Empty array', args: [[]] },
+    { name: 'Single element', args: [[42]] },
+    { name: 'Two elements out of order', args: [[2, 1]] },
+    { name: 'Already sorted', args: [[1, 2, 3, 4, 5, 6, 7, 8]] },
+    { name: 'Reverse sorted', args: [[9, 8, 7, 6, 5, 4, 3, 2, 1]] },
+    { name: 'Duplicates', args: [[5, 3, 5, 1, 3, 3, 8, 1]] },
+    { name: 'All equal', args: [[7, 7, 7, 7, 7]] },
+    { name: 'Negative numbers', args: [[3, -1, 0, -7, 12, -3]] },
+    { name: 'Random (10 elements)', args: [randomArray(1, 10, 100)] },
+    { name: 'Random (25 elements)', args: [randomArray(2, 25, 50)] },
+    { name: 'Random (50 elements)', args: [randomArray(3, 50, 1000)] },
+  ];
+}
+
+/**
+ * Sorting Suite Factory
+ *
+ * Like the visualiser, accepts a returned array or an in-place sort.
+ *
+ * @param entryPoint - Function name the user defines
+ * @param generator - Reference generator whose final frame holds the sorted array
+ */
+export function sortingSuite(entryPoint: string, generator: (arr: number[]) => { values: number[] }[]): TestSuite {
+  return {
+    entryPoint,
+    tracedArg: 0,
+    inPlace: true,
+    cases: sortingCases(),
+    expected: (testCase) => {
+      const states = generator(testCase.args[0] as number[]);
+      return states[states.length - 1].values;
+    },
+    check: (actual, expected) => {
+      const want = expected as number[];
+      return Array.isArray(actual) &&
+        actual.length === want.length &&
+        actual.every((value, index) => value === want[index]);
+    }
+  };
+}
+
+/**
+ * Search Cases
+ *
+ * @param sorted - Whether the arrays must be sorted (binary search)
+ */
+function searchCases(sorted: boolean): TestCase[] {
+  const prepare = (values: number[]) => sorted ? [...values].sort(ascending) : values;
+  const random = prepare(randomArray(4, 20, 100));
+
+  return [
+    { name: 'Empty array', args: [[], 5] },
+    { name: 'Single element (present)', args: [[5], 5] },
+    { name: 'Single element (absent)', args: [[5], 3] },
+    { name: 'Target is first', args: [prepare([4, 8, 15, 16, 23, 42]), prepare([4, 8, 15, 16, 23, 42])[0]] },
+    { name: 'Target is last', args: [prepare([4, 8, 15, 16, 23, 42]), prepare([4, 8, 15, 16, 23, 42])[5]] },
+    { name: 'Target in the middle', args: [prepare([4, 8, 15, 16, 23, 42]), 15] },
+    { name: 'Target absent', args: [prepare([4, 8, 15, 16, 23, 42]), 17] },
+    { name: 'Target smaller than all', args: [prepare([10, 20, 30, 40]), 1] },
+    { name: 'Target larger than all', args: [prepare([10, 20, 30, 40]), 99] },
+    { name: 'Duplicates', args: [prepare([3, 7, 7, 7, 9, 1, 7]), 7] },
+    { name: 'Random (20 elements)', args: [random, random[13]] },
+  ];
+}
+
+/**
+ * Check a returned search index
+ *
+ * Any index holding the target is accepted for binary search, where the
+ * position among duplicates is unspecified; linear search must return
+ * the first occurrence.
+ */
+function checkSearchIndex(actual: unknown, expected: unknown, testCase: TestCase, firstOnly: boolean): boolean {
+  if (typeof actual !== 'number') return false;
+  const [values, target] = testCase.args as [number[], number];
+  if (expected === -1) return actual === -1;
+  return firstOnly ? actual === expected : values[actual] === target;
+}
+
+/**
+ * Graph Helpers
+ */
+function toNodes(graph: TestGraph) {
+  return graph.nodes.map(node => ({ ...node, status: 'unvisited' as const }));
+}
+
+function toEdges(graph: TestGraph) {
+  return graph.edges.map(([from, to, weight]) => ({ from, to, weight, status: 'normal' as const }));
+}
+
+// Adjacency list of neighbour ids, in edge order
+function toAdjacencyList(graph: TestGraph): Record<string, string[]> {
+  const list: Record<string, string[]> = {};
+  graph.nodes.forEach(node => { list[node.id] = []; });
+  graph.edges.forEach(([from, to]) => {
+    list[from].push(to);
+    list[to].push(from);
+  });
+  return list;
+}
+
+// Adjacency list with edge weights
+function toWeightedAdjacencyList(graph: TestGraph): Record<string, { node: string; weight: number }[]> {
+  const list: Record<string, { node: string; weight: number }[]> = {};
+  graph.nodes.forEach(node => { list[node.id] = []; });
+  graph.edges.forEach(([from, to, weight]) => {
+    list[from].push({ node: to, weight });
+    list[to].push({ node: from, weight });
+  });
+  return list;
+}
+
+// Every direction an edge can be followed in, as { from, to, weight } objects
+function toEdgeList(graph: TestGraph): { from: string; to: string; weight: number }[] {
+  return graph.edges.flatMap(([from, to, weight]) => graph.directed
+    ? [{ from, to, weight }]
+    : [{ from, to, weight }, { from: to, to: from, weight }]);
+}
+
+function toPositions(graph: TestGraph): Record<string, { x: number; y: number }> {
+  const positions: Record<string, { x: number; y: number }> = {};
+  graph.nodes.forEach(node => { positions[node.id] = { x: node.x, y: node.y }; });
+  return positions;
+}
+
+/**
+ * Path Cost
+ *
+ * Returns the total weight of a path that starts at `start`, ends at `end`
+ * and only follows existing edges, or null if the path is invalid.
+ */
+function pathCost(path: unknown, graph: TestGraph, start: string, end: string): number | null {
+  if (!Array.isArray(path) || path.length === 0) return null;
+  if (path[0] !== start || path[path.length - 1] !== end) return null;
+
+  let cost = 0;
+  for (let i = 0; i < path.length - 1; i++) {
+    const edge = graph.edges.find(([from, to]) =>
+      (from === path[i] && to === path[i + 1]) || (!graph.directed && to === path[i] && from === path[i + 1])
+    );
+    if (!edge) return null;
+    cost += edge[2];
+  }
+  return cost;
+}
+
+const isEmptyResult = (value: unknown) =>
+  value === null || value === undefined || (Array.isArray(value) && value.length === 0);
+
+/**
+ * Valid DFS Order
+ *
+ * Checks that `order` visits exactly the `reachable` nodes and that every
+ * node is a neighbour of the deepest node on the current DFS path that
+ * still had unvisited neighbours. Any neighbour order is accepted.
+ */
+function isValidDfsOrder(order: unknown, reachable: string[], graph: TestGraph, start: string): boolean {
+  if (!Array.isArray(order) || order.length !== reachable.length) return false;
+  if (new Set(order).size !== order.length || order[0] !== start) return false;
+  if (!order.every(id => reachable.includes(id))) return false;
+
+  const adjacency = toAdjacencyList(graph);
+  const visited = new Set<string>([start]);
+  const path: string[] = [start];
+
+  for (let i = 1; i < order.length; i++) {
+    const next = order[i] as string;
+    // Backtrack past nodes that have no unvisited neighbours left
+    while (path.length > 0 && !adjacency[path[path.length - 1]].includes(next)) {
+      const top = path[path.length - 1];
+      if (adjacency[top].some(neighbor => !visited.has(neighbor))) return false;
+      path.pop();
+    }
+    if (path.length === 0) return false;
+    visited.add(next);
+    path.push(next);
+  }
+
+  return true;
+}
+
+/**
+ * Test Graphs
+ *
+ * Node positions use the same units as edge weights, and every weight is at
+ * least the straight-line distance between its endpoints, so the Euclidean
+ * heuristic stays admissible for A*.
+ */
+const defaultGraph: TestGraph = {
+  nodes: [
+    { id: 'A', x: 0, y: 0 }, { id: 'B', x: 4, y: 0 }, { id: 'C', x: 8, y: 0 },
+    { id: 'D', x: 0, y: 3 }, { id: 'E', x: 4, y: 3 }, { id: 'F', x: 8, y: 3 },
+  ],
+  edges: [
+    ['A', 'B', 4], ['A', 'D', 3], ['B', 'C', 5], ['B', 'E', 3],
+    ['C', 'F', 3], ['D', 'E', 6], ['E', 'F', 4],
+  ]
+};
+
+const lineGraph: TestGraph = {
+  nodes: [{ id: 'A', x: 0, y: 0 }, { id: 'B', x: 1, y: 0 }, { id: 'C', x: 2, y: 0 }, { id: 'D', x: 3, y: 0 }],
+  edges: [['A', 'B', 1], ['B', 'C', 1], ['C', 'D', 1]]
+};
+
+const cycleGraph: TestGraph = {
+  nodes: [{ id: 'A', x: 0, y: 0 }, { id: 'B', x: 2, y: 0 }, { id: 'C', x: 2, y: 2 }, { id: 'D', x: 0, y: 2 }],
+  edges: [['A', 'B', 2], ['B', 'C', 2], ['C', 'D', 2], ['D', 'A', 9]]
+};
+
+const disconnectedGraph: TestGraph = {
+  nodes: [
+    { id: 'A', x: 0, y: 0 }, { id: 'B', x: 1, y: 0 }, { id: 'C', x: 2, y: 0 },
+    { id: 'X', x: 0, y: 5 }, { id: 'Y', x: 1, y: 5 },
+  ],
+  edges: [['A', 'B', 1], ['B', 'C', 2], ['X', 'Y', 1]]
+};
+
+const detourGraph: TestGraph = {
+  nodes: [
+    { id: 'S', x: 0, y: 0 }, { id: 'M', x: 3, y: 0 }, { id: 'G', x: 6, y: 0 },
+    { id: 'U', x: 3, y: 2 }, { id: 'V', x: 5, y: 2 },
+  ],
+  edges: [['S', 'M', 10], ['M', 'G', 10], ['S', 'U', 4], ['U', 'V', 2], ['V', 'G', 3]]
+};
+
+const singleNodeGraph: TestGraph = {
+  nodes: [{ id: 'A', x: 0, y: 0 }],
+  edges: []
+};
+
+// Directed graphs with negative weights, for Bellman-Ford only: Dijkstra
+// settles C before finding the cheaper route through B
+const negativeEdgeGraph: TestGraph = {
+  nodes: [{ id: 'A', x: 0, y: 2 }, { id: 'B', x: 3, y: 0 }, { id: 'C', x: 3, y: 4 }, { id: 'D', x: 6, y: 2 }],
+  edges: [['A', 'B', 5], ['A', 'C', 2], ['B', 'C', -4], ['C', 'D', 1]],
+  directed: true
+};
+
+// B → C → D → B has total weight -2
+const negativeCycleGraph: TestGraph = {
+  nodes: [
+    { id: 'A', x: 0, y: 2 }, { id: 'B', x: 2, y: 0 }, { id: 'C', x: 4, y: 2 },
+    { id: 'D', x: 2, y: 4 }, { id: 'E', x: 6, y: 2 },
+  ],
+  edges: [['A', 'B', 2], ['B', 'C', 3], ['C', 'D', -4], ['D', 'B', -1], ['C', 'E', 2]],
+  directed: true
+};
+
+// Two triangles joined by the bridge C–D; as a directed graph each
+// triangle is a cycle, so they are the two strongly connected components
+const barbellGraph: TestGraph = {
+  nodes: [
+    { id: 'A', x: 0, y: 0 }, { id: 'B', x: 0, y: 2 }, { id: 'C', x: 2, y: 1 },
+    { id: 'D', x: 4, y: 1 }, { id: 'E', x: 6, y: 0 }, { id: 'F', x: 6, y: 2 },
+  ],
+  edges: [['A', 'B', 2], ['B', 'C', 3], ['C', 'A', 3], ['C', 'D', 2], ['D', 'E', 3], ['E', 'F', 2], ['F', 'D', 3]]
+};
+
+// Two triangles sharing C: C is an articulation point, but no edge is a bridge
+const bowtieGraph: TestGraph = {
+  nodes: [
+    { id: 'A', x: 0, y: 0 }, { id: 'B', x: 0, y: 2 }, { id: 'C', x: 2, y: 1 },
+    { id: 'D', x: 4, y: 0 }, { id: 'E', x: 4, y: 2 },
+  ],
+  edges: [['A', 'B', 2], ['B', 'C', 3], ['C', 'A', 3], ['C', 'D', 3], ['D', 'E', 2], ['E', 'C', 3]]
+};
+
+/**
+ * Path Cases
+ *
+ * @param toArgs - Converts a graph and endpoints into the entry point's arguments
+ */
+function pathCases(toArgs: (graph: TestGraph, start: string, end: string) => unknown[]): TestCase[] {
+  const make = (name: string, graph: TestGraph, start: string, end: string): TestCase =>
+    ({ name, graph, args: toArgs(graph, start, end) });
+
+  return [
+    make('Sample graph (A to F)', defaultGraph, 'A', 'F'),
+    make('Line graph (A to D)', lineGraph, 'A', 'D'),
+    make('Cycle (A to C)', cycleGraph, 'A', 'C'),
+    make('Cheaper path has more edges', detourGraph, 'S', 'G'),
+    make('Start equals goal', defaultGraph, 'C', 'C'),
+    make('Single node', singleNodeGraph, 'A', 'A'),
+    make('Unreachable target', disconnectedGraph, 'A', 'Y'),
+  ];
+}
+
+// Endpoints are the last two arguments for every path suite
+function endpoints(testCase: TestCase): [string, string] {
+  const args = testCase.args;
+  return [args[args.length - 2] as string, args[args.length - 1] as string];
+}
+
+/**
+ * Linear Search Suite
+ */
+export function linearSearchSuite(): TestSuite {
+  return {
+    entryPoint: 'linearSearch',
+    tracedArg: 0,
+    cases: searchCases(false),
+    expected: (testCase) => {
+      const [values, target] = testCase.args as [number[], number];
+      const states = linearSearch(values, target);
+      return states[states.length - 1].found?.[0] ?? -1;
+    },
+    check: (actual, expected, testCase) => checkSearchIndex(actual, expected, testCase, true)
+  };
+}
+
+/**
+ * Binary Search Suite
+ */
+export function binarySearchSuite(): TestSuite {
+  return {
+    entryPoint: 'binarySearch',
+    tracedArg: 0,
+    cases: searchCases(true),
+    expected: (testCase) => {
+      const [values, target] = testCase.args as [number[], number];
+      const states = binarySearch(values, target);
+      return states[states.length - 1].found?.[0] ?? -1;
+    },
+    check: (actual, expected, testCase) => checkSearchIndex(actual, expected, testCase, false)
+  };
+}
+
+/**
+ * Hash Table Search Suite
+ */
+export function hashTableSearchSuite(): TestSuite {
+  const fruits = ['apple', 'banana', 'cherry', 'date', 'elderberry', 'fig', 'grape'];
+  const many = Array.from({ length: 25 }, (_, i) => `key${i}`);
+  const make = (name: string, keys: string[], queries: string[]): TestCase => ({
+    name,
+    args: [keys.map((key, i) => [key, (i + 1) * 10]), queries]
+  });
+
+  return {
+    entryPoint: '__algtraxHarness',
+    harness: `
+function __algtraxHarness(entries, queries) {
+  const table = new HashTable();
+  entries.forEach(([key, value]) => table.put(key, value));
+  return queries.map(key => {
+    const value = table.get(key);
+    return value === undefined ? null : value;
+  });
+}`,
+    cases: [
+      make('Look up every key', fruits, fruits),
+      make('Missing key', fruits, ['kiwi', 'apple']),
+      make('Empty table', [], ['apple']),
+      make('Many collisions (25 keys, 10 buckets)', many, many),
+      make('Similar keys', ['ab', 'ba', 'abc', 'cab'], ['ba', 'cab', 'bac']),
+    ],
+    expected: (testCase) => {
+      const [entries, queries] = testCase.args as [[string, number][], string[]];
+
+      // The model table has 10 chained buckets and never resizes
+      const states = hashTableOperations({
+        strategy: 'chaining',
+        hashFunction: 'polynomial',
+        capacity: 10,
+        maxLoadFactor: Infinity,
+        operations: [
+          ...entries.map(([key, value]) => ({ type: 'insert' as const, key, value })),
+          ...queries.map(key => ({ type: 'search' as const, key }))
+        ]
+      });
+
+      return states.filter(state => state.line === 'result').map(state => {
+        if (!state.found) return null;
+        // Walk to the node the reference search stopped at
+        let node: HashNode | null | undefined = state.buckets[state.currentBucket];
+        for (let i = 0; i < state.currentNode && node; i++) node = node.next;
+        return node ? node.value : null;
+      });
+    },
+    check: (actual, expected) => JSON.stringify(actual) === JSON.stringify(expected)
+  };
+}
+
+/**
+ * Depth First Search Suite
+ */
+export function depthFirstSearchSuite(): TestSuite {
+  const make = (name: string, graph: TestGraph, start: string): TestCase => ({
+    name,
+    graph,
+    args: [graph.nodes.map(node => node.id), graph.edges.map(([from, to]) => [from, to]), start]
+  });
+
+  return {
+    entryPoint: '__algtraxHarness',
+    harness: `
+function __algtraxHarness(vertices, edges, start) {
+  const graph = new Graph();
+  vertices.forEach(vertex => graph.addVertex(vertex));
+  edges.forEach(([from, to]) => graph.addEdge(from, to));
+  return graph.depthFirstSearch(start);
+}`,
+    cases: [
+      make('Sample graph from A', defaultGraph, 'A'),
+      make('Sample graph from E', defaultGraph, 'E'),
+      make('Line graph', lineGraph, 'A'),
+      make('Cycle', cycleGraph, 'B'),
+      make('Unreachable nodes are not visited', disconnectedGraph, 'A'),
+      make('Single node', singleNodeGraph, 'A'),
+    ],
+    expected: (testCase) => {
+      const graph = testCase.graph!;
+      const states = depthFirstSearch(toNodes(graph), toEdges(graph), testCase.args[2] as string);
+      return states[states.length - 1].visited;
+    },
+    check: (actual, expected, testCase) =>
+      isValidDfsOrder(actual, expected as string[], testCase.graph!, testCase.args[2] as string)
+  };
+}
+
+/**
+ * Breadth First Search Suite
+ */
+export function breadthFirstSearchSuite(): TestSuite {
+  return {
+    entryPoint: 'breadthFirstSearch',
+    cases: pathCases((graph, start, end) => [toAdjacencyList(graph), start, end]),
+    // Expected value is the number of edges on a shortest path, or null if unreachable
+    expected: (testCase) => {
+      const [start, end] = endpoints(testCase);
+      const states = breadthFirstSearch(toNodes(testCase.graph!), toEdges(testCase.graph!), start, end);
+      const last = states[states.length - 1];
+      if (!last.visited?.includes(end)) return null;
+      return last.nodes.filter(node => node.status === 'path').length - 1;
+    },
+    check: (actual, expected, testCase) => {
+      const [start, end] = endpoints(testCase);
+      if (expected === null) return isEmptyResult(actual);
+      return pathCost(actual, testCase.graph!, start, end) !== null &&
+        (actual as string[]).length - 1 === expected;
+    }
+  };
+}
+
+/**
+ * Dijkstra Suite
+ */
+export function dijkstraSuite(): TestSuite {
+  return {
+    entryPoint: 'dijkstra',
+    cases: pathCases((graph, start, end) => [toWeightedAdjacencyList(graph), start, end]),
+    // Expected value is the shortest distance (Infinity if unreachable)
+    expected: (testCase) => {
+      const [start, end] = endpoints(testCase);
+      const states = dijkstra(toNodes(testCase.graph!), toEdges(testCase.graph!), start, end);
+      return states[states.length - 1].distances?.[end] ?? Infinity;
+    },
+    check: (actual, expected, testCase) => checkShortestPath(actual, expected as number, testCase)
+  };
+}
+
+/**
+ * A* Suite
+ */
+export function aStarSuite(): TestSuite {
+  return {
+    entryPoint: 'aStar',
+    cases: pathCases((graph, start, end) => [toWeightedAdjacencyList(graph), toPositions(graph), start, end]),
+    // Expected value is the cost of the path found by the reference A*
+    expected: (testCase) => {
+      const [start, end] = endpoints(testCase);
+      const graph = testCase.graph!;
+      const nodes = graph.nodes.map(node => ({ ...node, status: 'unvisited' as const, g: 0, h: 0, f: 0 }));
+      const states = aStar(nodes, toEdges(graph), start, end);
+      const last = states[states.length - 1];
+      return last.path && last.path.length > 0 ? pathCost(last.path, graph, start, end) ?? Infinity : Infinity;
+    },
+    check: (actual, expected, testCase) => checkShortestPath(actual, expected as number, testCase)
+  };
+}
+
+/**
+ * Bellman-Ford Suite
+ */
+export function bellmanFordSuite(): TestSuite {
+  const toArgs = (graph: TestGraph, start: string, end: string) =>
+    [graph.nodes.map(node => node.id), toEdgeList(graph), start, end];
+
+  return {
+    entryPoint: 'bellmanFord',
+    cases: [
+      ...pathCases(toArgs),
+      { name: 'Negative edge (A to D)', graph: negativeEdgeGraph, args: toArgs(negativeEdgeGraph, 'A', 'D') },
+      { name: 'Negative cycle (A to E)', graph: negativeCycleGraph, args: toArgs(negativeCycleGraph, 'A', 'E') },
+    ],
+    // Expected value is the shortest distance (Infinity if unreachable),
+    // or null if a negative cycle is reachable from the start
+    expected: (testCase) => {
+      const [start, end] = endpoints(testCase);
+      const graph = testCase.graph!;
+      const states = bellmanFord(toNodes(graph), toEdges(graph), start, end, graph.directed);
+      const last = states[states.length - 1];
+      return last.negativeCycle ? null : last.distances?.[end] ?? Infinity;
+    },
+    check: (actual, expected, testCase) =>
+      expected === null ? actual === null : checkShortestPath(actual, expected as number, testCase)
+  };
+}
+
+/**
+ * Topological Sort Suite
+ *
+ * Shared by Kahn's algorithm and the DFS topological sort; any valid order
+ * is accepted.
+ *
+ * @param generator - Reference implementation producing the trace
+ */
+export function topologicalSortSuite(generator: (nodes: TraceNode[], edges: TraceEdge[]) => GraphFrame[]): TestSuite {
+  const make = (name: string, graph: TestGraph): TestCase => ({
+    name,
+    graph,
+    args: [graph.nodes.map(node => node.id), graph.edges.map(([from, to]) => ({ from, to }))]
+  });
+  const directed = (graph: TestGraph): TestGraph => ({ ...graph, directed: true });
+
+  return {
+    entryPoint: 'topologicalSort',
+    cases: [
+      make('Sample graph', directed(defaultGraph)),
+      make('Line graph', directed(lineGraph)),
+      make('Several components', directed(disconnectedGraph)),
+      make('Single node', singleNodeGraph),
+      make('Cycle through every node', directed(cycleGraph)),
+      make('Cycle after a source', negativeCycleGraph),
+    ],
+    // Expected value is the reference order, or null if the graph has a cycle
+    expected: (testCase) => {
+      const graph = testCase.graph!;
+      const states = generator(toNodes(graph), toEdges(graph));
+      const order = states[states.length - 1].order ?? [];
+      return order.length === graph.nodes.length ? order : null;
+    },
+    check: (actual, expected, testCase) => {
+      if (expected === null) return actual === null;
+      const graph = testCase.graph!;
+      if (!Array.isArray(actual) || actual.length !== graph.nodes.length) return false;
+      if (!graph.nodes.every(node => actual.includes(node.id))) return false;
+      return graph.edges.every(([from, to]) => actual.indexOf(from) < actual.indexOf(to));
+    }
+  };
+}
+
+/**
+ * Strongly Connected Components Suite
+ *
+ * Shared by Tarjan's and Kosaraju's algorithms, which may list the
+ * components and their members in any order.
+ *
+ * @param generator - Trace generator whose last state lists the components
+ */
+export function stronglyConnectedComponentsSuite(generator: (nodes: TraceNode[], edges: TraceEdge[]) => GraphFrame[]): TestSuite {
+  const make = (name: string, graph: TestGraph): TestCase => ({
+    name,
+    graph,
+    args: [graph.nodes.map(node => node.id), graph.edges.map(([from, to]) => ({ from, to }))]
+  });
+  const directed = (graph: TestGraph): TestGraph => ({ ...graph, directed: true });
+  // Members sorted within each component, components sorted by first member
+  const normalise = (components: string[][]) =>
+    components.map(component => [...component].sort()).sort((a, b) => a[0].localeCompare(b[0]));
+
+  return {
+    entryPoint: 'stronglyConnectedComponents',
+    cases: [
+      make('Two cycles joined by an edge', directed(barbellGraph)),
+      make('Cycle after a source', negativeCycleGraph),
+      make('Cycle through every node', directed(cycleGraph)),
+      make('No cycles', directed(defaultGraph)),
+      make('Several components', directed(disconnectedGraph)),
+      make('Single node', singleNodeGraph),
+    ],
+    // Expected value is the list of components
+    expected: (testCase) => {
+      const states = generator(toNodes(testCase.graph!), toEdges(testCase.graph!));
+      return normalise(states[states.length - 1].components ?? []);
+    },
+    check: (actual, expected) => {
+      if (!Array.isArray(actual) || !actual.every(component => Array.isArray(component) && component.length > 0)) return false;
+      return JSON.stringify(normalise(actual as string[][])) === JSON.stringify(expected);
+    }
+  };
+}
+
+/**
+ * Bridges Suite
+ */
+export function bridgesSuite(): TestSuite {
+  const make = (name: string, graph: TestGraph): TestCase => ({
+    name,
+    graph,
+    args: [graph.nodes.map(node => node.id), graph.edges.map(([from, to]) => ({ from, to }))]
+  });
+  // Bridges as sorted "A–B" labels, so either direction matches
+  const edgeLabels = (edges: { from: string; to: string }[]) =>
+    edges.map(({ from, to }) => [from, to].sort().join('–')).sort();
+
+  return {
+    entryPoint: 'findBridges',
+    cases: [
+      make('Two triangles joined by a bridge', barbellGraph),
+      make('Two triangles sharing a node', bowtieGraph),
+      make('Line graph', lineGraph),
+      make('Cycle', cycleGraph),
+      make('Sample graph', defaultGraph),
+      make('Several components', disconnectedGraph),
+      make('Single node', singleNodeGraph),
+    ],
+    // Expected value is { bridges, articulationPoints }, both sorted
+    expected: (testCase) => {
+      const states = bridgesAndArticulationPoints(toNodes(testCase.graph!), toEdges(testCase.graph!));
+      const last = states[states.length - 1];
+      return {
+        bridges: edgeLabels(last.edges.filter(edge => edge.status === 'bridge')),
+        articulationPoints: last.nodes.filter(node => node.status === 'articulation').map(node => node.id).sort()
+      };
+    },
+    check: (actual, expected) => {
+      if (!actual || typeof actual !== 'object') return false;
+      const { bridges, articulationPoints } = actual as { bridges?: unknown; articulationPoints?: unknown };
+      if (!Array.isArray(bridges) || !Array.isArray(articulationPoints)) return false;
+      if (!bridges.every(edge => edge && typeof edge === 'object')) return false;
+      return JSON.stringify({
+        bridges: edgeLabels(bridges as { from: string; to: string }[]),
+        articulationPoints: [...articulationPoints].sort()
+      }) === JSON.stringify(expected);
+    }
+  };
+}
+
+/**
+ * Tricolor Suite
+ *
+ * Cycle detection in a directed graph: any cycle reachable from the start
+ * node is accepted, listed once from any of its nodes.
+ */
+export function tricolorSuite(): TestSuite {
+  const make = (name: string, graph: TestGraph, start: string): TestCase => ({
+    name,
+    graph: { ...graph, directed: true },
+    args: [graph.nodes.map(node => node.id), graph.edges.map(([from, to]) => ({ from, to })), start]
+  });
+
+  return {
+    entryPoint: 'findCycle',
+    cases: [
+      make('Cycle through every node', cycleGraph, 'A'),
+      make('Cycle after a source', negativeCycleGraph, 'A'),
+      make('Two cycles joined by an edge', barbellGraph, 'A'),
+      make('No cycles', defaultGraph, 'A'),
+      make('Cycle not reachable from the start', negativeCycleGraph, 'E'),
+      make('Single node', singleNodeGraph, 'A'),
+    ],
+    // Expected value is whether the reference search finds a back edge
+    expected: (testCase) => {
+      const graph = testCase.graph!;
+      const states = tricolorAlgorithm(toNodes(graph), toEdges(graph), testCase.args[2] as string, undefined, true);
+      return states.some(state => state.line === 'back');
+    },
+    check: (actual, expected, testCase) => {
+      if (!expected) return isEmptyResult(actual);
+      if (!Array.isArray(actual) || actual.length === 0 || new Set(actual).size !== actual.length) return false;
+      // Every node must lead to the next along an edge, and the last back to the first
+      const edges = testCase.graph!.edges;
+      return actual.every((node, index) => {
+        const next = actual[(index + 1) % actual.length];
+        return edges.some(([from, to]) => from === node && to === next);
+      });
+    }
+  };
+}
+
+/**
+ * Spanning Tree Cases
+ *
+ * @param toArgs - Converts a graph and start node into the entry point's arguments
+ */
+function spanningTreeCases(toArgs: (graph: TestGraph, start: string) => unknown[]): TestCase[] {
+  const make = (name: string, graph: TestGraph, start: string): TestCase =>
+    ({ name, graph, args: toArgs(graph, start) });
+
+  return [
+    make('Sample graph', defaultGraph, 'A'),
+    make('Line graph', lineGraph, 'A'),
+    make('Cycle with a heavy edge', cycleGraph, 'A'),
+    make('Cheaper edges avoid the direct route', detourGraph, 'S'),
+    make('Single node', singleNodeGraph, 'A'),
+    make('Disconnected graph', disconnectedGraph, 'A'),
+  ];
+}
+
+// Nodes reachable from `start`, ignoring edge directions
+function componentOf(graph: TestGraph, start: string): string[] {
+  const adjacency = toAdjacencyList(graph);
+  const seen = new Set<string>([start]);
+  const queue = [start];
+  while (queue.length > 0) {
+    for (const neighbor of adjacency[queue.shift()!]) {
+      if (!seen.has(neighbor)) {
+        seen.add(neighbor);
+        queue.push(neighbor);
+      }
+    }
+  }
+  return Array.from(seen);
+}
+
+/**
+ * Kruskal Suite
+ */
+export function kruskalSuite(): TestSuite {
+  return {
+    entryPoint: 'kruskal',
+    // Kruskal has no start node; the one in each case is only used by Prim
+    cases: spanningTreeCases(graph => [
+      graph.nodes.map(node => node.id),
+      graph.edges.map(([from, to, weight]) => ({ from, to, weight }))
+    ]),
+    // Expected value is the total weight of the minimum spanning forest
+    expected: (testCase) => {
+      const graph = testCase.graph!;
+      const states = kruskal(toNodes(graph), toEdges(graph));
+      return states[states.length - 1].treeWeight ?? 0;
+    },
+    check: (actual, expected, testCase) => {
+      const graph = testCase.graph!;
+      // Every component of the graph must be spanned
+      const components: string[][] = [];
+      for (const node of graph.nodes) {
+        if (!components.some(component => component.includes(node.id))) components.push(componentOf(graph, node.id));
+      }
+      return checkSpanningTree(actual, expected as number, graph, components);
+    }
+  };
+}
+
+/**
+ * Prim Suite
+ */
+export function primSuite(): TestSuite {
+  return {
+    entryPoint: 'prim',
+    cases: spanningTreeCases((graph, start) => [toWeightedAdjacencyList(graph), start]),
+    // Expected value is the total weight of the tree spanning the start node's component
+    expected: (testCase) => {
+      const graph = testCase.graph!;
+      const states = prim(toNodes(graph), toEdges(graph), testCase.args[1] as string);
+      return states[states.length - 1].treeWeight ?? 0;
+    },
+    check: (actual, expected, testCase) =>
+      checkSpanningTree(actual, expected as number, testCase.graph!, [componentOf(testCase.graph!, testCase.args[1] as string)])
+  };
+}
+
+/**
+ * Check a list of { from, to } tree edges: each must be an edge of the
+ * graph inside one of `components`, together they must connect every
+ * component without a cycle, and their weights must add up to `expected`.
+ */
+function checkSpanningTree(actual: unknown, expected: number, graph: TestGraph, components: string[][]): boolean {
+  if (!Array.isArray(actual)) return false;
+  const spanned = components.flat();
+  const root = new Map(spanned.map(id => [id, id]));
+  const find = (id: string): string => (root.get(id) === id ? id : find(root.get(id)!));
+
+  let weight = 0;
+  for (const edge of actual) {
+    if (!edge || typeof edge !== 'object') return false;
+    const { from, to } = edge as { from?: unknown; to?: unknown };
+    const match = graph.edges.find(([a, b]) => (a === from && b === to) || (a === to && b === from));
+    if (!match || !root.has(match[0]) || !root.has(match[1])) return false;
+
+    const [rootFrom, rootTo] = [find(match[0]), find(match[1])];
+    if (rootFrom === rootTo) return false;   // Closes a cycle
+    root.set(rootFrom, rootTo);
+    weight += match[2];
+  }
+
+  const edgesNeeded = components.reduce((total, component) => total + component.length - 1, 0);
+  return actual.length === edgesNeeded && weight === expected;
+}
+
+/**
+ * Check a { distance, path } result against the expected shortest distance
+ */
+function checkShortestPath(actual: unknown, expected: number, testCase: TestCase): boolean {
+  if (!actual || typeof actual !== 'object') return false;
+  const { distance, path } = actual as { distance?: unknown; path?: unknown };
+  const [start, end] = endpoints(testCase);
+
+  if (expected === Infinity) {
+    return (distance === Infinity || distance === null) && isEmptyResult(path);
+  }
+  return distance === expected && pathCost(path, testCase.graph!, start, end) === expected;
+}
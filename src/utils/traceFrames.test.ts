@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { TraceEvent } from './codeSandbox';
+import { buildSearchFrames, buildSortingFrames } from './traceFrames';
+
+const read = (index: number): TraceEvent => ({ op: 'read', index });
+const write = (index: number, value: number): TraceEvent => ({ op: 'write', index, value });
+
+describe('buildSortingFrames', () => {
+  it('shows a compare-and-swap as one comparison and one swap', () => {
+    const frames = buildSortingFrames([2, 1], [read(0), read(1), read(0), read(1), write(0, 1), write(1, 2)], true);
+
+    expect(frames.map(frame => [frame.comparing, frame.swapping])).toEqual([
+      [[], []],
+      [[0, 1], []],
+      [[], [0, 1]],
+      [[], []],
+    ]);
+    expect(frames[2].values).toEqual([1, 2]);
+    expect(frames[3].sorted).toEqual([0, 1]);
+    expect(frames[3].stats).toMatchObject({ comparisons: 1, swaps: 1, writes: 2, accesses: 6 });
+  });
+
+  it('does not count writes that do not exchange two values as a swap', () => {
+    const frames = buildSortingFrames([3, 1, 2], [write(0, 1), write(1, 1), read(2), write(2, 3)], false);
+
+    expect(frames.map(frame => frame.swapping)).toEqual([[], [0, 1], [2], []]);
+    expect(frames[frames.length - 1].stats).toMatchObject({ swaps: 0, writes: 3 });
+    expect(frames[frames.length - 1].sorted).toEqual([]);
+  });
+
+  it('skips events outside the array', () => {
+    const frames = buildSortingFrames([1, 2], [read(-1), read(2), write(5, 9), write(Number.NaN, 9)], true);
+
+    expect(frames).toHaveLength(2);
+    expect(frames[1].values).toEqual([1, 2]);
+    expect(frames[1].stats.accesses).toBe(0);
+  });
+
+  it('stops adding frames at the cap but keeps the final state', () => {
+    const trace = Array.from({ length: 20000 }, (_, index) => read(index % 3));
+    const frames = buildSortingFrames([1, 2, 3], trace, true);
+
+    expect(frames).toHaveLength(5001);
+    expect(frames[frames.length - 1].stats.accesses).toBe(20000);
+  });
+});
+
+describe('buildSearchFrames', () => {
+  it('highlights each inspected index and the returned one', () => {
+    const frames = buildSearchFrames([4, 8, 15], [read(0), read(1)], 8, 1);
+
+    expect(frames.map(frame => frame.searching)).toEqual([[], [0], [1], []]);
+    expect(frames[3].found).toEqual([1]);
+    expect(frames[3].target).toBe(8);
+    expect(frames[3].stats).toMatchObject({ comparisons: 2, accesses: 2 });
+  });
+
+  it('applies writes without a frame and skips events outside the array', () => {
+    const frames = buildSearchFrames([4, 8], [write(0, 7), read(3), read(0)], 7, 5);
+
+    expect(frames).toHaveLength(3);
+    expect(frames[1].values).toEqual([7, 8]);
+    expect(frames[2].found).toEqual([]);
+  });
+
+  it('stops adding frames at the cap', () => {
+    const frames = buildSearchFrames([1], Array.from({ length: 6000 }, () => read(0)), 1, 0);
+
+    expect(frames).toHaveLength(5001);
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Trace Frames
+ *
+ * Converts the raw array trace recorded by the code sandbox into the same
+ * bar-chart frames produced by the built-in algorithm generators, so the
+ * Visualiser can animate user code without knowing where it came from.
+ */
+
+import { TraceEvent } from './codeSandbox';
+import { createStats, snapshot } from '../algorithms/operation-stats';
+import { ArrayFrame } from '../algorithms/trace';
+
+// Upper bound on generated frames so a long trace cannot freeze the UI
+const MAX_FRAMES = 5000;
+
+/**
+ * Build Sorting Frames
+ *
+ * Replays the trace against a copy of the input. Pairs of reads become
+ * "comparing" frames and consecutive writes are grouped into a single
+ * "swapping" frame, matching how the reference generators animate.
+ *
+ * @param input - The array passed to the user's function
+ * @param trace - Recorded read/write events
+ * @param sortedResult - Whether the final array was verified as sorted
+ * @returns Array of visualization states
+ */
+export function buildSortingFrames(input: number[], trace: TraceEvent[], sortedResult: boolean): ArrayFrame[] {
+  const states: ArrayFrame[] = [];
+  const values = [...input];
+  let pendingReads: number[] = [];
+  let lastCompared: number[] = [];
+  let writeGroup: number[] = [];
+  let beforeGroup: number[] = [];
+  const stats = createStats();
+
+  const push = (comparing: number[], swapping: number[]) => {
+    if (states.length >= MAX_FRAMES) return;
+    states.push({ kind: 'array', values: [...values], comparing, swapping, sorted: [], stats: snapshot(stats) });
+  };
+
+  // Emit a comparison for the two most recent distinct reads
+  const flushReads = () => {
+    if (pendingReads.length === 2) {
+      stats.comparisons++;
+      push([...pendingReads], []);
+      lastCompared = [...pendingReads];
+    }
+    pendingReads = [];
+  };
+
+  // Emit a single frame for a run of consecutive writes
+  const flushWrites = () => {
+    if (writeGroup.length > 0) {
+      // Two writes that exchange values count as a swap
+      const [a, b] = writeGroup;
+      if (writeGroup.length === 2 && values[a] === beforeGroup[b] && values[b] === beforeGroup[a] && values[a] !== values[b]) {
+        stats.swaps++;
+      }
+      push([], [...writeGroup]);
+      writeGroup = [];
+    }
+  };
+
+  // Initial state - shows the unsorted array
+  push([], []);
+
+  for (const event of trace) {
+    // The sandbox rejects writes past the end; never grow the array here either
+    if (!(event.index >= 0 && event.index < values.length)) continue;
+    stats.accesses++;
+    if (event.op === 'read') {
+      flushWrites();
+      if (pendingReads.includes(event.index)) continue;
+      if (pendingReads.length === 2) flushReads();
+      pendingReads.push(event.index);
+    } else {
+      // Reads that only fetch values for a swap were already shown as a comparison
+      const sameAsLast = pendingReads.length === 2 &&
+        pendingReads.every(index => lastCompared.includes(index));
+      if (sameAsLast) {
+        pendingReads = [];
+      } else {
+        flushReads();
+      }
+      if (writeGroup.length === 0) beforeGroup = [...values];
+      values[event.index] = event.value;
+      stats.writes++;
+      if (!writeGroup.includes(event.index)) writeGroup.push(event.index);
+    }
+  }
+
+  flushReads();
+  flushWrites();
+
+  // Final state - mark everything as sorted when the result checked out
+  states.push({
+    kind: 'array',
+    values: [...values],
+    comparing: [],
+    swapping: [],
+    sorted: sortedResult ? values.map((_, index) => index) : [],
+    stats: snapshot(stats)
+  });
+
+  return states;
+}
+
+/**
+ * Build Search Frames
+ *
+ * Every read of the array becomes a frame highlighting the inspected index.
+ * The final frame highlights the index returned by the user's function.
+ *
+ * @param input - The array passed to the user's function
+ * @param trace - Recorded read/write events
+ * @param target - The value being searched for
+ * @param resultIndex - Index returned by the user's function (-1 if not found)
+ * @returns Array of visualization states
+ */
+export function buildSearchFrames(input: number[], trace: TraceEvent[], target: number, resultIndex: number): ArrayFrame[] {
+  const states: ArrayFrame[] = [];
+  const values = [...input];
+  const stats = createStats();
+
+  // Initial state
+  states.push({ kind: 'array', values: [...values], comparing: [], swapping: [], sorted: [], searching: [], found: [], target, stats: snapshot(stats) });
+
+  for (const event of trace) {
+    if (states.length >= MAX_FRAMES) break;
+    if (!(event.index >= 0 && event.index < values.length)) continue;
+    stats.accesses++;
+    if (event.op === 'write') {
+      values[event.index] = event.value;
+      stats.writes++;
+      continue;
+    }
+    // Each inspected element is compared with the target
+    stats.comparisons++;
+    states.push({
+      kind: 'array',
+      values: [...values],
+      comparing: [event.index],
+      swapping: [],
+      sorted: [],
+      searching: [event.index],
+      found: [],
+      target,
+      stats: snapshot(stats)
+    });
+  }
+
+  // Final state - show where the user's function says the target is
+  states.push({
+    kind: 'array',
+    values: [...values],
+    comparing: [],
+    swapping: [],
+    sorted: [],
+    searching: [],
+    found: resultIndex >= 0 && resultIndex < values.length ? [resultIndex] : [],
+    target,
+    stats: snapshot(stats)
+  });
+
+  return states;
+}
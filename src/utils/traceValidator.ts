@@ -0,0 +1,384 @@
+/**
+ * Trace Validator
+ *
+ * Runtime check that a value matches the trace model in algorithms/trace.ts.
+ * Traces built from user code, loaded from a file or decoded from a link
+ * are validated before they reach the Visualiser, so a malformed frame is
+ * reported with a clear message instead of breaking a renderer.
+ */
+
+import { Trace, TraceKind } from '../algorithms/trace';
+
+/**
+ * Validation Result Interface
+ */
+export interface ValidatedTrace {
+  trace: Trace | null;     // The trace, or null if it was rejected
+  error: string | null;    // What was wrong with the first bad frame
+}
+
+const TRACE_KINDS: TraceKind[] = ['array', 'graph', 'grid', 'hash'];
+const NODE_STATUSES = ['unvisited', 'visited', 'current', 'path', 'start', 'end', 'open', 'closed', 'white', 'gray', 'black', 'cycle', 'articulation'];
+const EDGE_STATUSES = ['normal', 'visited', 'path', 'current', 'cycle', 'tree', 'rejected', 'bridge'];
+const FRONTIER_CHANGES = ['popped', 'pushed', 'decreased'];
+const COLLISION_STRATEGIES = ['chaining', 'linear', 'quadratic', 'double'];
+const HASH_OPERATIONS = ['insert', 'delete', 'search'];
+const STATS_FIELDS = ['comparisons', 'swaps', 'writes', 'accesses', 'auxMemory', 'nodesVisited', 'edgesRelaxed'];
+const ARRAY_INDEX_FIELDS = ['comparing', 'swapping', 'sorted', 'pivot', 'partition', 'left', 'right', 'searching', 'found'];
+const GRAPH_ID_FIELDS = ['visited', 'queue', 'stack', 'openSet', 'closedSet', 'whiteNodes', 'grayNodes', 'blackNodes', 'path', 'negativeCycle', 'order'];
+
+// Highest cell status written by grid-pathfinding.ts (CELL_PATH)
+const MAX_CELL_STATUS = 4;
+
+type Frame = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Frame =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isIndex = (value: unknown, length: number): boolean =>
+  Number.isInteger(value) && (value as number) >= 0 && (value as number) < length;
+
+/**
+ * Check the operation counters every frame carries
+ */
+function checkStats(stats: unknown): string | null {
+  if (!isObject(stats)) return 'stats is missing';
+  for (const field of STATS_FIELDS) {
+    if (!isNumber(stats[field]) || (stats[field] as number) < 0) {
+      return `stats.${field} must be a non-negative number`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Check the pseudocode line id and narration the built-in generators add
+ */
+function checkNarration(frame: Frame): string | null {
+  if (frame.line !== undefined && typeof frame.line !== 'string') return 'line must be a pseudocode line id';
+  if (frame.narration !== undefined && typeof frame.narration !== 'string') return 'narration must be text';
+  return null;
+}
+
+// Watch values may be Infinity (unreached distances) but never NaN
+const isWatchItem = (value: unknown): boolean =>
+  typeof value === 'string' || (typeof value === 'number' && !Number.isNaN(value));
+
+/**
+ * Check the named variables shown in the watch panel
+ */
+function checkWatch(watch: unknown): string | null {
+  if (watch === undefined) return null;
+  if (!isObject(watch)) return 'watch must map variable names to values';
+  for (const [name, value] of Object.entries(watch)) {
+    const valid = Array.isArray(value)
+      ? value.every(isWatchItem)
+      : isObject(value)
+        ? Object.values(value).every(item => item === null || isWatchItem(item))
+        : value === null || typeof value === 'boolean' || isWatchItem(value);
+    if (!valid) return `watch variable "${name}" has a value that cannot be shown`;
+  }
+  return null;
+}
+
+/**
+ * Check the recursive calls recorded by merge sort, quick sort and DFS
+ */
+function checkCallStack(callStack: unknown): string | null {
+  if (callStack === undefined) return null;
+  if (!Array.isArray(callStack)) return 'callStack must be a list of calls';
+  for (const [index, call] of callStack.entries()) {
+    if (!isObject(call) || !Number.isInteger(call.id) || typeof call.name !== 'string') {
+      return `callStack[${index}] needs an integer id and a function name`;
+    }
+    if (call.depth !== index) return `callStack[${index}] has depth ${String(call.depth)}`;
+    for (const field of ['lo', 'hi']) {
+      if (call[field] !== undefined && !Number.isInteger(call[field])) return `callStack[${index}].${field} must be an integer`;
+    }
+    if (call.node !== undefined && typeof call.node !== 'string') return `callStack[${index}].node must be a node id`;
+  }
+  return null;
+}
+
+function checkAuxiliary(auxiliary: unknown): string | null {
+  if (!Array.isArray(auxiliary)) return 'auxiliary must be a list of arrays';
+  for (const [index, row] of auxiliary.entries()) {
+    if (!isObject(row) || typeof row.name !== 'string') return `auxiliary[${index}] needs a string name`;
+    const values = row.values;
+    if (!Array.isArray(values) || values.some(value => value !== null && !isNumber(value))) {
+      return `auxiliary "${row.name}" values must be numbers or null`;
+    }
+    if (row.labels !== undefined && (!Array.isArray(row.labels) || row.labels.length !== values.length)) {
+      return `auxiliary "${row.name}" needs one label per slot`;
+    }
+    if (!Array.isArray(row.highlight) || row.highlight.some(slot => !isIndex(slot, values.length))) {
+      return `auxiliary "${row.name}" highlights a slot it does not have`;
+    }
+  }
+  return null;
+}
+
+function checkMoves(moves: unknown, values: unknown[], auxiliary: unknown): string | null {
+  if (!Array.isArray(moves)) return 'moves must be a list of moves';
+  const rows = Array.isArray(auxiliary) ? auxiliary : [];
+  const isSlot = (slot: unknown): boolean => {
+    if (!isObject(slot)) return false;
+    if (slot.row === 'main') return isIndex(slot.index, values.length);
+    if (!isIndex(slot.row, rows.length)) return false;
+    const row = rows[slot.row as number] as Frame;
+    return isIndex(slot.index, (row.values as unknown[]).length);
+  };
+  for (const [index, move] of moves.entries()) {
+    if (!isObject(move) || !isSlot(move.from) || !isSlot(move.to)) {
+      return `moves[${index}] must go between slots of the main array or an auxiliary array`;
+    }
+  }
+  return null;
+}
+
+function checkArrayFrame(frame: Frame): string | null {
+  const values = frame.values;
+  if (!Array.isArray(values)) return 'values must be an array';
+  const badValue = values.findIndex(value => !isNumber(value));
+  if (badValue >= 0) return `values[${badValue}] is not a number (${String(values[badValue])})`;
+
+  for (const field of ARRAY_INDEX_FIELDS) {
+    const indices = frame[field];
+    const required = field === 'comparing' || field === 'swapping' || field === 'sorted';
+    if (indices === undefined && !required) continue;
+    if (!Array.isArray(indices)) return `${field} must be an array of indices`;
+    const bad = indices.find(index => !isIndex(index, values.length));
+    if (bad !== undefined) return `${field} contains ${String(bad)}, which is not an index of values`;
+  }
+
+  for (const field of ['key', 'target', 'low', 'high', 'mid']) {
+    if (frame[field] !== undefined && !isNumber(frame[field])) return `${field} must be a number`;
+  }
+  if (frame.merging !== undefined && typeof frame.merging !== 'boolean') return 'merging must be true or false';
+
+  if (frame.heapSize !== undefined && !isIndex(frame.heapSize, values.length + 1)) return 'heapSize must be between 0 and the array length';
+  if (frame.gap !== undefined && (!Number.isInteger(frame.gap) || (frame.gap as number) < 1)) return 'gap must be a positive integer';
+  if (frame.gaps !== undefined && (!Array.isArray(frame.gaps) || frame.gaps.some(gap => !isNumber(gap)))) return 'gaps must be a list of numbers';
+  if (frame.digit !== undefined && !isNumber(frame.digit)) return 'digit must be a number';
+  if (frame.auxiliary !== undefined) {
+    const problem = checkAuxiliary(frame.auxiliary);
+    if (problem) return problem;
+  }
+  if (frame.moves !== undefined) return checkMoves(frame.moves, values, frame.auxiliary);
+  return null;
+}
+
+function checkGraphFrame(frame: Frame): string | null {
+  if (!Array.isArray(frame.nodes)) return 'nodes must be an array';
+  if (!Array.isArray(frame.edges)) return 'edges must be an array';
+
+  const ids = new Set<string>();
+  for (const [index, node] of frame.nodes.entries()) {
+    if (!isObject(node) || typeof node.id !== 'string') return `nodes[${index}] needs a string id`;
+    if (ids.has(node.id)) return `node id "${node.id}" is used twice`;
+    if (!isNumber(node.x) || !isNumber(node.y)) return `node "${node.id}" needs numeric x and y`;
+    if (!NODE_STATUSES.includes(node.status as string)) return `node "${node.id}" has unknown status "${String(node.status)}"`;
+    if (node.annotations !== undefined &&
+        (!isObject(node.annotations) || !Object.values(node.annotations).every(isNumber))) {
+      return `node "${node.id}" annotations must map labels to numbers`;
+    }
+    if (node.group !== undefined && !isIndex(node.group, Infinity)) return `node "${node.id}" group must be a non-negative integer`;
+    ids.add(node.id);
+  }
+
+  for (const [index, edge] of frame.edges.entries()) {
+    if (!isObject(edge)) return `edges[${index}] must be an object`;
+    if (!ids.has(edge.from as string) || !ids.has(edge.to as string)) {
+      return `edges[${index}] connects unknown nodes "${String(edge.from)}" and "${String(edge.to)}"`;
+    }
+    if (edge.weight !== undefined && !isNumber(edge.weight)) return `edges[${index}] has a non-numeric weight`;
+    if (!EDGE_STATUSES.includes(edge.status as string)) return `edges[${index}] has unknown status "${String(edge.status)}"`;
+  }
+
+  if (frame.current !== null && !ids.has(frame.current as string)) return `current "${String(frame.current)}" is not a node`;
+
+  for (const field of GRAPH_ID_FIELDS) {
+    const list = frame[field];
+    if (list === undefined) continue;
+    if (!Array.isArray(list) || list.some(id => typeof id !== 'string')) return `${field} must be a list of node ids`;
+  }
+  if (frame.distances !== undefined && !isObject(frame.distances)) return 'distances must map node ids to numbers';
+  if (frame.treeWeight !== undefined && !isNumber(frame.treeWeight)) return 'treeWeight must be a number';
+  const components = frame.components;
+  if (components !== undefined &&
+      (!Array.isArray(components) || !components.every(c => Array.isArray(c) && c.every(id => ids.has(id))))) {
+    return 'components must be a list of lists of node ids';
+  }
+
+  return checkFrontier(frame.frontier, ids) ?? checkUnionFind(frame.unionFind, ids);
+}
+
+/**
+ * Check the priority queue recorded by Dijkstra's algorithm and A*
+ */
+function checkFrontier(frontier: unknown, ids: Set<string>): string | null {
+  if (frontier === undefined) return null;
+  if (!Array.isArray(frontier)) return 'frontier must be a list of entries';
+  for (const [index, entry] of frontier.entries()) {
+    if (!isObject(entry) || !ids.has(entry.node as string)) return `frontier[${index}] must name a node`;
+    if (!isNumber(entry.priority)) return `frontier[${index}] needs a numeric priority`;
+    if (entry.change !== undefined && !FRONTIER_CHANGES.includes(entry.change as string)) {
+      return `frontier[${index}] has unknown change "${String(entry.change)}"`;
+    }
+    if (entry.previous !== undefined && !isNumber(entry.previous)) return `frontier[${index}].previous must be a number`;
+  }
+  return null;
+}
+
+/**
+ * Check the disjoint-set forest recorded by Kruskal's algorithm
+ */
+function checkUnionFind(unionFind: unknown, ids: Set<string>): string | null {
+  if (unionFind === undefined) return null;
+  if (!isObject(unionFind) || !isObject(unionFind.parent) || !isObject(unionFind.rank)) {
+    return 'unionFind needs parent and rank maps';
+  }
+  for (const [node, parent] of Object.entries(unionFind.parent)) {
+    if (!ids.has(node) || !ids.has(parent as string)) return `unionFind.parent maps "${node}" to "${String(parent)}", which is not a node`;
+  }
+  for (const [node, rank] of Object.entries(unionFind.rank)) {
+    if (!ids.has(node) || !Number.isInteger(rank) || (rank as number) < 0) return `unionFind.rank of "${node}" must be a non-negative integer`;
+  }
+  const changed = unionFind.changed;
+  if (changed !== undefined && (!Array.isArray(changed) || changed.some(id => !ids.has(id)))) {
+    return 'unionFind.changed must be a list of node ids';
+  }
+  return null;
+}
+
+function checkGridFrame(frame: Frame): string | null {
+  const grid = frame.grid;
+  if (!isObject(grid) || !Number.isInteger(grid.rows) || !Number.isInteger(grid.cols)) return 'grid needs integer rows and cols';
+  const cellCount = (grid.rows as number) * (grid.cols as number);
+  if (!Array.isArray(grid.terrain) || grid.terrain.length !== cellCount) return 'grid.terrain must have one entry per cell';
+  if (!isIndex(grid.start, cellCount) || !isIndex(grid.goal, cellCount)) return 'grid start and goal must be cells of the grid';
+
+  const changes = frame.changes;
+  if (!Array.isArray(changes) || changes.length % 2 !== 0) return 'changes must be [cell, status] pairs';
+  for (let i = 0; i < changes.length; i += 2) {
+    if (!isIndex(changes[i], cellCount)) return `changes refers to cell ${String(changes[i])}, outside the grid`;
+    if (!Number.isInteger(changes[i + 1]) || changes[i + 1] < 0 || changes[i + 1] > MAX_CELL_STATUS) {
+      return `changes sets an unknown cell status ${String(changes[i + 1])}`;
+    }
+  }
+
+  if (frame.current !== null && !isIndex(frame.current, cellCount)) return 'current must be a cell of the grid or null';
+  if (!isNumber(frame.frontierSize) || !isNumber(frame.visitedCount)) return 'frontierSize and visitedCount must be numbers';
+  if (frame.pathCost !== null && !isNumber(frame.pathCost)) return 'pathCost must be a number or null';
+  if (frame.pathLength !== null && !isNumber(frame.pathLength)) return 'pathLength must be a number or null';
+  return null;
+}
+
+/**
+ * Check the chained buckets and open-addressing slots of a hash table
+ */
+function checkHashTable(buckets: unknown, slots: unknown): string | null {
+  if (!Array.isArray(buckets)) return 'buckets must be an array';
+
+  for (const [index, bucket] of buckets.entries()) {
+    // Walk the chain, guarding against cycles
+    let node: unknown = bucket;
+    for (let depth = 0; node !== null && node !== undefined; depth++) {
+      if (depth > 10000) return `bucket ${index} has a chain that never ends`;
+      if (!isObject(node) || typeof node.key !== 'string' || !isNumber(node.value)) {
+        return `bucket ${index} contains an entry without a string key and numeric value`;
+      }
+      node = node.next;
+    }
+  }
+
+  if (slots === undefined) return null;
+  if (!Array.isArray(slots)) return 'slots must be an array';
+  for (const [index, slot] of slots.entries()) {
+    if (slot === null) continue;
+    if (!isObject(slot) || typeof slot.key !== 'string' || !isNumber(slot.value)) {
+      return `slot ${index} must be empty or hold a string key and numeric value`;
+    }
+    if (slot.deleted !== undefined && typeof slot.deleted !== 'boolean') return `slot ${index} has a deleted flag that is not true or false`;
+  }
+  return null;
+}
+
+function checkHashFrame(frame: Frame): string | null {
+  const tableError = checkHashTable(frame.buckets, frame.slots);
+  if (tableError) return tableError;
+
+  // Under open addressing, indices refer to slots rather than buckets
+  const size = Array.isArray(frame.slots) ? frame.slots.length : (frame.buckets as unknown[]).length;
+  if (typeof frame.searchKey !== 'string') return 'searchKey must be a string';
+  if (frame.currentBucket !== -1 && !isIndex(frame.currentBucket, size)) return 'currentBucket must be a bucket or slot index or -1';
+  if (!Number.isInteger(frame.currentNode)) return 'currentNode must be an integer';
+  if (!Number.isInteger(frame.hashValue)) return 'hashValue must be an integer';
+  if (typeof frame.found !== 'boolean') return 'found must be true or false';
+  if (!Array.isArray(frame.searchPath) || frame.searchPath.some(index => !isIndex(index, size))) {
+    return 'searchPath must be a list of bucket or slot indices';
+  }
+
+  if (frame.strategy !== undefined && !COLLISION_STRATEGIES.includes(frame.strategy as string)) {
+    return `strategy must be one of ${COLLISION_STRATEGIES.join(', ')}`;
+  }
+  if (frame.operation !== undefined && !HASH_OPERATIONS.includes(frame.operation as string)) {
+    return `operation must be one of ${HASH_OPERATIONS.join(', ')}`;
+  }
+  if (frame.count !== undefined && !isIndex(frame.count, Infinity)) return 'count must be a non-negative integer';
+  if (frame.loadFactor !== undefined && !(isNumber(frame.loadFactor) && frame.loadFactor >= 0)) {
+    return 'loadFactor must be a non-negative number';
+  }
+  if (frame.resize !== undefined) {
+    const resize = frame.resize;
+    if (!isObject(resize)) return 'resize must be an object';
+    const resizeError = checkHashTable(resize.buckets, resize.slots);
+    if (resizeError) return `resize: ${resizeError}`;
+    const oldSize = Array.isArray(resize.slots) ? resize.slots.length : (resize.buckets as unknown[]).length;
+    if (resize.current !== -1 && !isIndex(resize.current, oldSize)) return 'resize.current must be an index of the old table or -1';
+  }
+  return null;
+}
+
+const checkers: Record<TraceKind, (frame: Frame) => string | null> = {
+  array: checkArrayFrame,
+  graph: checkGraphFrame,
+  grid: checkGridFrame,
+  hash: checkHashFrame,
+};
+
+/**
+ * Validate Trace
+ *
+ * @param value - Anything claiming to be a trace
+ * @returns The trace if every frame is well formed, otherwise the first problem found
+ */
+export function validateTrace(value: unknown): ValidatedTrace {
+  if (!Array.isArray(value)) {
+    return { trace: null, error: 'A trace must be a list of frames' };
+  }
+
+  let kind: TraceKind | null = null;
+  for (const [index, frame] of value.entries()) {
+    if (!isObject(frame)) {
+      return { trace: null, error: `Frame ${index + 1} is not an object` };
+    }
+    if (!TRACE_KINDS.includes(frame.kind as TraceKind)) {
+      return { trace: null, error: `Frame ${index + 1} has unknown kind "${String(frame.kind)}"` };
+    }
+    kind = kind ?? (frame.kind as TraceKind);
+    if (frame.kind !== kind) {
+      return { trace: null, error: `Frame ${index + 1} is a ${String(frame.kind)} frame in a ${kind} trace` };
+    }
+
+    const problem = checkStats(frame.stats) ?? checkNarration(frame) ?? checkWatch(frame.watch) ?? checkCallStack(frame.callStack) ?? checkers[kind](frame);
+    if (problem) {
+      return { trace: null, error: `Frame ${index + 1}: ${problem}` };
+    }
+  }
+
+  return { trace: value as Trace, error: null };
+}
@@ -0,0 +1,165 @@
+/**
+ * User Code Runner
+ *
+ * Runs the code written in the CodeEditor against the visualiser's input data.
+ * The code executes in the sandbox (see codeSandbox.ts), its output is checked
+ * against the expected result, and the recorded trace is turned into frames
+ * for the Visualiser.
+ */
+
+import { runInSandbox, SandboxError } from './codeSandbox';
+import { buildSortingFrames, buildSearchFrames } from './traceFrames';
+import { ArrayFrame } from '../algorithms/trace';
+import { getAlgorithmPlugin } from '../algorithms/registry';
+
+/**
+ * Run Result Interface
+ */
+export interface UserCodeRunResult {
+  states: ArrayFrame[];           // Frames to animate (may be empty on failure)
+  error: SandboxError | null;   // Structured error to show next to the editor
+  logs: string[];               // Console output captured from the run
+}
+
+/**
+ * Format a value for error details without flooding the panel
+ */
+function formatValue(value: unknown): string {
+  try {
+    const text = JSON.stringify(value);
+    return text === undefined ? String(value) : text;
+  } catch {
+    return String(value);
+  }
+}
+
+/**
+ * Check whether two arrays hold the same numbers in the same order
+ */
+function arraysEqual(a: unknown[], b: number[]): boolean {
+  return a.length === b.length && a.every((value, index) => value === b[index]);
+}
+
+/**
+ * Run User Code
+ *
+ * @param algorithmId - The algorithm the user is implementing
+ * @param code - The user's source code
+ * @param language - Editor language; only JavaScript can be executed
+ * @param input - The array to run the algorithm on
+ * @param target - Search target (search algorithms only)
+ * @returns Frames for the visualiser and a structured error, if any
+ */
+export async function runUserCode(
+  algorithmId: string,
+  code: string,
+  language: string,
+  input: number[],
+  target?: number
+): Promise<UserCodeRunResult> {
+  // Only algorithms whose plugin declares an entry point can be traced in the sandbox
+  const entry = getAlgorithmPlugin(algorithmId)?.entryPoint;
+
+  if (language !== 'javascript') {
+    return {
+      states: [],
+      logs: [],
+      error: {
+        kind: 'unsupported',
+        message: 'Only JavaScript can be run in the browser',
+        details: 'Switch the editor language to JavaScript to visualise your own implementation.'
+      }
+    };
+  }
+
+  if (!entry) {
+    return {
+      states: [],
+      logs: [],
+      error: {
+        kind: 'unsupported',
+        message: 'Running your own code is not yet supported for this algorithm',
+        details: 'Use the visualisation controls to step through the reference implementation.'
+      }
+    };
+  }
+
+  if (!code.trim()) {
+    return {
+      states: [],
+      logs: [],
+      error: { kind: 'syntax', message: 'Code cannot be empty', details: 'Please write some code before running.' }
+    };
+  }
+
+  const values = entry.requiresSorted ? [...input].sort((a, b) => a - b) : [...input];
+
+  if (entry.kind === 'sort') {
+    const result = await runInSandbox(code, entry.name, [values], 0);
+    const expected = [...values].sort((a, b) => a - b);
+
+    if (!result.ok) {
+      return {
+        states: buildSortingFrames(values, result.trace, false),
+        logs: result.logs,
+        error: result.error ?? null
+      };
+    }
+
+    // Accept either an in-place sort or a returned array
+    const output = Array.isArray(result.returnValue) ? result.returnValue : result.finalArray ?? [];
+    const correct = arraysEqual(output, expected);
+    const states = buildSortingFrames(values, result.trace, correct);
+
+    // Out-of-place implementations never write to the input, so show their result last
+    if (Array.isArray(result.returnValue) && correct) {
+      states.push({
+        kind: 'array',
+        values: [...expected],
+        comparing: [],
+        swapping: [],
+        sorted: expected.map((_, index) => index),
+        stats: states[states.length - 1].stats
+      });
+    }
+
+    return {
+      states,
+      logs: result.logs,
+      error: correct ? null : {
+        kind: 'wrong-output',
+        message: 'Your function did not sort the array correctly',
+        details: `Expected ${formatValue(expected)} but got ${formatValue(output)}`
+      }
+    };
+  }
+
+  // Searching algorithms
+  const searchTarget = target ?? values[Math.floor(values.length / 2)];
+  const result = await runInSandbox(code, entry.name, [values, searchTarget], 0);
+
+  if (!result.ok) {
+    return {
+      states: buildSearchFrames(values, result.trace, searchTarget, -1),
+      logs: result.logs,
+      error: result.error ?? null
+    };
+  }
+
+  const returned = result.returnValue;
+  const index = typeof returned === 'number' ? returned : NaN;
+  const present = values.includes(searchTarget);
+  const correct = present ? values[index] === searchTarget : index === -1;
+
+  return {
+    states: buildSearchFrames(values, result.trace, searchTarget, Number.isInteger(index) ? index : -1),
+    logs: result.logs,
+    error: correct ? null : {
+      kind: 'wrong-output',
+      message: 'Your function returned the wrong index',
+      details: present
+        ? `Target ${searchTarget} is at index ${values.indexOf(searchTarget)} but your function returned ${formatValue(returned)}`
+        : `Target ${searchTarget} is not in the array, so -1 was expected but your function returned ${formatValue(returned)}`
+    }
+  };
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { AlgorithmService } from './algorithmService';
+import { getDefaultEditableGraph } from './graphEditing';
+import { getDefaultGrid } from './gridEditing';
+import { getDefaultHashTable } from './hashEditing';
+import { DEFAULT_EXPORT_OPTIONS, MAX_EXPORT_FRAMES, parseExportRequest } from './videoExport';
+
+// Traces travel as JSON, with Infinity sent as text (see exportClient.ts)
+const asJson = (value: unknown) => JSON.parse(JSON.stringify(value, (_, item) => (item === Infinity ? 'Infinity' : item)));
+
+describe('parseExportRequest', () => {
+  it('generates the trace of a known algorithm with default options', () => {
+    const { value, error } = parseExportRequest({ algorithmId: 'bubble-sort', input: { values: '3, 1, 2' } });
+
+    expect(error).toBeNull();
+    expect(value?.trace[0]).toMatchObject({ kind: 'array', values: [3, 1, 2] });
+    expect(value?.options).toEqual(DEFAULT_EXPORT_OPTIONS);
+    expect(value?.async).toBe(false);
+  });
+
+  it('clamps the size and frame rate and rejects unknown formats', () => {
+    expect(parseExportRequest({ algorithmId: 'bubble-sort', width: 5000, height: 1, fps: 0 }).value?.options)
+      .toMatchObject({ width: 1920, height: 100, fps: 1 });
+    expect(parseExportRequest({ algorithmId: 'bubble-sort', format: 'avi' }).error).toBe('Unknown format "avi"; use gif, mp4, webm');
+  });
+
+  it('rejects bodies that are not objects and unknown algorithms', () => {
+    expect(parseExportRequest(null).error).toBe('The request must be a JSON object');
+    expect(parseExportRequest([]).error).toBe('The request must be a JSON object');
+    expect(parseExportRequest({ algorithmId: 'nope' }).error).toBe('Send a trace or the id of a known algorithm');
+  });
+
+  it('accepts a trace of MAX_EXPORT_FRAMES frames and rejects a longer one', () => {
+    const frame = asJson(AlgorithmService.generateSortingStates('bubble-sort', [2, 1])[0]);
+
+    expect(parseExportRequest({ trace: new Array(MAX_EXPORT_FRAMES).fill(frame) }).value?.trace).toHaveLength(MAX_EXPORT_FRAMES);
+    expect(parseExportRequest({ trace: new Array(MAX_EXPORT_FRAMES + 1).fill(frame) }).error)
+      .toBe(`The trace has ${MAX_EXPORT_FRAMES + 1} frames; at most ${MAX_EXPORT_FRAMES} can be exported`);
+  });
+
+  it('refuses grid pathfinding runs, sent as a trace or generated', () => {
+    const input = { values: [], target: null, graph: getDefaultEditableGraph(), hashTable: getDefaultHashTable() };
+    const trace = asJson(AlgorithmService.generateStates('a-star', input, getDefaultGrid()));
+
+    expect(parseExportRequest({ trace }).error).toBe('Grid pathfinding runs cannot be exported yet');
+    expect(parseExportRequest({ algorithmId: 'a-star', input: { gridMode: true } }).error).toBe('Grid pathfinding runs cannot be exported yet');
+    expect(parseExportRequest({ algorithmId: 'a-star', input: { gridMode: false } }).error).toBeNull();
+  });
+});
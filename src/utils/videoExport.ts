@@ -0,0 +1,164 @@
+/**
+ * Video Export Requests
+ *
+ * Shared by the export API route and its client. A request names either a
+ * ready trace (for example one built from user code) or an algorithm and
+ * its input, which is run here with the same generators as the visualiser.
+ * Input goes through the same checks as input saved to a user's progress
+ * (see parseSavedInput and restoreInput), which cap its size; parts that are
+ * missing or invalid fall back to the visualiser's defaults. Grid
+ * pathfinding runs cannot be drawn yet and are rejected.
+ */
+
+import { getAlgorithmPlugin } from '../algorithms/registry';
+import { Trace } from '../algorithms/trace';
+import { AlgorithmService } from './algorithmService';
+import { getDefaultEditableGraph } from './graphEditing';
+import { getDefaultHashTable } from './hashEditing';
+import { SavedInput, parseSavedInput, restoreInput } from './progress';
+import { validateTrace } from './traceValidator';
+
+export type VideoFormat = 'gif' | 'mp4' | 'webm';
+
+export const videoFormats: Record<VideoFormat, { label: string; mimeType: string }> = {
+  gif: { label: 'GIF', mimeType: 'image/gif' },
+  mp4: { label: 'MP4', mimeType: 'video/mp4' },
+  webm: { label: 'WebM', mimeType: 'video/webm' },
+};
+
+// Limits on one export, so a request cannot tie up the server
+export const MAX_EXPORT_FRAMES = 1000;
+export const MAX_EXPORT_BODY_LENGTH = 5_000_000;    // Bytes of JSON
+const MIN_WIDTH = 100;
+const MAX_WIDTH = 1920;
+const MIN_HEIGHT = 100;
+const MAX_HEIGHT = 1080;
+const MAX_FPS = 30;
+
+/**
+ * Export Options Interface
+ */
+export interface ExportOptions {
+  format: VideoFormat;
+  width: number;          // Picture width in pixels
+  height: number;         // Picture height in pixels
+  fps: number;            // Frames per second
+  loop: boolean;          // Whether a GIF repeats (videos never loop)
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: 'gif',
+  width: 800,
+  height: 600,
+  fps: 2,
+  loop: true,
+};
+
+/**
+ * Export Request Interface
+ */
+export interface ExportRequest {
+  trace: Trace;
+  title: string;          // Shown above bar charts
+  options: ExportOptions;
+  async: boolean;         // Return a job id to poll instead of waiting for the file
+}
+
+/**
+ * Parse Result Interface
+ */
+export interface ParsedExportRequest {
+  value: ExportRequest | null;
+  error: string | null;
+}
+
+const GRID_ERROR = 'Grid pathfinding runs cannot be exported yet';
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const clamp = (value: unknown, min: number, max: number, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, Math.round(value))) : fallback;
+
+function parseOptions(body: Record<string, unknown>): ExportOptions | string {
+  const requested = body.format ?? DEFAULT_EXPORT_OPTIONS.format;
+  const format = (Object.keys(videoFormats) as VideoFormat[]).find(id => id === requested);
+  if (!format) {
+    return `Unknown format "${String(requested)}"; use ${Object.keys(videoFormats).join(', ')}`;
+  }
+  return {
+    format,
+    width: clamp(body.width, MIN_WIDTH, MAX_WIDTH, DEFAULT_EXPORT_OPTIONS.width),
+    height: clamp(body.height, MIN_HEIGHT, MAX_HEIGHT, DEFAULT_EXPORT_OPTIONS.height),
+    fps: clamp(body.fps, 1, MAX_FPS, DEFAULT_EXPORT_OPTIONS.fps),
+    loop: typeof body.loop === 'boolean' ? body.loop : DEFAULT_EXPORT_OPTIONS.loop,
+  };
+}
+
+/**
+ * Generate a trace from an algorithm id and saved input
+ *
+ * Restored input is as small as the editors allow (30 values, 26 nodes,
+ * 25 hash table operations), which keeps the trace under 1500 frames.
+ */
+function generateTrace(algorithmId: string, saved: SavedInput): Trace | string {
+  const plugin = getAlgorithmPlugin(algorithmId)!;
+  const input = restoreInput(saved);
+  if (input.gridMode && plugin.supportsGrid) return GRID_ERROR;
+
+  return AlgorithmService.generateStates(algorithmId, {
+    values: input.values ?? plugin.defaultInput ?? AlgorithmService.getDefaultSortingData(),
+    target: input.target,
+    graph: input.graph ?? getDefaultEditableGraph(),
+    hashTable: input.hashTable ?? getDefaultHashTable(),
+  });
+}
+
+/**
+ * Parse Export Request
+ *
+ * @param body - JSON body of an export request
+ * @returns The request with its trace, or why it was rejected
+ */
+export function parseExportRequest(body: unknown): ParsedExportRequest {
+  if (!isObject(body)) {
+    return { value: null, error: 'The request must be a JSON object' };
+  }
+
+  const options = parseOptions(body);
+  if (typeof options === 'string') {
+    return { value: null, error: options };
+  }
+
+  let trace: Trace;
+  let title: string;
+  if (body.trace !== undefined) {
+    // Check the length before validating every frame
+    if (Array.isArray(body.trace) && body.trace.length > MAX_EXPORT_FRAMES) {
+      return { value: null, error: `The trace has ${body.trace.length} frames; at most ${MAX_EXPORT_FRAMES} can be exported` };
+    }
+    const validated = validateTrace(body.trace);
+    if (!validated.trace) return { value: null, error: validated.error };
+    if (validated.trace[0]?.kind === 'grid') return { value: null, error: GRID_ERROR };
+    trace = validated.trace;
+    title = typeof body.title === 'string' ? body.title.slice(0, 100) : 'Algorithm Visualization';
+  } else if (typeof body.algorithmId === 'string' && getAlgorithmPlugin(body.algorithmId)) {
+    const saved = parseSavedInput({ algorithmId: body.algorithmId, input: body.input ?? {} });
+    if (!saved.value) return { value: null, error: saved.error };
+    const generated = generateTrace(body.algorithmId, saved.value.input);
+    if (typeof generated === 'string') return { value: null, error: generated };
+    trace = generated;
+    title = body.algorithmId;
+  } else {
+    return { value: null, error: 'Send a trace or the id of a known algorithm' };
+  }
+
+  if (trace.length === 0) {
+    return { value: null, error: 'The trace has no frames to export' };
+  }
+  if (trace.length > MAX_EXPORT_FRAMES) {
+    return { value: null, error: `The trace has ${trace.length} frames; at most ${MAX_EXPORT_FRAMES} can be exported` };
+  }
+
+  return { value: { trace, title, options, async: body.async === true }, error: null };
+}